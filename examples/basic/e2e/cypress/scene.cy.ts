@@ -225,3 +225,126 @@ describe('Selection', () => {
     cy.r3fClearSelection();
   });
 });
+
+describe('Queries', () => {
+  beforeEach(() => {
+    cy.visit('/');
+    cy.r3fWaitForSceneReady();
+  });
+
+  it('query selects by testId glob and hierarchy', () => {
+    cy.r3fQuery('#table-leg-*').then((legs) => {
+      expect(legs.map((m) => m.testId).sort()).to.deep.equal([
+        'table-leg-1', 'table-leg-2', 'table-leg-3', 'table-leg-4',
+      ]);
+    });
+    cy.r3fQuery('#stacked-boxes > Mesh').should('have.length', 3);
+  });
+
+  it('box query finds the objects on the table', () => {
+    cy.r3fGetInBox({ min: [1, 0.6, -0.6], max: [3, 1.2, 0.6] }).then((objects) => {
+      const ids = objects.map((m) => m.testId);
+      expect(ids).to.include('table-top');
+      expect(ids).to.include('vase');
+      expect(ids).to.not.include('chair-primary');
+    });
+  });
+
+  it('material appearance is read from the scene', () => {
+    cy.wrap(null).should('r3fColor', 'table-top', '#8b4513');
+  });
+
+  it('effective visibility reports rendered objects', () => {
+    cy.wrap(null).should('r3fEffectivelyVisible', 'vase');
+    cy.r3fGetEffectiveVisibility('table-top').should('deep.equal', { visible: true });
+  });
+
+  it('scene is within its render budget', () => {
+    cy.wrap(null).should('r3fWithinBudget', { drawCalls: 200, triangles: 500_000, textureMB: 64 });
+    cy.r3fStayWithinBudget({ drawCalls: 200, triangles: 500_000 }, { duration: 500 });
+  });
+
+  it('objects without a testId are addressable by path', () => {
+    cy.r3fGetPath('book').then((path) => {
+      expect(path).to.contain('Shelf');
+      cy.r3fGetObject(path!).its('testId').should('equal', 'book');
+    });
+  });
+});
+
+describe('Snapshots', () => {
+  beforeEach(() => {
+    cy.visit('/');
+    cy.r3fWaitForSceneReady();
+  });
+
+  it('binary and JSON snapshots describe the same scene', () => {
+    cy.r3fSnapshot({ root: 'table-group' }).then((json) => {
+      cy.r3fSnapshotBinary({ root: 'table-group' }).then((binary) => {
+        cy.r3fDiffSnapshots(json, binary, { tolerance: 1e-4 }).then((diff) => {
+          expect(diff.added).to.be.empty;
+          expect(diff.removed).to.be.empty;
+          expect(diff.changed).to.be.empty;
+        });
+      });
+    });
+  });
+
+  it('field-limited snapshots only carry the requested fields', () => {
+    const boxes = ['stacked-box-1', 'stacked-box-2', 'stacked-box-3'];
+    cy.r3fSnapshot({ root: 'stacked-boxes', fields: ['testId'] }).then((snap) => {
+      expect(snap.tree.children.map((n) => n.testId)).to.deep.equal(boxes);
+      expect(snap.tree.children[0]).to.not.have.property('position');
+    });
+    cy.r3fSnapshotBinary({ root: 'stacked-boxes', fields: ['testId'] }).then((snap) => {
+      expect(snap.tree.children.map((n) => n.testId)).to.deep.equal(boxes);
+    });
+  });
+
+  it('static objects diff clean across a reload when paired by testId', () => {
+    cy.r3fSnapshot({ root: 'table-group' }).then((before) => {
+      cy.reload();
+      cy.r3fWaitForSceneReady();
+      cy.r3fSnapshot({ root: 'table-group' }).then((after) => {
+        cy.r3fDiffSnapshots(before, after, { matchBy: 'testId' }).then((diff) => {
+          expect(diff.added).to.be.empty;
+          expect(diff.removed).to.be.empty;
+          expect(diff.changed).to.be.empty;
+        });
+      });
+    });
+  });
+});
+
+describe('Keyboard and gestures', () => {
+  beforeEach(() => {
+    cy.visit('/');
+    cy.r3fWaitForSceneReady();
+  });
+
+  it('key presses reach the canvas', () => {
+    const keys: string[] = [];
+    cy.get('canvas').then(($canvas) => {
+      $canvas[0].addEventListener('keydown', (e) => keys.push(e.key));
+    });
+    cy.r3fPress('Shift+R');
+    cy.r3fPress('Escape');
+    cy.wrap(keys).should('deep.equal', ['Shift', 'R', 'Escape']);
+  });
+
+  it('long press on the table does not throw', () => {
+    cy.r3fLongPress('table-top', { durationMs: 200 });
+  });
+
+  it('drag without capture is released on the canvas', () => {
+    cy.r3fCaptureDrag('table-top', { dx: 40, dy: 0 }).then((drag) => {
+      expect(drag.dispatched).to.be.true;
+      expect(drag.captured).to.be.false;
+      expect(drag.releasedOutside).to.be.false;
+    });
+  });
+
+  it('vase can be dragged onto the table', () => {
+    cy.r3fDragTo('vase', 'table-top').its('dispatched').should('be.true');
+  });
+});
@@ -92,4 +92,118 @@ test.describe('Basic example scene', () => {
     const count = await r3f.getCount();
     expect(count).toBeGreaterThan(15);
   });
+
+  test('query selects by type, testId glob and hierarchy', async ({ r3f }) => {
+    const legs = await r3f.query('#table-leg-*');
+    expect(legs.map((m) => m.testId).sort()).toEqual(['table-leg-1', 'table-leg-2', 'table-leg-3', 'table-leg-4']);
+
+    const boxes = await r3f.query('#stacked-boxes > Mesh');
+    expect(boxes).toHaveLength(3);
+
+    const lights = await r3f.query('PointLight');
+    expect(lights.map((m) => m.testId)).toContain('fill-light');
+  });
+
+  test('spatial queries find objects around the table', async ({ r3f }) => {
+    const inBox = await r3f.getInBox({ min: [1, 0.6, -0.6], max: [3, 1.2, 0.6] });
+    const ids = inBox.map((m) => m.testId);
+    expect(ids).toContain('table-top');
+    expect(ids).toContain('vase');
+    expect(ids).not.toContain('chair-primary');
+
+    const near = await r3f.getWithinRadius([-2, 0, -2], 1);
+    expect(near.map((m) => m.testId)).toContain('stacked-box-1');
+  });
+
+  test('material appearance is read from the scene', async ({ r3f }) => {
+    await expect(r3f).toHaveColor('table-top', '#8b4513');
+    await expect(r3f).toHaveOpacity('table-top', 1);
+  });
+
+  test('effective visibility reports rendered objects', async ({ r3f }) => {
+    await expect(r3f).toBeEffectivelyVisible('vase');
+    const vis = await r3f.getEffectiveVisibility('table-top');
+    expect(vis).toEqual({ visible: true });
+  });
+
+  test('scene stays within its render budget', async ({ r3f }) => {
+    const stats = await r3f.getSceneStats();
+    expect(stats!.drawCalls).toBeGreaterThan(0);
+    await expect(r3f).toBeWithinBudget({ drawCalls: 200, triangles: 500_000, textureMB: 64 });
+    await expect(r3f).toStayWithinBudget({ drawCalls: 200, triangles: 500_000 }, { duration: 500 });
+  });
+
+  test('objects without a testId are addressable by path', async ({ r3f }) => {
+    const path = await r3f.getPath('book');
+    expect(path).toContain('Shelf');
+    const book = await r3f.getObject(path!);
+    expect(book?.testId).toBe('book');
+  });
+
+  test('binary and JSON snapshots describe the same scene', async ({ r3f }) => {
+    const json = await r3f.snapshot({ root: 'table-group' });
+    const binary = await r3f.snapshotBinary({ root: 'table-group' });
+    const diff = r3f.diffSnapshots(json!, binary!, { tolerance: 1e-4 });
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  test('field-limited snapshots only carry the requested fields', async ({ r3f }) => {
+    const snap = await r3f.snapshot({ root: 'stacked-boxes', fields: ['testId'] });
+    const [first] = snap!.tree.children;
+    expect(snap!.tree.children.map((n) => n.testId)).toEqual(['stacked-box-1', 'stacked-box-2', 'stacked-box-3']);
+    expect(first).not.toHaveProperty('position');
+
+    const binary = await r3f.snapshotBinary({ root: 'stacked-boxes', fields: ['testId'] });
+    expect(binary!.tree.children.map((n) => n.testId)).toEqual(['stacked-box-1', 'stacked-box-2', 'stacked-box-3']);
+  });
+
+  test('snapshot filter predicates run in the page', async ({ r3f }) => {
+    const snap = await r3f.snapshot({
+      root: 'decor-group',
+      filter: (meta) => meta.testId?.startsWith('stacked-box-') ?? false,
+    });
+    expect(snap!.objectCount).toBe(4);
+  });
+
+  test('static objects diff clean across a reload when paired by testId', async ({ page, r3f }) => {
+    const before = await r3f.snapshot({ root: 'table-group' });
+    await page.reload();
+    await r3f.waitForSceneReady({ timeout: 15_000 });
+    const after = await r3f.snapshot({ root: 'table-group' });
+
+    const diff = r3f.diffSnapshots(before!, after!, { matchBy: 'testId' });
+    expect(diff.added).toEqual([]);
+    expect(diff.removed).toEqual([]);
+    expect(diff.changed).toEqual([]);
+  });
+
+  test('key presses reach the canvas', async ({ page, r3f }) => {
+    await page.evaluate(() => {
+      const keys: string[] = [];
+      document.querySelector('canvas')!.addEventListener('keydown', (e) => keys.push(e.key));
+      (window as unknown as { __keys: string[] }).__keys = keys;
+    });
+    await r3f.press('Shift+R');
+    await r3f.press('Escape');
+    const keys = await page.evaluate(() => (window as unknown as { __keys: string[] }).__keys);
+    expect(keys).toEqual(['Shift', 'R', 'Escape']);
+  });
+
+  test('long press on the table does not throw', async ({ r3f }) => {
+    await r3f.longPress('table-top', { durationMs: 200 });
+  });
+
+  test('drag without capture is released on the canvas', async ({ r3f }) => {
+    const drag = await r3f.captureDrag('table-top', { dx: 40, dy: 0 });
+    expect(drag.dispatched).toBe(true);
+    expect(drag.captured).toBe(false);
+    expect(drag.releasedOutside).toBe(false);
+  });
+
+  test('vase can be dragged onto the table', async ({ r3f }) => {
+    const drop = await r3f.dragTo('vase', 'table-top');
+    expect(drop.dispatched).toBe(true);
+  });
 });
@@ -1,18 +1,25 @@
 import { useEffect, useRef } from 'react';
 import { useThree, useFrame } from '@react-three/fiber';
-import { Vector3 } from 'three';
-import type { Object3D, Scene, Camera } from 'three';
+import { Box3, Frustum, Matrix4, Vector3 } from 'three';
+import type { Object3D, Scene, Camera, WebGLInfo } from 'three';
 import { ObjectStore } from '../store/ObjectStore';
 import { DomMirror } from '../mirror/DomMirror';
 import { ensureCustomElements } from '../mirror/CustomElements';
 import { patchObject3D } from './patchObject3D';
 import { createSnapshot } from '../snapshot/snapshot';
+import { encodeSnapshotBase64 } from '../snapshot/binarySnapshot';
+import { RenderInfoSampler, collectSceneStats } from '../stats/sceneStats';
+import { SnapshotWorker } from '../worker/SnapshotWorker';
 import { click3D, doubleClick3D, contextMenu3D } from '../interactions/click';
 import { hover3D, unhover3D } from '../interactions/hover';
-import { drag3D } from '../interactions/drag';
+import { drag3D, dragTo3D } from '../interactions/drag';
 import { wheel3D } from '../interactions/wheel';
+import { longPress3D } from '../interactions/longPress';
+import { captureDrag3D } from '../interactions/captureDrag';
 import { pointerMiss3D } from '../interactions/pointerMiss';
 import { drawPath as drawPathFn } from '../interactions/drawPath';
+import { pinch3D, rotateGesture3D, twoFingerPan3D } from '../interactions/gestures';
+import { press3D, type3D, keyDown3D, keyUp3D } from '../interactions/keyboard';
 import { clickAtWorld, doubleClickAtWorld, contextMenuAtWorld, hoverAtWorld, clickAtWorldSequence } from '../interactions/worldInteraction';
 import { setInteractionState, clearInteractionState } from '../interactions/resolve';
 import { SelectionManager } from '../highlight/SelectionManager';
@@ -22,7 +29,16 @@ import { RaycastAccelerator } from '../highlight/RaycastAccelerator';
 import { resolveSelectionDisplayTarget } from '../highlight/selectionDisplayTarget';
 import { version } from '../version';
 import { r3fLog, enableDebug } from '../debug';
-import type { R3FDOM, ObjectMetadata, CameraState } from '../types';
+import type {
+  R3FDOM,
+  ObjectMetadata,
+  CameraState,
+  MetadataExtractor,
+  SceneSnapshot,
+  PartialSceneSnapshot,
+  SnapshotOptions,
+  GestureResult,
+} from '../types';
 
 // ---------------------------------------------------------------------------
 // ThreeDom Props
@@ -71,6 +87,40 @@ export interface ThreeDomProps {
   debug?: boolean;
   /** Enable inspect mode on mount. Default: false */
   inspect?: boolean;
+  /**
+   * Track material color/opacity/visibility, map texture and light
+   * intensity/color/castShadow in Tier 1 metadata, snapshots and mirror
+   * `data-*` attributes. Default: false
+   */
+  extendedMetadata?: boolean;
+  /**
+   * Record a per-object timeline of transform, visibility and parent
+   * changes, read with `__R3F_DOM__.getHistory(id)`. `true` keeps the last
+   * 50 entries per object; a number sets the capacity. Default: false
+   */
+  history?: boolean | number;
+  /**
+   * App-defined metadata fields computed per object (e.g. from userData).
+   * Values appear in `metadata.custom`, snapshots and `data-*` attributes,
+   * and can be looked up with `getByField`. The bridge is rebuilt when the
+   * set of extractor names changes, so inline arrays are fine.
+   */
+  extractors?: MetadataExtractor[];
+  /**
+   * userData keys to index for `getByUserData` from mount. Other keys get
+   * an index the first time they are queried unless `lazyUserDataIndexes`
+   * is false. Index usage is reported in `getDiagnostics().userDataIndexes`.
+   */
+  userDataIndexes?: string[];
+  /** Build userData indexes on first query for undeclared keys (up to 16). Default: true */
+  lazyUserDataIndexes?: boolean;
+  /**
+   * Compute `snapshotAsync`, `fuzzyFindAsync`, `diffAsync` and
+   * `sceneHashAsync` in a Web Worker fed with Tier 1 metadata once per
+   * frame. Falls back to the main thread when workers are unavailable
+   * (e.g. a CSP without `worker-src blob:`). Default: false
+   */
+  worker?: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -82,6 +132,8 @@ const _mirrors = new Map<string, DomMirror>();
 const _selectionManagers = new Map<string, SelectionManager>();
 const _highlighters = new Map<string, Highlighter>();
 const _inspectControllers = new Map<string, InspectController>();
+const _renderSamplers = new Map<string, RenderInfoSampler>();
+const _snapshotWorkers = new Map<string, SnapshotWorker>();
 const _filters = new Map<string, ((obj: Object3D) => boolean) | null>();
 const _modes = new Map<string, 'auto' | 'manual'>();
 
@@ -145,14 +197,25 @@ function exposeGlobalAPI(
   selMgr: SelectionManager | null,
   inspCtrl: InspectController | null,
   mirror: DomMirror | null,
+  renderSampler: RenderInfoSampler | null,
+  snapshotWorker: SnapshotWorker,
   canvasId?: string,
   isPrimary = true,
 ): void {
+  // Overloaded like R3FDOM.snapshot: nodes are partial when `fields` is set
+  function snapshot(options?: SnapshotOptions & { fields?: undefined }): SceneSnapshot;
+  function snapshot(options?: SnapshotOptions): PartialSceneSnapshot;
+  function snapshot(options?: SnapshotOptions): SceneSnapshot | PartialSceneSnapshot {
+    return createSnapshot(store, options);
+  }
+
   const api: R3FDOM = {
     _ready: true,
     canvasId,
     getByTestId: (id: string) => store.getByTestId(id),
     getByUuid: (uuid: string) => store.getByUuid(uuid),
+    getByPath: (path: string) => store.getByPath(path),
+    getPath: (idOrUuid: string) => store.getPath(idOrUuid),
     getByName: (name: string) => store.getByName(name),
     getChildren: (idOrUuid: string) => store.getChildren(idOrUuid),
     getParent: (idOrUuid: string) => store.getParent(idOrUuid),
@@ -161,6 +224,31 @@ function exposeGlobalAPI(
     getByGeometryType: (type: string) => store.getByGeometryType(type),
     getByMaterialType: (type: string) => store.getByMaterialType(type),
     getByUserData: (key: string, value?: unknown) => store.getByUserData(key, value),
+    getByField: (name, value) => store.getByField(name, value),
+    query: (selector: string) => store.query(selector),
+    getInBox: (box, options) =>
+      store.getInBox(
+        new Box3(new Vector3(...box.min), new Vector3(...box.max)),
+        options,
+      ),
+    getWithinRadius: (center, radius, options) =>
+      store.getWithinRadius(new Vector3(...center), radius, options),
+    getInFrustum: (cameraIdOrUuid, options) => {
+      const cam = cameraIdOrUuid ? store.getObject3D(cameraIdOrUuid) : cameraRef.current;
+      if (!cam || !(cam as Camera).isCamera) {
+        throw new Error(`[react-three-dom] getInFrustum: "${cameraIdOrUuid}" is not a registered camera`);
+      }
+      const camera = cam as Camera;
+      camera.updateWorldMatrix(true, false);
+      const frustum = new Frustum().setFromProjectionMatrix(
+        new Matrix4().multiplyMatrices(camera.projectionMatrix, camera.matrixWorldInverse),
+      );
+      return store.getInFrustum(frustum, options);
+    },
+    getEffectiveVisibility: (idOrUuid: string, options?: { frustum?: boolean }) =>
+      store.getEffectiveVisibility(idOrUuid, { frustum: options?.frustum ?? true }),
+    getInstances: (idOrUuid: string) => store.getInstances(idOrUuid),
+    getInstance: (id: string) => store.getInstance(id),
     getCountByType: (type: string) => store.getCountByType(type),
     getObjects: (ids: string[]) => {
       const map = store.getObjects(ids);
@@ -170,7 +258,14 @@ function exposeGlobalAPI(
       }
       return result;
     },
-    snapshot: () => createSnapshot(store),
+    snapshot,
+    snapshotBinary: (options) => encodeSnapshotBase64(createSnapshot(store, options)),
+    snapshotAsync: () => snapshotWorker.snapshot(),
+    diffAsync: (before, after) => snapshotWorker.diff(before, after),
+    sceneHashAsync: () => snapshotWorker.hash(),
+    getChangesSince: (since: number) => store.getChangesSince(since),
+    getJournalSeq: () => store.getJournalSeq(),
+    getHistory: (id: string) => store.getHistory(id),
     inspect: (idOrUuid: string, options?: { includeGeometryData?: boolean }) => store.inspect(idOrUuid, options),
     click: (idOrUuid: string) => { click3D(idOrUuid); },
     doubleClick: (idOrUuid: string) => { doubleClick3D(idOrUuid); },
@@ -179,11 +274,28 @@ function exposeGlobalAPI(
     unhover: () => { unhover3D(); },
     drag: async (idOrUuid: string, delta: { x: number; y: number; z: number }) => { await drag3D(idOrUuid, delta); },
     wheel: (idOrUuid: string, options?: { deltaY?: number; deltaX?: number }) => { wheel3D(idOrUuid, options); },
+    longPress: async (idOrUuid, options) => { await longPress3D(idOrUuid, options); },
+    captureDrag: (idOrUuid, to, options) => captureDrag3D(idOrUuid, to, options),
+    dragTo: async (sourceId, targetId, options) => {
+      const { raycast, ...result } = await dragTo3D(sourceId, targetId, options);
+      // Drop the occluder Object3D so the result stays serializable
+      return {
+        ...result,
+        ...(raycast ? { raycast: { hit: raycast.hit, occluderLabel: raycast.occluderLabel } } : {}),
+      };
+    },
     pointerMiss: () => { pointerMiss3D(); },
     drawPath: async (points, options) => {
       const result = await drawPathFn(points, options);
       return { eventCount: result.eventCount, pointCount: result.pointCount };
     },
+    pinch: (scale, options) => pinch3D(scale, options),
+    rotateGesture: (degrees, options) => rotateGesture3D(degrees, options),
+    twoFingerPan: (delta, options) => twoFingerPan3D(delta, options),
+    press: async (key, options) => { await press3D(key, options); },
+    type: async (text, options) => { await type3D(text, options); },
+    keyDown: (key, options) => { keyDown3D(key, options); },
+    keyUp: (key, options) => { keyUp3D(key, options); },
     clickAtWorld: (point, options) => clickAtWorld(point, options),
     doubleClickAtWorld: (point, options) => doubleClickAtWorld(point, options),
     contextMenuAtWorld: (point, options) => contextMenuAtWorld(point, options),
@@ -237,7 +349,10 @@ function exposeGlobalAPI(
         } catch { return 'unknown'; }
       })(),
       dirtyQueueSize: store.getDirtyCount(),
+      userDataIndexes: store.getUserDataIndexStats(),
+      snapshotWorker: snapshotWorker.mode,
     }),
+    getSceneStats: () => collectSceneStats(store, renderSampler),
     getCameraState: (): CameraState => {
       const cam = cameraRef.current;
       const dir = new Vector3(0, 0, -1).applyQuaternion(cam.quaternion);
@@ -301,21 +416,11 @@ function exposeGlobalAPI(
       obj.traverse((child) => store.unregister(child));
       r3fLog('bridge', `r3fUnregister: "${obj.userData?.testId || obj.name || obj.uuid.slice(0, 8)}" (${obj.type})`);
     },
-    fuzzyFind: (query: string, limit = 5) => {
-      const q = query.toLowerCase();
-      const results: ObjectMetadata[] = [];
-      for (const obj of store.getFlatList()) {
-        if (results.length >= limit) break;
-        const meta = store.getMetadata(obj);
-        if (!meta) continue;
-        const testId = meta.testId?.toLowerCase() ?? '';
-        const name = meta.name?.toLowerCase() ?? '';
-        if (testId.includes(q) || name.includes(q) || meta.uuid.startsWith(q)) {
-          results.push(meta);
-        }
-      }
-      return results;
-    },
+    r3fRegisterMixer: (mixer) => store.registerMixer(mixer),
+    r3fUnregisterMixer: (mixer) => store.unregisterMixer(mixer),
+    getAnimations: (rootIdOrUuid?: string) => store.getAnimations(rootIdOrUuid),
+    fuzzyFind: (query: string, limit = 5) => store.fuzzyFind(query, limit),
+    fuzzyFindAsync: (query: string, limit = 5) => snapshotWorker.fuzzyFind(query, limit),
     version,
   };
 
@@ -371,12 +476,29 @@ function removeGlobalAPI(onlyIfEquals?: R3FDOM, canvasId?: string): void {
 // ---------------------------------------------------------------------------
 
 function createStubBridge(error?: string, canvasId?: string): R3FDOM {
+  const emptySnapshot = (): SceneSnapshot => ({
+    timestamp: 0,
+    objectCount: 0,
+    tree: {
+      uuid: '', name: '', type: 'Scene', visible: true,
+      position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], children: [],
+    },
+  });
+  const emptyGesture = (): GestureResult => ({
+    dispatched: false,
+    center: { x: 0, y: 0 },
+    startPoints: [{ x: 0, y: 0 }, { x: 0, y: 0 }],
+    endPoints: [{ x: 0, y: 0 }, { x: 0, y: 0 }],
+    pointerIds: [],
+  });
   return {
     _ready: false,
     _error: error,
     canvasId,
     getByTestId: () => null,
     getByUuid: () => null,
+    getByPath: () => null,
+    getPath: () => null,
     getByName: () => [],
     getChildren: () => [],
     getParent: () => null,
@@ -385,20 +507,28 @@ function createStubBridge(error?: string, canvasId?: string): R3FDOM {
     getByGeometryType: () => [],
     getByMaterialType: () => [],
     getByUserData: () => [],
+    getByField: () => [],
+    query: () => [],
+    getInBox: () => [],
+    getWithinRadius: () => [],
+    getInFrustum: () => [],
+    getEffectiveVisibility: () => null,
+    getInstances: () => [],
+    getInstance: () => null,
     getCountByType: () => 0,
     getObjects: (ids: string[]) => {
       const result: Record<string, null> = {};
       for (const id of ids) result[id] = null;
       return result;
     },
-    snapshot: () => ({
-      timestamp: 0,
-      objectCount: 0,
-      tree: {
-        uuid: '', name: '', type: 'Scene', visible: true,
-        position: [0, 0, 0], rotation: [0, 0, 0], scale: [1, 1, 1], children: [],
-      },
-    }),
+    snapshot: emptySnapshot,
+    snapshotBinary: () => encodeSnapshotBase64(emptySnapshot()),
+    snapshotAsync: async () => emptySnapshot(),
+    diffAsync: async () => ({ added: [], removed: [], changed: [], reparented: [], renamed: [], reordered: [] }),
+    sceneHashAsync: async () => '',
+    getChangesSince: (since: number) => ({ since, seq: 0, truncated: false, batches: [] }),
+    getJournalSeq: () => 0,
+    getHistory: () => [],
     inspect: () => null,
     click: () => {},
     doubleClick: () => {},
@@ -407,8 +537,33 @@ function createStubBridge(error?: string, canvasId?: string): R3FDOM {
     unhover: () => {},
     drag: async () => {},
     wheel: () => {},
+    longPress: async () => {},
+    captureDrag: async () => ({
+      dispatched: false,
+      startPoint: { x: 0, y: 0 },
+      endPoint: { x: 0, y: 0 },
+      captured: false,
+      releasedOutside: false,
+      releaseTarget: '',
+      received: { pointerMove: [], pointerUp: [] },
+    }),
+    dragTo: async () => ({
+      dispatched: false,
+      startPoint: { x: 0, y: 0 },
+      dropPoint: { x: 0, y: 0 },
+      captured: false,
+      position: [0, 0, 0],
+      worldPosition: [0, 0, 0],
+    }),
     pointerMiss: () => {},
     drawPath: async () => ({ eventCount: 0, pointCount: 0 }),
+    pinch: async () => emptyGesture(),
+    rotateGesture: async () => emptyGesture(),
+    twoFingerPan: async () => emptyGesture(),
+    press: async () => {},
+    type: async () => {},
+    keyDown: () => {},
+    keyUp: () => {},
     clickAtWorld: () => ({ dispatched: false, screenPoint: { x: 0, y: 0 }, behindCamera: false }),
     doubleClickAtWorld: () => ({ dispatched: false, screenPoint: { x: 0, y: 0 }, behindCamera: false }),
     contextMenuAtWorld: () => ({ dispatched: false, screenPoint: { x: 0, y: 0 }, behindCamera: false }),
@@ -423,6 +578,9 @@ function createStubBridge(error?: string, canvasId?: string): R3FDOM {
     getInspectMode: () => false,
     r3fRegister: () => {},
     r3fUnregister: () => {},
+    r3fRegisterMixer: () => {},
+    r3fUnregisterMixer: () => {},
+    getAnimations: () => [],
     sweepOrphans: () => 0,
     getDiagnostics: () => ({
       version,
@@ -439,7 +597,19 @@ function createStubBridge(error?: string, canvasId?: string): R3FDOM {
       canvasHeight: 0,
       webglRenderer: 'unavailable',
       dirtyQueueSize: 0,
+      userDataIndexes: { keys: [], entries: 0, hits: 0, misses: 0 },
+      snapshotWorker: 'sync',
     }),
+    getSceneStats: () => {
+      const zero = { frame: 0, drawCalls: 0, triangles: 0, points: 0, lines: 0, programs: 0, geometries: 0, textures: 0 };
+      return {
+        ...zero,
+        materials: 0,
+        textureBytes: 0,
+        gpuMemory: { geometries: 0, textures: 0 },
+        delta: { ...zero },
+      };
+    },
     getCameraState: () => ({
       type: 'unknown',
       position: [0, 0, 0] as [number, number, number],
@@ -450,6 +620,7 @@ function createStubBridge(error?: string, canvasId?: string): R3FDOM {
       zoom: 1,
     }),
     fuzzyFind: () => [],
+    fuzzyFindAsync: async () => [],
     version,
   };
 }
@@ -471,6 +642,12 @@ export function ThreeDom({
   enabled = true,
   debug = false,
   inspect: inspectProp = false,
+  extendedMetadata = false,
+  history = false,
+  extractors,
+  userDataIndexes,
+  lazyUserDataIndexes = true,
+  worker = false,
 }: ThreeDomProps = {}) {
   const isPrimary = primary ?? (canvasId === undefined);
   const instanceKey = canvasId ?? '';
@@ -482,6 +659,14 @@ export function ThreeDom({
   const lastSweepRef = useRef(0);
   const cameraRef = useRef(camera);
   cameraRef.current = camera;
+  // Read through a ref so a new array identity each render does not rebuild
+  // the bridge; only a different set of names does
+  const extractorsRef = useRef(extractors);
+  extractorsRef.current = extractors;
+  const extractorKey = extractors?.map((e) => e.name).join(',') ?? '';
+  const userDataIndexesRef = useRef(userDataIndexes);
+  userDataIndexesRef.current = userDataIndexes;
+  const userDataIndexKey = userDataIndexes?.join(',') ?? '';
 
   // -----------------------------------------------------------------------
   // Setup
@@ -526,6 +711,8 @@ export function ThreeDom({
     let highlighter: Highlighter | null = null;
     let raycastAccelerator: RaycastAccelerator | null = null;
     let inspectController: InspectController | null = null;
+    let renderSampler: RenderInfoSampler | null = null;
+    let snapshotWorker: SnapshotWorker | null = null;
     let currentApi: R3FDOM | undefined;
 
     try {
@@ -552,7 +739,14 @@ export function ThreeDom({
       }
 
       // ---- Create store and mirror ----
-      store = new ObjectStore();
+      store = new ObjectStore({
+        extendedMetadata,
+        history,
+        extractors: extractorsRef.current,
+        userDataIndexes: userDataIndexesRef.current,
+        lazyUserDataIndexes,
+      });
+      store.setCamera(camera);
       mirror = new DomMirror(store, maxDomNodes);
       mirror.setRoot(rootElement);
       r3fLog('setup', 'Store and mirror created');
@@ -631,7 +825,18 @@ export function ThreeDom({
       _highlighters.set(instanceKey, highlighter);
       _inspectControllers.set(instanceKey, inspectController);
 
-      exposeGlobalAPI(store, gl, cameraRef, selectionManager, inspectController, mirror, canvasId, isPrimary);
+      // renderer.info is sampled per frame so getSceneStats() can report deltas
+      const info = (gl as { info?: WebGLInfo }).info;
+      if (info) {
+        renderSampler = new RenderInfoSampler(info);
+        _renderSamplers.set(instanceKey, renderSampler);
+      }
+
+      // Off-main-thread snapshots (falls back to sync when workers are unavailable)
+      snapshotWorker = new SnapshotWorker(store, worker);
+      _snapshotWorkers.set(instanceKey, snapshotWorker);
+
+      exposeGlobalAPI(store, gl, cameraRef, selectionManager, inspectController, mirror, renderSampler, snapshotWorker, canvasId, isPrimary);
       r3fLog('bridge', `exposeGlobalAPI called — bridge is live, _ready=true${canvasId ? `, canvasId="${canvasId}"` : ''}`);
       currentApi = canvasId
         ? window.__R3F_DOM_INSTANCES__?.[canvasId]
@@ -677,6 +882,7 @@ export function ThreeDom({
       if (inspectController) inspectController.dispose();
       if (raycastAccelerator) raycastAccelerator.dispose();
       if (highlighter) highlighter.dispose();
+      if (snapshotWorker) snapshotWorker.dispose();
       if (unpatch) unpatch();
       removeGlobalAPI(currentApi, canvasId);
       clearInteractionState();
@@ -692,6 +898,8 @@ export function ThreeDom({
       _selectionManagers.delete(instanceKey);
       _highlighters.delete(instanceKey);
       _inspectControllers.delete(instanceKey);
+      _renderSamplers.delete(instanceKey);
+      _snapshotWorkers.delete(instanceKey);
       _modes.delete(instanceKey);
       _filters.delete(instanceKey);
       if (debug) enableDebug(false);
@@ -701,7 +909,7 @@ export function ThreeDom({
   // it's synced every frame via setInteractionState in useFrame. Including it here
   // would tear down and rebuild the entire bridge on every resize, losing inspect
   // mode state, selection, and highlights.
-  }, [scene, camera, gl, enabled, root, maxDomNodes, initialDepth, debug, inspectProp, canvasId, isPrimary, instanceKey]);
+  }, [scene, camera, gl, enabled, root, maxDomNodes, initialDepth, debug, inspectProp, extendedMetadata, history, extractorKey, userDataIndexKey, lazyUserDataIndexes, worker, canvasId, isPrimary, instanceKey]);
 
   // -----------------------------------------------------------------------
   // Per-frame sync
@@ -747,6 +955,15 @@ export function ThreeDom({
         }
       }
 
+      // Close this frame's change journal batch
+      store.commitFrame();
+
+      // Render counters of the frame that just completed
+      _renderSamplers.get(instanceKey)?.sample();
+
+      // Mirror this frame's metadata changes into the snapshot worker
+      _snapshotWorkers.get(instanceKey)?.flush();
+
       // Update 3D highlights (sync transforms with source objects)
       if (_highlighter) _highlighter.update();
 
@@ -5,14 +5,19 @@ import { r3fLog } from '../debug';
 import { shouldRegister, ensureAncestorChain } from './ThreeDom';
 
 // ---------------------------------------------------------------------------
-// Object3D.add / Object3D.remove monkey-patch
+// Object3D.add / .attach / .remove monkey-patch
 //
-// Intercepts structural changes (add/remove children) on Object3D so the
+// Intercepts structural changes (add/attach/remove children) on Object3D so the
 // ObjectStore and DomMirror are updated instantly (event-driven, O(1) per
 // change) without requiring per-frame traversal.
 //
 // Scoping: only fires for objects that belong to a tracked scene.
 // This avoids interfering with other Three.js scenes on the same page.
+//
+// Moves: add() and attach() first remove the object from its old parent. When
+// both parents are in the same tracked scene, that implicit remove() is
+// skipped and a single 'reparent' is reported instead, so the subtree keeps
+// its store entries and DOM nodes.
 // ---------------------------------------------------------------------------
 
 /** Tracks whether the patch has been applied. */
@@ -21,10 +26,14 @@ let _patched = false;
 /** Original methods saved for restoration. */
 let _originalAdd: typeof Object3D.prototype.add | null = null;
 let _originalRemove: typeof Object3D.prototype.remove | null = null;
+let _originalAttach: typeof Object3D.prototype.attach | null = null;
 
 /** Active store/mirror pairs (supports multiple tracked scenes). */
 const _activePairs: Array<{ store: ObjectStore; mirror: DomMirror; instanceKey: string }> = [];
 
+/** Objects mid-move inside trackedInsert; patchedRemove leaves them registered. */
+const _moving = new Set<Object3D>();
+
 /**
  * Find the store/mirror pair that tracks the scene containing this object.
  * Walks up the parent chain to check each ancestor against tracked roots.
@@ -60,7 +69,68 @@ function registerSubtree(
 }
 
 /**
- * Patch Object3D.prototype.add and Object3D.prototype.remove to intercept
+ * Insert `objects` under `parent` via `insert` (the original add / attach),
+ * then bring the store and mirror up to date: tracked objects that came
+ * from a parent in the same tracked scene are reported as one reparent;
+ * anything else is registered as a new subtree.
+ */
+function trackedInsert(
+  parent: Object3D,
+  objects: Object3D[],
+  insert: () => void,
+  label: string,
+): void {
+  const pair = findTrackingPair(parent);
+
+  const moves = new Map<Object3D, Object3D>();
+  if (pair) {
+    for (const obj of objects) {
+      const oldParent = obj.parent;
+      if (obj === parent || !oldParent || !pair.store.has(obj)) continue;
+      if (findTrackingPair(oldParent) !== pair) continue;
+      moves.set(obj, oldParent);
+      _moving.add(obj);
+    }
+  }
+
+  try {
+    insert();
+  } finally {
+    for (const obj of moves.keys()) _moving.delete(obj);
+  }
+
+  if (!pair) return;
+
+  for (const obj of objects) {
+    // Skip if it's the object adding itself (Three.js guard)
+    if (obj === parent) continue;
+    const oldParent = moves.get(obj);
+    try {
+      if (oldParent) {
+        r3fLog('patch', `${label}: "${obj.name || obj.type}" moved from "${oldParent.name || oldParent.type}" to "${parent.name || parent.type}"`);
+        pair.store.reparent(obj, oldParent.uuid);
+        pair.mirror.onObjectReparented(obj, oldParent.uuid);
+        if (oldParent !== parent) {
+          pair.store.update(oldParent);
+          pair.store.markDirty(oldParent);
+        }
+      } else {
+        r3fLog('patch', `${label}: "${obj.name || obj.type}" added to "${parent.name || parent.type}"`);
+        registerSubtree(obj, pair.store, pair.mirror, pair.instanceKey);
+      }
+    } catch (err) {
+      r3fLog('patch', `${label}: failed to register "${obj.name || obj.type}"`, err);
+    }
+  }
+  // Immediately update the parent's metadata (so childrenUuids is
+  // current for any snapshot() call in the same frame) and also mark
+  // it dirty for the DOM position sync on the next useFrame.
+  pair.store.update(parent);
+  pair.store.markDirty(parent);
+}
+
+/**
+ * Patch Object3D.prototype.add, .attach and .remove to intercept
  * structural changes for tracked scenes.
  *
  * @param store - The ObjectStore managing scene metadata
@@ -77,37 +147,26 @@ export function patchObject3D(
 
   // Only patch the prototype once (supports multiple store/mirror pairs)
   if (!_patched) {
-    r3fLog('patch', 'Patching Object3D.prototype.add and .remove');
+    r3fLog('patch', 'Patching Object3D.prototype.add, .attach and .remove');
     _originalAdd = Object3D.prototype.add;
     _originalRemove = Object3D.prototype.remove;
+    _originalAttach = Object3D.prototype.attach;
 
     Object3D.prototype.add = function patchedAdd(
       this: Object3D,
       ...objects: Object3D[]
     ) {
-      // Call the original add first
-      _originalAdd!.call(this, ...objects);
-
-      // Check if this parent belongs to a tracked scene
-      const pair = findTrackingPair(this);
-      if (pair) {
-        for (const obj of objects) {
-          // Skip if it's the object adding itself (Three.js guard)
-          if (obj === this) continue;
-          try {
-            r3fLog('patch', `patchedAdd: "${obj.name || obj.type}" added to "${this.name || this.type}"`);
-            registerSubtree(obj, pair.store, pair.mirror, pair.instanceKey);
-          } catch (err) {
-            r3fLog('patch', `patchedAdd: failed to register "${obj.name || obj.type}"`, err);
-          }
-        }
-        // Immediately update the parent's metadata (so childrenUuids is
-        // current for any snapshot() call in the same frame) and also mark
-        // it dirty for the DOM position sync on the next useFrame.
-        pair.store.update(this);
-        pair.store.markDirty(this);
-      }
+      trackedInsert(this, objects, () => _originalAdd!.call(this, ...objects), 'patchedAdd');
+      return this;
+    };
 
+    // attach() re-parents via removeFromParent() + children.push(), never
+    // calling add(), so it needs its own hook
+    Object3D.prototype.attach = function patchedAttach(
+      this: Object3D,
+      object: Object3D,
+    ) {
+      trackedInsert(this, [object], () => _originalAttach!.call(this, object), 'patchedAttach');
       return this;
     };
 
@@ -121,7 +180,8 @@ export function patchObject3D(
       // Notify store/mirror before actual removal
       if (pair) {
         for (const obj of objects) {
-          if (obj === this) continue;
+          // Moves are reported as one reparent by trackedInsert
+          if (obj === this || _moving.has(obj)) continue;
           try {
             r3fLog('patch', `patchedRemove: "${obj.name || obj.type}" removed from "${this.name || this.type}"`);
 
@@ -169,13 +229,13 @@ export function patchObject3D(
 }
 
 /**
- * Restore the original Object3D.prototype.add and remove methods.
+ * Restore the original Object3D.prototype.add, attach and remove methods.
  * Called automatically when the last store/mirror pair is removed.
  * Can also be called manually for testing.
  */
 export function restoreObject3D(): void {
   if (!_patched) return;
-  r3fLog('patch', 'Restoring original Object3D.prototype.add and .remove');
+  r3fLog('patch', 'Restoring original Object3D.prototype.add, .attach and .remove');
 
   if (_originalAdd) {
     Object3D.prototype.add = _originalAdd;
@@ -185,6 +245,10 @@ export function restoreObject3D(): void {
     Object3D.prototype.remove = _originalRemove;
     _originalRemove = null;
   }
+  if (_originalAttach) {
+    Object3D.prototype.attach = _originalAttach;
+    _originalAttach = null;
+  }
 
   _patched = false;
 }
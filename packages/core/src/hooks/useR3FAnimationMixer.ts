@@ -0,0 +1,73 @@
+import { useEffect, useRef, useCallback } from 'react';
+import { useFrame } from '@react-three/fiber';
+import type { AnimationMixer } from 'three';
+
+type BridgeAPI = {
+  r3fRegisterMixer(m: AnimationMixer): void;
+  r3fUnregisterMixer(m: AnimationMixer): void;
+};
+
+function getAPI(canvasId?: string): BridgeAPI | undefined {
+  if (canvasId) {
+    return (window as Window & { __R3F_DOM_INSTANCES__?: Record<string, BridgeAPI> })
+      .__R3F_DOM_INSTANCES__?.[canvasId];
+  }
+  return (window as Window & { __R3F_DOM__?: BridgeAPI }).__R3F_DOM__;
+}
+
+/**
+ * Tracks an AnimationMixer with the react-three-dom bridge so its actions are
+ * reported by `getAnimations()` and usable from `waitForAnimation` /
+ * `toBePlayingAnimation`. Untracks on unmount or when the mixer changes.
+ * If the bridge isn't ready on mount, retries each frame until available.
+ *
+ * Alternative without the hook: set `userData.animationMixer = mixer` on any
+ * tracked object.
+ *
+ * @param mixer - The mixer to track (null/undefined is ignored)
+ * @param canvasId - Optional canvas ID for multi-canvas setups
+ *
+ * @example
+ * ```tsx
+ * function Robot() {
+ *   const { scene, animations } = useGLTF('/robot.glb');
+ *   const { mixer } = useAnimations(animations, scene);
+ *   useR3FAnimationMixer(mixer);
+ *   return <primitive object={scene} userData={{ testId: 'robot' }} />;
+ * }
+ * ```
+ */
+export function useR3FAnimationMixer(
+  mixer: AnimationMixer | null | undefined,
+  canvasId?: string,
+): void {
+  const trackedMixer = useRef<AnimationMixer | null>(null);
+  const canvasIdRef = useRef(canvasId);
+  canvasIdRef.current = canvasId;
+
+  const register = useCallback((m: AnimationMixer) => {
+    const api = getAPI(canvasIdRef.current);
+    if (!api) return false;
+    api.r3fRegisterMixer(m);
+    trackedMixer.current = m;
+    return true;
+  }, []);
+
+  const unregister = useCallback(() => {
+    if (!trackedMixer.current) return;
+    const api = getAPI(canvasIdRef.current);
+    api?.r3fUnregisterMixer(trackedMixer.current);
+    trackedMixer.current = null;
+  }, []);
+
+  useEffect(() => {
+    if (mixer) register(mixer);
+    return () => unregister();
+  }, [mixer, register, unregister]);
+
+  // Per-frame: retry if the bridge wasn't ready on mount
+  useFrame(() => {
+    if (!mixer || trackedMixer.current === mixer) return;
+    register(mixer);
+  });
+}
@@ -24,19 +24,78 @@ export type {
   MaterialInspection,
   InspectOptions,
   SceneSnapshot,
+  PartialSceneSnapshot,
+  PartialSnapshotNode,
+  SnapshotOptions,
+  SceneDiff,
+  SceneDiffChange,
+  SceneDiffReparent,
+  SceneDiffRename,
+  SceneDiffReorder,
   SnapshotNode,
   StoreEvent,
   StoreEventType,
   StoreListener,
+  StoreChange,
+  StoreChangeBatch,
+  StoreChangeSet,
+  StoreBatchListener,
+  ObjectHistoryEntry,
+  MetadataExtractor,
+  UserDataIndexStats,
+  ExtractedValue,
+  HistoryChange,
+  HistoryField,
+  HistoryValue,
   R3FDOM,
   CameraState,
+  SpatialQueryOptions,
+  GestureOptions,
+  GestureResult,
+  LongPressOptions,
+  CaptureDragOptions,
+  CaptureDragResult,
+  HandlerRecipient,
+  DragToOptions,
+  DragToResult,
+  KeyPressOptions,
+  TypeTextOptions,
+  EffectiveVisibility,
+  VisibilityReason,
+  InstanceMetadata,
+  AnimationActionState,
+  AnimationLoopMode,
+  SkeletonInspection,
+  SceneStats,
+  RenderInfoSample,
 } from './types';
 
 // ---------------------------------------------------------------------------
 // Store
 // ---------------------------------------------------------------------------
 
-export { ObjectStore } from './store/ObjectStore';
+export { ObjectStore, type ObjectStoreOptions } from './store/ObjectStore';
+export {
+  parseQuery,
+  matchesQuery,
+  type ParsedQuery,
+  type QueryComplex,
+  type QueryCompound,
+  type QueryAttributeTest,
+  type QueryAttributeOperator,
+} from './store/query';
+export { SpatialIndex } from './store/SpatialIndex';
+export { ChangeJournal } from './store/ChangeJournal';
+export { ObjectHistory, DEFAULT_HISTORY_CAPACITY } from './store/ObjectHistory';
+export { MetadataExtractors, validateExtractors } from './store/extractors';
+export {
+  computeEffectiveVisibility,
+  type EffectiveVisibilityOptions,
+} from './store/visibility';
+export { parseInstanceId, formatInstanceId, extractInstanceMetadata } from './store/instances';
+export { getGeometryVersion } from './store/geometry';
+export { getObjectPath, parsePath, resolvePath, type PathSegment } from './store/paths';
+export { AnimationTracker, ANIMATION_MIXER_USERDATA_KEY } from './store/AnimationTracker';
 
 // ---------------------------------------------------------------------------
 // Mirror
@@ -50,7 +109,13 @@ export {
   TAG_MAP,
   type ThreeTagName,
 } from './mirror/CustomElements';
-export { computeAttributes, applyAttributes, MANAGED_ATTRIBUTES } from './mirror/attributes';
+export {
+  computeAttributes,
+  applyAttributes,
+  MANAGED_ATTRIBUTES,
+  isManagedAttribute,
+  customAttributeName,
+} from './mirror/attributes';
 
 // ---------------------------------------------------------------------------
 // Bridge
@@ -73,6 +138,13 @@ export { patchObject3D, restoreObject3D, isPatched } from './bridge/patchObject3
 // ---------------------------------------------------------------------------
 
 export { createSnapshot, createFlatSnapshot } from './snapshot/snapshot';
+export { encodeSnapshot, encodeSnapshotBase64, SNAPSHOT_BINARY_VERSION } from './snapshot/binarySnapshot';
+
+// ---------------------------------------------------------------------------
+// Scene stats
+// ---------------------------------------------------------------------------
+
+export { RenderInfoSampler, collectSceneStats, estimateTextureBytes } from './stats/sceneStats';
 
 // ---------------------------------------------------------------------------
 // Interactions — projection
@@ -102,13 +174,18 @@ export {
 export { hover3D, unhover3D, type Hover3DOptions, type Hover3DResult } from './interactions/hover';
 export {
   drag3D,
+  dragTo3D,
   previewDragWorldDelta,
   type Drag3DOptions,
   type Drag3DResult,
+  type DragTo3DOptions,
+  type DragTo3DResult,
   type WorldDelta,
   type ScreenDelta,
 } from './interactions/drag';
 export { wheel3D, type Wheel3DOptions, type Wheel3DResult } from './interactions/wheel';
+export { longPress3D, type LongPress3DOptions, type LongPress3DResult } from './interactions/longPress';
+export { captureDrag3D } from './interactions/captureDrag';
 export { pointerMiss3D, type PointerMiss3DOptions } from './interactions/pointerMiss';
 export {
   drawPath,
@@ -120,6 +197,12 @@ export {
   type DrawPathOptions,
   type DrawPathResult,
 } from './interactions/drawPath';
+export {
+  pinch3D,
+  rotateGesture3D,
+  twoFingerPan3D,
+} from './interactions/gestures';
+export { press3D, type3D, keyDown3D, keyUp3D, type KeyboardResult } from './interactions/keyboard';
 
 // ---------------------------------------------------------------------------
 // Interactions — world-coordinate (position-centric)
@@ -146,11 +229,15 @@ export {
   dispatchContextMenu,
   dispatchHover,
   dispatchDrag,
+  dispatchLongPress,
+  dispatchMultiTouch,
   dispatchWheel,
   dispatchPointerMiss,
   dispatchUnhover,
   type DragOptions,
+  type DragDispatchResult,
   type WheelOptions,
+  type ModifierState,
 } from './interactions/dispatch';
 
 // ---------------------------------------------------------------------------
@@ -167,7 +254,7 @@ export {
 // Interactions — resolution helpers
 // ---------------------------------------------------------------------------
 
-export { resolveObject } from './interactions/resolve';
+export { resolveObject, resolveTarget, type ResolvedTarget } from './interactions/resolve';
 
 // ---------------------------------------------------------------------------
 // Highlight / selection
@@ -178,6 +265,7 @@ export { resolveObject } from './interactions/resolve';
 // ---------------------------------------------------------------------------
 
 export { useR3FRegister } from './hooks/useR3FRegister';
+export { useR3FAnimationMixer } from './hooks/useR3FAnimationMixer';
 
 export {
   Highlighter,
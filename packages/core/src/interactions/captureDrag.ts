@@ -0,0 +1,173 @@
+/**
+ * @module captureDrag
+ *
+ * Drags that behave like a real pointer held down across the page: R3F
+ * handlers that call `setPointerCapture` keep receiving events after the
+ * pointer leaves their mesh or the canvas, the pointer can be released
+ * outside the canvas (drag-to-trash, drag into another viewport), and the
+ * result reports which objects' onPointerMove / onPointerUp actually ran.
+ */
+import type { Object3D } from 'three';
+import { projectToScreen, type ScreenPoint } from './projection';
+import { dispatchDrag, type DragDispatchResult } from './dispatch';
+import { resolveTarget, getStore, getCamera, getRenderer, getCanvasSize } from './resolve';
+import type { CaptureDragOptions, CaptureDragResult, HandlerRecipient } from '../types';
+import { r3fLog } from '../debug';
+
+/** Handlers whose calls are recorded, keyed by the result field they feed. */
+const RECORDED = { pointerMove: 'onPointerMove', pointerUp: 'onPointerUp' } as const;
+
+type Handler = (event: unknown) => unknown;
+
+/** R3F's per-object instance state (`object.__r3f`); only `handlers` is read. */
+interface R3FInstanceState {
+  handlers?: Record<string, Handler | undefined>;
+}
+
+function handlersOf(obj: Object3D): Record<string, Handler | undefined> | undefined {
+  return (obj as Object3D & { __r3f?: R3FInstanceState }).__r3f?.handlers;
+}
+
+/**
+ * Record calls of onPointerMove / onPointerUp on every tracked object.
+ *
+ * R3F looks handlers up in `object.__r3f.handlers` on every event, so each
+ * existing handler is swapped for an accessor that returns a counting
+ * wrapper. The setter keeps the app's latest handler if the component
+ * re-renders mid-drag. Objects without the handler are left untouched —
+ * adding one would change what R3F raycasts against. Returns a function
+ * that restores the handlers and yields the recipients.
+ */
+function recordHandlerCalls(objects: Object3D[]): () => CaptureDragResult['received'] {
+  const received: CaptureDragResult['received'] = { pointerMove: [], pointerUp: [] };
+  const restores: Array<() => void> = [];
+
+  for (const obj of objects) {
+    const handlers = handlersOf(obj);
+    if (!handlers) continue;
+    for (const [field, key] of Object.entries(RECORDED) as Array<[keyof typeof RECORDED, string]>) {
+      if (typeof handlers[key] !== 'function') continue;
+      let current: Handler | undefined = handlers[key];
+      let recipient: HandlerRecipient | null = null;
+      const recording: Handler = (event) => {
+        if (!recipient) {
+          recipient = {
+            uuid: obj.uuid,
+            testId: obj.userData?.testId as string | undefined,
+            name: obj.name,
+            count: 0,
+          };
+          received[field].push(recipient);
+        }
+        recipient.count++;
+        return current?.(event);
+      };
+      const accessor: PropertyDescriptor = {
+        configurable: true,
+        enumerable: true,
+        get: () => (current ? recording : undefined),
+        set: (value: Handler | undefined) => { current = value; },
+      };
+      Object.defineProperty(handlers, key, accessor);
+      restores.push(() => {
+        // R3F deletes the key when the handler prop is removed; leave that be
+        if (Object.getOwnPropertyDescriptor(handlers, key)?.get !== accessor.get) return;
+        delete handlers[key];
+        if (current) handlers[key] = current;
+      });
+    }
+  }
+
+  return () => {
+    for (const restore of restores) restore();
+    return received;
+  };
+}
+
+/** Short description of an element for logs and results, e.g. "div#trash". */
+function describeElement(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  if (el.id) return `${tag}#${el.id}`;
+  const testId = el.getAttribute('data-testid');
+  return testId ? `${tag}[data-testid="${testId}"]` : tag;
+}
+
+/**
+ * Drag from a 3D object to a point, honoring pointer capture.
+ *
+ * The pointer goes down on the object's projected point and moves in
+ * `steps` to `to` — a canvas-relative point, which may lie outside the
+ * canvas, or a `{ dx, dy }` delta. Once a handler calls
+ * `setPointerCapture`, every later move and the pointerup go to the
+ * capturing element, so R3F keeps routing them to the captured object
+ * even when the pointer is off the mesh or off the canvas. Without capture,
+ * moves outside the canvas go to the element under the pointer.
+ *
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
+ * @param to        End point (canvas-relative `{ x, y }`) or delta (`{ dx, dy }`)
+ * @param options   Steps, delay and instance
+ * @returns         Start/end points, capture outcome and handler recipients
+ * @throws          If the object is not found or not visible on screen
+ *
+ * @example
+ * ```typescript
+ * // Drag a card onto a trash bin 40px right of the canvas
+ * const rect = canvas.getBoundingClientRect();
+ * const result = await captureDrag3D('card-3', { x: rect.width + 40, y: 80 });
+ * result.releasedOutside;                            // true
+ * result.received.pointerUp.map((r) => r.testId);    // ['card-3'] if it captured
+ * ```
+ */
+export async function captureDrag3D(
+  idOrUuid: string,
+  to: ScreenPoint | { dx: number; dy: number },
+  options: CaptureDragOptions = {},
+): Promise<CaptureDragResult> {
+  const { instanceId: explicitInstance, ...dragOptions } = options;
+
+  const { obj, instanceId } = resolveTarget(idOrUuid, explicitInstance);
+  const projection = projectToScreen(obj, getCamera(), getCanvasSize(), instanceId);
+  if (!projection) {
+    throw new Error(
+      `[react-three-dom] captureDrag3D("${idOrUuid}") failed: object is not visible on screen. ` +
+      `It may be behind the camera or outside the viewport.`,
+    );
+  }
+
+  const startPoint = projection.point;
+  const endPoint = 'dx' in to
+    ? { x: startPoint.x + to.dx, y: startPoint.y + to.dy }
+    : { x: to.x, y: to.y };
+  r3fLog(
+    'drag',
+    `captureDrag3D("${idOrUuid}") (${Math.round(startPoint.x)}, ${Math.round(startPoint.y)}) → ` +
+    `(${Math.round(endPoint.x)}, ${Math.round(endPoint.y)})`,
+  );
+
+  const finish = recordHandlerCalls(getStore().getFlatList());
+  let outcome: DragDispatchResult;
+  let received: CaptureDragResult['received'];
+  try {
+    outcome = await dispatchDrag(getRenderer().domElement, startPoint, endPoint, dragOptions);
+  } finally {
+    received = finish();
+  }
+
+  const releaseTarget = describeElement(outcome.releaseTarget);
+  r3fLog(
+    'drag',
+    `captureDrag3D("${idOrUuid}") released on ${releaseTarget}` +
+    `${outcome.captured ? ' (captured)' : ''}, ` +
+    `${received.pointerMove.length} move / ${received.pointerUp.length} up recipients`,
+  );
+
+  return {
+    dispatched: true,
+    startPoint,
+    endPoint,
+    captured: outcome.captured,
+    releasedOutside: outcome.releasedOutside,
+    releaseTarget,
+    received,
+  };
+}
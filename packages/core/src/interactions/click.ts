@@ -9,7 +9,7 @@
 import { projectToScreen } from './projection';
 import { dispatchClick, dispatchDoubleClick, dispatchContextMenu } from './dispatch';
 import { verifyRaycastHit } from './raycastVerify';
-import { resolveObject, getCamera, getRenderer, getCanvasSize } from './resolve';
+import { resolveTarget, getCamera, getRenderer, getCanvasSize } from './resolve';
 import type { RaycastResult } from './raycastVerify';
 import { r3fLog } from '../debug';
 
@@ -30,6 +30,12 @@ export interface Click3DOptions {
    * Default: true
    */
   verify?: boolean;
+  /**
+   * For an InstancedMesh, target a single instance: projects that instance's
+   * bounds and verifies the raycast hits that instanceId. Equivalent to
+   * passing "mesh#index" as the id.
+   */
+  instanceId?: number;
 }
 
 /** Result of a click3D operation. */
@@ -51,7 +57,7 @@ export interface Click3DResult {
  * on the canvas at the projected coordinates, and optionally verifies
  * the click hit the intended object via raycasting.
  *
- * @param idOrUuid  The object's testId or uuid
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
  * @param options   Click options
  * @returns         Click result with dispatch and verification info
  * @throws          If the object is not found or not visible on screen
@@ -72,14 +78,14 @@ export function click3D(
   const { verify = true } = options;
 
   // 1. Resolve object
-  const obj = resolveObject(idOrUuid);
+  const { obj, instanceId } = resolveTarget(idOrUuid, options.instanceId);
   const camera = getCamera();
   const gl = getRenderer();
   const size = getCanvasSize();
   r3fLog('click', `click3D("${idOrUuid}") — resolving projection`);
 
   // 2. Project to screen
-  const projection = projectToScreen(obj, camera, size);
+  const projection = projectToScreen(obj, camera, size, instanceId);
   if (!projection) {
     throw new Error(
       `[react-three-dom] click3D("${idOrUuid}") failed: object is not visible on screen. ` +
@@ -94,7 +100,7 @@ export function click3D(
   // 4. Optional raycast verification
   let raycast: RaycastResult | undefined;
   if (verify) {
-    raycast = verifyRaycastHit(projection.point, obj, camera, size);
+    raycast = verifyRaycastHit(projection.point, obj, camera, size, instanceId);
     if (!raycast.hit && raycast.occluderLabel) {
       console.warn(
         `[react-three-dom] click3D("${idOrUuid}") dispatched at ` +
@@ -125,7 +131,7 @@ export function click3D(
  *
  * Triggers R3F's `onDoubleClick` handler on the hit object.
  *
- * @param idOrUuid  The object's testId or uuid
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
  * @param options   Same options as click3D
  * @returns         Click result with dispatch and verification info
  * @throws          If the object is not found or not visible on screen
@@ -136,12 +142,12 @@ export function doubleClick3D(
 ): Click3DResult {
   const { verify = true } = options;
 
-  const obj = resolveObject(idOrUuid);
+  const { obj, instanceId } = resolveTarget(idOrUuid, options.instanceId);
   const camera = getCamera();
   const gl = getRenderer();
   const size = getCanvasSize();
 
-  const projection = projectToScreen(obj, camera, size);
+  const projection = projectToScreen(obj, camera, size, instanceId);
   if (!projection) {
     throw new Error(
       `[react-three-dom] doubleClick3D("${idOrUuid}") failed: object is not visible on screen.`,
@@ -153,7 +159,7 @@ export function doubleClick3D(
 
   let raycast: RaycastResult | undefined;
   if (verify) {
-    raycast = verifyRaycastHit(projection.point, obj, camera, size);
+    raycast = verifyRaycastHit(projection.point, obj, camera, size, instanceId);
     if (!raycast.hit && raycast.occluderLabel) {
       console.warn(
         `[react-three-dom] doubleClick3D("${idOrUuid}") dispatched at ` +
@@ -182,7 +188,7 @@ export function doubleClick3D(
  *
  * Triggers R3F's `onContextMenu` handler on the hit object.
  *
- * @param idOrUuid  The object's testId or uuid
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
  * @param options   Same options as click3D
  * @returns         Click result with dispatch and verification info
  * @throws          If the object is not found or not visible on screen
@@ -193,12 +199,12 @@ export function contextMenu3D(
 ): Click3DResult {
   const { verify = true } = options;
 
-  const obj = resolveObject(idOrUuid);
+  const { obj, instanceId } = resolveTarget(idOrUuid, options.instanceId);
   const camera = getCamera();
   const gl = getRenderer();
   const size = getCanvasSize();
 
-  const projection = projectToScreen(obj, camera, size);
+  const projection = projectToScreen(obj, camera, size, instanceId);
   if (!projection) {
     throw new Error(
       `[react-three-dom] contextMenu3D("${idOrUuid}") failed: object is not visible on screen.`,
@@ -210,7 +216,7 @@ export function contextMenu3D(
 
   let raycast: RaycastResult | undefined;
   if (verify) {
-    raycast = verifyRaycastHit(projection.point, obj, camera, size);
+    raycast = verifyRaycastHit(projection.point, obj, camera, size, instanceId);
     if (!raycast.hit && raycast.occluderLabel) {
       console.warn(
         `[react-three-dom] contextMenu3D("${idOrUuid}") dispatched at ` +
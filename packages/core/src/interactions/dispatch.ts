@@ -7,6 +7,7 @@
  * interaction modules (click3D, hover3D, drag3D, etc.) delegate here.
  */
 import type { ScreenPoint } from './projection';
+import type { LongPressOptions } from '../types';
 
 // ---------------------------------------------------------------------------
 // Synthetic PointerEvent dispatch
@@ -25,6 +26,36 @@ function allocPointerId(): number {
   return _nextPointerId++;
 }
 
+/** Modifier key flags carried by mouse, pointer and keyboard events. */
+export interface ModifierState {
+  shiftKey: boolean;
+  ctrlKey: boolean;
+  altKey: boolean;
+  metaKey: boolean;
+}
+
+/**
+ * Modifiers currently held down through the keyboard API (keyDown3D).
+ * Every synthetic pointer/mouse/wheel event carries them, so holding Shift
+ * and then dragging produces a shift-drag.
+ */
+const _heldModifiers: ModifierState = {
+  shiftKey: false,
+  ctrlKey: false,
+  altKey: false,
+  metaKey: false,
+};
+
+/** Update the held modifier flags (called by the keyboard module). */
+export function setHeldModifiers(modifiers: Partial<ModifierState>): void {
+  Object.assign(_heldModifiers, modifiers);
+}
+
+/** Snapshot of the held modifier flags, for spreading into an event init. */
+export function heldModifiers(): ModifierState {
+  return { ..._heldModifiers };
+}
+
 /**
  * Compute clientX/clientY from a canvas-relative ScreenPoint.
  * Events need clientX/clientY (relative to viewport), not the canvas.
@@ -66,6 +97,7 @@ function makePointerInit(
     width: 1,
     height: 1,
     pressure: 0.5,
+    ...heldModifiers(),
     ...overrides,
   };
 }
@@ -103,6 +135,7 @@ export function dispatchClick(
         bubbles: true,
         cancelable: true,
         ...toClientCoords(canvas, point),
+        ...heldModifiers(),
         button: 0,
       }),
     );
@@ -147,12 +180,37 @@ export interface DragOptions {
   steps?: number;
   /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
   stepDelayMs?: number;
+  /**
+   * Extra pointermoves at `end` before pointerup, so hover handlers of the
+   * object under the drop point run while the drag is still in progress
+   * (drop-target highlights, snap previews). Default: 0
+   */
+  dwellSteps?: number;
+}
+
+/** Outcome of a drag sequence, as seen by the pointer capture emulation. */
+export interface DragDispatchResult {
+  /** Whether a handler took pointer capture (setPointerCapture) during the drag. */
+  captured: boolean;
+  /** Whether the pointer was released outside the canvas bounds. */
+  releasedOutside: boolean;
+  /** Element the pointerup was dispatched on. */
+  releaseTarget: Element;
 }
 
 /**
  * Dispatch a full drag sequence from `start` to `end` on the canvas.
  *
- * Sequence: pointerdown → N × pointermove (interpolated) → pointerup
+ * Sequence: pointerdown → N × pointermove (interpolated) → dwellSteps ×
+ * pointermove at `end` → pointerup (→ lostpointercapture if a handler
+ * captured the pointer)
+ *
+ * Events are routed as a browser would: to the element holding pointer
+ * capture if a handler called `setPointerCapture` (R3F drag handlers
+ * usually do), else to the canvas while the pointer is over it, else to the
+ * element under the pointer. `end` may lie outside the canvas — uncaptured
+ * moves then leave the canvas (pointerout / pointerleave) and stop reaching
+ * R3F, while captured ones keep arriving, as they do for a real drag.
  *
  * Returns a Promise that resolves when the drag is complete.
  * The async nature allows optional frame-pacing via stepDelayMs.
@@ -162,46 +220,203 @@ export async function dispatchDrag(
   start: ScreenPoint,
   end: ScreenPoint,
   options: DragOptions = {},
-): Promise<void> {
-  const { steps = 10, stepDelayMs = 0 } = options;
+): Promise<DragDispatchResult> {
+  const { steps = 10, stepDelayMs = 0, dwellSteps = 0 } = options;
   const pointerId = allocPointerId();
 
-  // Pointer down at start
-  withSafePointerCapture(() => {
+  return withEmulatedPointerCapture(pointerId, async (capture) => {
+    const targetAt = (point: ScreenPoint): Element =>
+      capture.target ?? (isOverCanvas(canvas, point) ? canvas : elementAt(canvas, point));
+    let over = true;
+
+    // Pointer down at start
     canvas.dispatchEvent(
       new PointerEvent('pointerdown', makePointerInit(canvas, start, pointerId)),
     );
-  });
-
-  // Interpolate intermediate moves
-  for (let i = 1; i <= steps; i++) {
-    const t = i / steps;
-    const intermediate: ScreenPoint = {
-      x: start.x + (end.x - start.x) * t,
-      y: start.y + (end.y - start.y) * t,
-    };
 
-    if (stepDelayMs > 0) {
-      await sleep(stepDelayMs);
+    // Interpolate intermediate moves, then dwell at the end point
+    for (let i = 1; i <= steps + dwellSteps; i++) {
+      const t = Math.min(i / steps, 1);
+      const intermediate: ScreenPoint = {
+        x: start.x + (end.x - start.x) * t,
+        y: start.y + (end.y - start.y) * t,
+      };
+
+      if (stepDelayMs > 0) {
+        await sleep(stepDelayMs);
+      }
+
+      // A captured pointer stays "over" its capture target
+      const nowOver: boolean = capture.target ? over : isOverCanvas(canvas, intermediate);
+      if (nowOver !== over) {
+        dispatchBoundary(canvas, intermediate, pointerId, nowOver ? 'enter' : 'leave');
+        over = nowOver;
+      }
+
+      targetAt(intermediate).dispatchEvent(
+        new PointerEvent(
+          'pointermove',
+          makePointerInit(canvas, intermediate, pointerId),
+        ),
+      );
     }
 
-    canvas.dispatchEvent(
+    // Pointer up at end; browsers release capture implicitly afterwards
+    const releaseTarget = targetAt(end);
+    releaseTarget.dispatchEvent(
       new PointerEvent(
-        'pointermove',
-        makePointerInit(canvas, intermediate, pointerId),
+        'pointerup',
+        makePointerInit(canvas, end, pointerId, { buttons: 0, pressure: 0 }),
       ),
     );
+    capture.release();
+    const releasedOutside = !isOverCanvas(canvas, end);
+    if (over && releasedOutside) {
+      dispatchBoundary(canvas, end, pointerId, 'leave');
+    }
+
+    return { captured: capture.captured, releasedOutside, releaseTarget };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Long press (press and hold)
+// ---------------------------------------------------------------------------
+
+/** Golden angle in radians — spreads successive jitter offsets evenly. */
+const GOLDEN_ANGLE = 2.399963;
+
+/**
+ * Dispatch a press-and-hold at the given screen point.
+ *
+ * Sequence: pointerdown → (hold `durationMs`, with a pointermove every
+ * `jitterIntervalMs` when `jitter` > 0) → pointerup → click (optional)
+ *
+ * Jitter offsets are deterministic (no randomness), so runs are repeatable.
+ * Returns the number of pointermove events dispatched while holding.
+ */
+export async function dispatchLongPress(
+  canvas: HTMLCanvasElement,
+  point: ScreenPoint,
+  options: LongPressOptions = {},
+): Promise<number> {
+  const {
+    durationMs = 600,
+    jitter = 0,
+    jitterIntervalMs = 50,
+    pointerType = 'mouse',
+    click = pointerType !== 'touch',
+  } = options;
+  const pointerId = allocPointerId();
+  const init = (p: ScreenPoint, overrides?: Partial<PointerEventInit>) =>
+    makePointerInit(canvas, p, pointerId, { pointerType, ...overrides });
+
+  withSafePointerCapture(() => {
+    canvas.dispatchEvent(new PointerEvent('pointerdown', init(point)));
+  });
+
+  let moves = 0;
+  if (jitter > 0 && jitterIntervalMs > 0) {
+    const start = Date.now();
+    for (let elapsed = 0; elapsed < durationMs; elapsed = Date.now() - start) {
+      await sleep(Math.min(jitterIntervalMs, durationMs - elapsed));
+      // Radius cycles through a third, two thirds and all of `jitter`
+      const angle = moves * GOLDEN_ANGLE;
+      const radius = (jitter * ((moves % 3) + 1)) / 3;
+      canvas.dispatchEvent(
+        new PointerEvent(
+          'pointermove',
+          init({ x: point.x + radius * Math.cos(angle), y: point.y + radius * Math.sin(angle) }),
+        ),
+      );
+      moves++;
+    }
+    // Settle back on the press point so the release lands where it started
+    canvas.dispatchEvent(new PointerEvent('pointermove', init(point)));
+    moves++;
+  } else if (durationMs > 0) {
+    await sleep(durationMs);
   }
 
-  // Pointer up at end
   withSafePointerCapture(() => {
     canvas.dispatchEvent(
-      new PointerEvent(
-        'pointerup',
-        makePointerInit(canvas, end, pointerId, { buttons: 0, pressure: 0 }),
-      ),
+      new PointerEvent('pointerup', init(point, { buttons: 0, pressure: 0 })),
     );
+    if (click) {
+      canvas.dispatchEvent(
+        new MouseEvent('click', {
+          bubbles: true,
+          cancelable: true,
+          ...toClientCoords(canvas, point),
+          ...heldModifiers(),
+          button: 0,
+        }),
+      );
+    }
+  });
+
+  return moves;
+}
+
+// ---------------------------------------------------------------------------
+// Multi-pointer (touch gesture) sequence
+// ---------------------------------------------------------------------------
+
+/**
+ * Dispatch an interleaved multi-touch sequence, one pointer per track.
+ * Each track lists the screen points a finger passes through; all tracks
+ * must have the same length (≥ 2).
+ *
+ * Sequence: pointerdown × fingers → for each step, pointermove × fingers
+ * → pointerup × fingers
+ *
+ * Every finger gets its own pointerId with `pointerType: 'touch'`; only the
+ * first is `isPrimary`, matching what browsers send for a two-finger touch.
+ * Returns the pointerIds used, in track order.
+ */
+export async function dispatchMultiTouch(
+  canvas: HTMLCanvasElement,
+  tracks: ScreenPoint[][],
+  options: Pick<DragOptions, 'stepDelayMs'> = {},
+): Promise<number[]> {
+  const { stepDelayMs = 0 } = options;
+  const length = tracks[0]?.length ?? 0;
+  if (length < 2 || tracks.some((track) => track.length !== length)) {
+    throw new Error('[react-three-dom] dispatchMultiTouch: every track needs the same number of points (at least 2).');
+  }
+  const pointerIds = tracks.map(() => allocPointerId());
+  const init = (finger: number, point: ScreenPoint, overrides?: Partial<PointerEventInit>) =>
+    makePointerInit(canvas, point, pointerIds[finger], {
+      pointerType: 'touch',
+      isPrimary: finger === 0,
+      ...overrides,
+    });
+
+  // All fingers touch down before any of them moves
+  withSafePointerCapture(() => {
+    tracks.forEach((track, finger) => {
+      canvas.dispatchEvent(new PointerEvent('pointerdown', init(finger, track[0])));
+    });
   });
+
+  for (let i = 1; i < length; i++) {
+    if (stepDelayMs > 0) {
+      await sleep(stepDelayMs);
+    }
+    tracks.forEach((track, finger) => {
+      canvas.dispatchEvent(new PointerEvent('pointermove', init(finger, track[i])));
+    });
+  }
+
+  withSafePointerCapture(() => {
+    tracks.forEach((track, finger) => {
+      canvas.dispatchEvent(
+        new PointerEvent('pointerup', init(finger, track[length - 1], { buttons: 0, pressure: 0 })),
+      );
+    });
+  });
+
+  return pointerIds;
 }
 
 // ---------------------------------------------------------------------------
@@ -238,6 +453,7 @@ export function dispatchDoubleClick(
         bubbles: true,
         cancelable: true,
         ...coords,
+        ...heldModifiers(),
         button: 0,
         detail: 1,
       }),
@@ -258,6 +474,7 @@ export function dispatchDoubleClick(
         bubbles: true,
         cancelable: true,
         ...coords,
+        ...heldModifiers(),
         button: 0,
         detail: 2,
       }),
@@ -269,6 +486,7 @@ export function dispatchDoubleClick(
         bubbles: true,
         cancelable: true,
         ...coords,
+        ...heldModifiers(),
         button: 0,
         detail: 2,
       }),
@@ -315,6 +533,7 @@ export function dispatchContextMenu(
         bubbles: true,
         cancelable: true,
         ...toClientCoords(canvas, point),
+        ...heldModifiers(),
         button: 2,
       }),
     );
@@ -353,6 +572,7 @@ export function dispatchWheel(
       bubbles: true,
       cancelable: true,
       ...coords,
+      ...heldModifiers(),
       deltaX,
       deltaY,
       deltaZ: 0,
@@ -408,22 +628,36 @@ export function dispatchUnhover(canvas: HTMLCanvasElement): void {
 // ---------------------------------------------------------------------------
 
 /**
- * Guard against `releasePointerCapture` throwing when no pointer capture
- * is active. Libraries like @react-three/drei register global pointerup
- * handlers that call `releasePointerCapture`, which throws a `NotFoundError`
- * when the pointer was never captured (as with our synthetic events).
+ * Guard against pointer capture calls throwing for synthetic pointers.
+ * Libraries like @react-three/drei register global pointerup handlers that
+ * call `releasePointerCapture`, and three's OrbitControls calls
+ * `setPointerCapture` on pointerdown; both throw a `NotFoundError` when the
+ * pointerId does not belong to an active pointer (as with our synthetic
+ * events), which aborts the library's handler halfway through.
  *
- * This wrapper patches `Element.prototype.releasePointerCapture` for the
- * duration of `fn()` so that the `NotFoundError` is silently swallowed.
+ * This wrapper patches `Element.prototype.setPointerCapture` and
+ * `releasePointerCapture` for the duration of `fn()` so that the
+ * `NotFoundError` is silently swallowed.
  */
 function withSafePointerCapture<T>(fn: () => T): T {
-  const original = Element.prototype.releasePointerCapture;
+  const originalSet = Element.prototype.setPointerCapture;
+  const originalRelease = Element.prototype.releasePointerCapture;
+  Element.prototype.setPointerCapture = function safeSet(
+    this: Element,
+    pointerId: number,
+  ) {
+    try {
+      originalSet.call(this, pointerId);
+    } catch {
+      // Swallow NotFoundError — no active pointer with the given id
+    }
+  };
   Element.prototype.releasePointerCapture = function safeRelease(
     this: Element,
     pointerId: number,
   ) {
     try {
-      original.call(this, pointerId);
+      originalRelease.call(this, pointerId);
     } catch {
       // Swallow NotFoundError — no active pointer with the given id
     }
@@ -431,7 +665,130 @@ function withSafePointerCapture<T>(fn: () => T): T {
   try {
     return fn();
   } finally {
-    Element.prototype.releasePointerCapture = original;
+    Element.prototype.setPointerCapture = originalSet;
+    Element.prototype.releasePointerCapture = originalRelease;
+  }
+}
+
+/** Pointer capture state for one synthetic pointer, see withEmulatedPointerCapture. */
+interface EmulatedCapture {
+  /** Element currently holding capture of the pointer, if any. */
+  target: Element | null;
+  /** Whether any element captured the pointer during the sequence. */
+  captured: boolean;
+  /** Release capture (if held) and fire lostpointercapture, as after pointerup. */
+  release(): void;
+}
+
+/**
+ * Emulate pointer capture for a synthetic pointer for the duration of `fn`.
+ *
+ * Browsers reject `setPointerCapture` for pointerIds they did not create, so
+ * a drag handler that captures the pointer would throw and real capture
+ * semantics would be lost. While `fn` runs, the capture methods on
+ * `Element.prototype` track capture of `pointerId` themselves — firing
+ * gotpointercapture / lostpointercapture — and defer to the originals for
+ * every other pointer (swallowing NotFoundError like withSafePointerCapture).
+ */
+async function withEmulatedPointerCapture<T>(
+  pointerId: number,
+  fn: (capture: EmulatedCapture) => Promise<T>,
+): Promise<T> {
+  const proto = Element.prototype;
+  const originalSet = proto.setPointerCapture;
+  const originalRelease = proto.releasePointerCapture;
+  const originalHas = proto.hasPointerCapture;
+
+  const captureEvent = (type: string) =>
+    new PointerEvent(type, { bubbles: true, composed: true, pointerId, isPrimary: true });
+  const capture: EmulatedCapture = {
+    target: null,
+    captured: false,
+    release() {
+      const target = capture.target;
+      if (!target) return;
+      capture.target = null;
+      target.dispatchEvent(captureEvent('lostpointercapture'));
+    },
+  };
+
+  proto.setPointerCapture = function emulatedSet(this: Element, id: number) {
+    if (id !== pointerId) {
+      try {
+        originalSet.call(this, id);
+      } catch {
+        // Swallow NotFoundError — no active pointer with the given id
+      }
+      return;
+    }
+    if (capture.target === this) return;
+    capture.release();
+    capture.target = this;
+    capture.captured = true;
+    this.dispatchEvent(captureEvent('gotpointercapture'));
+  };
+  proto.releasePointerCapture = function emulatedRelease(this: Element, id: number) {
+    if (id !== pointerId) {
+      try {
+        originalRelease.call(this, id);
+      } catch {
+        // Swallow NotFoundError — no active pointer with the given id
+      }
+      return;
+    }
+    if (capture.target === this) capture.release();
+  };
+  proto.hasPointerCapture = function emulatedHas(this: Element, id: number) {
+    return id === pointerId ? capture.target === this : originalHas.call(this, id);
+  };
+
+  try {
+    return await fn(capture);
+  } finally {
+    proto.setPointerCapture = originalSet;
+    proto.releasePointerCapture = originalRelease;
+    proto.hasPointerCapture = originalHas;
+  }
+}
+
+function isOverCanvas(canvas: HTMLCanvasElement, point: ScreenPoint): boolean {
+  const rect = canvas.getBoundingClientRect();
+  return point.x >= 0 && point.y >= 0 && point.x < rect.width && point.y < rect.height;
+}
+
+/** Element under a canvas-relative point, or the document element outside the viewport. */
+function elementAt(canvas: HTMLCanvasElement, point: ScreenPoint): Element {
+  const { clientX, clientY } = toClientCoords(canvas, point);
+  return document.elementFromPoint(clientX, clientY) ?? document.documentElement;
+}
+
+/**
+ * Fire the boundary events for the pointer crossing the canvas edge:
+ * pointerout + pointerleave when leaving, pointerover + pointerenter when
+ * entering. The non-bubbling leave/enter also go to each ancestor the
+ * pointer crosses out of / into (R3F listens on the canvas container).
+ */
+function dispatchBoundary(
+  canvas: HTMLCanvasElement,
+  point: ScreenPoint,
+  pointerId: number,
+  direction: 'enter' | 'leave',
+): void {
+  const init = makePointerInit(canvas, point, pointerId);
+  const { clientX, clientY } = toClientCoords(canvas, point);
+  const crossed: Element[] = [];
+  for (let el: Element | null = canvas; el && el !== document.documentElement; el = el.parentElement) {
+    const rect = el.getBoundingClientRect();
+    const inside = clientX >= rect.left && clientX < rect.right && clientY >= rect.top && clientY < rect.bottom;
+    if (el !== canvas && inside) break;
+    crossed.push(el);
+  }
+  const [bubbling, single] = direction === 'leave' ? ['pointerout', 'pointerleave'] : ['pointerover', 'pointerenter'];
+  canvas.dispatchEvent(new PointerEvent(bubbling, init));
+  // Leave fires innermost first, enter outermost first
+  const order = direction === 'leave' ? crossed : [...crossed].reverse();
+  for (const el of order) {
+    el.dispatchEvent(new PointerEvent(single, { ...init, bubbles: false }));
   }
 }
 
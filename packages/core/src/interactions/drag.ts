@@ -4,12 +4,14 @@
  * Deterministic drag interactions on 3D objects. Supports world-space deltas
  * (move N units along an axis) and screen-space deltas (move N pixels).
  * Projects start/end points and dispatches a full pointerdown → pointermove × N
- * → pointerup sequence on the canvas.
+ * → pointerup sequence on the canvas. dragTo3D drags one object onto another.
  */
 import { Vector3 } from 'three';
 import { projectToScreen, screenDeltaToWorld } from './projection';
 import { dispatchDrag, type DragOptions } from './dispatch';
+import { verifyRaycastHit, type RaycastResult } from './raycastVerify';
 import { resolveObject, getCamera, getRenderer, getCanvasSize } from './resolve';
+import type { DragToOptions } from '../types';
 import { r3fLog } from '../debug';
 
 // ---------------------------------------------------------------------------
@@ -143,6 +145,126 @@ export async function drag3D(
   };
 }
 
+// ---------------------------------------------------------------------------
+// dragTo3D — drag one object onto another
+//
+// 1. Project source and target to screen space
+// 2. Verify the drop point hits the target (rays pass through the source)
+// 3. Drag source → target, dwelling over the target before pointerup
+// 4. Wait for the app to apply the drop, then read the source position
+// ---------------------------------------------------------------------------
+
+/** Options for dragTo3D. */
+export type DragTo3DOptions = DragToOptions;
+
+/** Result of a dragTo3D operation. */
+export interface DragTo3DResult {
+  /** Whether the drag was dispatched. */
+  dispatched: true;
+  /** Start screen point (the projected source). */
+  startPoint: { x: number; y: number };
+  /** Drop screen point (the projected target). */
+  dropPoint: { x: number; y: number };
+  /** Drop point raycast verification (only if verify: true). */
+  raycast?: RaycastResult;
+  /** Whether a handler took pointer capture during the drag. */
+  captured: boolean;
+  /** Source local position after the drop. */
+  position: [number, number, number];
+  /** Source world position after the drop. */
+  worldPosition: [number, number, number];
+}
+
+function nextFrame(): Promise<void> {
+  return new Promise((resolve) => requestAnimationFrame(() => resolve()));
+}
+
+/**
+ * Drag one 3D object onto another, e.g. snap to a socket or drop into a
+ * container.
+ *
+ * Drags from the source's projected point to the target's, then keeps
+ * moving over the target for `hoverSteps` so its onPointerOver /
+ * onPointerMove handlers (drop highlights, snap previews) run before the
+ * drop. The drop point is raycast-verified first — ignoring the source,
+ * which usually sits under the pointer while dragged — and a miss logs a
+ * warning naming the occluder. After the drop, `settleFrames` frames pass
+ * so state-driven updates land before the source position is read.
+ *
+ * @param sourceId  The dragged object's testId or uuid
+ * @param targetId  The drop target's testId or uuid
+ * @param options   Steps, delay, hover steps, verification, settle frames
+ * @returns         Drag result with the drop point and final source position
+ * @throws          If either object is not found or not visible on screen
+ *
+ * @example
+ * ```typescript
+ * const { position } = await dragTo3D('bolt-3', 'socket-a');
+ * ```
+ */
+export async function dragTo3D(
+  sourceId: string,
+  targetId: string,
+  options: DragTo3DOptions = {},
+): Promise<DragTo3DResult> {
+  const { hoverSteps = 3, verify = true, settleFrames = 1, steps, stepDelayMs } = options;
+
+  // 1. Resolve and project both objects
+  const source = resolveObject(sourceId);
+  const target = resolveObject(targetId);
+  const camera = getCamera();
+  const size = getCanvasSize();
+  r3fLog('drag', `dragTo3D("${sourceId}" → "${targetId}")`);
+
+  const from = projectToScreen(source, camera, size);
+  const to = projectToScreen(target, camera, size);
+  if (!from || !to) {
+    throw new Error(
+      `[react-three-dom] dragTo3D("${sourceId}", "${targetId}") failed: ` +
+      `${from ? 'target' : 'source'} is not visible on screen. ` +
+      `It may be behind the camera or outside the viewport.`,
+    );
+  }
+
+  // 2. Verify the drop point
+  let raycast: RaycastResult | undefined;
+  if (verify) {
+    raycast = verifyRaycastHit(to.point, target, camera, size, undefined, source);
+    if (!raycast.hit && raycast.occluderLabel) {
+      console.warn(
+        `[react-three-dom] dragTo3D("${sourceId}", "${targetId}") drops at ` +
+        `(${Math.round(to.point.x)}, ${Math.round(to.point.y)}) ` +
+        `but raycast hit ${raycast.occluderLabel} instead. ` +
+        `The target may be occluded.`,
+      );
+    }
+  }
+
+  // 3. Drag, dwelling over the target
+  const { captured } = await dispatchDrag(getRenderer().domElement, from.point, to.point, {
+    steps,
+    stepDelayMs,
+    dwellSteps: hoverSteps,
+  });
+
+  // 4. Read the source position once the drop has been applied
+  for (let i = 0; i < settleFrames; i++) {
+    await nextFrame();
+  }
+  const worldPos = new Vector3();
+  source.getWorldPosition(worldPos);
+
+  return {
+    dispatched: true,
+    startPoint: from.point,
+    dropPoint: to.point,
+    raycast,
+    captured,
+    position: source.position.toArray(),
+    worldPosition: worldPos.toArray(),
+  };
+}
+
 /**
  * Compute what world-space displacement a screen-space drag would produce.
  * Useful for previewing drag effects before committing.
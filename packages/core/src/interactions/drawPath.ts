@@ -9,6 +9,7 @@
  */
 import { r3fLog } from '../debug';
 import { getRenderer } from './resolve';
+import { heldModifiers } from './dispatch';
 
 // ---------------------------------------------------------------------------
 // drawPath — simulate a freeform drawing stroke on the canvas
@@ -104,6 +105,7 @@ function makeDrawPointerInit(
     width: 1,
     height: 1,
     pressure: point.pressure ?? 0.5,
+    ...heldModifiers(),
     ...overrides,
   };
 }
@@ -0,0 +1,175 @@
+/**
+ * @module gestures
+ *
+ * Two-finger touch gestures: pinch, rotate and pan. Each gesture computes a
+ * track of screen points per finger around a center (a projected object or
+ * the canvas center) and dispatches an interleaved multi-pointer touch
+ * sequence, which is what OrbitControls and drei's gesture handlers listen
+ * for on mobile.
+ */
+import { projectToScreen, type ScreenPoint } from './projection';
+import { dispatchMultiTouch } from './dispatch';
+import { resolveObject, getCamera, getRenderer, getCanvasSize } from './resolve';
+import { r3fLog } from '../debug';
+import type { GestureOptions, GestureResult } from '../types';
+
+/** Resolve the gesture center: target object, explicit point or canvas center. */
+function resolveCenter(gesture: string, options: GestureOptions): ScreenPoint {
+  const size = getCanvasSize();
+  if (options.target) {
+    const obj = resolveObject(options.target);
+    const projection = projectToScreen(obj, getCamera(), size);
+    if (!projection) {
+      throw new Error(
+        `[react-three-dom] ${gesture}("${options.target}") failed: object is not visible on screen.`,
+      );
+    }
+    return projection.point;
+  }
+  return options.center ?? { x: size.width / 2, y: size.height / 2 };
+}
+
+/**
+ * Build the two finger tracks. `fingerAt(t)` returns the offset of the first
+ * finger from the (possibly moving) center at progress t; the second finger
+ * mirrors it.
+ */
+function buildTracks(
+  center: ScreenPoint,
+  steps: number,
+  fingerAt: (t: number) => ScreenPoint,
+  centerOffsetAt: (t: number) => ScreenPoint = () => ({ x: 0, y: 0 }),
+): [ScreenPoint[], ScreenPoint[]] {
+  const a: ScreenPoint[] = [];
+  const b: ScreenPoint[] = [];
+  for (let i = 0; i <= steps; i++) {
+    const t = i / steps;
+    const offset = fingerAt(t);
+    const shift = centerOffsetAt(t);
+    const cx = center.x + shift.x;
+    const cy = center.y + shift.y;
+    a.push({ x: cx + offset.x, y: cy + offset.y });
+    b.push({ x: cx - offset.x, y: cy - offset.y });
+  }
+  return [a, b];
+}
+
+async function runGesture(
+  gesture: string,
+  center: ScreenPoint,
+  tracks: [ScreenPoint[], ScreenPoint[]],
+  options: GestureOptions,
+): Promise<GestureResult> {
+  const canvas = getRenderer().domElement;
+  const pointerIds = await dispatchMultiTouch(canvas, tracks, options);
+  const last = tracks[0].length - 1;
+  r3fLog('gesture', `${gesture} at (${Math.round(center.x)}, ${Math.round(center.y)}), ${last} steps`);
+  return {
+    dispatched: true,
+    center,
+    startPoints: [tracks[0][0], tracks[1][0]],
+    endPoints: [tracks[0][last], tracks[1][last]],
+    pointerIds,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// pinch3D — two fingers move apart (scale > 1) or together (scale < 1)
+// ---------------------------------------------------------------------------
+
+/**
+ * Pinch with two fingers placed horizontally around the gesture center.
+ * The finger distance goes from `spread` to `spread × scale`, so a scale
+ * above 1 spreads the fingers (zoom in with OrbitControls) and below 1
+ * pinches them together (zoom out).
+ *
+ * @param scale    Ratio of the final to the initial finger distance (> 0)
+ * @param options  Gesture options (target/center, spread, steps, stepDelayMs)
+ * @throws         If scale is not positive, or the target is not found or not visible
+ *
+ * @example
+ * ```typescript
+ * await pinch3D(2);                              // zoom in at the canvas center
+ * await pinch3D(0.5, { target: 'chair-primary' }); // zoom out over the chair
+ * ```
+ */
+export async function pinch3D(
+  scale: number,
+  options: GestureOptions = {},
+): Promise<GestureResult> {
+  if (!(scale > 0)) {
+    throw new Error(`[react-three-dom] pinch3D: scale must be a positive number, got ${scale}.`);
+  }
+  const { steps = 10, spread = 100 } = options;
+  const center = resolveCenter('pinch3D', options);
+  const tracks = buildTracks(center, steps, (t) => ({
+    x: (spread / 2) * (1 + (scale - 1) * t),
+    y: 0,
+  }));
+  return runGesture(`pinch3D(${scale})`, center, tracks, options);
+}
+
+// ---------------------------------------------------------------------------
+// rotateGesture3D — two fingers turn around the center
+// ---------------------------------------------------------------------------
+
+/**
+ * Rotate two fingers around the gesture center by `degrees`, keeping their
+ * distance at `spread`. Positive angles turn clockwise on screen.
+ *
+ * @param degrees  Rotation angle in degrees
+ * @param options  Gesture options (target/center, spread, steps, stepDelayMs)
+ * @throws         If the target is not found or not visible
+ *
+ * @example
+ * ```typescript
+ * await rotateGesture3D(90, { target: 'turntable' });
+ * ```
+ */
+export async function rotateGesture3D(
+  degrees: number,
+  options: GestureOptions = {},
+): Promise<GestureResult> {
+  const { steps = 10, spread = 100 } = options;
+  const center = resolveCenter('rotateGesture3D', options);
+  const radius = spread / 2;
+  const radians = (degrees * Math.PI) / 180;
+  const tracks = buildTracks(center, steps, (t) => ({
+    x: radius * Math.cos(radians * t),
+    y: radius * Math.sin(radians * t),
+  }));
+  return runGesture(`rotateGesture3D(${degrees}°)`, center, tracks, options);
+}
+
+// ---------------------------------------------------------------------------
+// twoFingerPan3D — both fingers move by the same screen delta
+// ---------------------------------------------------------------------------
+
+/**
+ * Move two fingers, `spread` pixels apart, by the same screen-space delta.
+ * OrbitControls pans the camera on this gesture (with `touches.TWO` set to
+ * `DOLLY_PAN`, the default).
+ *
+ * @param delta    Screen-space delta in CSS pixels
+ * @param options  Gesture options (target/center, spread, steps, stepDelayMs)
+ * @throws         If the target is not found or not visible
+ *
+ * @example
+ * ```typescript
+ * await twoFingerPan3D({ dx: 120, dy: 0 });
+ * ```
+ */
+export async function twoFingerPan3D(
+  delta: { dx: number; dy: number },
+  options: GestureOptions = {},
+): Promise<GestureResult> {
+  const { steps = 10, spread = 100 } = options;
+  const center = resolveCenter('twoFingerPan3D', options);
+  const tracks = buildTracks(
+    center,
+    steps,
+    () => ({ x: spread / 2, y: 0 }),
+    (t) => ({ x: delta.dx * t, y: delta.dy * t }),
+  );
+  return runGesture(`twoFingerPan3D(${delta.dx}, ${delta.dy})`, center, tracks, options);
+}
@@ -8,7 +8,7 @@
 import { projectToScreen } from './projection';
 import { dispatchHover, dispatchUnhover } from './dispatch';
 import { verifyRaycastHit } from './raycastVerify';
-import { resolveObject, getCamera, getRenderer, getCanvasSize } from './resolve';
+import { resolveTarget, getCamera, getRenderer, getCanvasSize } from './resolve';
 import type { RaycastResult } from './raycastVerify';
 import { r3fLog } from '../debug';
 
@@ -28,6 +28,10 @@ export interface Hover3DOptions {
    * Default: true
    */
   verify?: boolean;
+  /**
+   * For an InstancedMesh, hover a single instance (same as "mesh#index").
+   */
+  instanceId?: number;
 }
 
 /** Result of a hover3D operation. */
@@ -48,7 +52,7 @@ export interface Hover3DResult {
  * Projects the object to screen space, dispatches a synthetic hover event
  * sequence on the canvas, and optionally verifies the hit.
  *
- * @param idOrUuid  The object's testId or uuid
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
  * @param options   Hover options
  * @returns         Hover result with dispatch and verification info
  * @throws          If the object is not found or not visible on screen
@@ -65,14 +69,14 @@ export function hover3D(
   const { verify = true } = options;
 
   // 1. Resolve object
-  const obj = resolveObject(idOrUuid);
+  const { obj, instanceId } = resolveTarget(idOrUuid, options.instanceId);
   const camera = getCamera();
   const gl = getRenderer();
   const size = getCanvasSize();
   r3fLog('hover', `hover3D("${idOrUuid}") — resolving projection`);
 
   // 2. Project to screen
-  const projection = projectToScreen(obj, camera, size);
+  const projection = projectToScreen(obj, camera, size, instanceId);
   if (!projection) {
     throw new Error(
       `[react-three-dom] hover3D("${idOrUuid}") failed: object is not visible on screen. ` +
@@ -87,7 +91,7 @@ export function hover3D(
   // 4. Optional raycast verification
   let raycast: RaycastResult | undefined;
   if (verify) {
-    raycast = verifyRaycastHit(projection.point, obj, camera, size);
+    raycast = verifyRaycastHit(projection.point, obj, camera, size, instanceId);
     if (!raycast.hit && raycast.occluderLabel) {
       console.warn(
         `[react-three-dom] hover3D("${idOrUuid}") dispatched at ` +
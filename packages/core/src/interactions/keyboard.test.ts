@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { describeKey, parseCombo } from './keyboard';
+
+describe('parseCombo', () => {
+  it('splits modifiers from the main key', () => {
+    expect(parseCombo('Control+Shift+R')).toEqual(['Control', 'Shift', 'R']);
+    expect(parseCombo('a')).toEqual(['a']);
+  });
+
+  it('treats a trailing or lone "+" as the plus key', () => {
+    expect(parseCombo('+')).toEqual(['+']);
+    expect(parseCombo('Shift++')).toEqual(['Shift', '+']);
+  });
+
+  it('rejects empty key names', () => {
+    expect(() => parseCombo('')).toThrow('Invalid key combination ""');
+    expect(() => parseCombo('Control+')).toThrow('Invalid key combination');
+    expect(() => parseCombo('Control++Shift')).toThrow('Invalid key combination');
+  });
+});
+
+describe('describeKey', () => {
+  it('describes letters and digits', () => {
+    expect(describeKey('a')).toEqual({ key: 'a', code: 'KeyA', keyCode: 65, location: 0, printable: true });
+    expect(describeKey('R')).toMatchObject({ key: 'R', code: 'KeyR', keyCode: 82 });
+    expect(describeKey('7')).toMatchObject({ code: 'Digit7', keyCode: 55, printable: true });
+  });
+
+  it('maps shifted characters to their unshifted key', () => {
+    expect(describeKey('!')).toMatchObject({ key: '!', code: 'Digit1', keyCode: 49 });
+    expect(describeKey('?')).toMatchObject({ key: '?', code: 'Slash', keyCode: 191 });
+    expect(describeKey('+')).toMatchObject({ key: '+', code: 'Equal', keyCode: 187 });
+  });
+
+  it('describes named keys and modifiers', () => {
+    expect(describeKey('Enter')).toEqual({ key: 'Enter', code: 'Enter', keyCode: 13, location: 0, printable: false });
+    expect(describeKey('Shift')).toMatchObject({ code: 'ShiftLeft', keyCode: 16, location: 1, printable: false });
+    expect(describeKey('F5')).toMatchObject({ key: 'F5', code: 'F5', keyCode: 116, printable: false });
+  });
+
+  it('resolves aliases', () => {
+    expect(describeKey('Ctrl')).toMatchObject({ key: 'Control', code: 'ControlLeft' });
+    expect(describeKey('Cmd')).toMatchObject({ key: 'Meta', code: 'MetaLeft' });
+    expect(describeKey('Space')).toMatchObject({ key: ' ', code: 'Space', keyCode: 32, printable: true });
+    expect(describeKey('Esc')).toMatchObject({ key: 'Escape', keyCode: 27 });
+  });
+
+  it('rejects unknown multi-character names', () => {
+    expect(() => describeKey('Enterr')).toThrow('Unknown key "Enterr"');
+    expect(() => describeKey('F13')).toThrow('Unknown key "F13"');
+  });
+});
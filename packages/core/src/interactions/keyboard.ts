@@ -0,0 +1,338 @@
+/**
+ * @module keyboard
+ *
+ * Keyboard interactions for key-driven R3F apps (drei `KeyboardControls`,
+ * "press R to rotate" gizmos). Focuses the canvas and dispatches realistic
+ * keydown → keypress → keyup sequences with modifiers and auto-repeat.
+ * Keys held with keyDown3D stay down across calls, and their modifier flags
+ * are applied to every synthetic pointer event, so shift-drag and
+ * ctrl-click chords work with the existing pointer interactions.
+ */
+import { getRenderer } from './resolve';
+import { heldModifiers, setHeldModifiers, type ModifierState } from './dispatch';
+import { r3fLog } from '../debug';
+import type { KeyPressOptions, TypeTextOptions } from '../types';
+
+// ---------------------------------------------------------------------------
+// Key descriptions
+// ---------------------------------------------------------------------------
+
+export interface KeyDescription {
+  /** KeyboardEvent.key */
+  key: string;
+  /** KeyboardEvent.code */
+  code: string;
+  /** Legacy KeyboardEvent.keyCode, still read by some libraries */
+  keyCode: number;
+  /** 1 (left) for modifiers, 0 otherwise */
+  location: number;
+  /** Whether the key produces a character (and so a keypress event) */
+  printable: boolean;
+}
+
+const MODIFIERS: Record<string, keyof ModifierState> = {
+  Shift: 'shiftKey',
+  Control: 'ctrlKey',
+  Alt: 'altKey',
+  Meta: 'metaKey',
+};
+
+const ALIASES: Record<string, string> = {
+  Ctrl: 'Control',
+  Cmd: 'Meta',
+  Command: 'Meta',
+  Option: 'Alt',
+  Esc: 'Escape',
+  Space: ' ',
+  Return: 'Enter',
+};
+
+/** code and keyCode for non-character keys. */
+const NAMED_KEYS: Record<string, [string, number]> = {
+  Shift: ['ShiftLeft', 16],
+  Control: ['ControlLeft', 17],
+  Alt: ['AltLeft', 18],
+  Meta: ['MetaLeft', 91],
+  Enter: ['Enter', 13],
+  Escape: ['Escape', 27],
+  Tab: ['Tab', 9],
+  Backspace: ['Backspace', 8],
+  Delete: ['Delete', 46],
+  Insert: ['Insert', 45],
+  Home: ['Home', 36],
+  End: ['End', 35],
+  PageUp: ['PageUp', 33],
+  PageDown: ['PageDown', 34],
+  ArrowUp: ['ArrowUp', 38],
+  ArrowDown: ['ArrowDown', 40],
+  ArrowLeft: ['ArrowLeft', 37],
+  ArrowRight: ['ArrowRight', 39],
+};
+
+/** code and keyCode for unshifted punctuation. */
+const PUNCTUATION: Record<string, [string, number]> = {
+  ' ': ['Space', 32],
+  '-': ['Minus', 189],
+  '=': ['Equal', 187],
+  '[': ['BracketLeft', 219],
+  ']': ['BracketRight', 221],
+  ';': ['Semicolon', 186],
+  "'": ['Quote', 222],
+  ',': ['Comma', 188],
+  '.': ['Period', 190],
+  '/': ['Slash', 191],
+  '\\': ['Backslash', 220],
+  '`': ['Backquote', 192],
+};
+
+/** Shifted characters → the unshifted key on a US layout. */
+const SHIFTED: Record<string, string> = {
+  '!': '1', '@': '2', '#': '3', '$': '4', '%': '5', '^': '6', '&': '7', '*': '8', '(': '9', ')': '0',
+  '_': '-', '+': '=', '{': '[', '}': ']', ':': ';', '"': "'", '<': ',', '>': '.', '?': '/', '|': '\\', '~': '`',
+};
+
+/** Key, code and keyCode for a key name or character (US layout). */
+export function describeKey(name: string): KeyDescription {
+  const key = ALIASES[name] ?? name;
+  const named = NAMED_KEYS[key];
+  if (named) {
+    return { key, code: named[0], keyCode: named[1], location: key in MODIFIERS ? 1 : 0, printable: false };
+  }
+  const fn = /^F([1-9]|1[0-2])$/.exec(key);
+  if (fn) return { key, code: key, keyCode: 111 + Number(fn[1]), location: 0, printable: false };
+  if ([...key].length !== 1) {
+    throw new Error(
+      `[react-three-dom] Unknown key "${name}". Use a single character or a key name such as ` +
+      `"Enter", "Escape", "ArrowUp", "Shift" or "F1".`,
+    );
+  }
+
+  const base = SHIFTED[key] ?? key;
+  if (/^[a-z]$/i.test(base)) {
+    const upper = base.toUpperCase();
+    return { key, code: `Key${upper}`, keyCode: upper.charCodeAt(0), location: 0, printable: true };
+  }
+  if (/^[0-9]$/.test(base)) {
+    return { key, code: `Digit${base}`, keyCode: base.charCodeAt(0), location: 0, printable: true };
+  }
+  const punctuation = PUNCTUATION[base];
+  return {
+    key,
+    code: punctuation?.[0] ?? '',
+    keyCode: punctuation?.[1] ?? key.charCodeAt(0),
+    location: 0,
+    printable: true,
+  };
+}
+
+/**
+ * Split a Playwright-style combo ("Control+Shift+R", "Shift++") into key
+ * names; the last one is the main key.
+ */
+export function parseCombo(combo: string): string[] {
+  const keys = combo === '+' ? ['+'] : combo.endsWith('++') ? [...combo.slice(0, -2).split('+'), '+'] : combo.split('+');
+  if (keys.some((k) => k === '')) {
+    throw new Error(`[react-three-dom] Invalid key combination "${combo}".`);
+  }
+  return keys;
+}
+
+// ---------------------------------------------------------------------------
+// Dispatch
+// ---------------------------------------------------------------------------
+
+/** Keys currently held by keyDown3D / an in-progress press3D, by key name. */
+const _heldKeys = new Map<string, KeyDescription>();
+
+/**
+ * Where keyboard events go. With `focus` (the default) the canvas is focused
+ * first, getting `tabindex="-1"` if it has none so it can take focus
+ * without joining the tab order. Otherwise events go to whatever has focus.
+ */
+function keyboardTarget(focus: boolean): EventTarget {
+  if (!focus) return document.activeElement ?? document.body;
+  const canvas = getRenderer().domElement;
+  if (!canvas.hasAttribute('tabindex')) canvas.setAttribute('tabindex', '-1');
+  if (document.activeElement !== canvas) canvas.focus({ preventScroll: true });
+  return canvas;
+}
+
+function dispatchKeyEvent(
+  target: EventTarget,
+  type: 'keydown' | 'keypress' | 'keyup',
+  desc: KeyDescription,
+  repeat = false,
+): void {
+  const event = new KeyboardEvent(type, {
+    bubbles: true,
+    cancelable: true,
+    composed: true,
+    key: desc.key,
+    code: desc.code,
+    location: desc.location,
+    repeat,
+    ...heldModifiers(),
+  });
+  // keyCode / which / charCode cannot be set through the init dictionary
+  const keyCode = type === 'keypress' ? desc.key.charCodeAt(0) : desc.keyCode;
+  Object.defineProperty(event, 'keyCode', { get: () => keyCode });
+  Object.defineProperty(event, 'which', { get: () => keyCode });
+  Object.defineProperty(event, 'charCode', { get: () => (type === 'keypress' ? keyCode : 0) });
+  target.dispatchEvent(event);
+}
+
+/** keydown (plus keypress for characters); returns the number of events. */
+function pressDown(target: EventTarget, desc: KeyDescription, repeat = false): number {
+  const modifier = MODIFIERS[desc.key];
+  // A modifier's own keydown already reports the modifier as held
+  if (modifier) setHeldModifiers({ [modifier]: true });
+  _heldKeys.set(desc.key, desc);
+  dispatchKeyEvent(target, 'keydown', desc, repeat);
+  // Browsers skip keypress for Ctrl/Meta shortcuts
+  const { ctrlKey, metaKey } = heldModifiers();
+  if (desc.printable && !ctrlKey && !metaKey) {
+    dispatchKeyEvent(target, 'keypress', desc, repeat);
+    return 2;
+  }
+  return 1;
+}
+
+function release(target: EventTarget, desc: KeyDescription): void {
+  const modifier = MODIFIERS[desc.key];
+  if (modifier) setHeldModifiers({ [modifier]: false });
+  _heldKeys.delete(desc.key);
+  dispatchKeyEvent(target, 'keyup', desc);
+}
+
+/** Result of a keyboard interaction. */
+export interface KeyboardResult {
+  /** Whether the key events were dispatched. */
+  dispatched: true;
+  /** Total number of keyboard events dispatched. */
+  eventCount: number;
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Press a key or key combination: modifiers go down in order, the main key
+ * is pressed (with `repeat` extra auto-repeat keydowns), then everything is
+ * released in reverse order. Keys already held with keyDown3D are left down.
+ *
+ * @param combo    A key ("r", "Enter", "ArrowUp") or combo ("Control+Shift+Z")
+ * @param options  Repeat count, hold delay, and whether to focus the canvas
+ * @throws         If a key name is not recognized
+ *
+ * @example
+ * ```typescript
+ * await press3D('r');                          // rotate gizmo shortcut
+ * await press3D('Control+z');                  // undo
+ * await press3D('ArrowUp', { repeat: 5, delayMs: 30 }); // held arrow key
+ * ```
+ */
+export async function press3D(
+  combo: string,
+  options: KeyPressOptions = {},
+): Promise<KeyboardResult> {
+  const { repeat = 0, delayMs = 0, focus = true } = options;
+  const keys = parseCombo(combo).map(describeKey);
+  const target = keyboardTarget(focus);
+  r3fLog('keyboard', `press3D("${combo}") repeat=${repeat}`);
+
+  const pressed: KeyDescription[] = [];
+  let eventCount = 0;
+  for (const desc of keys.slice(0, -1)) {
+    if (_heldKeys.has(desc.key)) continue;
+    eventCount += pressDown(target, desc);
+    pressed.push(desc);
+  }
+
+  // Shift+letter reports the uppercase letter, as a real keyboard would
+  let main = keys[keys.length - 1];
+  if (heldModifiers().shiftKey && /^[a-z]$/.test(main.key)) main = { ...main, key: main.key.toUpperCase() };
+  eventCount += pressDown(target, main);
+  for (let i = 0; i < repeat; i++) {
+    if (delayMs > 0) await sleep(delayMs);
+    eventCount += pressDown(target, main, true);
+  }
+  if (delayMs > 0) await sleep(delayMs);
+  release(target, main);
+  eventCount++;
+
+  for (const desc of pressed.reverse()) {
+    release(target, desc);
+    eventCount++;
+  }
+  return { dispatched: true, eventCount };
+}
+
+/**
+ * Type text one character at a time (keydown → keypress → keyup each).
+ * Characters are sent as-is: uppercase letters do not press Shift.
+ *
+ * @example
+ * ```typescript
+ * await type3D('hello', { delayMs: 20 });
+ * ```
+ */
+export async function type3D(
+  text: string,
+  options: TypeTextOptions = {},
+): Promise<KeyboardResult> {
+  const { delayMs = 0, focus = true } = options;
+  const target = keyboardTarget(focus);
+  r3fLog('keyboard', `type3D(${JSON.stringify(text)})`);
+
+  let eventCount = 0;
+  let first = true;
+  for (const char of text) {
+    if (!first && delayMs > 0) await sleep(delayMs);
+    first = false;
+    const desc = char === '\n' ? describeKey('Enter') : describeKey(char);
+    eventCount += pressDown(target, desc);
+    release(target, desc);
+    eventCount++;
+  }
+  return { dispatched: true, eventCount };
+}
+
+/**
+ * Press and hold keys (a key or combo) until keyUp3D. Held modifiers are
+ * added to every synthetic pointer event, for shift-drag / ctrl-click chords.
+ *
+ * @example
+ * ```typescript
+ * keyDown3D('Shift');
+ * await drag3D('chair-primary', { x: 2, y: 0, z: 0 }); // shift-drag
+ * keyUp3D('Shift');
+ * ```
+ */
+export function keyDown3D(combo: string, options: Pick<KeyPressOptions, 'focus'> = {}): KeyboardResult {
+  const target = keyboardTarget(options.focus ?? true);
+  let eventCount = 0;
+  for (const desc of parseCombo(combo).map(describeKey)) {
+    eventCount += pressDown(target, desc, _heldKeys.has(desc.key));
+  }
+  r3fLog('keyboard', `keyDown3D("${combo}")`);
+  return { dispatched: true, eventCount };
+}
+
+/** Release keys held with keyDown3D, in reverse order. Keys not held are ignored. */
+export function keyUp3D(combo: string, options: Pick<KeyPressOptions, 'focus'> = {}): KeyboardResult {
+  const target = keyboardTarget(options.focus ?? true);
+  let eventCount = 0;
+  for (const desc of parseCombo(combo).map(describeKey).reverse()) {
+    const held = _heldKeys.get(desc.key);
+    if (!held) continue;
+    release(target, held);
+    eventCount++;
+  }
+  r3fLog('keyboard', `keyUp3D("${combo}")`);
+  return { dispatched: true, eventCount };
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
@@ -0,0 +1,107 @@
+/**
+ * @module longPress
+ *
+ * Press-and-hold on a 3D object, for apps that open radial menus or start
+ * drag-to-place after a hold. Projects the object to screen space, keeps the
+ * pointer down for a configurable duration (optionally with small jitter
+ * moves) and releases, then verifies the hit via raycasting.
+ */
+import { projectToScreen } from './projection';
+import { dispatchLongPress } from './dispatch';
+import { verifyRaycastHit } from './raycastVerify';
+import { resolveTarget, getCamera, getRenderer, getCanvasSize } from './resolve';
+import type { RaycastResult } from './raycastVerify';
+import type { LongPressOptions } from '../types';
+import { r3fLog } from '../debug';
+
+/** Options for longPress3D. */
+export interface LongPress3DOptions extends LongPressOptions {
+  /**
+   * Whether to verify the press hit via raycast.
+   * Set to false for non-mesh objects (lights, cameras, groups).
+   * Default: true
+   */
+  verify?: boolean;
+  /** For an InstancedMesh, target a single instance (same as "mesh#index"). */
+  instanceId?: number;
+}
+
+/** Result of a longPress3D operation. */
+export interface LongPress3DResult {
+  /** Whether the press was dispatched. */
+  dispatched: true;
+  /** Raycast verification result (only if verify: true). */
+  raycast?: RaycastResult;
+  /** The screen point where the pointer was held. */
+  screenPoint: { x: number; y: number };
+  /** Which projection strategy was used. */
+  strategy: string;
+  /** Time the pointer was actually held down, in ms. */
+  heldMs: number;
+  /** Number of jitter pointermoves dispatched while holding. */
+  moveCount: number;
+}
+
+/**
+ * Press and hold a 3D object by its testId or uuid.
+ *
+ * Dispatches pointerdown, waits `durationMs` (dispatching jitter moves if
+ * requested), then pointerup and — for mouse and pen — click. The hit is
+ * verified before the hold starts, so a warning names any occluder.
+ *
+ * @param idOrUuid  The object's testId or uuid, or an instance id ("trees#42")
+ * @param options   Hold duration, jitter, pointer type, verification
+ * @returns         Result with the screen point, hold time and move count
+ * @throws          If the object is not found or not visible on screen
+ *
+ * @example
+ * ```typescript
+ * await longPress3D('chair-primary', { durationMs: 800 });
+ * await longPress3D('chair-primary', { durationMs: 800, jitter: 3, pointerType: 'touch' });
+ * ```
+ */
+export async function longPress3D(
+  idOrUuid: string,
+  options: LongPress3DOptions = {},
+): Promise<LongPress3DResult> {
+  const { verify = true, instanceId: explicitInstance, ...pressOptions } = options;
+
+  const { obj, instanceId } = resolveTarget(idOrUuid, explicitInstance);
+  const camera = getCamera();
+  const gl = getRenderer();
+  const size = getCanvasSize();
+  r3fLog('click', `longPress3D("${idOrUuid}") durationMs=${pressOptions.durationMs ?? 600}`);
+
+  const projection = projectToScreen(obj, camera, size, instanceId);
+  if (!projection) {
+    throw new Error(
+      `[react-three-dom] longPress3D("${idOrUuid}") failed: object is not visible on screen. ` +
+      `It may be behind the camera or outside the viewport.`,
+    );
+  }
+
+  let raycast: RaycastResult | undefined;
+  if (verify) {
+    raycast = verifyRaycastHit(projection.point, obj, camera, size, instanceId);
+    if (!raycast.hit && raycast.occluderLabel) {
+      console.warn(
+        `[react-three-dom] longPress3D("${idOrUuid}") dispatched at ` +
+        `(${Math.round(projection.point.x)}, ${Math.round(projection.point.y)}) ` +
+        `but raycast hit ${raycast.occluderLabel} instead. ` +
+        `The object may be occluded.`,
+      );
+    }
+  }
+
+  const start = Date.now();
+  const moveCount = await dispatchLongPress(gl.domElement, projection.point, pressOptions);
+
+  return {
+    dispatched: true,
+    raycast,
+    screenPoint: projection.point,
+    strategy: projection.strategy,
+    heldMs: Date.now() - start,
+    moveCount,
+  };
+}
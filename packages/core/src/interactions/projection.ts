@@ -15,6 +15,7 @@ import {
   Frustum,
   Matrix4,
 } from 'three';
+import type { InstancedMesh } from 'three';
 
 // ---------------------------------------------------------------------------
 // Types
@@ -53,6 +54,7 @@ const _vec3B = /* @__PURE__ */ new Vector3();
 const _box3 = /* @__PURE__ */ new Box3();
 const _frustum = /* @__PURE__ */ new Frustum();
 const _projMatrix = /* @__PURE__ */ new Matrix4();
+const _instanceMatrix = /* @__PURE__ */ new Matrix4();
 
 // ---------------------------------------------------------------------------
 // NDC → screen helpers
@@ -95,16 +97,44 @@ function isInFrontOfCamera(ndc: Vector3): boolean {
 
 // ---------------------------------------------------------------------------
 // Candidate point generators
+//
+// `instanceId` narrows an InstancedMesh to a single instance: its geometry
+// bounds transformed by that instance's matrix.
 // ---------------------------------------------------------------------------
 
+function isInstanceTarget(obj: Object3D, instanceId?: number): instanceId is number {
+  return instanceId !== undefined && (obj as InstancedMesh).isInstancedMesh === true;
+}
+
+/** Fill `_box3` with the world-space bounds of the object (or instance). */
+function setTargetBox(obj: Object3D, instanceId?: number): Box3 {
+  if (!isInstanceTarget(obj, instanceId)) return _box3.setFromObject(obj);
+
+  const mesh = obj as InstancedMesh;
+  if (!mesh.geometry.boundingBox) mesh.geometry.computeBoundingBox();
+  if (!mesh.geometry.boundingBox) return _box3.makeEmpty();
+  mesh.getMatrixAt(instanceId, _instanceMatrix);
+  return _box3
+    .copy(mesh.geometry.boundingBox)
+    .applyMatrix4(_instanceMatrix)
+    .applyMatrix4(mesh.matrixWorld);
+}
+
+/** World position of the object (or instance origin). */
+function getTargetOrigin(obj: Object3D, target: Vector3, instanceId?: number): Vector3 {
+  if (!isInstanceTarget(obj, instanceId)) return obj.getWorldPosition(target);
+  (obj as InstancedMesh).getMatrixAt(instanceId, _instanceMatrix);
+  return target.setFromMatrixPosition(_instanceMatrix).applyMatrix4(obj.matrixWorld);
+}
+
 /**
  * Compute the world-space bounding box center of an Object3D.
  * Falls back to the object's world position if the bbox is empty.
  */
-function getWorldCenter(obj: Object3D): Vector3 {
-  _box3.setFromObject(obj);
+function getWorldCenter(obj: Object3D, instanceId?: number): Vector3 {
+  setTargetBox(obj, instanceId);
   if (_box3.isEmpty()) {
-    obj.getWorldPosition(_vec3);
+    getTargetOrigin(obj, _vec3, instanceId);
     return _vec3;
   }
   _box3.getCenter(_vec3);
@@ -115,8 +145,8 @@ function getWorldCenter(obj: Object3D): Vector3 {
  * Get the 8 corners of the world-space bounding box.
  * Returns an empty array if the bbox is degenerate.
  */
-function getBboxCorners(obj: Object3D): Vector3[] {
-  _box3.setFromObject(obj);
+function getBboxCorners(obj: Object3D, instanceId?: number): Vector3[] {
+  setTargetBox(obj, instanceId);
   if (_box3.isEmpty()) return [];
 
   const { min, max } = _box3;
@@ -136,8 +166,8 @@ function getBboxCorners(obj: Object3D): Vector3[] {
  * Get the 6 face centers of the world-space bounding box.
  * These are better click targets than corners for many geometries.
  */
-function getBboxFaceCenters(obj: Object3D): Vector3[] {
-  _box3.setFromObject(obj);
+function getBboxFaceCenters(obj: Object3D, instanceId?: number): Vector3[] {
+  setTargetBox(obj, instanceId);
   if (_box3.isEmpty()) return [];
 
   const center = _box3.getCenter(new Vector3());
@@ -195,19 +225,22 @@ function tryProjectPoint(
  * For each strategy, we prefer points that are both on-screen AND closest to
  * the viewport center (most reliable for event dispatch).
  *
+ * Pass `instanceId` to project a single instance of an InstancedMesh.
+ *
  * Returns `null` if no part of the object is visible on screen.
  */
 export function projectToScreen(
   obj: Object3D,
   camera: Camera,
   size: CanvasSize,
+  instanceId?: number,
 ): ProjectionResult | null {
   // Ensure world matrices are up to date
   obj.updateWorldMatrix(true, false);
   camera.updateWorldMatrix(true, false);
 
   // Strategy 1: Bounding box center
-  const center = getWorldCenter(obj);
+  const center = getWorldCenter(obj, instanceId);
   const centerResult = tryProjectPoint(center, camera, size);
 
   if (centerResult && centerResult.onScreen) {
@@ -219,7 +252,7 @@ export function projectToScreen(
   }
 
   // Strategy 2: Face centers — better fallback for large objects
-  const faceCenters = getBboxFaceCenters(obj);
+  const faceCenters = getBboxFaceCenters(obj, instanceId);
   const faceResult = findBestOnScreenPoint(faceCenters, camera, size);
   if (faceResult) {
     return {
@@ -230,7 +263,7 @@ export function projectToScreen(
   }
 
   // Strategy 3: Bbox corners — catches partially visible objects
-  const corners = getBboxCorners(obj);
+  const corners = getBboxCorners(obj, instanceId);
   const cornerResult = findBestOnScreenPoint(corners, camera, size);
   if (cornerResult) {
     return {
@@ -241,7 +274,7 @@ export function projectToScreen(
   }
 
   // Strategy 4: Fallback to world position (lights, helpers, empty groups)
-  obj.getWorldPosition(_vec3);
+  getTargetOrigin(obj, _vec3, instanceId);
   const originResult = tryProjectPoint(_vec3.clone(), camera, size);
   if (originResult && originResult.onScreen) {
     return {
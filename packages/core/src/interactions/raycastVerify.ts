@@ -98,12 +98,17 @@ function findScene(obj: Object3D): Scene | null {
  * @param target  The intended Object3D to hit
  * @param camera  The active camera
  * @param size    Canvas size in CSS pixels
+ * @param instanceId  For InstancedMesh targets, the instance that must be hit
+ * @param ignore  An object (and its descendants) the ray passes through,
+ *                e.g. the object being dragged onto the target
  */
 export function verifyRaycastHit(
   point: ScreenPoint,
   target: Object3D,
   camera: Camera,
   size: CanvasSize,
+  instanceId?: number,
+  ignore?: Object3D,
 ): RaycastResult {
   const scene = findScene(target);
   if (!scene) {
@@ -114,7 +119,9 @@ export function verifyRaycastHit(
   _raycaster.setFromCamera(ndc, camera);
 
   // Raycast against the entire scene
-  const intersections = _raycaster.intersectObjects(scene.children, true);
+  const intersections = _raycaster
+    .intersectObjects(scene.children, true)
+    .filter((i) => !ignore || !isTargetOrDescendant(i.object, ignore));
 
   if (intersections.length === 0) {
     // No hits at all — object might be transparent, or a light/helper
@@ -124,6 +131,16 @@ export function verifyRaycastHit(
 
   // Check if the first hit is our target (or a child of our target)
   const firstHit = intersections[0].object;
+  if (instanceId !== undefined && firstHit === target) {
+    const hitInstance = intersections[0].instanceId;
+    if (hitInstance === instanceId) return { hit: true };
+    // Another instance of the same mesh is in front
+    return {
+      hit: false,
+      occluder: firstHit,
+      occluderLabel: `instance #${hitInstance} of ${getObjectLabel(firstHit)}`,
+    };
+  }
   if (isTargetOrDescendant(firstHit, target)) {
     return { hit: true };
   }
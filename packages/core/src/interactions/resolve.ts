@@ -6,7 +6,7 @@
  * by ThreeDom each frame) so interaction functions can resolve objects and
  * access rendering state without prop-drilling.
  */
-import type { Object3D, Camera, WebGLRenderer } from 'three';
+import type { Object3D, Camera, InstancedMesh, WebGLRenderer } from 'three';
 import type { ObjectStore } from '../store/ObjectStore';
 import type { CanvasSize } from './projection';
 
@@ -85,7 +85,7 @@ export function getCanvasSize(): CanvasSize {
 }
 
 /**
- * Resolve a testId or uuid to a live Object3D reference.
+ * Resolve a testId, uuid or path id to a live Object3D reference.
  * Throws a descriptive error if the object is not found.
  */
 export function resolveObject(idOrUuid: string): Object3D {
@@ -99,3 +99,40 @@ export function resolveObject(idOrUuid: string): Object3D {
   }
   return obj;
 }
+
+/** An interaction target: an object, or one instance of an InstancedMesh. */
+export interface ResolvedTarget {
+  obj: Object3D;
+  /** Set when targeting a single instance of an InstancedMesh. */
+  instanceId?: number;
+}
+
+/**
+ * Resolve a testId, uuid, path or instance id ("trees#42" or a per-instance
+ * testId) to an interaction target. An explicit `instanceId` narrows an
+ * InstancedMesh target to that instance.
+ * Throws a descriptive error if nothing matches.
+ */
+export function resolveTarget(idOrUuid: string, instanceId?: number): ResolvedTarget {
+  const store = getStore();
+  const obj = store.getObject3D(idOrUuid);
+  if (!obj) {
+    const instance = instanceId === undefined ? store.resolveInstance(idOrUuid) : null;
+    if (instance) return { obj: instance.mesh, instanceId: instance.index };
+    return { obj: resolveObject(idOrUuid) };
+  }
+  if (instanceId === undefined) return { obj };
+
+  const mesh = obj as InstancedMesh;
+  if (!mesh.isInstancedMesh) {
+    throw new Error(
+      `[react-three-dom] Object "${idOrUuid}" is a ${obj.type}, not an InstancedMesh — cannot target instanceId ${instanceId}.`,
+    );
+  }
+  if (!Number.isInteger(instanceId) || instanceId < 0 || instanceId >= mesh.count) {
+    throw new Error(
+      `[react-three-dom] instanceId ${instanceId} is out of range for "${idOrUuid}" (count: ${mesh.count}).`,
+    );
+  }
+  return { obj, instanceId };
+}
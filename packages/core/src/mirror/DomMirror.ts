@@ -160,7 +160,7 @@ export class DomMirror {
 
     // Apply all Tier 1 attributes
     const prevAttrs = new Map<string, string>();
-    applyAttributes(element, meta, prevAttrs);
+    applyAttributes(element, meta, prevAttrs, this._store.getCustomAttributes());
 
     // Create LRU node
     const lruNode: LRUNode = { uuid, prev: null, next: null };
@@ -265,7 +265,7 @@ export class DomMirror {
     if (parentNode) {
       const parentMeta = this._store.getByUuid(parentUuid);
       if (parentMeta) {
-        applyAttributes(parentNode.element, parentMeta, parentNode.prevAttrs);
+        applyAttributes(parentNode.element, parentMeta, parentNode.prevAttrs, this._store.getCustomAttributes());
       }
     }
   }
@@ -281,6 +281,34 @@ export class DomMirror {
     });
   }
 
+  /**
+   * Called when a tracked object moves to another parent in the same scene.
+   * Moves the existing DOM node (materialized descendants come along)
+   * instead of destroying and recreating it. If the new parent is not
+   * materialized the node is dematerialized, as a lazily hidden child would
+   * be; if only the new parent is materialized the node is created there.
+   */
+  onObjectReparented(obj: Object3D, oldParentUuid: string | null): void {
+    const newParentUuid = obj.parent?.uuid ?? null;
+    const node = this._nodes.get(obj.uuid);
+    const newParentNode = newParentUuid ? this._nodes.get(newParentUuid) : undefined;
+
+    if (node && newParentNode) {
+      newParentNode.element.appendChild(node.element);
+      this._parentMap.set(obj.uuid, newParentUuid);
+      this._lruTouch(node.lruNode);
+      this.syncAttributes(obj);
+    } else if (node) {
+      this.dematerialize(obj.uuid);
+    } else if (newParentNode) {
+      this.materialize(obj.uuid);
+    }
+
+    // Both parents' child lists changed
+    if (oldParentUuid) this.syncAttributesByUuid(oldParentUuid);
+    if (newParentUuid) this.syncAttributesByUuid(newParentUuid);
+  }
+
   // -------------------------------------------------------------------------
   // Attribute sync (called per-frame by ThreeDom)
   // -------------------------------------------------------------------------
@@ -297,7 +325,7 @@ export class DomMirror {
     const meta = this._store.getMetadata(obj);
     if (!meta) return 0;
 
-    return applyAttributes(node.element, meta, node.prevAttrs);
+    return applyAttributes(node.element, meta, node.prevAttrs, this._store.getCustomAttributes());
   }
 
   /**
@@ -310,7 +338,7 @@ export class DomMirror {
     const meta = this._store.getByUuid(uuid);
     if (!meta) return 0;
 
-    return applyAttributes(node.element, meta, node.prevAttrs);
+    return applyAttributes(node.element, meta, node.prevAttrs, this._store.getCustomAttributes());
   }
 
   // -------------------------------------------------------------------------
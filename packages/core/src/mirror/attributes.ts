@@ -4,6 +4,9 @@
  * Serializes ObjectStore Tier 1 metadata into DOM data-attributes and applies
  * them to mirror elements with minimal DOM writes. Only attributes whose values
  * actually changed are written, keeping per-frame cost near zero for static objects.
+ *
+ * App-defined fields from metadata extractors (`metadata.custom`) are written
+ * to the attributes their store maps them to (see {@link customAttributeName}).
  */
 import type { ObjectMetadata } from '../types';
 
@@ -21,6 +24,8 @@ const ATTRIBUTE_MAP: Record<string, (meta: ObjectMetadata) => string | undefined
   'data-name': (m) => m.name || undefined,
   'data-type': (m) => m.type,
   'data-visible': (m) => String(m.visible),
+  'data-effective-visible': (m) => String(m.effectiveVisible),
+  'data-visibility-reason': (m) => m.visibilityReason,
   'data-test-id': (m) => m.testId,
   'data-geometry': (m) => m.geometryType,
   'data-material': (m) => m.materialType,
@@ -30,15 +35,38 @@ const ATTRIBUTE_MAP: Record<string, (meta: ObjectMetadata) => string | undefined
   'data-vertex-count': (m) => m.vertexCount !== undefined ? String(m.vertexCount) : undefined,
   'data-triangle-count': (m) => m.triangleCount !== undefined ? String(m.triangleCount) : undefined,
   'data-instance-count': (m) => m.instanceCount !== undefined ? String(m.instanceCount) : undefined,
+  'data-geometry-version': (m) => m.geometryVersion !== undefined ? String(m.geometryVersion) : undefined,
+  'data-draw-range': (m) => m.drawRange ? `${m.drawRange[0]},${m.drawRange[1]}` : undefined,
+  'data-morph-influences': (m) => m.morphTargetInfluences?.map(round).join(','),
   'data-fov': (m) => m.fov !== undefined ? String(m.fov) : undefined,
   'data-near': (m) => m.near !== undefined ? String(m.near) : undefined,
   'data-far': (m) => m.far !== undefined ? String(m.far) : undefined,
   'data-zoom': (m) => m.zoom !== undefined ? String(m.zoom) : undefined,
+  // Extended tier (ObjectStore `extendedMetadata: true`)
+  'data-color': (m) => m.color,
+  'data-emissive': (m) => m.emissive,
+  'data-opacity': (m) => m.opacity !== undefined ? round(m.opacity) : undefined,
+  'data-transparent': (m) => m.transparent !== undefined ? String(m.transparent) : undefined,
+  'data-material-visible': (m) => m.materialVisible !== undefined ? String(m.materialVisible) : undefined,
+  'data-map': (m) => m.map,
+  'data-intensity': (m) => m.intensity !== undefined ? round(m.intensity) : undefined,
+  'data-light-color': (m) => m.lightColor,
+  'data-cast-shadow': (m) => m.castShadow !== undefined ? String(m.castShadow) : undefined,
 };
 
 /** All attribute names we manage (for diffing). */
 export const MANAGED_ATTRIBUTES = Object.keys(ATTRIBUTE_MAP);
 
+/** Whether `name` is one of the built-in mirror attributes. */
+export function isManagedAttribute(name: string): boolean {
+  return name in ATTRIBUTE_MAP;
+}
+
+/** Default mirror attribute for an extractor field: `assetId` → `data-asset-id`. */
+export function customAttributeName(field: string): string {
+  return 'data-' + field.replace(/([a-z\d])([A-Z])/g, '$1-$2').replace(/[_$]/g, '-').toLowerCase();
+}
+
 // ---------------------------------------------------------------------------
 // Serialization helpers
 // ---------------------------------------------------------------------------
@@ -69,8 +97,13 @@ function round(n: number): string {
  * Compute all attribute key-value pairs for a metadata object.
  * Returns a map of attribute name → value.
  * Attributes with undefined values are excluded.
+ *
+ * @param customAttributes - Extractor field → attribute name, from the store
  */
-export function computeAttributes(meta: ObjectMetadata): Map<string, string> {
+export function computeAttributes(
+  meta: ObjectMetadata,
+  customAttributes?: ReadonlyMap<string, string>,
+): Map<string, string> {
   const attrs = new Map<string, string>();
   for (const [key, extractor] of Object.entries(ATTRIBUTE_MAP)) {
     const value = extractor(meta);
@@ -78,6 +111,12 @@ export function computeAttributes(meta: ObjectMetadata): Map<string, string> {
       attrs.set(key, value);
     }
   }
+  if (meta.custom && customAttributes) {
+    for (const [field, attribute] of customAttributes) {
+      const value = meta.custom[field];
+      if (value !== undefined) attrs.set(attribute, String(value));
+    }
+  }
   return attrs;
 }
 
@@ -88,15 +127,17 @@ export function computeAttributes(meta: ObjectMetadata): Map<string, string> {
  * @param element - The custom element to update
  * @param meta - Current Tier 1 metadata
  * @param prevAttrs - Previous attribute values (mutated in-place to reflect new state)
+ * @param customAttributes - Extractor field → attribute name, from the store
  * @returns Number of DOM setAttribute calls made
  */
 export function applyAttributes(
   element: HTMLElement,
   meta: ObjectMetadata,
   prevAttrs: Map<string, string>,
+  customAttributes?: ReadonlyMap<string, string>,
 ): number {
   let writeCount = 0;
-  const newAttrs = computeAttributes(meta);
+  const newAttrs = computeAttributes(meta, customAttributes);
 
   // Set or update attributes that changed
   for (const [key, value] of newAttrs) {
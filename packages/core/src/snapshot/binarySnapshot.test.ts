@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { encodeSnapshot, encodeSnapshotBase64 } from './binarySnapshot';
+import type { PartialSceneSnapshot, SceneSnapshot, SnapshotNode } from '../types';
+
+function node(uuid: string, overrides: Partial<SnapshotNode> = {}, children: SnapshotNode[] = []): SnapshotNode {
+  return {
+    uuid,
+    name: '',
+    type: 'Mesh',
+    visible: true,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    ...overrides,
+    children,
+  };
+}
+
+/**
+ * The wire format is decoded by the Playwright and Cypress packages, whose
+ * tests decode these same bytes. Changing them is a format change.
+ */
+const scene: SceneSnapshot = {
+  timestamp: 1700000000123,
+  objectCount: 3,
+  tree: node('root', { name: 'scene', type: 'Scene' }, [
+    node('a', { name: 'chair', testId: 'chair', position: [1, 2.5, -3], color: '#ff0000' }, [
+      node('b', { visible: false, rotation: [0, 0.5, 0], custom: { hp: 3 } }),
+    ]),
+  ]),
+};
+const SCENE_BASE64 =
+  'UjNGUwEAAAAAsIdW/rx4QgMAAAADAAAACgAAAAQAAAByb290BQAAAHNjZW5lBQAAAFNjZW5lAQAAAGEFAAAAY2hhaXIEAAAATWVzaBMAAAB7ImNvbG9yIjoiI2ZmMDAwMCJ9AQAAAGIAAAAAEwAAAHsiY3VzdG9tIjp7ImhwIjozfX3/////AAAAAAEAAAAAAAAAAwAAAAcAAAABAAAABAAAAAgAAAACAAAABQAAAAUAAAD/////BAAAAP//////////BgAAAAkAAAABAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAIA/AAAgQAAAQMAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAAAAAAAAAAAAAAAAAAAAAAAAPwAAAAAAAIA/AACAPwAAgD8=';
+
+const partial: PartialSceneSnapshot = {
+  timestamp: 1,
+  objectCount: 2,
+  tree: { uuid: 'root', position: [0, 1, 0], children: [{ uuid: 'a', testId: 'chair', visible: false, children: [] }] },
+};
+const PARTIAL_BASE64 =
+  'UjNGUwEAAAAAAAAAAADwPwIAAAACAAAAAwAAAAQAAAByb290AQAAAGEFAAAAY2hhaXL/////AAAAAAAAAAABAAAA//////////////////////////8CAAAA//////////8aHAAAAAAAAIA/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+
+const header = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+describe('encodeSnapshot', () => {
+  it('writes the documented format', () => {
+    expect(encodeSnapshotBase64(scene)).toBe(SCENE_BASE64);
+    expect(encodeSnapshotBase64(partial)).toBe(PARTIAL_BASE64);
+  });
+
+  it('starts with the magic, version and counts', () => {
+    const view = header(encodeSnapshot(scene));
+    expect(String.fromCharCode(view.getUint8(0), view.getUint8(1), view.getUint8(2), view.getUint8(3))).toBe('R3FS');
+    expect(view.getUint16(4, true)).toBe(1);
+    expect(view.getFloat64(8, true)).toBe(scene.timestamp);
+    expect(view.getUint32(16, true)).toBe(3);
+  });
+
+  it('returns the same bytes in both forms', () => {
+    const bytes = encodeSnapshot(scene);
+    expect(btoa(String.fromCharCode(...bytes))).toBe(encodeSnapshotBase64(scene));
+  });
+
+  it('stores repeated strings once', () => {
+    const once = encodeSnapshot({ ...scene, tree: node('x', { name: 'chair' }) });
+    const twice = encodeSnapshot({ ...scene, tree: node('x', { name: 'chair' }, [node('y', { name: 'chair' })]) });
+    const stringCount = (bytes: Uint8Array) => header(bytes).getUint32(24, true);
+    // One more uuid; "chair" and "Mesh" are shared
+    expect(stringCount(twice)).toBe(stringCount(once) + 1);
+  });
+});
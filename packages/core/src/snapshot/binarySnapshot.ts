@@ -0,0 +1,138 @@
+import type { PartialSceneSnapshot, PartialSnapshotNode, SceneSnapshot } from '../types';
+
+// ---------------------------------------------------------------------------
+// Binary snapshot: compact columnar encoding of a SceneSnapshot
+//
+// Nested JSON repeats every key and type name per node and is slow to ship
+// through page.evaluate / inspectedWindow.eval at large object counts. This
+// format stores each distinct string once and packs transforms as Float32.
+//
+// Layout (little-endian), nodes in pre-order so parents precede children:
+//
+//   magic       4 bytes   "R3FS"
+//   version     u16       SNAPSHOT_BINARY_VERSION
+//   flags       u16       reserved, 0
+//   timestamp   f64
+//   objectCount u32
+//   nodeCount   u32
+//   stringCount u32
+//   strings     stringCount × (u32 byteLength, UTF-8 bytes)
+//   parent      nodeCount × i32   (-1 for the root)
+//   uuid        nodeCount × u32   string index
+//   name        nodeCount × u32   string index
+//   type        nodeCount × u32   string index
+//   testId      nodeCount × u32   string index or NO_STRING
+//   extras      nodeCount × u32   string index of a JSON object with the
+//                                 remaining optional fields, or NO_STRING
+//   flags       nodeCount × u8    bit 0 = visible; bits 1-4 = visible,
+//                                 position, rotation, scale omitted (a
+//                                 snapshot taken with `fields`)
+//   transforms  nodeCount × 9 × f32  position, rotation, scale (0 if omitted)
+//
+// Decoders live in the playwright, cypress and devtools packages (no
+// runtime dependency on core); keep them in step when bumping the version.
+// ---------------------------------------------------------------------------
+
+/** Current binary snapshot format version. */
+export const SNAPSHOT_BINARY_VERSION = 1;
+
+const MAGIC = [0x52, 0x33, 0x46, 0x53]; // "R3FS"
+const NO_STRING = 0xffffffff;
+const HEADER_BYTES = 28;
+
+/** Node keys stored in their own columns; everything else goes to extras. */
+const COLUMN_KEYS = new Set(['uuid', 'name', 'type', 'testId', 'visible', 'position', 'rotation', 'scale', 'children']);
+
+/**
+ * Encode a full or field-limited snapshot into the binary format.
+ * Transforms are stored as Float32, so decoded values may differ from the
+ * originals in the last few significant digits.
+ */
+export function encodeSnapshot(snapshot: SceneSnapshot | PartialSceneSnapshot): Uint8Array {
+  const nodes: PartialSnapshotNode[] = [];
+  const parents: number[] = [];
+  const walk = (node: PartialSnapshotNode, parent: number) => {
+    const index = nodes.length;
+    nodes.push(node);
+    parents.push(parent);
+    for (const child of node.children) walk(child, index);
+  };
+  walk(snapshot.tree, -1);
+
+  const encoder = new TextEncoder();
+  const strings: Uint8Array[] = [];
+  const stringIndex = new Map<string, number>();
+  const intern = (value: string | undefined): number => {
+    if (value === undefined) return NO_STRING;
+    let index = stringIndex.get(value);
+    if (index === undefined) {
+      index = strings.length;
+      strings.push(encoder.encode(value));
+      stringIndex.set(value, index);
+    }
+    return index;
+  };
+
+  const n = nodes.length;
+  const refs = new Uint32Array(n * 5);
+  nodes.forEach((node, i) => {
+    refs[i] = intern(node.uuid);
+    refs[n + i] = intern(node.name);
+    refs[2 * n + i] = intern(node.type);
+    refs[3 * n + i] = intern(node.testId);
+    let extras: Record<string, unknown> | null = null;
+    for (const [key, value] of Object.entries(node)) {
+      if (COLUMN_KEYS.has(key) || value === undefined) continue;
+      (extras ??= {})[key] = value;
+    }
+    refs[4 * n + i] = extras ? intern(JSON.stringify(extras)) : NO_STRING;
+  });
+
+  let stringBytes = 0;
+  for (const s of strings) stringBytes += 4 + s.byteLength;
+  const bytes = new Uint8Array(HEADER_BYTES + stringBytes + n * (4 + 5 * 4 + 1 + 9 * 4));
+  const view = new DataView(bytes.buffer);
+
+  bytes.set(MAGIC, 0);
+  view.setUint16(4, SNAPSHOT_BINARY_VERSION, true);
+  view.setUint16(6, 0, true);
+  view.setFloat64(8, snapshot.timestamp, true);
+  view.setUint32(16, snapshot.objectCount, true);
+  view.setUint32(20, n, true);
+  view.setUint32(24, strings.length, true);
+
+  let offset = HEADER_BYTES;
+  for (const s of strings) {
+    view.setUint32(offset, s.byteLength, true);
+    bytes.set(s, offset + 4);
+    offset += 4 + s.byteLength;
+  }
+  for (let i = 0; i < n; i++, offset += 4) view.setInt32(offset, parents[i], true);
+  for (let i = 0; i < refs.length; i++, offset += 4) view.setUint32(offset, refs[i], true);
+  for (let i = 0; i < n; i++, offset += 1) {
+    const node = nodes[i];
+    let flags = node.visible ? 1 : 0;
+    if (node.visible === undefined) flags |= 1 << 1;
+    if (!node.position) flags |= 1 << 2;
+    if (!node.rotation) flags |= 1 << 3;
+    if (!node.scale) flags |= 1 << 4;
+    view.setUint8(offset, flags);
+  }
+  for (const node of nodes) {
+    for (const vec of [node.position, node.rotation, node.scale]) {
+      for (let k = 0; k < 3; k++, offset += 4) view.setFloat32(offset, vec ? vec[k] : 0, true);
+    }
+  }
+  return bytes;
+}
+
+/** Encode a snapshot as a base64 string, for transports that carry JSON only. */
+export function encodeSnapshotBase64(snapshot: SceneSnapshot | PartialSceneSnapshot): string {
+  const bytes = encodeSnapshot(snapshot);
+  let binary = '';
+  // Chunked: String.fromCharCode has an argument count limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -1,5 +1,12 @@
 import type { ObjectStore } from '../store/ObjectStore';
-import type { ObjectMetadata, SceneSnapshot, SnapshotNode } from '../types';
+import type {
+  ObjectMetadata,
+  PartialSceneSnapshot,
+  PartialSnapshotNode,
+  SceneSnapshot,
+  SnapshotNode,
+  SnapshotOptions,
+} from '../types';
 
 // ---------------------------------------------------------------------------
 // Snapshot: builds a structured JSON tree from the ObjectStore
@@ -22,6 +29,11 @@ function buildNodeTree(store: ObjectStore, meta: ObjectMetadata): SnapshotNode {
     }
   }
 
+  return toSnapshotNode(meta, children);
+}
+
+/** Copy the snapshot fields of one metadata entry. */
+function toSnapshotNode(meta: ObjectMetadata, children: SnapshotNode[]): SnapshotNode {
   const node: SnapshotNode = {
     uuid: meta.uuid,
     name: meta.name,
@@ -39,10 +51,86 @@ function buildNodeTree(store: ObjectStore, meta: ObjectMetadata): SnapshotNode {
   if (meta.vertexCount != null) node.vertexCount = meta.vertexCount;
   if (meta.triangleCount != null) node.triangleCount = meta.triangleCount;
   if (meta.instanceCount != null) node.instanceCount = meta.instanceCount;
+  if (meta.geometryVersion != null) node.geometryVersion = meta.geometryVersion;
+  if (meta.drawRange) node.drawRange = [...meta.drawRange];
+  if (meta.morphTargetInfluences) node.morphTargetInfluences = [...meta.morphTargetInfluences];
+  if (meta.color !== undefined) node.color = meta.color;
+  if (meta.emissive !== undefined) node.emissive = meta.emissive;
+  if (meta.opacity !== undefined) node.opacity = meta.opacity;
+  if (meta.transparent !== undefined) node.transparent = meta.transparent;
+  if (meta.materialVisible !== undefined) node.materialVisible = meta.materialVisible;
+  if (meta.map !== undefined) node.map = meta.map;
+  if (meta.intensity !== undefined) node.intensity = meta.intensity;
+  if (meta.lightColor !== undefined) node.lightColor = meta.lightColor;
+  if (meta.castShadow !== undefined) node.castShadow = meta.castShadow;
+  if (meta.custom) node.custom = { ...meta.custom };
 
   return node;
 }
 
+// ---------------------------------------------------------------------------
+// Partial snapshots (root / depth / filter / fields)
+// ---------------------------------------------------------------------------
+
+interface PartialContext {
+  store: ObjectStore;
+  depth: number;
+  accept: (meta: ObjectMetadata) => boolean;
+  count: number;
+}
+
+function toPredicate(filter: SnapshotOptions['filter']): (meta: ObjectMetadata) => boolean {
+  if (!filter) return () => true;
+  if (typeof filter === 'function') return filter;
+  const types = new Set(filter);
+  return (meta) => types.has(meta.type);
+}
+
+/** Copy `uuid` and the listed `fields` of `source`. */
+function pickFields<T extends { uuid: string }>(source: T, fields: readonly string[]): Partial<T> & { uuid: string } {
+  const picked: Partial<T> = {};
+  for (const field of fields) {
+    if (!(field in source)) continue;
+    const key = field as keyof T;
+    if (source[key] !== undefined) picked[key] = source[key];
+  }
+  return { ...picked, uuid: source.uuid };
+}
+
+function resolveRoot(store: ObjectStore, root: string | undefined, caller: string): ObjectMetadata | null {
+  if (root === undefined) return findRoot(store);
+  const obj = store.getObject3D(root);
+  const meta = obj ? store.getMetadata(obj) : null;
+  if (!meta) throw new Error(`[react-three-dom] ${caller}: root "${root}" is not a tracked object`);
+  return meta;
+}
+
+/**
+ * Visit `meta` at scene level `level` below the snapshot root. Kept nodes
+ * are built by `toNode` and appended to `into`; a rejected node passes
+ * `into` on to its children.
+ */
+function collectNodes<N extends { children: N[] }>(
+  ctx: PartialContext,
+  meta: ObjectMetadata,
+  level: number,
+  into: N[],
+  toNode: (meta: ObjectMetadata) => N,
+): void {
+  let target = into;
+  if (level === 0 || ctx.accept(meta)) {
+    const node = toNode(meta);
+    into.push(node);
+    target = node.children;
+    ctx.count++;
+  }
+  if (level >= ctx.depth) return;
+  for (const childUuid of meta.childrenUuids) {
+    const childMeta = ctx.store.getByUuid(childUuid);
+    if (childMeta) collectNodes(ctx, childMeta, level + 1, target, toNode);
+  }
+}
+
 /**
  * Find the root node (scene) in the store.
  * The root is the object whose parentUuid is null.
@@ -64,14 +152,48 @@ function findRoot(store: ObjectStore): ObjectMetadata | null {
  * Returns a structured JSON tree built entirely from Tier 1 cached metadata.
  * No Three.js objects or DOM nodes are accessed.
  *
+ * With `options`, snapshots a subtree (`root`, `depth`), keeps only nodes
+ * passing `filter` and only the listed `fields`; `objectCount` is then the
+ * number of nodes in the tree. With `fields` the nodes are partial, so the
+ * result is typed {@link PartialSceneSnapshot}. Throws if `root` is not a
+ * tracked object.
+ *
  * @example
  * ```ts
  * const snap = createSnapshot(store);
  * console.log(snap.objectCount); // 1234
  * console.log(snap.tree.children[0].name); // "Furniture"
+ *
+ * const floor = createSnapshot(store, { root: 'floor-3', filter: ['Mesh'], fields: ['testId', 'position'] });
  * ```
  */
-export function createSnapshot(store: ObjectStore): SceneSnapshot {
+export function createSnapshot(store: ObjectStore, options?: SnapshotOptions & { fields?: undefined }): SceneSnapshot;
+export function createSnapshot(store: ObjectStore, options?: SnapshotOptions): PartialSceneSnapshot;
+export function createSnapshot(store: ObjectStore, options?: SnapshotOptions): SceneSnapshot | PartialSceneSnapshot {
+  if (options) {
+    const rootMeta = resolveRoot(store, options.root, 'snapshot');
+    if (rootMeta) {
+      const ctx: PartialContext = {
+        store,
+        depth: options.depth ?? Infinity,
+        accept: toPredicate(options.filter),
+        count: 0,
+      };
+      const { fields } = options;
+      if (fields) {
+        const nodes: PartialSnapshotNode[] = [];
+        collectNodes(ctx, rootMeta, 0, nodes, (meta): PartialSnapshotNode => ({
+          ...pickFields(toSnapshotNode(meta, []), fields),
+          children: [],
+        }));
+        return { timestamp: Date.now(), objectCount: ctx.count, tree: nodes[0] };
+      }
+      const nodes: SnapshotNode[] = [];
+      collectNodes(ctx, rootMeta, 0, nodes, (meta) => toSnapshotNode(meta, []));
+      return { timestamp: Date.now(), objectCount: ctx.count, tree: nodes[0] };
+    }
+  }
+
   const rootMeta = findRoot(store);
 
   const tree: SnapshotNode = rootMeta
@@ -98,24 +220,56 @@ export function createSnapshot(store: ObjectStore): SceneSnapshot {
  * Create a flat snapshot — an array of all object metadata without tree structure.
  * Useful for searching/filtering without recursion.
  *
+ * Accepts the same options as {@link createSnapshot}: `root` and `depth`
+ * limit it to a subtree (in depth-first order), `filter` drops objects
+ * (the root included) and `fields` picks the metadata fields kept (`uuid`
+ * always is), leaving the entries partial.
+ *
  * @example
  * ```ts
  * const flat = createFlatSnapshot(store);
  * const meshes = flat.objects.filter(m => m.type === 'Mesh');
  * ```
  */
-export function createFlatSnapshot(store: ObjectStore): {
+export function createFlatSnapshot(store: ObjectStore, options?: SnapshotOptions & { fields?: undefined }): {
   timestamp: number;
   objectCount: number;
   objects: ObjectMetadata[];
+};
+export function createFlatSnapshot(store: ObjectStore, options?: SnapshotOptions): {
+  timestamp: number;
+  objectCount: number;
+  objects: (Partial<ObjectMetadata> & { uuid: string })[];
+};
+export function createFlatSnapshot(store: ObjectStore, options?: SnapshotOptions): {
+  timestamp: number;
+  objectCount: number;
+  objects: (Partial<ObjectMetadata> & { uuid: string })[];
 } {
-  const objects: ObjectMetadata[] = [];
-  const allObjects = store.getFlatList();
+  const objects: (Partial<ObjectMetadata> & { uuid: string })[] = [];
+  const fields = options?.fields;
+  const copy = (meta: ObjectMetadata) => (fields ? pickFields(meta, fields) : { ...meta });
 
-  for (const obj of allObjects) {
-    const meta = store.getMetadata(obj);
-    if (meta) {
-      objects.push({ ...meta });
+  if (options && (options.root !== undefined || options.depth !== undefined)) {
+    const rootMeta = resolveRoot(store, options.root, 'createFlatSnapshot');
+    const depth = options.depth ?? Infinity;
+    const accept = toPredicate(options.filter);
+    const visit = (meta: ObjectMetadata, level: number) => {
+      if (accept(meta)) objects.push(copy(meta));
+      if (level >= depth) return;
+      for (const childUuid of meta.childrenUuids) {
+        const childMeta = store.getByUuid(childUuid);
+        if (childMeta) visit(childMeta, level + 1);
+      }
+    };
+    if (rootMeta) visit(rootMeta, 0);
+  } else {
+    const accept = toPredicate(options?.filter);
+    for (const obj of store.getFlatList()) {
+      const meta = store.getMetadata(obj);
+      if (meta && accept(meta)) {
+        objects.push(copy(meta));
+      }
     }
   }
 
@@ -0,0 +1,223 @@
+/**
+ * @module sceneStats
+ *
+ * Render-cost statistics for budget assertions. Two sources are combined:
+ *   - `renderer.info`, sampled once per frame by {@link RenderInfoSampler}
+ *     (draw calls, rendered triangles, programs, GPU memory counters) so
+ *     frame-to-frame deltas are available;
+ *   - the tracked scene graph, walked on demand by {@link collectSceneStats}
+ *     (unique materials, geometries and textures, estimated texture bytes).
+ *
+ * Note that `renderer.info.render` is reset on every `render()` call, so
+ * apps that render several passes per frame only report the last pass
+ * unless they set `gl.info.autoReset = false` and reset it themselves.
+ */
+import {
+  FloatType,
+  HalfFloatType,
+  LinearFilter,
+  NearestFilter,
+  RedFormat,
+  RGFormat,
+} from 'three';
+import type { BufferGeometry, Material, Mesh, Object3D, Scene, Texture, WebGLInfo } from 'three';
+import type { ObjectStore } from '../store/ObjectStore';
+import type { RenderInfoSample, SceneStats } from '../types';
+import { r3fLog } from '../debug';
+
+// ---------------------------------------------------------------------------
+// Per-frame renderer.info sampling
+// ---------------------------------------------------------------------------
+
+const EMPTY_SAMPLE: RenderInfoSample = {
+  frame: 0, drawCalls: 0, triangles: 0, points: 0, lines: 0,
+  programs: 0, geometries: 0, textures: 0,
+};
+
+/**
+ * Keeps the two most recent `renderer.info` samples. Owned by the ThreeDom
+ * bridge, which calls `sample()` from its per-frame sync (before this frame
+ * renders, so each sample describes the previous completed frame).
+ */
+export class RenderInfoSampler {
+  private _info: WebGLInfo;
+  private _current: RenderInfoSample = EMPTY_SAMPLE;
+  private _previous: RenderInfoSample = EMPTY_SAMPLE;
+
+  constructor(info: WebGLInfo) {
+    this._info = info;
+  }
+
+  sample(): void {
+    const { render, memory, programs } = this._info;
+    // Same frame sampled twice (e.g. several useFrame roots) — keep the delta
+    if (render.frame === this._current.frame && this._current !== EMPTY_SAMPLE) return;
+    this._previous = this._current;
+    this._current = {
+      frame: render.frame,
+      drawCalls: render.calls,
+      triangles: render.triangles,
+      points: render.points,
+      lines: render.lines,
+      programs: programs?.length ?? 0,
+      geometries: memory.geometries,
+      textures: memory.textures,
+    };
+  }
+
+  /** Latest sample (zeros before the first frame). */
+  get current(): RenderInfoSample {
+    return this._current;
+  }
+
+  /** Change between the latest sample and the one before it. */
+  get delta(): RenderInfoSample {
+    const c = this._current;
+    const p = this._previous;
+    return {
+      frame: c.frame - p.frame,
+      drawCalls: c.drawCalls - p.drawCalls,
+      triangles: c.triangles - p.triangles,
+      points: c.points - p.points,
+      lines: c.lines - p.lines,
+      programs: c.programs - p.programs,
+      geometries: c.geometries - p.geometries,
+      textures: c.textures - p.textures,
+    };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Texture size estimation
+// ---------------------------------------------------------------------------
+
+type TextureImage = {
+  width?: number;
+  height?: number;
+  depth?: number;
+  videoWidth?: number;
+  videoHeight?: number;
+  data?: { byteLength: number };
+};
+
+function bytesPerTexel(tex: Texture): number {
+  const channels = tex.format === RedFormat ? 1 : tex.format === RGFormat ? 2 : 4;
+  const channelBytes = tex.type === FloatType ? 4 : tex.type === HalfFloatType ? 2 : 1;
+  return channels * channelBytes;
+}
+
+function imageBytes(img: TextureImage | null | undefined, texel: number): number {
+  if (!img) return 0;
+  if (img.data && typeof img.data.byteLength === 'number') return img.data.byteLength;
+  const width = img.videoWidth || img.width || 0;
+  const height = img.videoHeight || img.height || 0;
+  return width * height * (img.depth || 1) * texel;
+}
+
+/**
+ * Estimate the GPU memory used by a texture: decoded image size × texel
+ * size, plus a third for a generated mip chain. Compressed textures use
+ * their mip buffers as-is. Cube textures count all six faces.
+ */
+export function estimateTextureBytes(tex: Texture): number {
+  const compressed = tex as Texture & { isCompressedTexture?: boolean; mipmaps: TextureImage[] };
+  if (compressed.isCompressedTexture && Array.isArray(compressed.mipmaps)) {
+    let bytes = 0;
+    for (const mip of compressed.mipmaps) bytes += mip?.data?.byteLength ?? 0;
+    return bytes;
+  }
+
+  const texel = bytesPerTexel(tex);
+  const image = tex.image as TextureImage | TextureImage[] | null | undefined;
+  let bytes = 0;
+  if (Array.isArray(image)) {
+    for (const face of image) bytes += imageBytes(face, texel);
+  } else {
+    bytes = imageBytes(image, texel);
+  }
+
+  const mipmapped = tex.generateMipmaps &&
+    tex.minFilter !== NearestFilter && tex.minFilter !== LinearFilter;
+  return mipmapped ? Math.round(bytes * 4 / 3) : bytes;
+}
+
+// ---------------------------------------------------------------------------
+// Scene-graph aggregation
+// ---------------------------------------------------------------------------
+
+function isTexture(value: unknown): value is Texture {
+  return typeof value === 'object' && value !== null && (value as Texture).isTexture === true;
+}
+
+function collectMaterialTextures(mat: Material, out: Set<Texture>): void {
+  for (const value of Object.values(mat)) {
+    if (isTexture(value)) out.add(value);
+  }
+  // ShaderMaterial / RawShaderMaterial samplers live in uniforms
+  const uniforms = (mat as Material & { uniforms?: Record<string, { value: unknown }> }).uniforms;
+  if (uniforms) {
+    for (const uniform of Object.values(uniforms)) {
+      if (isTexture(uniform?.value)) out.add(uniform.value);
+    }
+  }
+}
+
+/**
+ * Aggregate render-cost statistics for every tracked object, combined with
+ * the latest renderer.info sample.
+ */
+export function collectSceneStats(store: ObjectStore, sampler: RenderInfoSampler | null): SceneStats {
+  const materials = new Set<Material>();
+  const geometries = new Set<BufferGeometry>();
+  const textures = new Set<Texture>();
+
+  for (const obj of store.getFlatList()) {
+    try {
+      collectObject(obj, materials, geometries, textures);
+    } catch {
+      r3fLog('stats', `collectSceneStats: failed to read "${obj.name || obj.uuid}"`);
+    }
+  }
+  for (const mat of materials) collectMaterialTextures(mat, textures);
+
+  let textureBytes = 0;
+  for (const tex of textures) textureBytes += estimateTextureBytes(tex);
+
+  const render = sampler?.current ?? EMPTY_SAMPLE;
+  return {
+    frame: render.frame,
+    drawCalls: render.drawCalls,
+    triangles: render.triangles,
+    points: render.points,
+    lines: render.lines,
+    programs: render.programs,
+    materials: materials.size,
+    geometries: geometries.size,
+    textures: textures.size,
+    textureBytes,
+    gpuMemory: { geometries: render.geometries, textures: render.textures },
+    delta: sampler?.delta ?? EMPTY_SAMPLE,
+  };
+}
+
+function collectObject(
+  obj: Object3D,
+  materials: Set<Material>,
+  geometries: Set<BufferGeometry>,
+  textures: Set<Texture>,
+): void {
+  if ('material' in obj) {
+    const raw = (obj as Mesh).material;
+    if (Array.isArray(raw)) raw.forEach((m) => m && materials.add(m));
+    else if (raw) materials.add(raw);
+  }
+  if ('geometry' in obj) {
+    const geom = (obj as Mesh).geometry;
+    if (geom?.isBufferGeometry) geometries.add(geom);
+  }
+  if ((obj as Scene).isScene) {
+    const scene = obj as Scene;
+    if (isTexture(scene.background)) textures.add(scene.background);
+    if (isTexture(scene.environment)) textures.add(scene.environment);
+  }
+}
@@ -0,0 +1,169 @@
+/**
+ * @module AnimationTracker
+ *
+ * Discovers `AnimationMixer`s and reports the state of their actions (clip
+ * name, time, weight, loop mode, running / finished). Mixers are found two
+ * ways: explicit registration (`r3fRegisterMixer` / `useR3FAnimationMixer`)
+ * or the userData convention `object.userData.animationMixer = mixer`, which
+ * is scanned lazily on each query so mixers created after mount are picked up.
+ *
+ * Three.js does not expose a mixer's actions publicly. They are read from the
+ * mixer's internal `_actions` list when it exists; otherwise from the actions
+ * the mixer's `clipAction` returned since tracking began (it is wrapped on
+ * each tracked mixer), so a three.js release that drops `_actions` only
+ * misses actions created before the mixer was tracked.
+ */
+import { LoopOnce, LoopPingPong } from 'three';
+import type { AnimationAction, AnimationMixer, Object3D } from 'three';
+import type { AnimationActionState, AnimationLoopMode } from '../types';
+import { r3fLog } from '../debug';
+
+/** userData key checked for the mixer-discovery convention. */
+export const ANIMATION_MIXER_USERDATA_KEY = 'animationMixer';
+
+export function isAnimationMixer(value: unknown): value is AnimationMixer {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as AnimationMixer).clipAction === 'function' &&
+    typeof (value as AnimationMixer).getRoot === 'function'
+  );
+}
+
+function loopMode(action: AnimationAction): AnimationLoopMode {
+  if (action.loop === LoopOnce) return 'once';
+  if (action.loop === LoopPingPong) return 'pingpong';
+  return 'repeat';
+}
+
+/**
+ * Set of tracked mixers plus the actions each has reported as finished.
+ * Owned by ObjectStore.
+ */
+export class AnimationTracker {
+  private _mixers = new Set<AnimationMixer>();
+  /** Actions whose mixer emitted 'finished' and that have not run since. */
+  private _finished = new WeakSet<AnimationAction>();
+
+  private _onFinished = (event: { action: AnimationAction }) => {
+    this._finished.add(event.action);
+  };
+
+  /** Actions returned by each tracked mixer's wrapped clipAction. */
+  private _seen = new Map<AnimationMixer, Set<AnimationAction>>();
+
+  /** Start tracking a mixer. No-op if already tracked. */
+  add(mixer: AnimationMixer): void {
+    if (this._mixers.has(mixer)) return;
+    this._mixers.add(mixer);
+    mixer.addEventListener('finished', this._onFinished);
+    this._wrapClipAction(mixer);
+    r3fLog('store', `AnimationTracker: tracking mixer (${this._mixers.size} total)`);
+  }
+
+  /** Stop tracking a mixer. */
+  remove(mixer: AnimationMixer): void {
+    if (!this._mixers.delete(mixer)) return;
+    mixer.removeEventListener('finished', this._onFinished);
+    this._unwrapClipAction(mixer);
+  }
+
+  /** Pick up mixers attached via `userData.animationMixer`. */
+  discover(objects: Iterable<Object3D>): void {
+    for (const obj of objects) {
+      const candidate = obj.userData?.[ANIMATION_MIXER_USERDATA_KEY];
+      if (isAnimationMixer(candidate)) this.add(candidate);
+    }
+  }
+
+  /** Number of tracked mixers. */
+  get size(): number {
+    return this._mixers.size;
+  }
+
+  /**
+   * State of every action on every tracked mixer. `labelRoot` turns a
+   * mixer root into the id reported in `root` (testId or uuid).
+   */
+  getActions(labelRoot: (root: Object3D) => string): AnimationActionState[] {
+    const results: AnimationActionState[] = [];
+    for (const mixer of this._mixers) {
+      const root = mixer.getRoot() as Object3D;
+      for (const action of this._actionsOf(mixer)) {
+        try {
+          results.push(this._describe(action, root, labelRoot(root)));
+        } catch {
+          r3fLog('store', 'AnimationTracker: failed to read action state');
+        }
+      }
+    }
+    return results;
+  }
+
+  /** Stop listening to every mixer. */
+  clear(): void {
+    for (const mixer of this._mixers) {
+      mixer.removeEventListener('finished', this._onFinished);
+      this._unwrapClipAction(mixer);
+    }
+    this._mixers.clear();
+    this._finished = new WeakSet();
+  }
+
+  private _actionsOf(mixer: AnimationMixer): Iterable<AnimationAction> {
+    const internal = (mixer as unknown as { _actions?: unknown })._actions;
+    if (Array.isArray(internal)) return internal as AnimationAction[];
+    return this._seen.get(mixer) ?? [];
+  }
+
+  /** Record every action the mixer hands out (own property shadowing the prototype). */
+  private _wrapClipAction(mixer: AnimationMixer): void {
+    const seen = new Set<AnimationAction>();
+    this._seen.set(mixer, seen);
+    const original = mixer.clipAction;
+    mixer.clipAction = function clipAction(this: AnimationMixer, ...args: Parameters<AnimationMixer['clipAction']>) {
+      const action = original.apply(this, args);
+      seen.add(action);
+      return action;
+    };
+  }
+
+  private _unwrapClipAction(mixer: AnimationMixer): void {
+    if (!this._seen.delete(mixer)) return;
+    if (Object.prototype.hasOwnProperty.call(mixer, 'clipAction')) {
+      delete (mixer as Partial<Pick<AnimationMixer, 'clipAction'>>).clipAction;
+    }
+  }
+
+  private _describe(action: AnimationAction, root: Object3D, rootId: string): AnimationActionState {
+    const clip = action.getClip();
+    const running = action.isRunning();
+    if (running) this._finished.delete(action);
+
+    const loop = loopMode(action);
+    // Mixers only emit 'finished' for once / finite-repetition actions; a
+    // clamped once-action that was already done before tracking began is
+    // recognised by its time sitting at the clip end.
+    const finished = !running && (
+      this._finished.has(action) ||
+      (loop === 'once' && action.time >= clip.duration && clip.duration > 0)
+    );
+
+    return {
+      clipName: clip.name,
+      root: rootId,
+      rootUuid: root.uuid,
+      time: action.time,
+      duration: clip.duration,
+      weight: action.weight,
+      effectiveWeight: action.getEffectiveWeight(),
+      timeScale: action.timeScale,
+      loop,
+      repetitions: action.repetitions,
+      running,
+      paused: action.paused,
+      enabled: action.enabled,
+      finished,
+    };
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { Mesh } from 'three';
+import { ChangeJournal } from './ChangeJournal';
+import { ObjectStore } from './ObjectStore';
+import type { ObjectMetadata } from '../types';
+
+/** Events carry the object, which the journal ignores. */
+const object = new Mesh();
+
+function metadata(name = ''): ObjectMetadata {
+  const mesh = new Mesh();
+  mesh.name = name;
+  return new ObjectStore().register(mesh);
+}
+
+function moved(meta: ObjectMetadata, x: number): ObjectMetadata {
+  return { ...meta, position: [x, 0, 0] };
+}
+
+describe('ChangeJournal', () => {
+  it('records nothing until first read, and reports the gap', () => {
+    const journal = new ChangeJournal();
+    journal.record({ type: 'add', object, metadata: metadata() });
+    const set = journal.since(0);
+    expect(set).toMatchObject({ seq: 1, truncated: true, batches: [] });
+  });
+
+  it('coalesces updates to one uuid within a batch', () => {
+    const journal = new ChangeJournal();
+    const meta = metadata();
+    journal.head();
+    journal.record({ type: 'update', object, metadata: moved(meta, 1) });
+    journal.record({ type: 'update', object, metadata: moved(meta, 2) });
+    const [batch] = journal.since(0).batches;
+    expect(batch.changes).toHaveLength(1);
+    expect(batch.changes[0]).toMatchObject({ seq: 1, type: 'update' });
+    expect(batch.changes[0].metadata.position).toEqual([2, 0, 0]);
+  });
+
+  it('does not coalesce updates across a reparent', () => {
+    const journal = new ChangeJournal();
+    const meta = metadata();
+    journal.head();
+    journal.record({ type: 'update', object, metadata: moved(meta, 1) });
+    journal.record({ type: 'reparent', object, metadata: meta, oldParentUuid: 'p' });
+    journal.record({ type: 'update', object, metadata: moved(meta, 2) });
+    const changes = journal.since(0).batches[0].changes;
+    expect(changes.map((c) => c.type)).toEqual(['update', 'reparent', 'update']);
+    expect(changes[1].oldParentUuid).toBe('p');
+  });
+
+  it('copies metadata so later mutation does not leak into the log', () => {
+    const journal = new ChangeJournal();
+    const meta = metadata();
+    journal.head();
+    journal.record({ type: 'update', object, metadata: meta });
+    meta.position[0] = 9;
+    expect(journal.since(0).batches[0].changes[0].metadata.position[0]).toBe(0);
+  });
+
+  it('returns only changes after `since`, splitting a batch', () => {
+    const journal = new ChangeJournal();
+    journal.head();
+    journal.record({ type: 'add', object, metadata: metadata('a') });
+    journal.record({ type: 'add', object, metadata: metadata('b') });
+    journal.commit(1);
+    const set = journal.since(1);
+    expect(set).toMatchObject({ since: 1, seq: 2, truncated: false });
+    expect(set.batches[0].changes.map((c) => c.metadata.name)).toEqual(['b']);
+    expect(set.batches[0].frame).toBe(1);
+  });
+
+  it('evicts whole batches past capacity and notifies listeners', () => {
+    const journal = new ChangeJournal(2);
+    const seen: number[] = [];
+    journal.subscribe((batch) => seen.push(batch.changes.length));
+    for (let i = 0; i < 3; i++) {
+      journal.record({ type: 'add', object, metadata: metadata() });
+      journal.commit();
+    }
+    expect(seen).toEqual([1, 1, 1]);
+    const set = journal.since(0);
+    expect(set.truncated).toBe(true);
+    expect(set.batches.map((b) => b.changes[0].seq)).toEqual([2, 3]);
+  });
+});
@@ -0,0 +1,182 @@
+/**
+ * @module ChangeJournal
+ *
+ * Ordered, sequence-numbered log of ObjectStore changes. Events recorded
+ * during a frame accumulate in an open batch that is committed once per
+ * frame, so a GLTF load of thousands of nodes reaches batch listeners as a
+ * single notification. Consumers poll with "changes since sequence N"
+ * instead of re-snapshotting the whole scene.
+ *
+ * Recording is lazy: until the journal is first read (or a batch listener
+ * subscribes) sequence numbers still advance but no metadata is copied, and
+ * a poll from before activation reports `truncated` so the caller resyncs.
+ */
+import type {
+  ObjectMetadata,
+  StoreEvent,
+  StoreChange,
+  StoreChangeBatch,
+  StoreChangeSet,
+  StoreBatchListener,
+} from '../types';
+
+/** Default number of retained changes before whole batches are evicted. */
+const DEFAULT_CAPACITY = 10_000;
+
+function copyMetadata(meta: ObjectMetadata): ObjectMetadata {
+  const copy: ObjectMetadata = {
+    ...meta,
+    position: [...meta.position],
+    rotation: [...meta.rotation],
+    scale: [...meta.scale],
+    childrenUuids: [...meta.childrenUuids],
+  };
+  if (meta.drawRange) copy.drawRange = [...meta.drawRange];
+  if (meta.morphTargetInfluences) copy.morphTargetInfluences = [...meta.morphTargetInfluences];
+  if (meta.custom) copy.custom = { ...meta.custom };
+  return copy;
+}
+
+/**
+ * Ring of committed batches plus one open batch. Owned by ObjectStore,
+ * which calls `record` from its event emitter and `commit` once per frame.
+ */
+export class ChangeJournal {
+  private _seq = 0;
+  private _batchId = 0;
+  private _batches: StoreChangeBatch[] = [];
+  private _retained = 0;
+  private _capacity: number;
+
+  private _open: StoreChange[] = [];
+  /**
+   * Pending 'update' entries in the open batch, coalesced per uuid. Only the
+   * latest update after the uuid's last add / remove / reparent is open, so
+   * coalescing never moves state across one of those events.
+   */
+  private _openUpdates = new Map<string, StoreChange>();
+
+  /** Highest sequence number whose change is no longer available. */
+  private _droppedThrough = 0;
+  private _active = false;
+  private _listeners: StoreBatchListener[] = [];
+
+  constructor(capacity = DEFAULT_CAPACITY) {
+    this._capacity = capacity;
+  }
+
+  /** Append a store event to the open batch. */
+  record(event: StoreEvent): void {
+    const { type, metadata, oldParentUuid } = event;
+
+    if (!this._active) {
+      this._droppedThrough = ++this._seq;
+      return;
+    }
+
+    if (type === 'update') {
+      const pending = this._openUpdates.get(metadata.uuid);
+      if (pending) {
+        pending.metadata = copyMetadata(metadata);
+        return;
+      }
+    } else {
+      this._openUpdates.delete(metadata.uuid);
+    }
+
+    const change: StoreChange = {
+      seq: ++this._seq,
+      type,
+      uuid: metadata.uuid,
+      metadata: copyMetadata(metadata),
+    };
+    if (type === 'reparent') change.oldParentUuid = oldParentUuid;
+    this._open.push(change);
+    if (type === 'update') this._openUpdates.set(metadata.uuid, change);
+  }
+
+  /**
+   * Close the open batch (no-op when empty) and notify batch listeners.
+   * `frame` is the store frame counter the batch belongs to, if any.
+   */
+  commit(frame?: number): StoreChangeBatch | null {
+    if (this._open.length === 0) return null;
+
+    const batch: StoreChangeBatch = {
+      id: ++this._batchId,
+      frame,
+      timestamp: Date.now(),
+      changes: this._open,
+    };
+    this._open = [];
+    this._openUpdates.clear();
+
+    this._batches.push(batch);
+    this._retained += batch.changes.length;
+    // Evict whole batches so a consumer never sees half of one
+    while (this._retained > this._capacity && this._batches.length > 1) {
+      const evicted = this._batches.shift()!;
+      this._retained -= evicted.changes.length;
+      this._droppedThrough = evicted.changes[evicted.changes.length - 1].seq;
+    }
+
+    for (const listener of this._listeners) {
+      listener(batch);
+    }
+    return batch;
+  }
+
+  /**
+   * All committed batches containing changes after `since`. The open batch
+   * is committed first so pollers never miss changes made between frames.
+   */
+  since(since: number): StoreChangeSet {
+    this._active = true;
+    this.commit();
+
+    const batches: StoreChangeBatch[] = [];
+    for (const batch of this._batches) {
+      const last = batch.changes[batch.changes.length - 1];
+      if (last.seq <= since) continue;
+      batches.push(
+        batch.changes[0].seq > since
+          ? batch
+          : { ...batch, changes: batch.changes.filter((c) => c.seq > since) },
+      );
+    }
+
+    return {
+      since,
+      seq: this._seq,
+      truncated: since < this._droppedThrough,
+      batches,
+    };
+  }
+
+  /** Latest sequence number; starts recording if not already active. */
+  head(): number {
+    this._active = true;
+    return this._seq;
+  }
+
+  /** Subscribe to committed batches. Starts recording if not already active. */
+  subscribe(listener: StoreBatchListener): () => void {
+    this._active = true;
+    this._listeners.push(listener);
+    return () => {
+      const idx = this._listeners.indexOf(listener);
+      if (idx !== -1) this._listeners.splice(idx, 1);
+    };
+  }
+
+  /** Drop all retained changes and listeners. Sequence numbers keep counting. */
+  clear(): void {
+    this._batches = [];
+    this._retained = 0;
+    this._open = [];
+    this._openUpdates.clear();
+    this._droppedThrough = this._seq;
+    this._listeners = [];
+    this._active = false;
+  }
+}
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { Mesh } from 'three';
+import { ObjectHistory } from './ObjectHistory';
+import { ObjectStore } from './ObjectStore';
+import type { ObjectMetadata, StoreEventType } from '../types';
+
+/** Events carry the object, which the history ignores. */
+const object = new Mesh();
+
+function metadata(testId?: string): ObjectMetadata {
+  const mesh = new Mesh();
+  if (testId) mesh.userData.testId = testId;
+  return new ObjectStore().register(mesh);
+}
+
+function record(history: ObjectHistory, type: StoreEventType, meta: ObjectMetadata, frame = 1): void {
+  history.record({ type, object, metadata: meta }, frame);
+}
+
+describe('ObjectHistory', () => {
+  it('records every tracked field on add, then only the fields that moved', () => {
+    const history = new ObjectHistory();
+    const meta = metadata();
+    record(history, 'add', meta, 1);
+    record(history, 'update', { ...meta, position: [1, 0, 0], visible: false }, 2);
+    const [added, updated] = history.get(meta.uuid);
+    expect(added.changes.map((c) => c.field)).toEqual([
+      'position', 'rotation', 'scale', 'visible', 'effectiveVisible', 'parentUuid',
+    ]);
+    expect(updated).toMatchObject({
+      frame: 2,
+      type: 'update',
+      changes: [
+        { field: 'position', from: [0, 0, 0], to: [1, 0, 0] },
+        { field: 'visible', from: true, to: false },
+      ],
+    });
+  });
+
+  it('skips updates that touch no tracked field', () => {
+    const history = new ObjectHistory();
+    const meta = metadata();
+    record(history, 'add', meta);
+    record(history, 'update', { ...meta, geometryType: 'SphereGeometry' });
+    expect(history.get(meta.uuid)).toHaveLength(1);
+  });
+
+  it('keeps the newest entries once the ring is full', () => {
+    const history = new ObjectHistory(2);
+    const meta = metadata();
+    record(history, 'add', meta, 1);
+    record(history, 'update', { ...meta, position: [1, 0, 0] }, 2);
+    record(history, 'update', { ...meta, position: [2, 0, 0] }, 3);
+    expect(history.get(meta.uuid).map((e) => e.frame)).toEqual([2, 3]);
+  });
+
+  it('retains the timeline of a removed object by testId', () => {
+    const history = new ObjectHistory();
+    const meta = metadata('crate');
+    record(history, 'add', meta, 1);
+    record(history, 'remove', meta, 2);
+    expect(history.getRemovedByTestId('crate').map((e) => e.type)).toEqual(['add', 'remove']);
+    expect(history.getRemovedByTestId('other')).toEqual([]);
+  });
+
+  it('continues the timeline of an object re-added after removal', () => {
+    const history = new ObjectHistory();
+    const meta = metadata('crate');
+    record(history, 'add', meta, 1);
+    record(history, 'remove', meta, 2);
+    record(history, 'add', meta, 3);
+    expect(history.get(meta.uuid).map((e) => e.type)).toEqual(['add', 'remove', 'add']);
+    expect(history.getRemovedByTestId('crate')).toEqual([]);
+  });
+});
@@ -0,0 +1,163 @@
+/**
+ * @module ObjectHistory
+ *
+ * Opt-in per-object timeline of metadata changes. Every store event is
+ * compared against the last recorded state of its object and the fields
+ * that moved (transform, visibility, parent) are appended to a fixed-size
+ * ring buffer, stamped with the bridge frame and wall-clock time. Updates
+ * that only touch untracked fields (geometry version, material color, ...)
+ * are not recorded.
+ *
+ * Timelines of removed objects are retained (up to a bounded number) so a
+ * test can still ask why an object disappeared.
+ */
+import type {
+  HistoryChange,
+  HistoryField,
+  HistoryValue,
+  ObjectHistoryEntry,
+  ObjectMetadata,
+  StoreEvent,
+} from '../types';
+
+/** Default entries kept per object. */
+export const DEFAULT_HISTORY_CAPACITY = 50;
+
+/** Timelines of removed objects kept before the oldest are evicted. */
+const MAX_REMOVED_TIMELINES = 200;
+
+const VECTOR_FIELDS = ['position', 'rotation', 'scale'] as const;
+
+type TrackedState = Record<HistoryField, HistoryValue>;
+
+interface Timeline {
+  entries: ObjectHistoryEntry[];
+  /** Index the next entry is written to once the buffer is full */
+  next: number;
+  last: TrackedState;
+  testId?: string;
+}
+
+function captureState(meta: ObjectMetadata): TrackedState {
+  return {
+    position: [...meta.position],
+    rotation: [...meta.rotation],
+    scale: [...meta.scale],
+    visible: meta.visible,
+    effectiveVisible: meta.effectiveVisible,
+    parentUuid: meta.parentUuid,
+  };
+}
+
+function sameValue(a: HistoryValue, b: HistoryValue): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a[0] === b[0] && a[1] === b[1] && a[2] === b[2];
+  }
+  return a === b;
+}
+
+function diffState(prev: TrackedState, next: TrackedState): HistoryChange[] {
+  const changes: HistoryChange[] = [];
+  for (const field of VECTOR_FIELDS) {
+    if (!sameValue(prev[field], next[field])) {
+      changes.push({ field, from: prev[field], to: next[field] });
+    }
+  }
+  for (const field of ['visible', 'effectiveVisible', 'parentUuid'] as const) {
+    if (prev[field] !== next[field]) changes.push({ field, from: prev[field], to: next[field] });
+  }
+  return changes;
+}
+
+/**
+ * Ring buffer of history entries per uuid. Owned by ObjectStore, which
+ * calls `record` from its event emitter when history is enabled.
+ */
+export class ObjectHistory {
+  private _capacity: number;
+  private _timelines = new Map<string, Timeline>();
+  /** Uuids of removed objects, oldest first, for eviction */
+  private _removed = new Set<string>();
+
+  constructor(capacity = DEFAULT_HISTORY_CAPACITY) {
+    this._capacity = Math.max(1, Math.floor(capacity));
+  }
+
+  /** Record a store event as of `frame`. */
+  record(event: StoreEvent, frame: number): void {
+    const { type, metadata } = event;
+    const uuid = metadata.uuid;
+    const state = captureState(metadata);
+    let timeline = this._timelines.get(uuid);
+
+    let changes: HistoryChange[];
+    if (type === 'add' || !timeline) {
+      changes = (Object.keys(state) as HistoryField[]).map((field) => ({
+        field, from: null, to: state[field],
+      }));
+      if (!timeline) {
+        timeline = { entries: [], next: 0, last: state };
+        this._timelines.set(uuid, timeline);
+      }
+      // Re-added after removal (e.g. reparented): continue the same timeline
+      this._removed.delete(uuid);
+    } else if (type === 'remove') {
+      changes = [];
+    } else {
+      changes = diffState(timeline.last, state);
+      if (changes.length === 0) return;
+    }
+
+    timeline.last = state;
+    timeline.testId = metadata.testId;
+    this._push(timeline, { frame, timestamp: Date.now(), type, changes });
+
+    if (type === 'remove') this._retainRemoved(uuid);
+  }
+
+  /** Entries for `uuid`, oldest first. */
+  get(uuid: string): ObjectHistoryEntry[] {
+    const timeline = this._timelines.get(uuid);
+    return timeline ? this._ordered(timeline) : [];
+  }
+
+  /** Entries of a removed object last seen with `testId`, oldest first. */
+  getRemovedByTestId(testId: string): ObjectHistoryEntry[] {
+    // Most recently removed wins when a testId was reused
+    let match: Timeline | undefined;
+    for (const uuid of this._removed) {
+      const timeline = this._timelines.get(uuid);
+      if (timeline?.testId === testId) match = timeline;
+    }
+    return match ? this._ordered(match) : [];
+  }
+
+  clear(): void {
+    this._timelines.clear();
+    this._removed.clear();
+  }
+
+  private _push(timeline: Timeline, entry: ObjectHistoryEntry): void {
+    if (timeline.entries.length < this._capacity) {
+      timeline.entries.push(entry);
+      return;
+    }
+    timeline.entries[timeline.next] = entry;
+    timeline.next = (timeline.next + 1) % this._capacity;
+  }
+
+  private _ordered(timeline: Timeline): ObjectHistoryEntry[] {
+    const { entries, next } = timeline;
+    return next === 0 ? [...entries] : [...entries.slice(next), ...entries.slice(0, next)];
+  }
+
+  private _retainRemoved(uuid: string): void {
+    this._removed.delete(uuid);
+    this._removed.add(uuid);
+    while (this._removed.size > MAX_REMOVED_TIMELINES) {
+      const oldest = this._removed.values().next().value as string;
+      this._removed.delete(oldest);
+      this._timelines.delete(oldest);
+    }
+  }
+}
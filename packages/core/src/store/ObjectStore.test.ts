@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest';
+import { Group, Mesh, Scene } from 'three';
+import { ObjectStore } from './ObjectStore';
+import type { StoreEvent } from '../types';
+
+describe('ObjectStore.reparent', () => {
+  function setup() {
+    const scene = new Scene();
+    const from = new Group();
+    from.name = 'from';
+    from.position.x = 1;
+    const to = new Group();
+    to.name = 'to';
+    const mesh = new Mesh();
+    mesh.name = 'crate';
+    const child = new Mesh();
+    mesh.add(child);
+    from.add(mesh);
+    scene.add(from, to);
+    scene.updateMatrixWorld(true);
+    const store = new ObjectStore();
+    store.registerTree(scene);
+    const events: StoreEvent[] = [];
+    store.subscribe((event) => events.push(event));
+    return { store, from, to, mesh, child, events };
+  }
+
+  it('emits one reparent event and keeps the subtree registered', () => {
+    const { store, from, to, mesh, child, events } = setup();
+    to.attach(mesh);
+    store.reparent(mesh, from.uuid);
+    expect(events.map((e) => e.type)).toEqual(['reparent', 'update']);
+    expect(events[0]).toMatchObject({ object: mesh, oldParentUuid: from.uuid });
+    expect(store.getByUuid(mesh.uuid)?.parentUuid).toBe(to.uuid);
+    expect(store.getByUuid(child.uuid)).not.toBeNull();
+  });
+
+  it('refreshes the local transform attach() changed', () => {
+    const { store, from, to, mesh } = setup();
+    to.attach(mesh);
+    store.reparent(mesh, from.uuid);
+    expect(store.getByUuid(mesh.uuid)?.position).toEqual([1, 0, 0]);
+  });
+
+  it('moves the path and queues descendants for sync', () => {
+    const { store, from, to, mesh, child } = setup();
+    to.attach(mesh);
+    store.reparent(mesh, from.uuid);
+    expect(store.getPath(mesh.uuid)).toBe('Scene/Group[name=to]/Mesh[name=crate]');
+    expect(store.getByPath('Scene/Group[name=to]/Mesh[name=crate]')?.uuid).toBe(mesh.uuid);
+    expect(store.drainDirtyQueue()).toEqual([child]);
+  });
+
+  it('emits no reparent event when the parent did not change', () => {
+    const { store, from, mesh, events } = setup();
+    store.reparent(mesh, from.uuid);
+    expect(events.map((e) => e.type)).not.toContain('reparent');
+  });
+});
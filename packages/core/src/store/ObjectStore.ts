@@ -11,23 +11,55 @@ import {
   Object3D,
   Mesh,
   InstancedMesh,
+  SkinnedMesh,
   BufferGeometry,
   Material,
   Box3,
+  Vector3,
+  Frustum,
   Color,
   PerspectiveCamera,
   OrthographicCamera,
 } from 'three';
+import type { AnimationMixer, Camera } from 'three';
 import type {
   ObjectMetadata,
+  ObjectHistoryEntry,
+  MetadataExtractor,
+  ExtractedValue,
+  UserDataIndexStats,
   ObjectInspection,
   GeometryInspection,
   MaterialInspection,
   InspectOptions,
   StoreEvent,
   StoreListener,
+  StoreBatchListener,
+  StoreChangeSet,
+  SpatialQueryOptions,
+  EffectiveVisibility,
+  InstanceMetadata,
+  AnimationActionState,
+  SkeletonInspection,
 } from '../types';
 import { r3fLog } from '../debug';
+import { parseQuery, matchesQuery, exactQueryIds } from './query';
+import { SpatialIndex } from './SpatialIndex';
+import { ChangeJournal } from './ChangeJournal';
+import { computeEffectiveVisibility } from './visibility';
+import type { EffectiveVisibilityOptions } from './visibility';
+import { AnimationTracker, ANIMATION_MIXER_USERDATA_KEY, isAnimationMixer } from './AnimationTracker';
+import {
+  parseInstanceId,
+  isInstancedMesh,
+  findInstanceByTestId,
+  extractInstanceMetadata,
+} from './instances';
+import { updateGeometryFields, getAttributeVersion } from './geometry';
+import { getObjectPath, looksLikePath, resolvePath } from './paths';
+import { ObjectHistory, DEFAULT_HISTORY_CAPACITY } from './ObjectHistory';
+import { MetadataExtractors } from './extractors';
+import { UserDataIndex, matchesUserData } from './UserDataIndex';
 
 // ---------------------------------------------------------------------------
 // Helper: extract Tier 1 metadata from a live Three.js object
@@ -36,8 +68,10 @@ import { r3fLog } from '../debug';
 //   - extractMetadata(): full extraction, called once on register
 //   - updateDynamicFields(): only reads fields that change per-frame
 //     (position, rotation, scale, visible, children count, parent),
-//     skipping geometry/material/instanceCount which are static.
+//     skipping material/instanceCount which are static.
 //     Reuses the existing metadata object to avoid allocation.
+//   - updateGeometryFields() (./geometry): attribute versions, draw range
+//     and morph influences, for geometry edited in place.
 // ---------------------------------------------------------------------------
 
 function extractMetadata(obj: Object3D): ObjectMetadata {
@@ -46,6 +80,7 @@ function extractMetadata(obj: Object3D): ObjectMetadata {
     name: obj.name,
     type: obj.type,
     visible: obj.visible,
+    effectiveVisible: obj.visible,
     testId: obj.userData?.testId as string | undefined,
     position: [obj.position.x, obj.position.y, obj.position.z],
     rotation: [obj.rotation.x, obj.rotation.y, obj.rotation.z],
@@ -61,21 +96,7 @@ function extractMetadata(obj: Object3D): ObjectMetadata {
 
 function extractStaticFields(obj: Object3D, meta: ObjectMetadata): void {
   try {
-    if ('geometry' in obj) {
-      const geom = (obj as Mesh).geometry;
-      if (geom instanceof BufferGeometry) {
-        meta.geometryType = geom.type;
-        const posAttr = geom.getAttribute('position');
-        if (posAttr) {
-          meta.vertexCount = posAttr.count;
-          if (geom.index) {
-            meta.triangleCount = Math.floor(geom.index.count / 3);
-          } else {
-            meta.triangleCount = Math.floor(posAttr.count / 3);
-          }
-        }
-      }
-    }
+    updateGeometryFields(obj, meta);
   } catch {
     r3fLog('store', `extractMetadata: geometry access failed for "${obj.name || obj.uuid}"`);
   }
@@ -101,6 +122,14 @@ function extractStaticFields(obj: Object3D, meta: ObjectMetadata): void {
     // Skip instance count if access fails
   }
 
+  try {
+    if (obj instanceof SkinnedMesh && obj.skeleton) {
+      meta.boneCount = obj.skeleton.bones.length;
+    }
+  } catch {
+    // Skip bone count if the skeleton is not bound yet
+  }
+
   try {
     if (obj instanceof PerspectiveCamera) {
       meta.fov = obj.fov;
@@ -171,6 +200,78 @@ function updateDynamicFields(obj: Object3D, meta: ObjectMetadata): boolean {
   return changed;
 }
 
+/**
+ * Refresh effectiveVisible / visibilityReason (frustum excluded — it depends
+ * on the camera every frame). Returns true if either changed.
+ *
+ * `parentMeta` (the parent's tracked metadata) short-cuts the ancestor walk:
+ * a visible parent that is not hidden by its own ancestors means the whole
+ * chain is visible. A stale parent entry is corrected when the parent syncs,
+ * since a `visible` flip marks the subtree dirty (see ObjectStore.update).
+ */
+function updateVisibilityFields(
+  obj: Object3D,
+  meta: ObjectMetadata,
+  camera: Camera | null,
+  parentMeta?: ObjectMetadata,
+): boolean {
+  const ancestorsVisible = !!parentMeta && !!obj.parent?.visible &&
+    parentMeta.visibilityReason !== 'self' && parentMeta.visibilityReason !== 'ancestor';
+  const result = computeEffectiveVisibility(obj, camera, { ancestorsVisible });
+  if (meta.effectiveVisible === result.visible && meta.visibilityReason === result.reason) return false;
+  meta.effectiveVisible = result.visible;
+  if (result.reason) meta.visibilityReason = result.reason;
+  else delete meta.visibilityReason;
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Helper: opt-in extended appearance fields (material / light / texture)
+//
+// Read on register and on every update() when `extendedMetadata` is enabled,
+// so appearance changes are observable from Tier 1 without inspect().
+// Compare-and-set like updateDynamicFields; returns true if anything changed.
+// ---------------------------------------------------------------------------
+
+function setField<K extends keyof ObjectMetadata>(
+  meta: ObjectMetadata,
+  key: K,
+  value: ObjectMetadata[K],
+): boolean {
+  if (meta[key] === value) return false;
+  if (value === undefined) delete meta[key];
+  else meta[key] = value;
+  return true;
+}
+
+function updateExtendedFields(obj: Object3D, meta: ObjectMetadata): boolean {
+  let changed = false;
+
+  let mat: Material | undefined;
+  if ('material' in obj) {
+    const raw = (obj as Mesh).material;
+    mat = Array.isArray(raw) ? raw[0] : raw;
+  }
+  if (mat instanceof Material) {
+    const m = mat as Material & { color?: Color; emissive?: Color; map?: { name?: string; uuid: string } | null };
+    changed = setField(meta, 'color', m.color instanceof Color ? '#' + m.color.getHexString() : undefined) || changed;
+    changed = setField(meta, 'emissive', m.emissive instanceof Color ? '#' + m.emissive.getHexString() : undefined) || changed;
+    changed = setField(meta, 'opacity', mat.opacity) || changed;
+    changed = setField(meta, 'transparent', mat.transparent) || changed;
+    changed = setField(meta, 'materialVisible', mat.visible) || changed;
+    changed = setField(meta, 'map', m.map ? m.map.name || m.map.uuid : undefined) || changed;
+  }
+
+  const light = obj as Object3D & { isLight?: boolean; intensity?: number; color?: Color };
+  if (light.isLight) {
+    changed = setField(meta, 'intensity', light.intensity) || changed;
+    changed = setField(meta, 'lightColor', light.color instanceof Color ? '#' + light.color.getHexString() : undefined) || changed;
+    changed = setField(meta, 'castShadow', obj.castShadow) || changed;
+  }
+
+  return changed;
+}
+
 // ---------------------------------------------------------------------------
 // Helper: Tier 2 on-demand inspection
 // ---------------------------------------------------------------------------
@@ -206,6 +307,10 @@ function inspectObject(obj: Object3D, metadata: ObjectMetadata, options?: Inspec
   // userData (shallow copy, may contain non-serializable values)
   try {
     inspection.userData = { ...obj.userData };
+    // A mixer references the whole animated subtree — summarise it
+    if (isAnimationMixer(inspection.userData[ANIMATION_MIXER_USERDATA_KEY])) {
+      inspection.userData[ANIMATION_MIXER_USERDATA_KEY] = '[AnimationMixer]';
+    }
   } catch {
     r3fLog('store', `inspectObject: userData copy failed for "${obj.name || obj.uuid}"`);
   }
@@ -225,13 +330,16 @@ function inspectObject(obj: Object3D, metadata: ObjectMetadata, options?: Inspec
           geoInspection.attributes[name] = {
             itemSize: attr.itemSize,
             count: attr.count,
+            version: getAttributeVersion(attr),
           };
         }
 
         if (geom.index) {
-          geoInspection.index = { count: geom.index.count };
+          geoInspection.index = { count: geom.index.count, version: geom.index.version };
         }
 
+        geoInspection.drawRange = { start: geom.drawRange.start, count: geom.drawRange.count };
+
         if (options?.includeGeometryData) {
           const posAttr = geom.getAttribute('position');
           if (posAttr?.array) {
@@ -311,6 +419,25 @@ function inspectObject(obj: Object3D, metadata: ObjectMetadata, options?: Inspec
     r3fLog('store', `inspectObject: material inspection failed for "${obj.name || obj.uuid}"`);
   }
 
+  // Skeleton details
+  try {
+    if (obj instanceof SkinnedMesh && obj.skeleton) {
+      const bones = obj.skeleton.bones;
+      const label = (o: Object3D) => o.name || o.uuid;
+      const skeleton: SkeletonInspection = {
+        boneCount: bones.length,
+        bones: bones.map(label),
+        bindMode: obj.bindMode,
+      };
+      // Root bone: the first bone whose parent is not itself a bone
+      const root = bones.find((b) => !(b.parent && bones.includes(b.parent as typeof b)));
+      if (root) skeleton.rootBone = label(root);
+      inspection.skeleton = skeleton;
+    }
+  } catch {
+    r3fLog('store', `inspectObject: skeleton inspection failed for "${obj.name || obj.uuid}"`);
+  }
+
   return inspection;
 }
 
@@ -318,6 +445,36 @@ function inspectObject(obj: Object3D, metadata: ObjectMetadata, options?: Inspec
 // ObjectStore — the source of truth for all tracked Three.js objects
 // ---------------------------------------------------------------------------
 
+const NO_CUSTOM_ATTRIBUTES: ReadonlyMap<string, string> = new Map();
+
+export interface ObjectStoreOptions {
+  /**
+   * Also track material color/emissive/opacity/transparent/visible, map
+   * texture name, and light intensity/color/castShadow in Tier 1 metadata.
+   * Adds a few property reads per object per update. Default: false.
+   */
+  extendedMetadata?: boolean;
+  /**
+   * Record a per-object timeline of transform, visibility and parent
+   * changes, readable with `getHistory()`. `true` keeps the last
+   * 50 entries per object; a number sets that capacity. Default: false.
+   */
+  history?: boolean | number;
+  /**
+   * App-defined metadata fields (see {@link MetadataExtractor}). Validated
+   * up front; an invalid name or attribute throws.
+   */
+  extractors?: readonly MetadataExtractor[];
+  /** userData keys to index for `getByUserData` from the start. */
+  userDataIndexes?: readonly string[];
+  /**
+   * Build an index for any other userData key the first time it is queried
+   * (one scan, then lookups over the key's holders kept up to date on every
+   * sync; at most MAX_LAZY_INDEXES keys). Default: true.
+   */
+  lazyUserDataIndexes?: boolean;
+}
+
 /**
  * Source of truth for all tracked Three.js objects.
  * Maintains O(1) indexes by uuid, testId, and name, a dirty queue for
@@ -341,8 +498,54 @@ export class ObjectStore {
   // Event listeners
   private _listeners: StoreListener[] = [];
 
-  // Track the root scene(s) for scoping
-  private _trackedRoots = new WeakSet<Object3D>();
+  // Sequence-numbered change log, committed once per frame
+  private _journal = new ChangeJournal();
+  private _frame = 0;
+
+  // Track the root scene(s) for scoping; also the starting points for path ids
+  private _trackedRoots = new Set<Object3D>();
+
+  // AnimationMixers (explicitly registered or found via userData)
+  private _animations = new AnimationTracker();
+
+  // InstancedMeshes, for per-instance testId lookups
+  private _instancedMeshes = new Set<InstancedMesh>();
+
+  // World-space BVH for region queries (built lazily on first use)
+  private _spatial = new SpatialIndex();
+
+  // Path id → object, validated on hit since paths shift with the scene graph
+  private _pathCache = new Map<string, Object3D>();
+
+  // Per-object change timelines (null unless the `history` option is set)
+  private _history: ObjectHistory | null = null;
+
+  // App-defined fields and their value indexes (null without extractors)
+  private _extractors: MetadataExtractors | null = null;
+
+  // Secondary indexes for getByUserData
+  private _userDataIndex: UserDataIndex;
+
+  private _extendedMetadata: boolean;
+
+  // Active camera, for layer-mask visibility checks
+  private _camera: Camera | null = null;
+
+  constructor(options: ObjectStoreOptions = {}) {
+    this._extendedMetadata = options.extendedMetadata ?? false;
+    if (options.history) {
+      this._history = new ObjectHistory(
+        typeof options.history === 'number' ? options.history : DEFAULT_HISTORY_CAPACITY,
+      );
+    }
+    this._userDataIndex = new UserDataIndex(
+      options.userDataIndexes,
+      options.lazyUserDataIndexes ?? true,
+    );
+    if (options.extractors && options.extractors.length > 0) {
+      this._extractors = new MetadataExtractors(options.extractors);
+    }
+  }
 
   // -------------------------------------------------------------------------
   // Registration
@@ -364,9 +567,25 @@ export class ObjectStore {
     if (existing) return existing;
 
     const meta = extractMetadata(obj);
+    try {
+      updateVisibilityFields(obj, meta, this._camera);
+    } catch {
+      r3fLog('store', `register: effective visibility failed for "${obj.name || obj.uuid}"`);
+    }
+    if (this._extendedMetadata) {
+      try {
+        updateExtendedFields(obj, meta);
+      } catch {
+        r3fLog('store', `register: extended metadata failed for "${obj.name || obj.uuid}"`);
+      }
+    }
+    this._extractors?.apply(obj, meta, true);
+    this._userDataIndex.add(obj);
     this._metaByObject.set(obj, meta);
     this._objectByUuid.set(meta.uuid, obj);
     this._flatListDirty = true;
+    this._spatial.insert(obj);
+    if (isInstancedMesh(obj)) this._instancedMeshes.add(obj);
 
     // O(1) tracking flag for patchObject3D.findTrackingPair
     obj.userData.__r3fdom_tracked = true;
@@ -496,6 +715,12 @@ export class ObjectStore {
     this._objectByUuid.delete(meta.uuid);
     this._dirtyQueue.delete(obj);
     this._flatListDirty = true;
+    this._spatial.remove(obj);
+    if (isInstancedMesh(obj)) this._instancedMeshes.delete(obj);
+    this._extractors?.remove(obj, meta);
+    this._userDataIndex.remove(obj);
+    // Drop cached path hits so removed objects are not retained
+    if (this._pathCache.size > 0) this._pathCache.clear();
 
     delete obj.userData.__r3fdom_tracked;
     delete obj.userData.__r3fdom_manual;
@@ -520,6 +745,32 @@ export class ObjectStore {
     this._emit({ type: 'remove', object: obj, metadata: meta });
   }
 
+  /**
+   * Record that a tracked object moved to a new parent within the tracked
+   * scene. Emits one 'reparent' event instead of remove + add so listeners
+   * keep the object's identity; the subtree stays registered. Descendants
+   * are queued for sync since their world transforms and paths moved.
+   */
+  reparent(obj: Object3D, oldParentUuid: string | null): void {
+    const meta = this._metaByObject.get(obj);
+    if (!meta) return;
+
+    const newParentUuid = obj.parent?.uuid ?? null;
+    if (newParentUuid !== oldParentUuid) {
+      meta.parentUuid = newParentUuid;
+      if (this._pathCache.size > 0) this._pathCache.clear();
+      r3fLog('store', `Reparented "${meta.testId || meta.name || meta.uuid}" → ${newParentUuid}`);
+      this._emit({ type: 'reparent', object: obj, metadata: meta, oldParentUuid });
+    }
+
+    // attach() keeps the world transform, so local fields may have moved too
+    this.update(obj);
+    this._spatial.markMoved(obj);
+    obj.traverse((child) => {
+      if (child !== obj) this.markDirty(child);
+    });
+  }
+
   /**
    * Unregister an entire subtree (object + all descendants).
    */
@@ -541,8 +792,9 @@ export class ObjectStore {
 
   /**
    * Refresh dynamic Tier 1 fields from the live Three.js object.
-   * Only reads transform, visibility, children count, and parent —
-   * skips static fields (geometry, material) that don't change per-frame.
+   * Only reads transform, visibility, children count, parent and geometry
+   * versions (plus the appearance fields when `extendedMetadata` is on) —
+   * skips static fields (material) that don't change per-frame.
    * Mutates metadata in-place to avoid allocation.
    * Returns true if any values changed.
    */
@@ -554,8 +806,21 @@ export class ObjectStore {
     try {
       const prevTestId = meta.testId;
       const prevName = meta.name;
+      const prevVisible = meta.visible;
 
       changed = updateDynamicFields(obj, meta);
+      if (updateGeometryFields(obj, meta)) changed = true;
+      const parentMeta = obj.parent ? this._metaByObject.get(obj.parent) : undefined;
+      if (updateVisibilityFields(obj, meta, this._camera, parentMeta)) changed = true;
+      if (prevVisible !== meta.visible) {
+        // Descendants' effective visibility follows this flag; refresh them next frame
+        obj.traverse((child) => {
+          if (child !== obj) this.markDirty(child);
+        });
+      }
+      if (this._extendedMetadata && updateExtendedFields(obj, meta)) changed = true;
+      if (this._extractors?.apply(obj, meta, false)) changed = true;
+      this._userDataIndex.refresh(obj);
 
       if (changed) {
         if (prevTestId !== meta.testId) {
@@ -581,6 +846,7 @@ export class ObjectStore {
           }
         }
 
+        this._spatial.markMoved(obj);
         this._emit({ type: 'update', object: obj, metadata: meta });
       }
     } catch (err) {
@@ -591,6 +857,106 @@ export class ObjectStore {
     return changed;
   }
 
+  /**
+   * Set the camera used for layer-mask visibility checks.
+   * Called by ThreeDom on setup; null disables the layer check.
+   */
+  setCamera(camera: Camera | null): void {
+    this._camera = camera;
+  }
+
+  /**
+   * Compute effective visibility for an object right now (does not wait for
+   * the next sync). Pass `{ frustum: true }` to also test the camera frustum.
+   * Returns null if the object is not found.
+   */
+  getEffectiveVisibility(idOrUuid: string, options?: EffectiveVisibilityOptions): EffectiveVisibility | null {
+    const obj = this.getObject3D(idOrUuid);
+    if (!obj) return null;
+    return computeEffectiveVisibility(obj, this._camera, options);
+  }
+
+  // -------------------------------------------------------------------------
+  // InstancedMesh virtual children (derived on demand, never cached)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Resolve an instance id — "mesh#index" (mesh by testId or uuid) or a
+   * per-instance testId from `userData.instanceTestIds` — to its mesh and
+   * index. Returns null if no instance matches or the index is out of range.
+   */
+  resolveInstance(id: string): { mesh: InstancedMesh; index: number } | null {
+    const parsed = parseInstanceId(id);
+    if (parsed) {
+      const mesh = this.getObject3D(parsed.base);
+      if (mesh && isInstancedMesh(mesh) && parsed.index < mesh.count) {
+        return { mesh, index: parsed.index };
+      }
+    }
+    for (const mesh of this._instancedMeshes) {
+      const index = findInstanceByTestId(mesh, id);
+      if (index !== -1) return { mesh, index };
+    }
+    return null;
+  }
+
+  /** Metadata for a single instance (see `resolveInstance` for id forms). */
+  getInstance(id: string): InstanceMetadata | null {
+    const resolved = this.resolveInstance(id);
+    if (!resolved) return null;
+    try {
+      return extractInstanceMetadata(resolved.mesh, resolved.index);
+    } catch {
+      r3fLog('store', `getInstance: failed to read instance "${id}"`);
+      return null;
+    }
+  }
+
+  /** Metadata for every instance of an InstancedMesh ([] if not instanced). */
+  getInstances(idOrUuid: string): InstanceMetadata[] {
+    const mesh = this.getObject3D(idOrUuid);
+    if (!mesh || !isInstancedMesh(mesh)) return [];
+    const results: InstanceMetadata[] = [];
+    try {
+      for (let i = 0; i < mesh.count; i++) {
+        results.push(extractInstanceMetadata(mesh, i));
+      }
+    } catch {
+      r3fLog('store', `getInstances: failed to read instances of "${idOrUuid}"`);
+    }
+    return results;
+  }
+
+  // -------------------------------------------------------------------------
+  // Animation mixers
+  // -------------------------------------------------------------------------
+
+  /** Track an AnimationMixer's actions. */
+  registerMixer(mixer: AnimationMixer): void {
+    this._animations.add(mixer);
+  }
+
+  /** Stop tracking an AnimationMixer. */
+  unregisterMixer(mixer: AnimationMixer): void {
+    this._animations.remove(mixer);
+  }
+
+  /**
+   * State of every action on tracked mixers, optionally limited to the mixer
+   * rooted at `rootIdOrUuid`. Scans tracked objects for
+   * `userData.animationMixer` first so late-created mixers are found.
+   */
+  getAnimations(rootIdOrUuid?: string): AnimationActionState[] {
+    this._animations.discover(this._objectByUuid.values());
+    const label = (root: Object3D) =>
+      (root.userData?.testId as string | undefined) ?? root.uuid;
+    const actions = this._animations.getActions(label);
+    if (rootIdOrUuid === undefined) return actions;
+    const root = this.getObject3D(rootIdOrUuid);
+    const rootUuid = root?.uuid ?? rootIdOrUuid;
+    return actions.filter((a) => a.rootUuid === rootUuid);
+  }
+
   // -------------------------------------------------------------------------
   // Tier 2: On-demand inspection (never cached)
   // -------------------------------------------------------------------------
@@ -608,7 +974,13 @@ export class ObjectStore {
     const meta = this._metaByObject.get(obj);
     if (!meta) return null;
 
-    return inspectObject(obj, meta, options);
+    const inspection = inspectObject(obj, meta, options);
+    try {
+      inspection.path = getObjectPath(obj);
+    } catch {
+      r3fLog('store', `inspect: path failed for "${obj.name || obj.uuid}"`);
+    }
+    return inspection;
   }
 
   // -------------------------------------------------------------------------
@@ -629,6 +1001,26 @@ export class ObjectStore {
     return this._metaByObject.get(obj) ?? null;
   }
 
+  /**
+   * Get metadata by path id (e.g. `Scene/Group[name=F3]/Mesh[2]`, see
+   * `getPath`). O(depth × siblings); a miss also scans for root objects.
+   */
+  getByPath(path: string): ObjectMetadata | null {
+    const obj = this._resolvePath(path);
+    if (!obj) return null;
+    return this._metaByObject.get(obj) ?? null;
+  }
+
+  /**
+   * Deterministic path id for an object: each segment is the Three.js type
+   * qualified by a sibling-unique name or the index among same-type siblings.
+   * Stable across page loads, unlike uuids. Null if the object is not tracked.
+   */
+  getPath(idOrUuid: string): string | null {
+    const obj = this.getObject3D(idOrUuid);
+    return obj ? getObjectPath(obj) : null;
+  }
+
   /** Get metadata by name (returns array since names aren't unique). O(1). */
   getByName(name: string): ObjectMetadata[] {
     const objs = this._objectsByName.get(name);
@@ -641,9 +1033,9 @@ export class ObjectStore {
     return results;
   }
 
-  /** Get direct children of an object by testId or uuid. Returns empty array if not found. */
+  /** Get direct children of an object by testId, uuid or path. Returns empty array if not found. */
   getChildren(idOrUuid: string): ObjectMetadata[] {
-    const meta = this.getByTestId(idOrUuid) ?? this.getByUuid(idOrUuid);
+    const meta = this.getByTestId(idOrUuid) ?? this.getByUuid(idOrUuid) ?? this.getByPath(idOrUuid);
     if (!meta) return [];
     const results: ObjectMetadata[] = [];
     for (const childUuid of meta.childrenUuids) {
@@ -653,9 +1045,9 @@ export class ObjectStore {
     return results;
   }
 
-  /** Get parent of an object by testId or uuid. Returns null if not found or if root. */
+  /** Get parent of an object by testId, uuid or path. Returns null if not found or if root. */
   getParent(idOrUuid: string): ObjectMetadata | null {
-    const meta = this.getByTestId(idOrUuid) ?? this.getByUuid(idOrUuid);
+    const meta = this.getByTestId(idOrUuid) ?? this.getByUuid(idOrUuid) ?? this.getByPath(idOrUuid);
     if (!meta || meta.parentUuid === null) return null;
     return this.getByUuid(meta.parentUuid);
   }
@@ -670,7 +1062,7 @@ export class ObjectStore {
   getObjects(ids: string[]): Map<string, ObjectMetadata | null> {
     const results = new Map<string, ObjectMetadata | null>();
     for (const id of ids) {
-      const meta = this.getByTestId(id) ?? this.getByUuid(id);
+      const meta = this.getByTestId(id) ?? this.getByUuid(id) ?? this.getByPath(id);
       results.set(id, meta);
     }
     return results;
@@ -715,25 +1107,91 @@ export class ObjectStore {
     return results;
   }
 
+  /**
+   * Objects whose testId or name contains `query` (case-insensitive), or
+   * whose uuid starts with it, up to `limit`. Used for "did you mean"
+   * suggestions when a lookup fails.
+   */
+  fuzzyFind(query: string, limit = 5): ObjectMetadata[] {
+    const q = query.toLowerCase();
+    const results: ObjectMetadata[] = [];
+    for (const obj of this.getFlatList()) {
+      if (results.length >= limit) break;
+      const meta = this._metaByObject.get(obj);
+      if (!meta) continue;
+      const testId = meta.testId?.toLowerCase() ?? '';
+      const name = meta.name?.toLowerCase() ?? '';
+      if (testId.includes(q) || name.includes(q) || meta.uuid.startsWith(q)) {
+        results.push(meta);
+      }
+    }
+    return results;
+  }
+
   /**
    * Get all objects that have a specific userData key.
    * If `value` is provided, only returns objects where `userData[key]` matches.
    * Uses JSON.stringify for deep equality on complex values.
-   * Linear scan — O(n).
+   * Served from the key's secondary index of values (built on first query
+   * unless lazy indexes are off or capped, in which case unindexed keys are
+   * a linear scan). Values are always compared against live userData, and
+   * an empty index result falls back to a scan, since the index only sees
+   * userData as of each object's last sync.
    */
   getByUserData(key: string, value?: unknown): ObjectMetadata[] {
     const results: ObjectMetadata[] = [];
-    const checkValue = value !== undefined;
-    const valueJson = checkValue ? JSON.stringify(value) : '';
-    for (const obj of this.getFlatList()) {
-      if (!(key in obj.userData)) continue;
-      if (checkValue && JSON.stringify(obj.userData[key]) !== valueJson) continue;
+    const valueJson = value !== undefined ? JSON.stringify(value) : undefined;
+
+    let hits = this._userDataIndex.lookup(key, valueJson);
+    if (!hits && this._userDataIndex.lazy) {
+      this._userDataIndex.build(key, this.getFlatList());
+      r3fLog('store', `getByUserData: built index for "${key}"`);
+      // Not counted again: this query was the miss that built the index
+      hits = this._userDataIndex.lookup(key, valueJson, false);
+    }
+    // Nothing filed yet: the key or value may have been set since the last sync
+    if (hits?.length === 0) hits = null;
+
+    for (const obj of hits ?? this.getFlatList()) {
+      if (!hits && !matchesUserData(obj, key, valueJson)) continue;
       const meta = this._metaByObject.get(obj);
       if (meta) results.push(meta);
     }
     return results;
   }
 
+  /**
+   * Get objects whose extractor field `name` equals `value` (strict, so
+   * 3 and "3" differ). O(1) for extractors with `index: true`, otherwise
+   * a linear scan.
+   */
+  getByField(name: string, value: ExtractedValue): ObjectMetadata[] {
+    const results: ObjectMetadata[] = [];
+    if (!this._extractors) return results;
+    if (this._extractors.isIndexed(name)) {
+      for (const obj of this._extractors.lookup(name, value)) {
+        const meta = this._metaByObject.get(obj);
+        if (meta) results.push(meta);
+      }
+      return results;
+    }
+    for (const obj of this.getFlatList()) {
+      const meta = this._metaByObject.get(obj);
+      if (meta?.custom?.[name] === value) results.push(meta);
+    }
+    return results;
+  }
+
+  /** Hit / miss counters and indexed keys for getByUserData. */
+  getUserDataIndexStats(): UserDataIndexStats {
+    return this._userDataIndex.getStats();
+  }
+
+  /** Extractor field → mirror `data-*` attribute (empty without extractors). */
+  getCustomAttributes(): ReadonlyMap<string, string> {
+    return this._extractors?.attributes ?? NO_CUSTOM_ATTRIBUTES;
+  }
+
   /**
    * Count objects of a given Three.js type.
    * More efficient than getByType().length — no array allocation.
@@ -748,12 +1206,103 @@ export class ObjectStore {
     return count;
   }
 
-  /** Get the raw Three.js Object3D by testId or uuid. */
+  /**
+   * Find all objects matching a CSS-like selector, e.g.
+   * `Mesh[material=MeshStandardMaterial][userData.floor=3] > Group#door-*`.
+   * Evaluated against Tier 1 metadata (plus live userData) without touching
+   * the DOM mirror. Selectors whose rightmost part has an exact `#id` are
+   * seeded from the testId/name indexes; everything else is a linear scan — O(n).
+   * Throws on invalid selector syntax.
+   */
+  query(selector: string): ObjectMetadata[] {
+    const parsed = parseQuery(selector);
+    const results: ObjectMetadata[] = [];
+
+    const ids = exactQueryIds(parsed);
+    let candidates: Iterable<Object3D>;
+    if (ids) {
+      const seeded = new Set<Object3D>();
+      for (const id of ids) {
+        const byTestId = this._objectsByTestId.get(id);
+        if (byTestId) seeded.add(byTestId);
+        const byName = this._objectsByName.get(id);
+        if (byName) for (const obj of byName) seeded.add(obj);
+      }
+      candidates = seeded;
+    } else {
+      candidates = this.getFlatList();
+    }
+
+    for (const obj of candidates) {
+      const meta = this._metaByObject.get(obj);
+      if (meta && matchesQuery(this, obj, meta, parsed)) results.push(meta);
+    }
+    return results;
+  }
+
+  // -------------------------------------------------------------------------
+  // Spatial queries (world-space BVH)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Get all objects whose world-space bounds intersect `box`
+   * (or lie entirely inside it with `{ mode: 'contains' }`).
+   * Bounds are each object's own geometry (children excluded); objects
+   * without geometry are treated as a point at their world position.
+   * Objects that moved since the last sync are re-bounded from their
+   * current matrixWorld. O(log n + k) after the index is warm, plus a
+   * linear matrixWorld comparison.
+   */
+  getInBox(box: Box3, options?: SpatialQueryOptions): ObjectMetadata[] {
+    return this._spatialResults(this._spatial.queryBox(box, options));
+  }
+
+  /** Get all objects whose world-space bounds intersect a sphere. See `getInBox`. */
+  getWithinRadius(center: Vector3, radius: number, options?: SpatialQueryOptions): ObjectMetadata[] {
+    return this._spatialResults(this._spatial.querySphere(center, radius, options));
+  }
+
+  /** Get all objects whose world-space bounds intersect a frustum. See `getInBox`. */
+  getInFrustum(frustum: Frustum, options?: SpatialQueryOptions): ObjectMetadata[] {
+    return this._spatialResults(this._spatial.queryFrustum(frustum, options));
+  }
+
+  private _spatialResults(objects: Object3D[]): ObjectMetadata[] {
+    const results: ObjectMetadata[] = [];
+    for (const obj of objects) {
+      const meta = this._metaByObject.get(obj);
+      if (meta) results.push(meta);
+    }
+    return results;
+  }
+
+  /** Get the raw Three.js Object3D by testId, uuid or path. */
   getObject3D(idOrUuid: string): Object3D | null {
-    // Try testId first, then uuid
+    // Try testId first, then uuid, then path
     return this._objectsByTestId.get(idOrUuid)
       ?? this._objectByUuid.get(idOrUuid)
-      ?? null;
+      ?? this._resolvePath(idOrUuid);
+  }
+
+  private _resolvePath(path: string): Object3D | null {
+    if (!looksLikePath(path)) return null;
+    const cached = this._pathCache.get(path);
+    if (cached && this._metaByObject.has(cached) && getObjectPath(cached) === path) {
+      return cached;
+    }
+    this._pathCache.delete(path);
+
+    // Paths start at the topmost ancestor, which a tracked root may have
+    const roots = new Set<Object3D>();
+    for (const root of this._trackedRoots) {
+      let top = root;
+      while (top.parent) top = top.parent;
+      roots.add(top);
+    }
+    const obj = resolvePath(path, roots);
+    if (!obj || !this._metaByObject.has(obj)) return null;
+    this._pathCache.set(path, obj);
+    return obj;
   }
 
   /** Get metadata for a known Object3D reference. */
@@ -850,11 +1399,73 @@ export class ObjectStore {
   }
 
   private _emit(event: StoreEvent): void {
+    this._journal.record(event);
+    // Events before commitFrame() belong to the frame being synced
+    this._history?.record(event, this._frame + 1);
     for (const listener of this._listeners) {
       listener(event);
     }
   }
 
+  // -------------------------------------------------------------------------
+  // Change journal (batched per frame)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Mark the end of a frame: advances the frame counter and commits every
+   * change recorded since the previous frame as one journal batch.
+   * Called by ThreeDom after its per-frame sync.
+   */
+  commitFrame(): void {
+    this._frame++;
+    this._journal.commit(this._frame);
+  }
+
+  /** Number of frames committed so far. */
+  getFrame(): number {
+    return this._frame;
+  }
+
+  // -------------------------------------------------------------------------
+  // Object history (opt-in)
+  // -------------------------------------------------------------------------
+
+  /**
+   * Recorded transform / visibility / parent changes of an object, oldest
+   * first. Removed objects are looked up by their last uuid or testId.
+   * Empty when history is disabled.
+   */
+  getHistory(idOrUuid: string): ObjectHistoryEntry[] {
+    if (!this._history) return [];
+    const obj = this.getObject3D(idOrUuid);
+    if (obj) return this._history.get(obj.uuid);
+    const removed = this._history.get(idOrUuid);
+    return removed.length > 0 ? removed : this._history.getRemovedByTestId(idOrUuid);
+  }
+
+  /**
+   * Get all journal batches with changes after sequence `since`.
+   * Pending changes from the current frame are committed first.
+   * `truncated` is true when older changes were evicted (or happened before
+   * the journal was first read) — the caller should re-snapshot.
+   */
+  getChangesSince(since: number): StoreChangeSet {
+    return this._journal.since(since);
+  }
+
+  /** Latest journal sequence number. */
+  getJournalSeq(): number {
+    return this._journal.head();
+  }
+
+  /**
+   * Subscribe to committed journal batches — one call per frame with all
+   * of that frame's changes, instead of one call per event.
+   */
+  subscribeBatches(listener: StoreBatchListener): () => void {
+    return this._journal.subscribe(listener);
+  }
+
   // -------------------------------------------------------------------------
   // GC: sweep orphaned objects
   // -------------------------------------------------------------------------
@@ -898,6 +1509,15 @@ export class ObjectStore {
     this._flatList = [];
     this._flatListDirty = true;
     this._dirtyQueue.clear();
+    this._spatial.clear();
+    this._instancedMeshes.clear();
+    this._pathCache.clear();
+    this._trackedRoots.clear();
+    this._animations.clear();
+    this._history?.clear();
+    this._extractors?.clear();
+    this._userDataIndex.clear();
+    this._journal.clear();
     this._listeners = [];
   }
 }
@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { Box3, BoxGeometry, Group, Mesh, Vector3 } from 'three';
+import { SpatialIndex } from './SpatialIndex';
+
+const around = (x: number) => new Box3(new Vector3(x - 1, -1, -1), new Vector3(x + 1, 1, 1));
+
+function setup() {
+  const group = new Group();
+  const mesh = new Mesh(new BoxGeometry());
+  group.add(mesh);
+  group.updateMatrixWorld(true);
+  const index = new SpatialIndex();
+  index.insert(group);
+  index.insert(mesh);
+  return { group, mesh, index };
+}
+
+describe('SpatialIndex', () => {
+  it('finds objects by world bounds', () => {
+    const { group, mesh, index } = setup();
+    expect(index.queryBox(around(0))).toEqual(expect.arrayContaining([group, mesh]));
+    expect(index.queryBox(around(10))).toEqual([]);
+  });
+
+  it('follows objects marked moved', () => {
+    const { group, mesh, index } = setup();
+    index.queryBox(around(0));
+    group.position.x = 10;
+    index.markMoved(group);
+    expect(index.queryBox(around(10))).toEqual(expect.arrayContaining([group, mesh]));
+  });
+
+  it('re-bounds objects whose matrixWorld changed without being marked', () => {
+    const { group, mesh, index } = setup();
+    index.queryBox(around(0));
+    // Rendered (matrixWorld updated) but not yet synced by the store
+    group.position.x = 10;
+    group.updateMatrixWorld(true);
+    expect(index.queryBox(around(0))).toEqual([]);
+    expect(index.queryBox(around(10))).toEqual(expect.arrayContaining([group, mesh]));
+  });
+
+  it('forgets removed objects', () => {
+    const { mesh, index } = setup();
+    index.remove(mesh);
+    expect(index.queryBox(around(0))).not.toContain(mesh);
+    expect(index.size).toBe(1);
+  });
+});
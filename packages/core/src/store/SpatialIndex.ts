@@ -0,0 +1,308 @@
+/**
+ * @module SpatialIndex
+ *
+ * World-space bounding volume hierarchy over every object tracked by an
+ * ObjectStore. Answers region queries ("inside this box", "within this
+ * radius", "intersecting this frustum") in O(log n + k) instead of scanning
+ * and recomputing bounds for the whole scene.
+ *
+ * Maintained lazily: the store reports registrations, removals and
+ * transform changes, and the tree is rebuilt (structure changed) or refit
+ * (only bounds changed) on the next query. Nothing is computed until the
+ * first spatial query, so scenes that never use it pay no per-frame cost.
+ *
+ * The store only reports transforms on sync, which is amortized over
+ * frames, so each query also compares every object's matrixWorld with the
+ * one its bounds were computed from and recomputes the ones that moved.
+ * Results therefore follow the last rendered frame even before the store
+ * has synced the moved objects. Geometry edits that keep the transform
+ * still wait for the sync.
+ */
+import { Box3, Matrix4, Sphere, Vector3 } from 'three';
+import type { Frustum, Mesh, Object3D } from 'three';
+import type { SpatialQueryOptions } from '../types';
+import { r3fLog } from '../debug';
+
+// ---------------------------------------------------------------------------
+// BVH node — leaves hold up to LEAF_SIZE objects
+// ---------------------------------------------------------------------------
+
+interface BVHNode {
+  box: Box3;
+  left: BVHNode | null;
+  right: BVHNode | null;
+  objects: Object3D[] | null;
+}
+
+const LEAF_SIZE = 8;
+
+const _sphere = /* @__PURE__ */ new Sphere();
+const _corner = /* @__PURE__ */ new Vector3();
+
+/**
+ * Compute an object's own world-space AABB (children excluded).
+ * Geometry-bearing objects use their geometry bounds; everything else
+ * (groups, lights, cameras) is a degenerate box at its world position.
+ */
+function computeWorldBounds(obj: Object3D, target: Box3): void {
+  obj.updateWorldMatrix(true, false);
+
+  const withBounds = obj as Object3D & {
+    boundingBox?: Box3 | null;
+    computeBoundingBox?: () => void;
+  };
+  // InstancedMesh / SkinnedMesh keep their own (instance- / pose-aware) box
+  if (typeof withBounds.computeBoundingBox === 'function' && 'boundingBox' in withBounds) {
+    withBounds.computeBoundingBox();
+    if (withBounds.boundingBox && !withBounds.boundingBox.isEmpty()) {
+      target.copy(withBounds.boundingBox).applyMatrix4(obj.matrixWorld);
+      return;
+    }
+  }
+
+  const geom = (obj as Mesh).geometry;
+  if (geom && geom.getAttribute?.('position')?.array) {
+    if (!geom.boundingBox) geom.computeBoundingBox();
+    if (geom.boundingBox && !geom.boundingBox.isEmpty()) {
+      target.copy(geom.boundingBox).applyMatrix4(obj.matrixWorld);
+      return;
+    }
+  }
+
+  target.min.setFromMatrixPosition(obj.matrixWorld);
+  target.max.copy(target.min);
+}
+
+function sphereContainsBox(sphere: Sphere, box: Box3): boolean {
+  const r2 = sphere.radius * sphere.radius;
+  for (let i = 0; i < 8; i++) {
+    _corner.set(
+      i & 1 ? box.max.x : box.min.x,
+      i & 2 ? box.max.y : box.min.y,
+      i & 4 ? box.max.z : box.min.z,
+    );
+    if (_corner.distanceToSquared(sphere.center) > r2) return false;
+  }
+  return true;
+}
+
+function frustumContainsBox(frustum: Frustum, box: Box3): boolean {
+  for (const plane of frustum.planes) {
+    for (let i = 0; i < 8; i++) {
+      _corner.set(
+        i & 1 ? box.max.x : box.min.x,
+        i & 2 ? box.max.y : box.min.y,
+        i & 4 ? box.max.z : box.min.z,
+      );
+      if (plane.distanceToPoint(_corner) < 0) return false;
+    }
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// SpatialIndex
+// ---------------------------------------------------------------------------
+
+/**
+ * BVH over the world bounds of tracked objects. Owned by ObjectStore, which
+ * calls `insert` / `remove` / `markMoved`; queries bring the tree up to date.
+ */
+export class SpatialIndex {
+  private _bounds = new Map<Object3D, Box3>();
+  /** matrixWorld each object's bounds were computed from */
+  private _boundsMatrices = new Map<Object3D, Matrix4>();
+  private _dirtyBounds = new Set<Object3D>();
+  private _root: BVHNode | null = null;
+  private _structureDirty = true;
+  /** False until the first query — skips dirty tracking while unused. */
+  private _active = false;
+
+  /** Start tracking an object. Bounds are computed on the next query. */
+  insert(obj: Object3D): void {
+    if (this._bounds.has(obj)) return;
+    // Scenes are roots, not spatial entities
+    if ((obj as Object3D & { isScene?: boolean }).isScene) return;
+    this._bounds.set(obj, new Box3());
+    this._dirtyBounds.add(obj);
+    this._structureDirty = true;
+  }
+
+  /** Stop tracking an object. */
+  remove(obj: Object3D): void {
+    if (!this._bounds.delete(obj)) return;
+    this._boundsMatrices.delete(obj);
+    this._dirtyBounds.delete(obj);
+    this._structureDirty = true;
+  }
+
+  /**
+   * Mark an object and its tracked descendants as having moved — a local
+   * transform change moves every world-space box below it.
+   */
+  markMoved(obj: Object3D): void {
+    if (!this._active) return;
+    obj.traverse((child) => {
+      if (this._bounds.has(child)) this._dirtyBounds.add(child);
+    });
+  }
+
+  /** Number of indexed objects. */
+  get size(): number {
+    return this._bounds.size;
+  }
+
+  /** Drop all entries and the tree. */
+  clear(): void {
+    this._bounds.clear();
+    this._boundsMatrices.clear();
+    this._dirtyBounds.clear();
+    this._root = null;
+    this._structureDirty = true;
+    this._active = false;
+  }
+
+  // -------------------------------------------------------------------------
+  // Queries
+  // -------------------------------------------------------------------------
+
+  /** Objects whose world bounds intersect (or lie inside) `box`. */
+  queryBox(box: Box3, options?: SpatialQueryOptions): Object3D[] {
+    const contains = options?.mode === 'contains';
+    return this._query(
+      (nodeBox) => box.intersectsBox(nodeBox),
+      (objBox) => (contains ? box.containsBox(objBox) : box.intersectsBox(objBox)),
+    );
+  }
+
+  /** Objects whose world bounds intersect (or lie inside) the sphere. */
+  querySphere(center: Vector3, radius: number, options?: SpatialQueryOptions): Object3D[] {
+    const contains = options?.mode === 'contains';
+    _sphere.center.copy(center);
+    _sphere.radius = radius;
+    return this._query(
+      (nodeBox) => nodeBox.intersectsSphere(_sphere),
+      (objBox) => (contains ? sphereContainsBox(_sphere, objBox) : objBox.intersectsSphere(_sphere)),
+    );
+  }
+
+  /** Objects whose world bounds intersect (or lie inside) the frustum. */
+  queryFrustum(frustum: Frustum, options?: SpatialQueryOptions): Object3D[] {
+    const contains = options?.mode === 'contains';
+    return this._query(
+      (nodeBox) => frustum.intersectsBox(nodeBox),
+      (objBox) => (contains ? frustumContainsBox(frustum, objBox) : frustum.intersectsBox(objBox)),
+    );
+  }
+
+  private _query(
+    visitNode: (box: Box3) => boolean,
+    acceptObject: (box: Box3) => boolean,
+  ): Object3D[] {
+    this._refresh();
+    const results: Object3D[] = [];
+    if (!this._root) return results;
+
+    const stack: BVHNode[] = [this._root];
+    while (stack.length > 0) {
+      const node = stack.pop()!;
+      if (!visitNode(node.box)) continue;
+      if (node.objects) {
+        for (const obj of node.objects) {
+          if (acceptObject(this._bounds.get(obj)!)) results.push(obj);
+        }
+      } else {
+        if (node.left) stack.push(node.left);
+        if (node.right) stack.push(node.right);
+      }
+    }
+    return results;
+  }
+
+  // -------------------------------------------------------------------------
+  // Maintenance
+  // -------------------------------------------------------------------------
+
+  /**
+   * Recompute stale bounds, then rebuild or refit the tree as needed.
+   * Stale means marked moved, or rendered with a different matrixWorld
+   * than the bounds were computed from (moved but not yet synced).
+   */
+  private _refresh(): void {
+    this._active = true;
+    for (const [obj, matrix] of this._boundsMatrices) {
+      if (!matrix.equals(obj.matrixWorld)) this._dirtyBounds.add(obj);
+    }
+    const hadDirtyBounds = this._dirtyBounds.size > 0;
+
+    for (const obj of this._dirtyBounds) {
+      const box = this._bounds.get(obj);
+      if (!box) continue;
+      try {
+        computeWorldBounds(obj, box);
+      } catch {
+        r3fLog('store', `SpatialIndex: bounds failed for "${obj.name || obj.uuid}"`);
+        box.makeEmpty();
+      }
+      const matrix = this._boundsMatrices.get(obj);
+      if (matrix) matrix.copy(obj.matrixWorld);
+      else this._boundsMatrices.set(obj, obj.matrixWorld.clone());
+    }
+    this._dirtyBounds.clear();
+
+    if (this._structureDirty) {
+      this._structureDirty = false;
+      const objects = Array.from(this._bounds.keys());
+      this._root = objects.length > 0 ? this._build(objects) : null;
+      r3fLog('store', `SpatialIndex: rebuilt BVH over ${objects.length} objects`);
+    } else if (hadDirtyBounds && this._root) {
+      this._refit(this._root);
+    }
+  }
+
+  /** Top-down build: split on the longest axis at the centroid median. */
+  private _build(objects: Object3D[]): BVHNode {
+    const box = new Box3();
+    for (const obj of objects) box.union(this._bounds.get(obj)!);
+
+    if (objects.length <= LEAF_SIZE) {
+      return { box, left: null, right: null, objects };
+    }
+
+    const sizeX = box.max.x - box.min.x;
+    const sizeY = box.max.y - box.min.y;
+    const sizeZ = box.max.z - box.min.z;
+    const axis = sizeX >= sizeY && sizeX >= sizeZ ? 'x' : sizeY >= sizeZ ? 'y' : 'z';
+
+    const centroid = (obj: Object3D) => {
+      const b = this._bounds.get(obj)!;
+      return b.min[axis] + b.max[axis];
+    };
+    objects.sort((a, b) => centroid(a) - centroid(b));
+
+    const mid = objects.length >> 1;
+    return {
+      box,
+      left: this._build(objects.slice(0, mid)),
+      right: this._build(objects.slice(mid)),
+      objects: null,
+    };
+  }
+
+  /** Bottom-up refit after bounds changed without adds/removes. */
+  private _refit(node: BVHNode): void {
+    node.box.makeEmpty();
+    if (node.objects) {
+      for (const obj of node.objects) node.box.union(this._bounds.get(obj)!);
+      return;
+    }
+    if (node.left) {
+      this._refit(node.left);
+      node.box.union(node.left.box);
+    }
+    if (node.right) {
+      this._refit(node.right);
+      node.box.union(node.right.box);
+    }
+  }
+}
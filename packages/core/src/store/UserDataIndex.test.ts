@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { Group, Object3D, Scene } from 'three';
+import { MAX_LAZY_INDEXES, UserDataIndex } from './UserDataIndex';
+import { ObjectStore } from './ObjectStore';
+
+function withUserData(userData: Record<string, unknown>): Object3D {
+  const obj = new Object3D();
+  obj.userData = userData;
+  return obj;
+}
+
+describe('UserDataIndex', () => {
+  it('looks up holders by key and by value', () => {
+    const index = new UserDataIndex(['room']);
+    const a = withUserData({ room: 'hall' });
+    const b = withUserData({ room: { id: 2 } });
+    const c = withUserData({});
+    [a, b, c].forEach((obj) => index.add(obj));
+    expect(index.lookup('room')).toEqual([a, b]);
+    expect(index.lookup('room', '"hall"')).toEqual([a]);
+    expect(index.lookup('room', '{"id":2}')).toEqual([b]);
+    expect(index.lookup('other')).toBeNull();
+  });
+
+  it('re-files objects on refresh and drops them on remove', () => {
+    const index = new UserDataIndex(['room']);
+    const a = withUserData({ room: 'hall' });
+    index.add(a);
+    a.userData.room = 'kitchen';
+    index.refresh(a);
+    expect(index.lookup('room', '"hall"')).toEqual([]);
+    expect(index.lookup('room', '"kitchen"')).toEqual([a]);
+    index.remove(a);
+    expect(index.lookup('room')).toEqual([]);
+    expect(index.getStats().entries).toBe(0);
+  });
+
+  it('never reports a value edited since the last sync', () => {
+    const index = new UserDataIndex(['room']);
+    const a = withUserData({ room: 'hall' });
+    index.add(a);
+    a.userData.room = 'kitchen';
+    expect(index.lookup('room', '"hall"')).toEqual([]);
+    // Re-filed by the lookup that found it stale
+    expect(index.lookup('room', '"kitchen"')).toEqual([a]);
+  });
+
+  it('caps lazily built indexes and counts hits and misses', () => {
+    const index = new UserDataIndex();
+    for (let i = 0; i < MAX_LAZY_INDEXES; i++) {
+      expect(index.lazy).toBe(true);
+      index.build(`k${i}`, []);
+    }
+    expect(index.lazy).toBe(false);
+    index.lookup('k0');
+    index.lookup('missing');
+    expect(index.getStats()).toMatchObject({ hits: 1, misses: 1 });
+  });
+});
+
+describe('ObjectStore.getByUserData', () => {
+  function setup() {
+    const scene = new Scene();
+    const group = new Group();
+    group.userData = { room: 'hall' };
+    scene.add(group);
+    const store = new ObjectStore({ userDataIndexes: ['room'] });
+    store.registerTree(scene);
+    return { group, store };
+  }
+
+  it('is served from the index', () => {
+    const { group, store } = setup();
+    expect(store.getByUserData('room', 'hall').map((m) => m.uuid)).toEqual([group.uuid]);
+    expect(store.getUserDataIndexStats()).toMatchObject({ keys: ['room'], entries: 1, hits: 1 });
+  });
+
+  it('finds a value set since the last sync', () => {
+    const { group, store } = setup();
+    group.userData.room = 'kitchen';
+    group.userData.floor = 1;
+    expect(store.getByUserData('room', 'kitchen').map((m) => m.uuid)).toEqual([group.uuid]);
+    expect(store.getByUserData('floor', 1).map((m) => m.uuid)).toEqual([group.uuid]);
+  });
+});
@@ -0,0 +1,177 @@
+/**
+ * @module UserDataIndex
+ *
+ * Secondary indexes over top-level userData keys, so `getByUserData` does
+ * not scan every object. Keys are indexed up front (ThreeDom
+ * `userDataIndexes`) or lazily the first time they are queried.
+ *
+ * An index buckets the objects holding a key by the JSON serialization of
+ * their value (matching getByUserData), so a value query reads one bucket.
+ * Buckets are maintained incrementally from ObjectStore.register / update /
+ * unregister. userData mutations do not mark objects dirty, so a bucket
+ * reflects each object's last sync: results are re-checked against live
+ * userData (an edited value is never reported stale), and ObjectStore falls
+ * back to a scan when the index finds nothing, so a key or value set since
+ * the last sync is still found then. Keeping an index costs one value
+ * serialization per indexed key per synced object, and at most
+ * MAX_LAZY_INDEXES keys are indexed lazily.
+ */
+import type { Object3D } from 'three';
+import type { UserDataIndexStats } from '../types';
+
+/**
+ * Lazily built indexes kept at most. Queries for further keys scan, so an
+ * app querying many ad-hoc keys does not grow the per-sync cost unbounded.
+ */
+export const MAX_LAZY_INDEXES = 16;
+
+/** Serialized value for a key present with value `undefined`. */
+const UNDEFINED_VALUE = 'undefined';
+
+/** JSON form of a userData value, as compared by getByUserData. */
+export function serializeUserDataValue(value: unknown): string {
+  try {
+    return JSON.stringify(value) ?? UNDEFINED_VALUE;
+  } catch {
+    // Cyclic or otherwise unserializable — never equal to a queried value
+    return '\0unserializable';
+  }
+}
+
+/** Whether an object's live userData has `key` (with JSON `valueJson`, when given). */
+export function matchesUserData(obj: Object3D, key: string, valueJson?: string): boolean {
+  const userData = obj.userData;
+  if (!userData || !(key in userData)) return false;
+  return valueJson === undefined || serializeUserDataValue(userData[key]) === valueJson;
+}
+
+/** One key's index: objects bucketed by the JSON of their value at last sync. */
+interface KeyIndex {
+  byValue: Map<string, Set<Object3D>>;
+  valueOf: Map<Object3D, string>;
+}
+
+function createKeyIndex(): KeyIndex {
+  return { byValue: new Map(), valueOf: new Map() };
+}
+
+/** File `obj` under `valueJson`, or drop it from the index when undefined. */
+function file(index: KeyIndex, obj: Object3D, valueJson: string | undefined): void {
+  const prev = index.valueOf.get(obj);
+  if (prev === valueJson) return;
+  if (prev !== undefined) {
+    const bucket = index.byValue.get(prev)!;
+    bucket.delete(obj);
+    if (bucket.size === 0) index.byValue.delete(prev);
+  }
+  if (valueJson === undefined) {
+    index.valueOf.delete(obj);
+    return;
+  }
+  index.valueOf.set(obj, valueJson);
+  const bucket = index.byValue.get(valueJson);
+  if (bucket) bucket.add(obj);
+  else index.byValue.set(valueJson, new Set([obj]));
+}
+
+/** JSON of `obj.userData[key]`, or undefined when the key is absent. */
+function liveValue(obj: Object3D, key: string): string | undefined {
+  const userData = obj.userData;
+  return userData && key in userData ? serializeUserDataValue(userData[key]) : undefined;
+}
+
+/**
+ * Value indexes for a set of userData keys. Owned by ObjectStore.
+ */
+export class UserDataIndex {
+  /** Key → objects holding it, bucketed by value as of their last sync */
+  private _indexes = new Map<string, KeyIndex>();
+  private _lazy: boolean;
+  private _lazyCount = 0;
+  private _hits = 0;
+  private _misses = 0;
+
+  constructor(keys: readonly string[] = [], lazy = true) {
+    this._lazy = lazy;
+    for (const key of keys) this._indexes.set(key, createKeyIndex());
+  }
+
+  /** Whether lookups for `key` are served from an index. */
+  has(key: string): boolean {
+    return this._indexes.has(key);
+  }
+
+  /** Whether an index for an unindexed key can be built on first query. */
+  get lazy(): boolean {
+    return this._lazy && this._lazyCount < MAX_LAZY_INDEXES;
+  }
+
+  /** Index a newly registered object under every indexed key. */
+  add(obj: Object3D): void {
+    this.refresh(obj);
+  }
+
+  /** Re-read every indexed key of an object (called from update()). */
+  refresh(obj: Object3D): void {
+    for (const [key, index] of this._indexes) file(index, obj, liveValue(obj, key));
+  }
+
+  /** Drop an unregistered object from every index. */
+  remove(obj: Object3D): void {
+    for (const index of this._indexes.values()) file(index, obj, undefined);
+  }
+
+  /** Create a lazy index for `key` over `objects` (no-op if it exists). */
+  build(key: string, objects: Iterable<Object3D>): void {
+    if (this._indexes.has(key)) return;
+    const index = createKeyIndex();
+    for (const obj of objects) file(index, obj, liveValue(obj, key));
+    this._indexes.set(key, index);
+    this._lazyCount++;
+  }
+
+  /**
+   * Objects whose live userData has `key` (and, when given, the value with
+   * JSON `valueJson`), looked up in the bucket filed at their last sync.
+   * Candidates are checked against live userData; ones whose value changed
+   * are re-filed. Returns null when `key` is not indexed. Counted as a hit
+   * or miss unless `count` is false.
+   */
+  lookup(key: string, valueJson?: string, count = true): Object3D[] | null {
+    const index = this._indexes.get(key);
+    if (!index) {
+      if (count) this._misses++;
+      return null;
+    }
+    if (count) this._hits++;
+    const candidates =
+      valueJson === undefined ? [...index.valueOf.keys()] : [...(index.byValue.get(valueJson) ?? [])];
+    const results: Object3D[] = [];
+    for (const obj of candidates) {
+      const live = liveValue(obj, key);
+      file(index, obj, live);
+      if (live !== undefined && (valueJson === undefined || live === valueJson)) results.push(obj);
+    }
+    return results;
+  }
+
+  getStats(): UserDataIndexStats {
+    let entries = 0;
+    for (const index of this._indexes.values()) entries += index.valueOf.size;
+    return {
+      keys: [...this._indexes.keys()],
+      entries,
+      hits: this._hits,
+      misses: this._misses,
+    };
+  }
+
+  clear(): void {
+    for (const index of this._indexes.values()) {
+      index.byValue.clear();
+      index.valueOf.clear();
+    }
+    this._hits = 0;
+    this._misses = 0;
+  }
+}
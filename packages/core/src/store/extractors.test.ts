@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { Mesh, Scene } from 'three';
+import { MetadataExtractors, validateExtractors } from './extractors';
+import { ObjectStore } from './ObjectStore';
+import type { MetadataExtractor, ObjectMetadata } from '../types';
+
+const room: MetadataExtractor = { name: 'roomNo', extract: (obj) => obj.userData.room, index: true };
+
+function withRoom(value: unknown): { obj: Mesh; meta: ObjectMetadata } {
+  const obj = new Mesh();
+  obj.userData.room = value;
+  return { obj, meta: new ObjectStore().register(obj) };
+}
+
+describe('validateExtractors', () => {
+  it.each([
+    [[{ name: 'a-b', extract: () => 1 }], 'name must be a valid identifier'],
+    [[room, room], 'name is used by another extractor'],
+    [[{ name: 'x', extract: 1 }], '`extract` must be a function'],
+    [[{ name: 'x', extract: () => 1, attribute: 'x' }], 'attribute "x" must start with "data-"'],
+    [[{ name: 'x', extract: () => 1, attribute: 'data-name' }], 'attribute "data-name" is a built-in mirror attribute'],
+    [[room, { name: 'x', extract: () => 1, attribute: 'data-room-no' }], 'attribute "data-room-no" is used by another extractor'],
+  ])('rejects %#', (extractors, detail) => {
+    expect(() => validateExtractors(extractors as MetadataExtractor[])).toThrow(detail);
+  });
+
+  it('accepts extractors kept out of the DOM', () => {
+    expect(() => validateExtractors([room, { name: 'hidden', extract: () => 1, attribute: false }])).not.toThrow();
+  });
+});
+
+describe('MetadataExtractors', () => {
+  it('maps fields to their mirror attributes', () => {
+    const extractors = new MetadataExtractors([room, { name: 'hidden', extract: () => 1, attribute: false }]);
+    expect([...extractors.attributes]).toEqual([['roomNo', 'data-room-no']]);
+  });
+
+  it('stores values in custom and keeps the value index in step', () => {
+    const extractors = new MetadataExtractors([room]);
+    const { obj, meta } = withRoom(101);
+    expect(extractors.apply(obj, meta, true)).toBe(true);
+    expect(meta.custom).toEqual({ roomNo: 101 });
+    expect([...extractors.lookup('roomNo', 101)]).toEqual([obj]);
+
+    expect(extractors.apply(obj, meta, false)).toBe(false);
+    obj.userData.room = 102;
+    expect(extractors.apply(obj, meta, false)).toBe(true);
+    expect(extractors.lookup('roomNo', 101).size).toBe(0);
+    expect([...extractors.lookup('roomNo', 102)]).toEqual([obj]);
+
+    extractors.remove(obj, meta);
+    expect(extractors.lookup('roomNo', 102).size).toBe(0);
+  });
+
+  it('drops the field when the value goes away or the extractor throws', () => {
+    const failing: MetadataExtractor = {
+      name: 'failing',
+      extract: (obj) => {
+        if (obj.userData.boom) throw new Error('boom');
+        return 'ok';
+      },
+    };
+    const extractors = new MetadataExtractors([room, failing]);
+    const { obj, meta } = withRoom(1);
+    extractors.apply(obj, meta, true);
+    delete obj.userData.room;
+    obj.userData.boom = true;
+    expect(extractors.apply(obj, meta, false)).toBe(true);
+    expect(meta.custom).toBeUndefined();
+  });
+
+  it('runs static extractors on registration only', () => {
+    const extractors = new MetadataExtractors([{ ...room, static: true }]);
+    const { obj, meta } = withRoom(1);
+    extractors.apply(obj, meta, true);
+    obj.userData.room = 2;
+    expect(extractors.apply(obj, meta, false)).toBe(false);
+    expect(meta.custom).toEqual({ roomNo: 1 });
+  });
+});
+
+describe('ObjectStore.getByField', () => {
+  it('compares values strictly, with or without an index', () => {
+    for (const index of [true, false]) {
+      const scene = new Scene();
+      const mesh = new Mesh();
+      mesh.userData.room = 3;
+      scene.add(mesh);
+      const store = new ObjectStore({ extractors: [{ ...room, index }] });
+      store.registerTree(scene);
+      expect(store.getByField('roomNo', 3).map((m) => m.uuid)).toEqual([mesh.uuid]);
+      expect(store.getByField('roomNo', '3')).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,165 @@
+/**
+ * @module extractors
+ *
+ * App-defined metadata fields. Each {@link MetadataExtractor} computes one
+ * primitive value per object (typically from userData: IFC class, room
+ * number, asset id) which is stored in `metadata.custom`, serialized into a
+ * `data-*` mirror attribute and, when the extractor asks for it, indexed by
+ * value so `getByField` is O(1) like `getByTestId`.
+ *
+ * Extractors run on register and, unless marked `static`, on every sync, so
+ * they should be cheap property reads.
+ */
+import type { Object3D } from 'three';
+import type { ExtractedValue, MetadataExtractor, ObjectMetadata } from '../types';
+import { customAttributeName, isManagedAttribute } from '../mirror/attributes';
+import { r3fLog } from '../debug';
+
+const NAME_RE = /^[A-Za-z_$][\w$]*$/;
+
+function extractorError(name: string, detail: string): Error {
+  return new Error(`[react-three-dom] Invalid extractor "${name}": ${detail}`);
+}
+
+/**
+ * Check names and attributes up front so a typo fails at mount instead of
+ * silently clobbering a built-in attribute. Throws a descriptive Error.
+ */
+export function validateExtractors(extractors: readonly MetadataExtractor[]): void {
+  const names = new Set<string>();
+  const attributes = new Set<string>();
+  for (const extractor of extractors) {
+    const { name } = extractor;
+    if (!NAME_RE.test(name ?? '')) {
+      throw extractorError(String(name), 'name must be a valid identifier');
+    }
+    if (names.has(name)) throw extractorError(name, 'name is used by another extractor');
+    names.add(name);
+    if (typeof extractor.extract !== 'function') {
+      throw extractorError(name, '`extract` must be a function');
+    }
+
+    if (extractor.attribute === false) continue;
+    const attribute = extractor.attribute ?? customAttributeName(name);
+    if (!attribute.startsWith('data-')) {
+      throw extractorError(name, `attribute "${attribute}" must start with "data-"`);
+    }
+    if (isManagedAttribute(attribute)) {
+      throw extractorError(name, `attribute "${attribute}" is a built-in mirror attribute`);
+    }
+    if (attributes.has(attribute)) {
+      throw extractorError(name, `attribute "${attribute}" is used by another extractor`);
+    }
+    attributes.add(attribute);
+  }
+}
+
+/**
+ * The extractors of one ObjectStore plus their value indexes.
+ * Owned by ObjectStore, which calls `apply` on register / update and
+ * `remove` on unregister.
+ */
+export class MetadataExtractors {
+  private _extractors: readonly MetadataExtractor[];
+  /** Field name → mirror attribute name (fields kept out of the DOM are absent) */
+  private _attributes = new Map<string, string>();
+  /** Field name → value → objects, for extractors with `index: true` */
+  private _indexes = new Map<string, Map<ExtractedValue, Set<Object3D>>>();
+
+  constructor(extractors: readonly MetadataExtractor[]) {
+    validateExtractors(extractors);
+    this._extractors = extractors;
+    for (const extractor of extractors) {
+      if (extractor.attribute !== false) {
+        this._attributes.set(extractor.name, extractor.attribute ?? customAttributeName(extractor.name));
+      }
+      if (extractor.index) this._indexes.set(extractor.name, new Map());
+    }
+  }
+
+  /** Field name → `data-*` attribute, for the mirror. */
+  get attributes(): ReadonlyMap<string, string> {
+    return this._attributes;
+  }
+
+  /**
+   * Refresh `meta.custom` from the live object (static extractors only when
+   * `initial`). Compare-and-set; returns true if any value changed.
+   */
+  apply(obj: Object3D, meta: ObjectMetadata, initial: boolean): boolean {
+    let changed = false;
+    for (const extractor of this._extractors) {
+      if (extractor.static && !initial) continue;
+
+      let value: ExtractedValue | undefined;
+      try {
+        value = extractor.extract(obj);
+      } catch (err) {
+        r3fLog('store', `extractor "${extractor.name}" failed for "${obj.name || obj.uuid}"`, err);
+        value = undefined;
+      }
+
+      const prev = meta.custom?.[extractor.name];
+      if (prev === value) continue;
+
+      if (value === undefined) {
+        delete meta.custom![extractor.name];
+        if (Object.keys(meta.custom!).length === 0) delete meta.custom;
+      } else {
+        (meta.custom ??= {})[extractor.name] = value;
+      }
+      this._reindex(extractor.name, obj, prev, value);
+      changed = true;
+    }
+    return changed;
+  }
+
+  /** Drop an unregistered object from every index. */
+  remove(obj: Object3D, meta: ObjectMetadata): void {
+    if (!meta.custom) return;
+    for (const [name, value] of Object.entries(meta.custom)) {
+      this._reindex(name, obj, value, undefined);
+    }
+  }
+
+  /** Whether `name` has a value index. */
+  isIndexed(name: string): boolean {
+    return this._indexes.has(name);
+  }
+
+  /** Objects whose indexed field `name` equals `value` (empty if not indexed). */
+  lookup(name: string, value: ExtractedValue): ReadonlySet<Object3D> {
+    return this._indexes.get(name)?.get(value) ?? EMPTY;
+  }
+
+  clear(): void {
+    for (const index of this._indexes.values()) index.clear();
+  }
+
+  private _reindex(
+    name: string,
+    obj: Object3D,
+    prev: ExtractedValue | undefined,
+    next: ExtractedValue | undefined,
+  ): void {
+    const index = this._indexes.get(name);
+    if (!index) return;
+    if (prev !== undefined) {
+      const set = index.get(prev);
+      if (set) {
+        set.delete(obj);
+        if (set.size === 0) index.delete(prev);
+      }
+    }
+    if (next !== undefined) {
+      let set = index.get(next);
+      if (!set) {
+        set = new Set();
+        index.set(next, set);
+      }
+      set.add(obj);
+    }
+  }
+}
+
+const EMPTY: ReadonlySet<Object3D> = new Set();
@@ -0,0 +1,120 @@
+/**
+ * @module geometry
+ *
+ * In-place geometry change tracking. Apps that edit a BufferGeometry without
+ * replacing it (flagging `attribute.needsUpdate`, moving the draw range,
+ * animating `morphTargetInfluences`) leave transforms untouched, so these
+ * fields are compared separately on every sync. `geometryVersion` is the sum
+ * of every attribute, morph attribute and index `version`, so it changes
+ * whenever three.js would re-upload a buffer.
+ */
+import type { BufferAttribute, BufferGeometry, InterleavedBufferAttribute, Mesh, Object3D } from 'three';
+import type { ObjectMetadata } from '../types';
+
+type Attribute = BufferAttribute | InterleavedBufferAttribute;
+
+function attributeVersion(attr: Attribute | null | undefined): number {
+  if (!attr) return 0;
+  // Interleaved attributes carry their version on the shared buffer
+  const interleaved = attr as InterleavedBufferAttribute;
+  if (interleaved.isInterleavedBufferAttribute) return interleaved.data?.version ?? 0;
+  return (attr as BufferAttribute).version ?? 0;
+}
+
+/** Sum of all attribute, morph attribute and index versions of `geom`. */
+export function getGeometryVersion(geom: BufferGeometry): number {
+  let version = attributeVersion(geom.index);
+  for (const name in geom.attributes) {
+    version += attributeVersion(geom.attributes[name]);
+  }
+  for (const name in geom.morphAttributes) {
+    for (const attr of geom.morphAttributes[name]) version += attributeVersion(attr);
+  }
+  return version;
+}
+
+/** Version of a single attribute (handles interleaved buffers). */
+export function getAttributeVersion(attr: Attribute): number {
+  return attributeVersion(attr);
+}
+
+function getGeometry(obj: Object3D): BufferGeometry | null {
+  if (!('geometry' in obj)) return null;
+  const geom = (obj as Mesh).geometry;
+  return geom && (geom as BufferGeometry).isBufferGeometry ? geom : null;
+}
+
+function sameNumbers(a: readonly number[] | undefined, b: ArrayLike<number> | undefined): boolean {
+  if (!a || !b) return a === b;
+  if (a.length !== b.length) return false;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return false;
+  }
+  return true;
+}
+
+/** Morph target names ordered by influence index (from morphTargetDictionary). */
+function morphTargetNames(mesh: Mesh, length: number): string[] | undefined {
+  const dict = mesh.morphTargetDictionary;
+  if (!dict) return undefined;
+  const names: string[] = new Array(length).fill('');
+  for (const [name, index] of Object.entries(dict)) {
+    if (index >= 0 && index < length) names[index] = name;
+  }
+  return names;
+}
+
+/**
+ * Refresh geometry-derived fields: version, draw range, vertex/triangle
+ * counts (which follow attribute swaps) and morph influences. Compare-and-set
+ * like updateDynamicFields; returns true if anything changed.
+ */
+export function updateGeometryFields(obj: Object3D, meta: ObjectMetadata): boolean {
+  const geom = getGeometry(obj);
+  if (!geom) return false;
+  let changed = false;
+
+  if (meta.geometryType !== geom.type) { meta.geometryType = geom.type; changed = true; }
+
+  const version = getGeometryVersion(geom);
+  if (meta.geometryVersion !== version) { meta.geometryVersion = version; changed = true; }
+
+  const posAttr = geom.getAttribute('position');
+  const vertexCount = posAttr?.count;
+  const triangleCount = posAttr
+    ? Math.floor((geom.index ? geom.index.count : posAttr.count) / 3)
+    : undefined;
+  if (meta.vertexCount !== vertexCount) { meta.vertexCount = vertexCount; changed = true; }
+  if (meta.triangleCount !== triangleCount) { meta.triangleCount = triangleCount; changed = true; }
+
+  // Only report a draw range the app actually set (default is 0..Infinity,
+  // which does not survive JSON serialization).
+  const { start, count } = geom.drawRange;
+  const custom = start !== 0 || count !== Infinity;
+  if (custom) {
+    if (!meta.drawRange || meta.drawRange[0] !== start || meta.drawRange[1] !== count) {
+      meta.drawRange = [start, count];
+      changed = true;
+    }
+  } else if (meta.drawRange) {
+    delete meta.drawRange;
+    changed = true;
+  }
+
+  const influences = (obj as Mesh).morphTargetInfluences;
+  if (influences && influences.length > 0) {
+    if (!sameNumbers(meta.morphTargetInfluences, influences)) {
+      if (meta.morphTargetInfluences?.length !== influences.length) {
+        meta.morphTargetNames = morphTargetNames(obj as Mesh, influences.length);
+      }
+      meta.morphTargetInfluences = Array.from(influences);
+      changed = true;
+    }
+  } else if (meta.morphTargetInfluences) {
+    delete meta.morphTargetInfluences;
+    delete meta.morphTargetNames;
+    changed = true;
+  }
+
+  return changed;
+}
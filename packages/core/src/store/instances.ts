@@ -0,0 +1,93 @@
+/**
+ * @module instances
+ *
+ * Virtual children for InstancedMesh. Each instance index is addressable as
+ * `<mesh testId or uuid>#<index>` (e.g. `trees#42`), or by a per-instance
+ * testId mapped through `mesh.userData.instanceTestIds`. Instance metadata
+ * is derived on demand from the instance matrix and color buffers — nothing
+ * is cached, so scenes with large instance counts pay nothing until asked.
+ */
+import { Color, Euler, Matrix4, Quaternion, Vector3 } from 'three';
+import type { InstancedMesh, Object3D } from 'three';
+import type { InstanceMetadata } from '../types';
+
+const _matrix = /* @__PURE__ */ new Matrix4();
+const _position = /* @__PURE__ */ new Vector3();
+const _quaternion = /* @__PURE__ */ new Quaternion();
+const _scale = /* @__PURE__ */ new Vector3();
+const _euler = /* @__PURE__ */ new Euler();
+const _color = /* @__PURE__ */ new Color();
+
+const INSTANCE_ID_RE = /^(.+)#(\d+)$/;
+
+/** Split `trees#42` into its mesh id and instance index. */
+export function parseInstanceId(id: string): { base: string; index: number } | null {
+  const match = INSTANCE_ID_RE.exec(id);
+  if (!match) return null;
+  return { base: match[1], index: Number(match[2]) };
+}
+
+export function isInstancedMesh(obj: Object3D): obj is InstancedMesh {
+  return (obj as InstancedMesh).isInstancedMesh === true;
+}
+
+/**
+ * Per-instance testId from `userData.instanceTestIds`, which may be an array
+ * indexed by instance or a `{ [index]: testId }` record.
+ */
+export function getInstanceTestId(mesh: InstancedMesh, index: number): string | undefined {
+  const ids = mesh.userData?.instanceTestIds as
+    | ArrayLike<string | undefined>
+    | Record<number, string | undefined>
+    | undefined;
+  if (!ids || typeof ids !== 'object') return undefined;
+  const testId = (ids as Record<number, string | undefined>)[index];
+  return typeof testId === 'string' ? testId : undefined;
+}
+
+/** Find the instance index mapped to `testId`, or -1. */
+export function findInstanceByTestId(mesh: InstancedMesh, testId: string): number {
+  const ids = mesh.userData?.instanceTestIds as Record<string, unknown> | undefined;
+  if (!ids || typeof ids !== 'object') return -1;
+  for (const key of Object.keys(ids)) {
+    if (ids[key] !== testId) continue;
+    const index = Number(key);
+    if (Number.isInteger(index) && index < mesh.count) return index;
+  }
+  return -1;
+}
+
+/** Addressable id for an instance: `<mesh testId or uuid>#<index>`. */
+export function formatInstanceId(mesh: InstancedMesh, index: number): string {
+  const base = (mesh.userData?.testId as string | undefined) ?? mesh.uuid;
+  return `${base}#${index}`;
+}
+
+/**
+ * Derive metadata for one instance from the mesh's instance buffers.
+ * Transform values are in the mesh's local space (as stored in instanceMatrix).
+ */
+export function extractInstanceMetadata(mesh: InstancedMesh, index: number): InstanceMetadata {
+  mesh.getMatrixAt(index, _matrix);
+  _matrix.decompose(_position, _quaternion, _scale);
+  _euler.setFromQuaternion(_quaternion);
+
+  const meta: InstanceMetadata = {
+    id: formatInstanceId(mesh, index),
+    index,
+    meshUuid: mesh.uuid,
+    position: [_position.x, _position.y, _position.z],
+    rotation: [_euler.x, _euler.y, _euler.z],
+    scale: [_scale.x, _scale.y, _scale.z],
+  };
+
+  const testId = getInstanceTestId(mesh, index);
+  if (testId) meta.testId = testId;
+
+  if (mesh.instanceColor) {
+    mesh.getColorAt(index, _color);
+    meta.color = '#' + _color.getHexString();
+  }
+
+  return meta;
+}
@@ -0,0 +1,113 @@
+/**
+ * @module paths
+ *
+ * Deterministic path identifiers for objects without a testId, e.g.
+ * `Scene/Group[0]/Group[name=F3]/Mesh[2]`. Each segment is the object's
+ * Three.js type, qualified by its name when that name is unique among
+ * same-type siblings, otherwise by its index among same-type siblings.
+ * The root segment is the bare type of the parentless root.
+ *
+ * Paths depend only on scene structure (types, names, child order), so they
+ * are stable across page loads where uuids are not. They are computed on
+ * demand and never cached in metadata: adding or renaming a sibling can
+ * change them, exactly as it would change what they point at.
+ */
+import type { Object3D } from 'three';
+
+export const PATH_SEPARATOR = '/';
+
+/** Names containing these fall back to the index form. */
+const UNSAFE_NAME_RE = /[/[\]]/;
+const SEGMENT_RE = /^([^/[\]]+)(?:\[(?:name=([^\]]+)|(\d+))\])?$/;
+
+export interface PathSegment {
+  type: string;
+  name?: string;
+  index?: number;
+}
+
+function isInternal(obj: Object3D): boolean {
+  return !!obj.userData?.__r3fdom_internal;
+}
+
+function segmentFor(obj: Object3D): string {
+  const parent = obj.parent;
+  if (!parent) return obj.type;
+
+  let index = 0;
+  let count = 0;
+  let duplicateName = false;
+  for (const sibling of parent.children) {
+    if (sibling.type !== obj.type || isInternal(sibling)) continue;
+    if (sibling === obj) index = count;
+    else if (obj.name && sibling.name === obj.name) duplicateName = true;
+    count++;
+  }
+  const byName = !!obj.name && !duplicateName && !UNSAFE_NAME_RE.test(obj.name);
+  return byName ? `${obj.type}[name=${obj.name}]` : `${obj.type}[${index}]`;
+}
+
+/** Compute the path identifier of `obj` from its root down. */
+export function getObjectPath(obj: Object3D): string {
+  const segments: string[] = [];
+  let cursor: Object3D | null = obj;
+  while (cursor) {
+    segments.push(segmentFor(cursor));
+    cursor = cursor.parent;
+  }
+  return segments.reverse().join(PATH_SEPARATOR);
+}
+
+/** Cheap syntactic check so testIds and uuids skip path resolution. */
+export function looksLikePath(id: string): boolean {
+  return id.includes(PATH_SEPARATOR) || id.includes('[');
+}
+
+/** Split a path into segments, or null if it is malformed. */
+export function parsePath(path: string): PathSegment[] | null {
+  const parts = path.split(PATH_SEPARATOR);
+  const segments: PathSegment[] = [];
+  for (const part of parts) {
+    const match = SEGMENT_RE.exec(part);
+    if (!match) return null;
+    const segment: PathSegment = { type: match[1] };
+    if (match[2] !== undefined) segment.name = match[2];
+    if (match[3] !== undefined) segment.index = Number(match[3]);
+    segments.push(segment);
+  }
+  return segments;
+}
+
+function findChild(parent: Object3D, segment: PathSegment): Object3D | null {
+  let index = 0;
+  for (const child of parent.children) {
+    if (child.type !== segment.type || isInternal(child)) continue;
+    if (segment.name !== undefined) {
+      if (child.name === segment.name) return child;
+    } else if (index++ === (segment.index ?? 0)) {
+      return child;
+    }
+  }
+  return null;
+}
+
+/**
+ * Walk `path` down from the first root whose type matches its first segment.
+ * Returns null when any segment does not resolve.
+ */
+export function resolvePath(path: string, roots: Iterable<Object3D>): Object3D | null {
+  const segments = parsePath(path);
+  if (!segments || segments.length === 0) return null;
+
+  const [first, ...rest] = segments;
+  for (const root of roots) {
+    if (root.type !== first.type) continue;
+    let cursor: Object3D | null = root;
+    for (const segment of rest) {
+      cursor = findChild(cursor, segment);
+      if (!cursor) break;
+    }
+    if (cursor) return cursor;
+  }
+  return null;
+}
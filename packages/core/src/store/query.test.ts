@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { BoxGeometry, Group, Mesh, MeshStandardMaterial, PointLight, Scene } from 'three';
+import { exactQueryIds, parseQuery } from './query';
+import { ObjectStore } from './ObjectStore';
+
+describe('parseQuery', () => {
+  it('parses types, ids, attributes and combinators', () => {
+    expect(parseQuery('Group#door-* > Mesh[material=MeshStandardMaterial][userData.floor]')).toEqual([
+      {
+        compounds: [
+          { type: 'Group', ids: ['door-*'], attributes: [] },
+          {
+            type: 'Mesh',
+            ids: [],
+            attributes: [{ key: 'material', op: '=', value: 'MeshStandardMaterial' }, { key: 'userData.floor' }],
+          },
+        ],
+        combinators: ['>'],
+      },
+    ]);
+  });
+
+  it('splits selector lists and reads quoted values', () => {
+    const [first, second] = parseQuery(`Scene  PointLight, *#"a b"[name^='x y']`);
+    expect(first.combinators).toEqual([' ']);
+    expect(second.compounds).toEqual([{ ids: ['a b'], attributes: [{ key: 'name', op: '^=', value: 'x y' }] }]);
+  });
+
+  it.each([
+    ['', 'selector is empty'],
+    ['Mesh >', 'expected selector at position 6'],
+    ['> Mesh', 'unexpected ">" at position 0'],
+    ['Mesh,,Group', 'expected selector at position 5'],
+    ['Mesh[name', 'expected operator or "]" at position 9'],
+    ['Mesh[=x]', 'expected attribute name at position 5'],
+    ['Mesh#"open', 'unterminated string at position 5'],
+  ])('rejects %j', (selector, detail) => {
+    expect(() => parseQuery(selector)).toThrow(`Invalid selector "${selector}": ${detail}`);
+  });
+});
+
+describe('exactQueryIds', () => {
+  it('returns ids only when every selector pins one', () => {
+    expect(exactQueryIds(parseQuery('#a, Group > #b'))).toEqual(['a', 'b']);
+    expect(exactQueryIds(parseQuery('#a, Mesh'))).toBeNull();
+    expect(exactQueryIds(parseQuery('#door-*'))).toBeNull();
+  });
+});
+
+describe('ObjectStore.query', () => {
+  function setup() {
+    const scene = new Scene();
+    const floor = new Group();
+    floor.name = 'floor-1';
+    const door = new Mesh(new BoxGeometry(), new MeshStandardMaterial());
+    door.userData = { testId: 'door-front', floor: 1 };
+    door.position.set(0, 2, 0);
+    const light = new PointLight();
+    floor.add(door);
+    scene.add(floor, light);
+    const store = new ObjectStore();
+    store.registerTree(scene);
+    return { store, floor, door, light };
+  }
+
+  const uuids = (store: ObjectStore, selector: string) => store.query(selector).map((m) => m.uuid);
+
+  it('matches descendant and child combinators', () => {
+    const { store, door, light } = setup();
+    expect(uuids(store, 'Scene Mesh')).toEqual([door.uuid]);
+    expect(uuids(store, 'Scene > Mesh')).toEqual([]);
+    expect(uuids(store, 'Scene > *[type=PointLight]')).toEqual([light.uuid]);
+  });
+
+  it('matches ids by testId, then name, with globs', () => {
+    const { store, floor, door } = setup();
+    expect(uuids(store, '#door-front')).toEqual([door.uuid]);
+    expect(uuids(store, '#floor-?')).toEqual([floor.uuid]);
+    expect(uuids(store, 'Group#floor-* > #door-*')).toEqual([door.uuid]);
+  });
+
+  it('compares attributes by string and by number', () => {
+    const { store, door } = setup();
+    expect(uuids(store, '[geometry=BoxGeometry]')).toEqual([door.uuid]);
+    expect(uuids(store, '[userData.floor>=1]')).toEqual([door.uuid]);
+    expect(uuids(store, '[position.y>1][userData.floor<2]')).toEqual([door.uuid]);
+    expect(uuids(store, 'Mesh[userData.floor!=1]')).toEqual([]);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * @module query
+ *
+ * CSS-like selector language evaluated directly against ObjectStore Tier 1
+ * metadata. No DomMirror nodes are materialized, so queries stay cheap at
+ * BIM scale and can combine type, id, metadata and userData filters with
+ * hierarchy combinators in a single call.
+ *
+ * Grammar (whitespace-insensitive around combinators):
+ *
+ *   selector-list  := complex ("," complex)*
+ *   complex        := compound ((" " | ">") compound)*
+ *   compound       := (Type | "*")? ("#" idPattern)* ("[" attribute "]")*
+ *   attribute      := key (op value)?
+ *   op             := "=" | "!=" | "^=" | "$=" | "*=" | ">" | ">=" | "<" | "<="
+ *
+ * Examples:
+ *   Mesh[material=MeshStandardMaterial][userData.floor=3]
+ *   Group#door-* > Mesh
+ *   Scene > Group[name^=floor] PointLight[visible=true]
+ *   Mesh[ifcClass=IfcWall]            (extractor field, same as [custom.ifcClass=…])
+ */
+import type { Object3D } from 'three';
+import type { ObjectStore } from './ObjectStore';
+import type { ObjectMetadata } from '../types';
+
+// ---------------------------------------------------------------------------
+// Parsed selector types
+// ---------------------------------------------------------------------------
+
+/** Comparison operator inside an attribute test. */
+export type QueryAttributeOperator = '=' | '!=' | '^=' | '$=' | '*=' | '>' | '>=' | '<' | '<=';
+
+/** A single `[key op value]` test. Presence-only when `op` is undefined. */
+export interface QueryAttributeTest {
+  key: string;
+  op?: QueryAttributeOperator;
+  value?: string;
+}
+
+/** A compound selector: everything between two combinators. */
+export interface QueryCompound {
+  /** Three.js type to match. Undefined for `*` or when omitted. */
+  type?: string;
+  /** `#id` patterns (glob `*` / `?` allowed). All must match. */
+  ids: string[];
+  /** Attribute tests. All must match. */
+  attributes: QueryAttributeTest[];
+}
+
+/** A chain of compounds joined by descendant (" ") or child (">") combinators. */
+export interface QueryComplex {
+  compounds: QueryCompound[];
+  /** `combinators[i]` joins `compounds[i]` and `compounds[i + 1]`. */
+  combinators: Array<' ' | '>'>;
+}
+
+/** A parsed, comma-separated selector list. */
+export type ParsedQuery = QueryComplex[];
+
+// ---------------------------------------------------------------------------
+// Parser
+// ---------------------------------------------------------------------------
+
+const OPERATORS: QueryAttributeOperator[] = ['!=', '^=', '$=', '*=', '>=', '<=', '=', '>', '<'];
+const ID_TERMINATORS = new Set([' ', '\t', '\n', ',', '>', '[', '#']);
+
+function selectorError(selector: string, detail: string): Error {
+  return new Error(`[react-three-dom] Invalid selector "${selector}": ${detail}`);
+}
+
+/**
+ * Parse a selector string into its structured form.
+ * Throws a descriptive error (with the failing position) on invalid syntax.
+ */
+export function parseQuery(selector: string): ParsedQuery {
+  const src = selector.trim();
+  if (!src) throw selectorError(selector, 'selector is empty');
+
+  let pos = 0;
+  const list: ParsedQuery = [];
+  let current: QueryComplex = { compounds: [], combinators: [] };
+  let pendingCombinator: '>' | null = null;
+
+  const isSpace = (ch: string) => ch === ' ' || ch === '\t' || ch === '\n';
+  const skipSpace = () => {
+    while (pos < src.length && isSpace(src[pos])) pos++;
+  };
+
+  const readQuoted = (): string => {
+    const quote = src[pos++];
+    const start = pos;
+    while (pos < src.length && src[pos] !== quote) pos++;
+    if (pos >= src.length) throw selectorError(selector, `unterminated string at position ${start - 1}`);
+    return src.slice(start, pos++);
+  };
+
+  const readAttribute = (): QueryAttributeTest => {
+    pos++; // consume '['
+    skipSpace();
+    const keyStart = pos;
+    while (pos < src.length && /[\w.$-]/.test(src[pos])) pos++;
+    const key = src.slice(keyStart, pos);
+    if (!key) throw selectorError(selector, `expected attribute name at position ${keyStart}`);
+    skipSpace();
+
+    if (src[pos] === ']') {
+      pos++;
+      return { key };
+    }
+
+    const op = OPERATORS.find((o) => src.startsWith(o, pos));
+    if (!op) throw selectorError(selector, `expected operator or "]" at position ${pos}`);
+    pos += op.length;
+    skipSpace();
+
+    let value: string;
+    if (src[pos] === '"' || src[pos] === "'") {
+      value = readQuoted();
+    } else {
+      const valueStart = pos;
+      while (pos < src.length && src[pos] !== ']') pos++;
+      value = src.slice(valueStart, pos).trim();
+    }
+    skipSpace();
+    if (src[pos] !== ']') throw selectorError(selector, `expected "]" at position ${pos}`);
+    pos++;
+    return { key, op, value };
+  };
+
+  const readCompound = (): QueryCompound => {
+    const compound: QueryCompound = { ids: [], attributes: [] };
+    const start = pos;
+
+    if (src[pos] === '*') {
+      pos++;
+    } else if (/[A-Za-z_]/.test(src[pos])) {
+      const typeStart = pos;
+      while (pos < src.length && /\w/.test(src[pos])) pos++;
+      compound.type = src.slice(typeStart, pos);
+    }
+
+    while (pos < src.length) {
+      const ch = src[pos];
+      if (ch === '#') {
+        pos++;
+        let id: string;
+        if (src[pos] === '"' || src[pos] === "'") {
+          id = readQuoted();
+        } else {
+          const idStart = pos;
+          while (pos < src.length && !ID_TERMINATORS.has(src[pos])) pos++;
+          id = src.slice(idStart, pos);
+        }
+        if (!id) throw selectorError(selector, `expected id after "#" at position ${pos}`);
+        compound.ids.push(id);
+      } else if (ch === '[') {
+        compound.attributes.push(readAttribute());
+      } else {
+        break;
+      }
+    }
+
+    if (pos === start) {
+      throw selectorError(selector, `unexpected "${src[pos]}" at position ${pos}`);
+    }
+    return compound;
+  };
+
+  const finishComplex = () => {
+    if (current.compounds.length === 0 || pendingCombinator) {
+      throw selectorError(selector, `expected selector at position ${pos}`);
+    }
+    list.push(current);
+    current = { compounds: [], combinators: [] };
+  };
+
+  while (pos < src.length) {
+    skipSpace();
+    if (pos >= src.length) break;
+    const ch = src[pos];
+
+    if (ch === ',') {
+      finishComplex();
+      pos++;
+      continue;
+    }
+
+    if (ch === '>') {
+      if (current.compounds.length === 0 || pendingCombinator) {
+        throw selectorError(selector, `unexpected ">" at position ${pos}`);
+      }
+      pendingCombinator = '>';
+      pos++;
+      continue;
+    }
+
+    if (current.compounds.length > 0) {
+      current.combinators.push(pendingCombinator ?? ' ');
+    }
+    current.compounds.push(readCompound());
+    pendingCombinator = null;
+  }
+
+  finishComplex();
+  return list;
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+/** Short attribute names accepted in addition to the ObjectMetadata field names. */
+const FIELD_ALIASES: Record<string, keyof ObjectMetadata> = {
+  geometry: 'geometryType',
+  material: 'materialType',
+  parent: 'parentUuid',
+};
+
+const AXIS_INDEX: Record<string, number> = { x: 0, y: 1, z: 2 };
+
+const _globCache = new Map<string, RegExp>();
+
+function globToRegExp(pattern: string): RegExp {
+  let re = _globCache.get(pattern);
+  if (!re) {
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    re = new RegExp('^' + escaped.replace(/\*/g, '.*').replace(/\?/g, '.') + '$');
+    _globCache.set(pattern, re);
+  }
+  return re;
+}
+
+function isGlob(pattern: string): boolean {
+  return pattern.includes('*') || pattern.includes('?');
+}
+
+function readPath(value: unknown, path: string[]): unknown {
+  let cursor = value;
+  for (const segment of path) {
+    if (cursor === null || cursor === undefined) return undefined;
+    if (Array.isArray(cursor) && segment in AXIS_INDEX) {
+      cursor = cursor[AXIS_INDEX[segment]];
+    } else {
+      cursor = (cursor as Record<string, unknown>)[segment];
+    }
+  }
+  return cursor;
+}
+
+function readField(obj: Object3D, meta: ObjectMetadata, key: string): unknown {
+  const [head, ...rest] = key.split('.');
+  if (head === 'userData') return readPath(obj.userData, rest);
+  const field = FIELD_ALIASES[head] ?? head;
+  // Extractor fields are addressable without the `custom.` prefix
+  if (!(field in meta) && meta.custom && head in meta.custom) return readPath(meta.custom[head], rest);
+  return readPath((meta as unknown as Record<string, unknown>)[field], rest);
+}
+
+function testAttribute(actual: unknown, test: QueryAttributeTest): boolean {
+  if (!test.op) return actual !== undefined && actual !== null;
+  if (actual === undefined || actual === null) return test.op === '!=';
+
+  const expected = test.value ?? '';
+  const str = typeof actual === 'object' ? JSON.stringify(actual) : String(actual);
+
+  switch (test.op) {
+    case '=': return str === expected;
+    case '!=': return str !== expected;
+    case '^=': return str.startsWith(expected);
+    case '$=': return str.endsWith(expected);
+    case '*=': return str.includes(expected);
+    default: {
+      const a = Number(actual);
+      const b = Number(expected);
+      if (!Number.isFinite(a) || !Number.isFinite(b)) return false;
+      if (test.op === '>') return a > b;
+      if (test.op === '>=') return a >= b;
+      if (test.op === '<') return a < b;
+      return a <= b;
+    }
+  }
+}
+
+function matchesCompound(obj: Object3D, meta: ObjectMetadata, compound: QueryCompound): boolean {
+  if (compound.type && meta.type !== compound.type) return false;
+
+  for (const id of compound.ids) {
+    // `#id` matches the testId; objects without a testId fall back to their name
+    const target = meta.testId ?? meta.name;
+    if (isGlob(id) ? !globToRegExp(id).test(target) : target !== id) return false;
+  }
+
+  for (const attr of compound.attributes) {
+    if (!testAttribute(readField(obj, meta, attr.key), attr)) return false;
+  }
+  return true;
+}
+
+/**
+ * Walk up from `meta` checking `compounds[index]` and everything to its left.
+ * Descendant combinators backtrack through every matching ancestor.
+ */
+function matchesAncestors(
+  store: ObjectStore,
+  meta: ObjectMetadata,
+  complex: QueryComplex,
+  index: number,
+): boolean {
+  if (index < 0) return true;
+  const compound = complex.compounds[index];
+  const childOnly = complex.combinators[index] === '>';
+
+  let parentUuid = meta.parentUuid;
+  while (parentUuid) {
+    const parentMeta = store.getByUuid(parentUuid);
+    const parentObj = parentMeta ? store.getObject3D(parentUuid) : null;
+    if (!parentMeta || !parentObj) return false;
+
+    if (
+      matchesCompound(parentObj, parentMeta, compound) &&
+      matchesAncestors(store, parentMeta, complex, index - 1)
+    ) {
+      return true;
+    }
+    if (childOnly) return false;
+    parentUuid = parentMeta.parentUuid;
+  }
+  return false;
+}
+
+/** Check whether a registered object matches any selector in a parsed list. */
+export function matchesQuery(
+  store: ObjectStore,
+  obj: Object3D,
+  meta: ObjectMetadata,
+  query: ParsedQuery,
+): boolean {
+  for (const complex of query) {
+    const last = complex.compounds.length - 1;
+    if (
+      matchesCompound(obj, meta, complex.compounds[last]) &&
+      matchesAncestors(store, meta, complex, last - 1)
+    ) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * If every selector in the list pins its rightmost compound to an exact
+ * (non-glob) `#id`, return those ids so the caller can seed candidates from
+ * the O(1) testId/name indexes instead of scanning every object.
+ */
+export function exactQueryIds(query: ParsedQuery): string[] | null {
+  const ids: string[] = [];
+  for (const complex of query) {
+    const rightmost = complex.compounds[complex.compounds.length - 1];
+    const exact = rightmost.ids.find((id) => !isGlob(id));
+    if (!exact) return null;
+    ids.push(exact);
+  }
+  return ids;
+}
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { BoxGeometry, Group, Mesh, MeshBasicMaterial, PerspectiveCamera, PointLight } from 'three';
+import type { Material } from 'three';
+import { computeEffectiveVisibility } from './visibility';
+
+function setup() {
+  const group = new Group();
+  const material = new MeshBasicMaterial();
+  const mesh = new Mesh<BoxGeometry, Material | Material[]>(new BoxGeometry(), material);
+  mesh.position.z = -5;
+  group.add(mesh);
+  group.updateMatrixWorld(true);
+  const camera = new PerspectiveCamera();
+  camera.updateMatrixWorld(true);
+  return { group, mesh, camera, material };
+}
+
+describe('computeEffectiveVisibility', () => {
+  it('reports a visible object without a reason', () => {
+    const { mesh, camera } = setup();
+    expect(computeEffectiveVisibility(mesh, camera, { frustum: true })).toEqual({ visible: true });
+  });
+
+  it('reports the object itself before its ancestors', () => {
+    const { group, mesh, camera } = setup();
+    mesh.visible = false;
+    group.visible = false;
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: false, reason: 'self' });
+  });
+
+  it('names the hidden ancestor', () => {
+    const { group, mesh, camera } = setup();
+    group.visible = false;
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: false, reason: 'ancestor', hiddenBy: group.uuid });
+    expect(computeEffectiveVisibility(mesh, camera, { ancestorsVisible: true })).toEqual({ visible: true });
+  });
+
+  it('checks the camera layer mask', () => {
+    const { mesh, camera } = setup();
+    mesh.layers.set(2);
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: false, reason: 'layer' });
+    expect(computeEffectiveVisibility(mesh, null)).toEqual({ visible: true });
+  });
+
+  it('checks material visibility, then full transparency', () => {
+    const { mesh, camera, material } = setup();
+    material.transparent = true;
+    material.opacity = 0;
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: false, reason: 'opacity' });
+    material.visible = false;
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: false, reason: 'material' });
+  });
+
+  it('needs every material of a multi-material mesh to be hidden', () => {
+    const { mesh, camera, material } = setup();
+    material.visible = false;
+    mesh.material = [material, new MeshBasicMaterial()];
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: true });
+  });
+
+  it('skips material checks for objects that do not render', () => {
+    const light = new PointLight();
+    light.layers.set(2);
+    expect(computeEffectiveVisibility(light, new PerspectiveCamera())).toEqual({ visible: true });
+  });
+
+  it('tests the frustum only when asked', () => {
+    const { group, mesh, camera } = setup();
+    mesh.position.z = 5;
+    group.updateMatrixWorld(true);
+    expect(computeEffectiveVisibility(mesh, camera)).toEqual({ visible: true });
+    expect(computeEffectiveVisibility(mesh, camera, { frustum: true })).toEqual({ visible: false, reason: 'frustum' });
+  });
+});
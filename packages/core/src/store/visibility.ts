@@ -0,0 +1,70 @@
+/**
+ * @module visibility
+ *
+ * Effective (rendered) visibility for tracked objects. `object.visible`
+ * only describes the object itself; whether anything reaches the screen
+ * also depends on every ancestor, the camera's layer mask, the material's
+ * own `visible` flag, full transparency, and the camera frustum. Each check
+ * reports a reason code so tests can tell *why* an object is hidden.
+ */
+import type { Camera, Material, Mesh, Object3D } from 'three';
+import { isInFrustum } from '../interactions/projection';
+import type { EffectiveVisibility } from '../types';
+
+export interface EffectiveVisibilityOptions {
+  /** Also test against the camera frustum (bounds-based, costlier). Default: false */
+  frustum?: boolean;
+  /**
+   * Set when every ancestor is already known to be visible, to skip the walk
+   * up the parent chain (ObjectStore derives it from the parent's metadata).
+   */
+  ancestorsVisible?: boolean;
+}
+
+function getMaterials(obj: Object3D): Material[] | null {
+  if (!('material' in obj)) return null;
+  const raw = (obj as Mesh).material;
+  if (!raw) return null;
+  return Array.isArray(raw) ? raw : [raw];
+}
+
+/**
+ * Compute whether `obj` is effectively visible, checking (in order):
+ * own flag → ancestors → layer mask → material.visible → opacity 0 → frustum.
+ * Layer, material and opacity checks only apply to objects with a material,
+ * since groups, lights and cameras do not render on their own.
+ */
+export function computeEffectiveVisibility(
+  obj: Object3D,
+  camera: Camera | null,
+  options?: EffectiveVisibilityOptions,
+): EffectiveVisibility {
+  if (!obj.visible) return { visible: false, reason: 'self' };
+
+  let ancestor = options?.ancestorsVisible ? null : obj.parent;
+  while (ancestor) {
+    if (!ancestor.visible) {
+      return { visible: false, reason: 'ancestor', hiddenBy: ancestor.uuid };
+    }
+    ancestor = ancestor.parent;
+  }
+
+  const materials = getMaterials(obj);
+  if (materials && materials.length > 0) {
+    if (camera && !obj.layers.test(camera.layers)) {
+      return { visible: false, reason: 'layer' };
+    }
+    if (materials.every((m) => !m.visible)) {
+      return { visible: false, reason: 'material' };
+    }
+    if (materials.every((m) => m.transparent && m.opacity <= 0)) {
+      return { visible: false, reason: 'opacity' };
+    }
+  }
+
+  if (options?.frustum && camera && !isInFrustum(obj, camera)) {
+    return { visible: false, reason: 'frustum' };
+  }
+
+  return { visible: true };
+}
@@ -1,4 +1,4 @@
-import type { Object3D } from 'three';
+import type { AnimationMixer, Object3D } from 'three';
 
 // ---------------------------------------------------------------------------
 // Tier 1: Lightweight metadata — always cached for every tracked object
@@ -14,6 +14,14 @@ export interface ObjectMetadata {
   type: string;
   /** Whether the object itself is visible (does not check parent chain) */
   visible: boolean;
+  /**
+   * Whether the object is actually rendered: checks ancestors, the camera
+   * layer mask, material.visible and opacity 0 (not the frustum — see
+   * `R3FDOM.getEffectiveVisibility`). Refreshed on each sync.
+   */
+  effectiveVisible: boolean;
+  /** Why the object is not effectively visible (undefined when visible) */
+  visibilityReason?: VisibilityReason;
   /** User-defined test identifier from userData.testId */
   testId?: string;
   /** Geometry class name: "BoxGeometry", "BufferGeometry", etc. */
@@ -24,8 +32,21 @@ export interface ObjectMetadata {
   vertexCount?: number;
   /** Triangle count (derived from index or vertex count) */
   triangleCount?: number;
+  /**
+   * Sum of the geometry's attribute, morph attribute and index versions.
+   * Changes whenever an attribute is flagged `needsUpdate`.
+   */
+  geometryVersion?: number;
+  /** Geometry draw range as [start, count] (only when set away from the default) */
+  drawRange?: [number, number];
+  /** Morph target influences (meshes with morph targets only) */
+  morphTargetInfluences?: number[];
+  /** Morph target names by influence index (from morphTargetDictionary) */
+  morphTargetNames?: string[];
   /** Instance count for InstancedMesh */
   instanceCount?: number;
+  /** Bone count of the bound skeleton (SkinnedMesh only) */
+  boneCount?: number;
   /** Field of view in degrees (PerspectiveCamera only) */
   fov?: number;
   /** Near clipping plane (cameras only) */
@@ -46,6 +67,133 @@ export interface ObjectMetadata {
   childrenUuids: string[];
   /** Flag indicating bounds need recomputation */
   boundsDirty: boolean;
+
+  // ---- Extended tier (only with ObjectStore `extendedMetadata: true`) ----
+
+  /** Material color as "#rrggbb" (first material for multi-material meshes) */
+  color?: string;
+  /** Material emissive color as "#rrggbb" */
+  emissive?: string;
+  /** Material opacity */
+  opacity?: number;
+  /** Whether the material is transparent */
+  transparent?: boolean;
+  /** Material visible flag (independent of object.visible) */
+  materialVisible?: boolean;
+  /** Name (or uuid) of the material's main map texture */
+  map?: string;
+  /** Light intensity (lights only) */
+  intensity?: number;
+  /** Light color as "#rrggbb" (lights only) */
+  lightColor?: string;
+  /** Whether the light casts shadows (lights only) */
+  castShadow?: boolean;
+
+  // ---- Custom fields (ThreeDom `extractors`) ----
+
+  /** Values computed by metadata extractors, keyed by extractor name */
+  custom?: Record<string, ExtractedValue>;
+}
+
+// ---------------------------------------------------------------------------
+// Metadata extractors — app-defined fields (ThreeDom `extractors` prop)
+// ---------------------------------------------------------------------------
+
+/** Value an extractor may produce. Kept primitive so it survives JSON and DOM attributes. */
+export type ExtractedValue = string | number | boolean;
+
+/**
+ * Computes one custom field for every tracked object, e.g. an IFC class or
+ * asset id read from userData. The value lands in `metadata.custom[name]`,
+ * snapshots and a `data-*` mirror attribute.
+ */
+export interface MetadataExtractor {
+  /** Field name, unique among extractors (letters, digits, `_`, `$`) */
+  name: string;
+  /** Compute the value; return undefined when the object has none. Must not throw for unrelated objects. */
+  extract(obj: Object3D): ExtractedValue | undefined;
+  /**
+   * Mirror attribute to write the value to. Defaults to `data-<kebab-name>`
+   * (`assetId` → `data-asset-id`); false keeps it out of the DOM.
+   */
+  attribute?: string | false;
+  /** Keep a value → objects index for O(1) `getByField` lookups. Default: false */
+  index?: boolean;
+  /** Only extract on registration instead of on every sync. Default: false */
+  static?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Effective visibility — rendered state, with the reason an object is hidden
+// ---------------------------------------------------------------------------
+
+/**
+ * - "self": object.visible is false
+ * - "ancestor": an ancestor has visible = false
+ * - "layer": object.layers does not intersect the camera's layers
+ * - "material": every material has visible = false
+ * - "opacity": every material is transparent with opacity 0
+ * - "frustum": outside the camera frustum (on-demand checks only)
+ */
+export type VisibilityReason = 'self' | 'ancestor' | 'layer' | 'material' | 'opacity' | 'frustum';
+
+export interface EffectiveVisibility {
+  visible: boolean;
+  /** Undefined when visible */
+  reason?: VisibilityReason;
+  /** uuid of the hidden ancestor (reason "ancestor" only) */
+  hiddenBy?: string;
+}
+
+// ---------------------------------------------------------------------------
+// InstancedMesh — per-instance virtual children
+// ---------------------------------------------------------------------------
+
+export interface InstanceMetadata {
+  /** Addressable id: `<mesh testId or uuid>#<index>` (e.g. "trees#42") */
+  id: string;
+  /** Instance index within the InstancedMesh */
+  index: number;
+  /** uuid of the owning InstancedMesh */
+  meshUuid: string;
+  /** Per-instance testId from `mesh.userData.instanceTestIds[index]` */
+  testId?: string;
+  /** Decomposed from the instance matrix (mesh-local space) */
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: [number, number, number];
+  /** Instance color (#rrggbb) when the mesh has an instanceColor buffer */
+  color?: string;
+}
+
+// ---------------------------------------------------------------------------
+// Animation — AnimationMixer action state
+// ---------------------------------------------------------------------------
+
+export type AnimationLoopMode = 'once' | 'repeat' | 'pingpong';
+
+export interface AnimationActionState {
+  /** AnimationClip name */
+  clipName: string;
+  /** testId (or uuid) of the mixer's root object */
+  root: string;
+  rootUuid: string;
+  /** Local action time in seconds */
+  time: number;
+  /** Clip duration in seconds */
+  duration: number;
+  weight: number;
+  /** Weight after fades / warps are applied */
+  effectiveWeight: number;
+  timeScale: number;
+  loop: AnimationLoopMode;
+  repetitions: number;
+  /** Scheduled, enabled, unpaused and advancing */
+  running: boolean;
+  paused: boolean;
+  enabled: boolean;
+  /** Reached its end (once / finite repetitions) and not restarted since */
+  finished: boolean;
 }
 
 // ---------------------------------------------------------------------------
@@ -62,10 +210,12 @@ export interface InspectOptions {
 export interface GeometryInspection {
   /** Geometry class type */
   type: string;
-  /** Map of attribute name → { itemSize, count } */
-  attributes: Record<string, { itemSize: number; count: number }>;
+  /** Map of attribute name → { itemSize, count, version } */
+  attributes: Record<string, { itemSize: number; count: number; version: number }>;
   /** Index buffer info, if indexed geometry */
-  index?: { count: number };
+  index?: { count: number; version: number };
+  /** Draw range (count is Infinity when unset) */
+  drawRange?: { start: number; count: number };
   /** Bounding sphere computed from geometry */
   boundingSphere?: { center: [number, number, number]; radius: number };
   /** Position attribute data (x,y,z per vertex). Only set when inspect(..., { includeGeometryData: true }). */
@@ -94,6 +244,8 @@ export interface MaterialInspection {
 export interface ObjectInspection {
   /** Tier 1 cached metadata */
   metadata: ObjectMetadata;
+  /** Deterministic path id (e.g. "Scene/Group[name=F3]/Mesh[2]") */
+  path?: string;
   /** World matrix as 16-element flat array */
   worldMatrix: number[];
   /** World-space axis-aligned bounding box */
@@ -102,10 +254,21 @@ export interface ObjectInspection {
   geometry?: GeometryInspection;
   /** Material details (meshes/points/lines only) */
   material?: MaterialInspection;
+  /** Skeleton details (SkinnedMesh only) */
+  skeleton?: SkeletonInspection;
   /** Full userData object from the Three.js object */
   userData: Record<string, unknown>;
 }
 
+export interface SkeletonInspection {
+  boneCount: number;
+  /** Bone names in skeleton order (uuid for unnamed bones) */
+  bones: string[];
+  /** Name (or uuid) of the topmost bone */
+  rootBone?: string;
+  bindMode: string;
+}
+
 // ---------------------------------------------------------------------------
 // Scene snapshot — structured JSON built from Tier 1 store
 // ---------------------------------------------------------------------------
@@ -129,6 +292,24 @@ export interface SnapshotNode {
   triangleCount?: number;
   /** Instance count (InstancedMesh only) */
   instanceCount?: number;
+  /** Geometry attribute version sum (meshes only) */
+  geometryVersion?: number;
+  /** Custom draw range as [start, count] */
+  drawRange?: [number, number];
+  /** Morph target influences (morphed meshes only) */
+  morphTargetInfluences?: number[];
+  /** Extended tier fields — present only with `extendedMetadata` enabled */
+  color?: string;
+  emissive?: string;
+  opacity?: number;
+  transparent?: boolean;
+  materialVisible?: boolean;
+  map?: string;
+  intensity?: number;
+  lightColor?: string;
+  castShadow?: boolean;
+  /** Extractor fields — present only when ThreeDom has `extractors` */
+  custom?: Record<string, ExtractedValue>;
   children: SnapshotNode[];
 }
 
@@ -141,20 +322,359 @@ export interface SceneSnapshot {
   tree: SnapshotNode;
 }
 
+/**
+ * A node of a snapshot taken with `SnapshotOptions.fields`: only `uuid`,
+ * `children` and the listed fields are present.
+ */
+export type PartialSnapshotNode = Partial<Omit<SnapshotNode, 'uuid' | 'children'>> & {
+  uuid: string;
+  children: PartialSnapshotNode[];
+};
+
+/** A snapshot taken with `SnapshotOptions.fields`. */
+export interface PartialSceneSnapshot {
+  timestamp: number;
+  /** Number of nodes in the tree */
+  objectCount: number;
+  tree: PartialSnapshotNode;
+}
+
+/**
+ * Options for a partial snapshot. The root is always included; any node
+ * rejected by `filter` is left out, but its descendants are still visited
+ * and kept ones attach to the nearest kept ancestor.
+ */
+export interface SnapshotOptions {
+  /** testId, uuid or path id of the subtree root. Default: the scene root */
+  root?: string;
+  /** Scene levels below `root` to visit (0 = root only). Default: unlimited */
+  depth?: number;
+  /** Three.js types to keep, or a predicate over each node's metadata */
+  filter?: string[] | ((meta: ObjectMetadata) => boolean);
+  /**
+   * Node fields to include; `uuid` and `children` are always present.
+   * The snapshot is then a {@link PartialSceneSnapshot}.
+   */
+  fields?: (keyof SnapshotNode)[];
+}
+
+/** One field that differs on an object present in both snapshots. */
+export interface SceneDiffChange {
+  uuid: string;
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+/** An object present in both snapshots under different parents. */
+export interface SceneDiffReparent {
+  uuid: string;
+  /** Parent uuid in `before` (null for a root) */
+  from: string | null;
+  /** Parent uuid in `after` (null for a root) */
+  to: string | null;
+  node: SnapshotNode;
+}
+
+/** An object present in both snapshots under a different name. */
+export interface SceneDiffRename {
+  uuid: string;
+  from: string;
+  to: string;
+  node: SnapshotNode;
+}
+
+/** An object that moved among the children of the same parent. */
+export interface SceneDiffReorder {
+  uuid: string;
+  /** Index among the parent's children in `before` */
+  from: number;
+  /** Index among the parent's children in `after` */
+  to: number;
+  node: SnapshotNode;
+}
+
+/** Result of `diffAsync(before, after)`, matched by uuid. */
+export interface SceneDiff {
+  /** Nodes only in `after` */
+  added: SnapshotNode[];
+  /** Nodes only in `before` */
+  removed: SnapshotNode[];
+  /** One entry per changed field of nodes in both */
+  changed: SceneDiffChange[];
+  /** Nodes in both whose parent changed (from `after`) */
+  reparented: SceneDiffReparent[];
+  /** Nodes in both whose name changed (also in `changed`) */
+  renamed: SceneDiffRename[];
+  /** Nodes that moved among the same parent's children (not siblings shifted by them) */
+  reordered: SceneDiffReorder[];
+}
+
 // ---------------------------------------------------------------------------
 // Store event types — emitted by ObjectStore for listeners
 // ---------------------------------------------------------------------------
 
-export type StoreEventType = 'add' | 'remove' | 'update';
+/**
+ * 'reparent' is emitted when a tracked object moves to another parent in
+ * the same tracked scene; its subtree stays registered (no remove/add).
+ */
+export type StoreEventType = 'add' | 'remove' | 'update' | 'reparent';
 
 export interface StoreEvent {
   type: StoreEventType;
   object: Object3D;
   metadata: ObjectMetadata;
+  /** Previous parent uuid ('reparent' only; the new one is metadata.parentUuid) */
+  oldParentUuid?: string | null;
 }
 
 export type StoreListener = (event: StoreEvent) => void;
 
+// ---------------------------------------------------------------------------
+// Store change journal — sequence-numbered changes, batched per frame
+// ---------------------------------------------------------------------------
+
+export interface StoreChange {
+  /** Monotonic sequence number, never reused */
+  seq: number;
+  type: StoreEventType;
+  uuid: string;
+  /** Metadata copy at the time of the change (last known state for 'remove') */
+  metadata: ObjectMetadata;
+  /** Previous parent uuid ('reparent' only) */
+  oldParentUuid?: string | null;
+}
+
+export interface StoreChangeBatch {
+  /** Monotonic batch id */
+  id: number;
+  /** Store frame the batch was committed on (undefined when flushed between frames) */
+  frame?: number;
+  /** Commit time (Date.now()) */
+  timestamp: number;
+  /** Changes in sequence order. Repeated updates to one object within a batch are coalesced. */
+  changes: StoreChange[];
+}
+
+export interface StoreChangeSet {
+  /** Sequence number the caller asked from */
+  since: number;
+  /** Latest sequence number — pass it as `since` on the next poll */
+  seq: number;
+  /** True when changes after `since` are no longer retained; re-snapshot to resync */
+  truncated: boolean;
+  batches: StoreChangeBatch[];
+}
+
+export type StoreBatchListener = (batch: StoreChangeBatch) => void;
+
+// ---------------------------------------------------------------------------
+// Object history — opt-in per-object timeline (ObjectStore `history`)
+// ---------------------------------------------------------------------------
+
+/** Metadata fields recorded in an object's history. */
+export type HistoryField = 'position' | 'rotation' | 'scale' | 'visible' | 'effectiveVisible' | 'parentUuid';
+
+export type HistoryValue = [number, number, number] | boolean | string | null;
+
+export interface HistoryChange {
+  field: HistoryField;
+  /** Previous value (null on 'add') */
+  from: HistoryValue;
+  to: HistoryValue;
+}
+
+export interface ObjectHistoryEntry {
+  /** Bridge frame (per-frame sync count) the change was recorded in */
+  frame: number;
+  /** Time the change was recorded (Date.now()) */
+  timestamp: number;
+  type: StoreEventType;
+  /** Fields that changed. 'add' lists every field's initial value; 'remove' is empty. */
+  changes: HistoryChange[];
+}
+
+// ---------------------------------------------------------------------------
+// Spatial queries — region lookups over world-space bounds
+// ---------------------------------------------------------------------------
+
+export interface SpatialQueryOptions {
+  /**
+   * How an object's world bounds must relate to the query region:
+   * - "intersects" (default): bounds overlap the region at all.
+   * - "contains": bounds lie entirely inside the region.
+   */
+  mode?: 'intersects' | 'contains';
+}
+
+// ---------------------------------------------------------------------------
+// Touch gestures — two-finger pinch / rotate / pan
+// ---------------------------------------------------------------------------
+
+/** Options shared by all two-finger gestures. */
+export interface GestureOptions {
+  /**
+   * testId or uuid of an object to center the gesture on. Default: the
+   * canvas center (or `center` when given).
+   */
+  target?: string;
+  /** Canvas-relative screen point to center the gesture on. Ignored when `target` is set. */
+  center?: { x: number; y: number };
+  /** Distance between the two fingers at touch-down, in CSS pixels. Default: 100 */
+  spread?: number;
+  /** Number of interleaved pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
+  stepDelayMs?: number;
+}
+
+/** Result of a two-finger gesture. */
+export interface GestureResult {
+  /** Whether the gesture was dispatched (false only on a bridge that failed to initialize). */
+  dispatched: boolean;
+  /** The screen point the gesture was centered on. */
+  center: { x: number; y: number };
+  /** Finger positions at touch-down. */
+  startPoints: [{ x: number; y: number }, { x: number; y: number }];
+  /** Finger positions at lift-off. */
+  endPoints: [{ x: number; y: number }, { x: number; y: number }];
+  /** The pointerIds used for the two fingers. */
+  pointerIds: number[];
+}
+
+// ---------------------------------------------------------------------------
+// Long press — press and hold
+// ---------------------------------------------------------------------------
+
+/** Options for a long press (press-and-hold). */
+export interface LongPressOptions {
+  /** How long the pointer stays down, in ms. Default: 600 */
+  durationMs?: number;
+  /**
+   * Radius in CSS pixels of small pointermoves made while holding, like an
+   * unsteady finger. The pointer returns to the press point before release.
+   * Default: 0 (no moves)
+   */
+  jitter?: number;
+  /** Interval between jitter moves in ms. Default: 50 */
+  jitterIntervalMs?: number;
+  /** Pointer type. Default: 'mouse' */
+  pointerType?: 'mouse' | 'pen' | 'touch';
+  /**
+   * Dispatch a click after pointerup. Browsers do for mouse and pen but
+   * not for a touch long-press. Default: true, false for 'touch'
+   */
+  click?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Capture drag — pointer capture and drag-out-of-object
+// ---------------------------------------------------------------------------
+
+/** Options for a drag that honors pointer capture and may leave the canvas. */
+export interface CaptureDragOptions {
+  /** Number of intermediate pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
+  stepDelayMs?: number;
+  /** For an InstancedMesh, start on a single instance (same as "mesh#index"). */
+  instanceId?: number;
+}
+
+/** An object whose R3F handler ran during a capture drag. */
+export interface HandlerRecipient {
+  uuid: string;
+  testId?: string;
+  name: string;
+  /** Number of times the handler ran. */
+  count: number;
+}
+
+/** Result of a capture drag. */
+export interface CaptureDragResult {
+  /** Whether the drag was dispatched (false only on a bridge that failed to initialize). */
+  dispatched: boolean;
+  /** Canvas-relative point the drag started at (the projected object). */
+  startPoint: { x: number; y: number };
+  /** Canvas-relative point the pointer was released at; may lie outside the canvas. */
+  endPoint: { x: number; y: number };
+  /** Whether a handler took pointer capture during the drag. */
+  captured: boolean;
+  /** Whether the pointer was released outside the canvas bounds. */
+  releasedOutside: boolean;
+  /** The element that received pointerup, e.g. "canvas" or "div#trash". */
+  releaseTarget: string;
+  /** Objects whose onPointerMove / onPointerUp ran, in first-call order. */
+  received: {
+    pointerMove: HandlerRecipient[];
+    pointerUp: HandlerRecipient[];
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Drag and drop — drag one object onto another
+// ---------------------------------------------------------------------------
+
+/** Options for dragging one object onto another. */
+export interface DragToOptions {
+  /** Number of intermediate pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
+  stepDelayMs?: number;
+  /** Pointermoves over the target before the drop, for hover / snap-preview handlers. Default: 3 */
+  hoverSteps?: number;
+  /**
+   * Verify via raycast that the drop point hits the target (ignoring the
+   * dragged object). A miss logs a warning naming what was hit. Default: true
+   */
+  verify?: boolean;
+  /** Animation frames to wait after the drop before reading the source position. Default: 1 */
+  settleFrames?: number;
+}
+
+/** Result of dragging one object onto another. */
+export interface DragToResult {
+  /** Whether the drag was dispatched (false only on a bridge that failed to initialize). */
+  dispatched: boolean;
+  /** Canvas-relative point the drag started at (the projected source). */
+  startPoint: { x: number; y: number };
+  /** Canvas-relative drop point (the projected target). */
+  dropPoint: { x: number; y: number };
+  /** Drop point raycast (only if verify: true); `occluderLabel` names what was hit instead. */
+  raycast?: { hit: boolean; occluderLabel?: string };
+  /** Whether a handler took pointer capture during the drag. */
+  captured: boolean;
+  /** Source local position after the drop (same space as ObjectMetadata.position). */
+  position: [number, number, number];
+  /** Source world position after the drop. */
+  worldPosition: [number, number, number];
+}
+
+// ---------------------------------------------------------------------------
+// Keyboard — press / type / held keys
+// ---------------------------------------------------------------------------
+
+/** Options for pressing a key or key combination. */
+export interface KeyPressOptions {
+  /** Extra auto-repeat keydowns (`event.repeat === true`) of the main key. Default: 0 */
+  repeat?: number;
+  /** Hold time in ms before keyup; with `repeat`, also the delay between repeats. Default: 0 */
+  delayMs?: number;
+  /**
+   * Focus the canvas first (adding `tabindex="-1"` if it has none). When
+   * false, events go to the currently focused element. Default: true
+   */
+  focus?: boolean;
+}
+
+/** Options for typing text. */
+export interface TypeTextOptions {
+  /** Delay between characters in ms. Default: 0 */
+  delayMs?: number;
+  /** Focus the canvas first. Default: true */
+  focus?: boolean;
+}
+
 // ---------------------------------------------------------------------------
 // Global API — exposed as window.__R3F_DOM__
 // ---------------------------------------------------------------------------
@@ -179,9 +699,13 @@ export interface R3FDOM {
   getByTestId(id: string): ObjectMetadata | null;
   /** Tier 1: O(1) lookup by uuid */
   getByUuid(uuid: string): ObjectMetadata | null;
+  /** Tier 1: lookup by path id, e.g. "Scene/Group[name=F3]/Mesh[2]" */
+  getByPath(path: string): ObjectMetadata | null;
+  /** Deterministic path id of an object (stable across page loads, unlike uuid) */
+  getPath(idOrUuid: string): string | null;
   /** Tier 1: O(1) lookup by name (returns array, names aren't unique) */
   getByName(name: string): ObjectMetadata[];
-  /** Get direct children of an object by testId or uuid */
+  /** Get direct children of an object by testId, uuid or path */
   getChildren(idOrUuid: string): ObjectMetadata[];
   /** Get parent of an object by testId or uuid (null if root or not found) */
   getParent(idOrUuid: string): ObjectMetadata | null;
@@ -195,12 +719,91 @@ export interface R3FDOM {
   getByMaterialType(type: string): ObjectMetadata[];
   /** Get objects that have a specific userData key (and optionally matching value) */
   getByUserData(key: string, value?: unknown): ObjectMetadata[];
+  /**
+   * Get objects whose extractor field `name` equals `value` (O(1) when the
+   * extractor sets `index: true`).
+   */
+  getByField(name: string, value: ExtractedValue): ObjectMetadata[];
+  /**
+   * CSS-like scene query evaluated against Tier 1 metadata, e.g.
+   * `Mesh[material=MeshStandardMaterial][userData.floor=3] > Group#door-*`.
+   * Throws on invalid selector syntax.
+   */
+  query(selector: string): ObjectMetadata[];
+  /**
+   * Spatial: objects whose world-space bounds intersect an axis-aligned box.
+   * Accepts the same `{ min, max }` shape as `inspect().bounds`.
+   */
+  getInBox(
+    box: { min: [number, number, number]; max: [number, number, number] },
+    options?: SpatialQueryOptions,
+  ): ObjectMetadata[];
+  /** Spatial: objects whose world-space bounds intersect a sphere around `center` */
+  getWithinRadius(
+    center: [number, number, number],
+    radius: number,
+    options?: SpatialQueryOptions,
+  ): ObjectMetadata[];
+  /**
+   * Spatial: objects whose world-space bounds intersect a camera frustum.
+   * Uses the active camera, or a registered camera by testId/uuid.
+   */
+  getInFrustum(cameraIdOrUuid?: string, options?: SpatialQueryOptions): ObjectMetadata[];
+  /**
+   * Effective visibility with a reason code: own flag, ancestors, camera
+   * layer mask, material.visible, opacity 0 and (unless `frustum: false`)
+   * the active camera frustum. Null if the object is not found.
+   */
+  getEffectiveVisibility(idOrUuid: string, options?: { frustum?: boolean }): EffectiveVisibility | null;
+  /** All instances of an InstancedMesh as virtual children ([] if not instanced) */
+  getInstances(idOrUuid: string): InstanceMetadata[];
+  /** A single instance by "mesh#index" or per-instance testId */
+  getInstance(id: string): InstanceMetadata | null;
   /** Count objects of a given Three.js type */
   getCountByType(type: string): number;
   /** Batch lookup: get metadata for multiple objects by testId or uuid in one call */
   getObjects(ids: string[]): Record<string, ObjectMetadata | null>;
-  /** Full structured JSON snapshot from Tier 1 store */
-  snapshot(): SceneSnapshot;
+  /**
+   * Structured JSON snapshot from Tier 1 store: the whole scene, or a
+   * subtree / filtered / field-limited view with `options`.
+   */
+  snapshot(options?: SnapshotOptions & { fields?: undefined }): SceneSnapshot;
+  /** Field-limited snapshot: nodes carry only `options.fields` */
+  snapshot(options?: SnapshotOptions): PartialSceneSnapshot;
+  /**
+   * `snapshot()` in the compact binary format (string table, Float32
+   * transforms), base64-encoded so it crosses JSON-only transports.
+   * Decode with `decodeSnapshot` (or `decodePartialSnapshot` when taken
+   * with `fields`) from the test / DevTools packages.
+   */
+  snapshotBinary(options?: SnapshotOptions): string;
+  /**
+   * `snapshot()` computed off the main thread when ThreeDom has `worker`
+   * enabled (synchronously otherwise). Reflects the last synced frame.
+   */
+  snapshotAsync(): Promise<SceneSnapshot>;
+  /** `fuzzyFind()` computed off the main thread when the worker is active. */
+  fuzzyFindAsync(query: string, limit?: number): Promise<ObjectMetadata[]>;
+  /** Diff two snapshots by uuid, off the main thread when the worker is active. */
+  diffAsync(before: SceneSnapshot, after: SceneSnapshot): Promise<SceneDiff>;
+  /**
+   * Short hash of the current snapshot tree. Equal hashes mean an unchanged
+   * scene, so stability waiters can compare it instead of serialized trees.
+   */
+  sceneHashAsync(): Promise<string>;
+  /**
+   * Change journal: all batched store changes after sequence `since`.
+   * Poll with the returned `seq`; re-snapshot when `truncated` is true.
+   */
+  getChangesSince(since: number): StoreChangeSet;
+  /** Change journal: latest sequence number (record it before an action, then poll) */
+  getJournalSeq(): number;
+  /**
+   * Timestamped transform / visibility / parent changes of one object,
+   * oldest first. Empty unless ThreeDom's `history` prop is set. Kept for a
+   * while after the object is removed so tests can see why it vanished.
+   */
+  getHistory(idOrUuid: string): ObjectHistoryEntry[];
 
   /** Tier 2: on-demand heavy inspection (reads live Three.js object). Use includeGeometryData: true to get vertex/index buffers. */
   inspect(idOrUuid: string, options?: InspectOptions): ObjectInspection | null;
@@ -219,6 +822,24 @@ export interface R3FDOM {
   drag(idOrUuid: string, delta: { x: number; y: number; z: number }): Promise<void>;
   /** Dispatch a wheel/scroll event on a 3D object */
   wheel(idOrUuid: string, options?: { deltaY?: number; deltaX?: number }): void;
+  /** Press and hold on a 3D object for `durationMs` (async), optionally with jitter moves */
+  longPress(idOrUuid: string, options?: LongPressOptions): Promise<void>;
+  /**
+   * Drag from an object to a canvas-relative point (`{ x, y }`, may be
+   * outside the canvas) or by `{ dx, dy }`, honoring pointer capture.
+   * Reports which objects' onPointerMove / onPointerUp ran.
+   */
+  captureDrag(
+    idOrUuid: string,
+    to: { x: number; y: number } | { dx: number; dy: number },
+    options?: CaptureDragOptions,
+  ): Promise<CaptureDragResult>;
+  /**
+   * Drag one object onto another: from the source's projected point to the
+   * target's, hovering over the target before the drop. Resolves with the
+   * source position after the drop.
+   */
+  dragTo(sourceId: string, targetId: string, options?: DragToOptions): Promise<DragToResult>;
   /** Click empty space to trigger onPointerMissed */
   pointerMiss(): void;
   /** Draw a freeform path on the canvas (for drawing/annotation apps) */
@@ -226,6 +847,20 @@ export interface R3FDOM {
     points: Array<{ x: number; y: number; pressure?: number }>,
     options?: { stepDelayMs?: number; pointerType?: 'mouse' | 'pen' | 'touch'; clickAtEnd?: boolean },
   ): Promise<{ eventCount: number; pointCount: number }>;
+  /** Two-finger pinch: finger distance goes from `spread` to `spread × scale` (> 1 spreads, < 1 pinches) */
+  pinch(scale: number, options?: GestureOptions): Promise<GestureResult>;
+  /** Two-finger rotation by `degrees` (clockwise on screen) around the gesture center */
+  rotateGesture(degrees: number, options?: GestureOptions): Promise<GestureResult>;
+  /** Two-finger pan: both fingers move by the same screen-space delta */
+  twoFingerPan(delta: { dx: number; dy: number }, options?: GestureOptions): Promise<GestureResult>;
+  /** Press a key or combo ("r", "Control+Shift+Z"): keydown → keypress → keyup, modifiers around it */
+  press(key: string, options?: KeyPressOptions): Promise<void>;
+  /** Type text one character at a time */
+  type(text: string, options?: TypeTextOptions): Promise<void>;
+  /** Hold a key or combo down until keyUp; held modifiers apply to pointer interactions (shift-drag, ctrl-click) */
+  keyDown(key: string, options?: { focus?: boolean }): void;
+  /** Release keys held with keyDown */
+  keyUp(key: string, options?: { focus?: boolean }): void;
 
   /** Click at an arbitrary world coordinate (projects to screen, dispatches click) */
   clickAtWorld(
@@ -294,6 +929,21 @@ export interface R3FDOM {
    */
   r3fUnregister(obj: Object3D): void;
 
+  /**
+   * Track an AnimationMixer so its actions show up in `getAnimations()`.
+   * Mixers stored as `object.userData.animationMixer` are found automatically.
+   */
+  r3fRegisterMixer(mixer: AnimationMixer): void;
+
+  /** Stop tracking an AnimationMixer. */
+  r3fUnregisterMixer(mixer: AnimationMixer): void;
+
+  /**
+   * State of every action on tracked mixers (clip, time, weight, loop,
+   * running / finished). Pass a testId or uuid to limit to one mixer root.
+   */
+  getAnimations(rootIdOrUuid?: string): AnimationActionState[];
+
   /**
    * Manually sweep orphaned objects from the store.
    * Removes objects that are no longer in any tracked scene graph.
@@ -309,6 +959,13 @@ export interface R3FDOM {
    */
   getDiagnostics(): BridgeDiagnostics;
 
+  /**
+   * Render-cost statistics: draw calls, triangles and programs from
+   * `renderer.info` (with per-frame deltas) plus unique materials,
+   * geometries and textures (count and estimated bytes) in the scene.
+   */
+  getSceneStats(): SceneStats;
+
   /**
    * Fuzzy search: find objects whose testId or name contains the query string.
    * Returns up to `limit` matches. Used by test runners to suggest corrections
@@ -372,6 +1029,66 @@ export interface BridgeDiagnostics {
   canvasHeight: number;
   webglRenderer: string;
   dirtyQueueSize: number;
+  /** getByUserData secondary index usage */
+  userDataIndexes: UserDataIndexStats;
+  /** Where the *Async snapshot APIs run: 'worker', or 'sync' on the main thread */
+  snapshotWorker: 'worker' | 'sync';
+}
+
+export interface UserDataIndexStats {
+  /** userData keys with an index (declared or built on first query) */
+  keys: string[];
+  /** Objects indexed, summed over keys */
+  entries: number;
+  /** getByUserData calls answered from an index */
+  hits: number;
+  /** getByUserData calls for an unindexed key (each builds a lazy index when enabled) */
+  misses: number;
+}
+
+// ---------------------------------------------------------------------------
+// Scene stats — returned by getSceneStats()
+// ---------------------------------------------------------------------------
+
+/** One `renderer.info` reading (or the difference between two). */
+export interface RenderInfoSample {
+  /** renderer.info.render.frame */
+  frame: number;
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  /** Compiled shader programs */
+  programs: number;
+  /** Geometries uploaded to the GPU (renderer.info.memory) */
+  geometries: number;
+  /** Textures uploaded to the GPU (renderer.info.memory) */
+  textures: number;
+}
+
+export interface SceneStats {
+  /** Renderer frame the render counters were sampled from */
+  frame: number;
+  /** Draw calls in the last rendered frame */
+  drawCalls: number;
+  /** Triangles rendered in the last frame (after culling, across instances) */
+  triangles: number;
+  points: number;
+  lines: number;
+  /** Compiled shader programs */
+  programs: number;
+  /** Unique materials on tracked objects */
+  materials: number;
+  /** Unique geometries on tracked objects */
+  geometries: number;
+  /** Unique textures referenced by those materials and scene background/environment */
+  textures: number;
+  /** Estimated GPU memory for those textures, in bytes */
+  textureBytes: number;
+  /** renderer.info.memory — everything currently uploaded, tracked or not */
+  gpuMemory: { geometries: number; textures: number };
+  /** Change in renderer.info counters since the previous frame */
+  delta: RenderInfoSample;
 }
 
 // Extend the global Window interface
@@ -0,0 +1,266 @@
+/**
+ * @module SnapshotWorker
+ *
+ * Runs snapshots, fuzzy search, diffs and scene hashes in a Web Worker so
+ * large scenes do not stall rendering. The worker holds a mirror of Tier 1
+ * metadata: every store event marks its object, and once per frame (after
+ * the store sync) the changed records are posted in one batch whose packed
+ * transforms are transferred rather than copied. Requests flush pending
+ * changes first, so results reflect the last synced frame exactly like the
+ * synchronous APIs.
+ *
+ * Transferables are used instead of a SharedArrayBuffer so the page does
+ * not need cross-origin isolation. When workers are unavailable (no Worker
+ * global, a CSP that blocks blob: workers, a worker crash) every method
+ * falls back to the synchronous main-thread path.
+ */
+import type { ObjectStore } from '../store/ObjectStore';
+import type { ObjectMetadata, SceneDiff, SceneSnapshot } from '../types';
+import { createSnapshot } from '../snapshot/snapshot';
+import { r3fLog } from '../debug';
+import {
+  createSnapshotEngine,
+  TRANSFORM_STRIDE,
+  type MetadataBatch,
+  type MirroredRecord,
+  type SnapshotEngine,
+} from './snapshotEngine';
+
+type WorkerRequest =
+  | { type: 'snapshot' }
+  | { type: 'fuzzyFind'; query: string; limit: number }
+  | { type: 'diff'; before: SceneSnapshot; after: SceneSnapshot }
+  | { type: 'hash' };
+
+interface PendingRequest {
+  request: WorkerRequest;
+  resolve: (value: unknown) => void;
+  reject: (reason: unknown) => void;
+}
+
+/**
+ * Worker entry point. Serialized into the worker source together with
+ * `createSnapshotEngine`, so it must not reference anything outside itself.
+ */
+function workerMain(engine: SnapshotEngine): void {
+  const scope = self as unknown as {
+    onmessage: ((e: MessageEvent) => void) | null;
+    postMessage(message: unknown): void;
+  };
+  scope.onmessage = (e) => {
+    const msg = e.data;
+    if (msg.type === 'batch') {
+      engine.apply(msg.batch);
+      return;
+    }
+    try {
+      let result: unknown;
+      if (msg.type === 'snapshot') result = engine.snapshot();
+      else if (msg.type === 'fuzzyFind') result = engine.fuzzyFind(msg.query, msg.limit);
+      else if (msg.type === 'diff') result = engine.diff(msg.before, msg.after);
+      else if (msg.type === 'hash') result = engine.hash();
+      else throw new Error(`unknown request "${msg.type}"`);
+      scope.postMessage({ id: msg.id, result });
+    } catch (err) {
+      scope.postMessage({ id: msg.id, error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+}
+
+function spawnWorker(): { worker: Worker; url: string } | null {
+  if (typeof Worker === 'undefined' || typeof Blob === 'undefined' || typeof URL?.createObjectURL !== 'function') {
+    return null;
+  }
+  const source = `(${workerMain.toString()})((${createSnapshotEngine.toString()})());`;
+  const url = URL.createObjectURL(new Blob([source], { type: 'text/javascript' }));
+  try {
+    return { worker: new Worker(url), url };
+  } catch (err) {
+    URL.revokeObjectURL(url);
+    r3fLog('worker', 'Worker creation failed, using synchronous snapshots', err);
+    return null;
+  }
+}
+
+/**
+ * Async snapshot APIs for one ObjectStore. Owned by the bridge, which calls
+ * `flush()` once per frame and `dispose()` on teardown.
+ */
+export class SnapshotWorker {
+  private _store: ObjectStore;
+  private _worker: Worker | null = null;
+  private _url: string | null = null;
+  private _unsubscribe: (() => void) | null = null;
+  /** Uuids added or updated since the last batch */
+  private _dirty = new Set<string>();
+  /** Uuids removed since the last batch */
+  private _removed = new Set<string>();
+  private _pending = new Map<number, PendingRequest>();
+  private _nextId = 1;
+  // Main-thread engine for diffs and hashes in sync mode (holds no mirror)
+  private _syncEngine: SnapshotEngine | null = null;
+
+  constructor(store: ObjectStore, useWorker: boolean) {
+    this._store = store;
+    if (!useWorker) return;
+
+    const spawned = spawnWorker();
+    if (!spawned) {
+      r3fLog('worker', 'Web Workers unavailable, using synchronous snapshots');
+      return;
+    }
+    this._worker = spawned.worker;
+    this._url = spawned.url;
+    this._worker.onmessage = (e: MessageEvent) => this._onMessage(e.data);
+    // CSP violations and script errors surface asynchronously
+    this._worker.onerror = (e: ErrorEvent) => {
+      e.preventDefault();
+      this._fallBack(e.message || 'worker error');
+    };
+
+    this._unsubscribe = store.subscribe((event) => {
+      const uuid = event.metadata.uuid;
+      if (event.type === 'remove') {
+        this._dirty.delete(uuid);
+        this._removed.add(uuid);
+      } else {
+        this._removed.delete(uuid);
+        this._dirty.add(uuid);
+      }
+    });
+    // Seed the mirror with everything registered so far
+    for (const obj of store.getFlatList()) {
+      const meta = store.getMetadata(obj);
+      if (meta) this._dirty.add(meta.uuid);
+    }
+  }
+
+  /** 'worker' while the worker is running, 'sync' otherwise. */
+  get mode(): 'worker' | 'sync' {
+    return this._worker ? 'worker' : 'sync';
+  }
+
+  /** Post changes since the last flush to the worker (no-op in sync mode). */
+  flush(): void {
+    if (!this._worker || (this._dirty.size === 0 && this._removed.size === 0)) return;
+
+    const records: MirroredRecord[] = [];
+    const metas: ObjectMetadata[] = [];
+    for (const uuid of this._dirty) {
+      const meta = this._store.getByUuid(uuid);
+      if (meta) metas.push(meta);
+    }
+    const transforms = new Float64Array(metas.length * TRANSFORM_STRIDE);
+    metas.forEach((meta, i) => {
+      const { position, rotation, scale, ...record } = meta;
+      const o = i * TRANSFORM_STRIDE;
+      transforms.set(position, o);
+      transforms.set(rotation, o + 3);
+      transforms.set(scale, o + 6);
+      records.push(record);
+    });
+
+    const batch: MetadataBatch = { records, transforms, removed: [...this._removed] };
+    this._dirty.clear();
+    this._removed.clear();
+    try {
+      this._worker.postMessage({ type: 'batch', batch }, [transforms.buffer]);
+    } catch (err) {
+      // e.g. a record holding something structured clone rejects
+      r3fLog('worker', 'Batch post failed', err);
+      this._fallBack('batch post failed');
+    }
+  }
+
+  snapshot(): Promise<SceneSnapshot> {
+    return this._request({ type: 'snapshot' }) as Promise<SceneSnapshot>;
+  }
+
+  fuzzyFind(query: string, limit: number): Promise<ObjectMetadata[]> {
+    return this._request({ type: 'fuzzyFind', query, limit }) as Promise<ObjectMetadata[]>;
+  }
+
+  diff(before: SceneSnapshot, after: SceneSnapshot): Promise<SceneDiff> {
+    return this._request({ type: 'diff', before, after }) as Promise<SceneDiff>;
+  }
+
+  hash(): Promise<string> {
+    return this._request({ type: 'hash' }) as Promise<string>;
+  }
+
+  dispose(): void {
+    this._teardown();
+    for (const pending of this._pending.values()) {
+      pending.reject(new Error('[react-three-dom] Snapshot worker disposed'));
+    }
+    this._pending.clear();
+  }
+
+  private _request(request: WorkerRequest): Promise<unknown> {
+    if (!this._worker) {
+      try {
+        return Promise.resolve(this._runSync(request));
+      } catch (err) {
+        return Promise.reject(err);
+      }
+    }
+    this.flush();
+    const id = this._nextId++;
+    return new Promise((resolve, reject) => {
+      this._pending.set(id, { request, resolve, reject });
+      this._worker!.postMessage({ id, ...request });
+    });
+  }
+
+  private _runSync(request: WorkerRequest): unknown {
+    const engine = (this._syncEngine ??= createSnapshotEngine());
+    switch (request.type) {
+      case 'snapshot':
+        return createSnapshot(this._store);
+      case 'fuzzyFind':
+        return this._store.fuzzyFind(request.query, request.limit);
+      case 'diff':
+        return engine.diff(request.before, request.after);
+      case 'hash':
+        return engine.hash(createSnapshot(this._store).tree);
+    }
+  }
+
+  private _onMessage(data: { id: number; result?: unknown; error?: string }): void {
+    const pending = this._pending.get(data.id);
+    if (!pending) return;
+    this._pending.delete(data.id);
+    if (data.error !== undefined) {
+      pending.reject(new Error(`[react-three-dom] Snapshot worker: ${data.error}`));
+    } else {
+      pending.resolve(data.result);
+    }
+  }
+
+  /** Stop the worker and answer outstanding requests synchronously. */
+  private _fallBack(reason: string): void {
+    if (!this._worker) return;
+    r3fLog('worker', `Snapshot worker stopped (${reason}), using synchronous snapshots`);
+    this._teardown();
+    const pending = [...this._pending.values()];
+    this._pending.clear();
+    for (const { request, resolve, reject } of pending) {
+      try {
+        resolve(this._runSync(request));
+      } catch (err) {
+        reject(err);
+      }
+    }
+  }
+
+  private _teardown(): void {
+    this._unsubscribe?.();
+    this._unsubscribe = null;
+    this._worker?.terminate();
+    this._worker = null;
+    if (this._url) URL.revokeObjectURL(this._url);
+    this._url = null;
+    this._dirty.clear();
+    this._removed.clear();
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * @module snapshotEngine
+ *
+ * Snapshot, fuzzy search, diff and scene hash over a mirrored copy of Tier 1
+ * metadata, for the snapshot worker. `createSnapshotEngine` is serialized
+ * with `Function.prototype.toString` into the worker source, so its body
+ * must not reference anything outside itself: no imports, no module-level
+ * helpers (type-only imports are erased and fine).
+ *
+ * The algorithms mirror `createSnapshot` (snapshot.ts), the bridge's
+ * `fuzzyFind` and the test packages' `diffSnapshots` (uuid matching, no
+ * tolerances); keep them in step.
+ */
+import type { ObjectMetadata, SceneDiff, SceneSnapshot } from '../types';
+
+/** Metadata without its transform, which travels in {@link MetadataBatch.transforms}. */
+export type MirroredRecord = Omit<ObjectMetadata, 'position' | 'rotation' | 'scale'>;
+
+/** Floats per record in {@link MetadataBatch.transforms}. */
+export const TRANSFORM_STRIDE = 9;
+
+/**
+ * Changes since the last batch. `transforms` packs position, rotation and
+ * scale of `records[i]` at `i * TRANSFORM_STRIDE`; its buffer is transferred
+ * to the worker rather than copied.
+ */
+export interface MetadataBatch {
+  records: MirroredRecord[];
+  transforms: Float64Array;
+  removed: string[];
+}
+
+export interface SnapshotEngine {
+  apply(batch: MetadataBatch): void;
+  snapshot(): SceneSnapshot;
+  fuzzyFind(query: string, limit: number): ObjectMetadata[];
+  diff(before: SceneSnapshot, after: SceneSnapshot): SceneDiff;
+  /** Hash of `tree`, or of the engine's own snapshot when omitted. */
+  hash(tree?: SceneSnapshot['tree']): string;
+}
+
+export function createSnapshotEngine(): SnapshotEngine {
+  type Node = SceneSnapshot['tree'];
+  type Vec3 = [number, number, number];
+
+  const STRIDE = 9;
+  const metas = new Map<string, ObjectMetadata>();
+
+  const OPTIONAL_FIELDS = [
+    'geometryType', 'materialType', 'vertexCount', 'triangleCount', 'instanceCount',
+    'geometryVersion', 'drawRange', 'morphTargetInfluences', 'color', 'emissive',
+    'opacity', 'transparent', 'materialVisible', 'map', 'intensity', 'lightColor',
+    'castShadow', 'custom',
+  ] as const;
+
+  const DIFF_FIELDS = [
+    'name', 'type', 'testId', 'visible', 'position', 'rotation', 'scale',
+    'geometryVersion', 'drawRange', 'morphTargetInfluences', 'color', 'emissive',
+    'opacity', 'transparent', 'materialVisible', 'map', 'intensity', 'lightColor',
+    'castShadow',
+  ] as const;
+
+  function apply(batch: MetadataBatch): void {
+    for (const uuid of batch.removed) metas.delete(uuid);
+    const t = batch.transforms;
+    batch.records.forEach((record, i) => {
+      const o = i * STRIDE;
+      metas.set(record.uuid, {
+        ...record,
+        position: [t[o], t[o + 1], t[o + 2]],
+        rotation: [t[o + 3], t[o + 4], t[o + 5]],
+        scale: [t[o + 6], t[o + 7], t[o + 8]],
+      });
+    });
+  }
+
+  function buildNode(meta: ObjectMetadata): Node {
+    const children: Node[] = [];
+    for (const childUuid of meta.childrenUuids) {
+      const child = metas.get(childUuid);
+      if (child) children.push(buildNode(child));
+    }
+    const node: Node = {
+      uuid: meta.uuid,
+      name: meta.name,
+      type: meta.type,
+      testId: meta.testId,
+      visible: meta.visible,
+      position: [...meta.position] as Vec3,
+      rotation: [...meta.rotation] as Vec3,
+      scale: [...meta.scale] as Vec3,
+      children,
+    };
+    const source = meta as unknown as Record<string, unknown>;
+    const target = node as unknown as Record<string, unknown>;
+    for (const field of OPTIONAL_FIELDS) {
+      const value = source[field];
+      if (value === undefined || value === null) continue;
+      if (Array.isArray(value)) target[field] = [...value];
+      else if (typeof value === 'object') target[field] = { ...value };
+      else target[field] = value;
+    }
+    return node;
+  }
+
+  function snapshot(): SceneSnapshot {
+    let root: ObjectMetadata | null = null;
+    for (const meta of metas.values()) {
+      if (meta.parentUuid === null) {
+        root = meta;
+        break;
+      }
+    }
+    const tree: Node = root
+      ? buildNode(root)
+      : {
+          uuid: '',
+          name: 'empty',
+          type: 'Scene',
+          visible: true,
+          position: [0, 0, 0],
+          rotation: [0, 0, 0],
+          scale: [1, 1, 1],
+          children: [],
+        };
+    return { timestamp: Date.now(), objectCount: metas.size, tree };
+  }
+
+  function fuzzyFind(query: string, limit: number): ObjectMetadata[] {
+    const q = query.toLowerCase();
+    const results: ObjectMetadata[] = [];
+    for (const meta of metas.values()) {
+      if (results.length >= limit) break;
+      const testId = meta.testId?.toLowerCase() ?? '';
+      const name = meta.name?.toLowerCase() ?? '';
+      if (testId.includes(q) || name.includes(q) || meta.uuid.startsWith(q)) results.push(meta);
+    }
+    return results;
+  }
+
+  function flatten(tree: Node, parents: Map<string, string | null>, indices: Map<string, number>): Map<string, Node> {
+    const map = new Map<string, Node>();
+    const walk = (n: Node, parentUuid: string | null, index: number) => {
+      map.set(n.uuid, n);
+      parents.set(n.uuid, parentUuid);
+      indices.set(n.uuid, index);
+      n.children.forEach((c, i) => walk(c, n.uuid, i));
+    };
+    walk(tree, null, 0);
+    return map;
+  }
+
+  /** Positions (into `seq`) of one longest strictly increasing subsequence. */
+  function longestIncreasing(seq: number[]): Set<number> {
+    const tails: number[] = [];
+    const prev: number[] = [];
+    for (let i = 0; i < seq.length; i++) {
+      let lo = 0;
+      let hi = tails.length;
+      while (lo < hi) {
+        const mid = (lo + hi) >> 1;
+        if (seq[tails[mid]] < seq[i]) lo = mid + 1;
+        else hi = mid;
+      }
+      prev[i] = lo > 0 ? tails[lo - 1] : -1;
+      tails[lo] = i;
+    }
+    const kept = new Set<number>();
+    for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = prev[i]) kept.add(i);
+    return kept;
+  }
+
+  function valueEqual(a: unknown, b: unknown): boolean {
+    if (a === b) return true;
+    if (Array.isArray(a) && Array.isArray(b)) {
+      return a.length === b.length && a.every((v, i) => valueEqual(v, b[i]));
+    }
+    return false;
+  }
+
+  function diff(before: SceneSnapshot, after: SceneSnapshot): SceneDiff {
+    const beforeParents = new Map<string, string | null>();
+    const afterParents = new Map<string, string | null>();
+    const beforeIndices = new Map<string, number>();
+    const beforeMap = flatten(before.tree, beforeParents, beforeIndices);
+    const afterMap = flatten(after.tree, afterParents, new Map());
+    const result: SceneDiff = { added: [], removed: [], changed: [], reparented: [], renamed: [], reordered: [] };
+
+    for (const [uuid, node] of afterMap) {
+      if (!beforeMap.has(uuid)) result.added.push(node);
+    }
+    for (const [uuid, node] of beforeMap) {
+      if (!afterMap.has(uuid)) result.removed.push(node);
+    }
+    for (const [uuid, afterNode] of afterMap) {
+      const beforeNode = beforeMap.get(uuid);
+      if (!beforeNode) continue;
+
+      const from = beforeParents.get(uuid) ?? null;
+      const to = afterParents.get(uuid) ?? null;
+      if (from !== to) result.reparented.push({ uuid, from, to, node: afterNode });
+      if (beforeNode.name !== afterNode.name) {
+        result.renamed.push({ uuid, from: beforeNode.name, to: afterNode.name, node: afterNode });
+      }
+
+      // Children that kept this parent, in `after` order; those outside the
+      // longest run still in `before` order are the ones that moved
+      const stayed: number[] = [];
+      afterNode.children.forEach((c, i) => {
+        if (beforeParents.get(c.uuid) === uuid) stayed.push(i);
+      });
+      const kept = longestIncreasing(stayed.map((i) => beforeIndices.get(afterNode.children[i].uuid)!));
+      stayed.forEach((to, k) => {
+        if (kept.has(k)) return;
+        const node = afterNode.children[to];
+        result.reordered.push({ uuid: node.uuid, from: beforeIndices.get(node.uuid)!, to, node });
+      });
+
+      const b = beforeNode as unknown as Record<string, unknown>;
+      const a = afterNode as unknown as Record<string, unknown>;
+      for (const field of DIFF_FIELDS) {
+        if (!valueEqual(b[field], a[field])) {
+          result.changed.push({ uuid, field, from: b[field], to: a[field] });
+        }
+      }
+      if (beforeNode.custom || afterNode.custom) {
+        const names = new Set([...Object.keys(beforeNode.custom ?? {}), ...Object.keys(afterNode.custom ?? {})]);
+        for (const name of names) {
+          const fromValue = beforeNode.custom?.[name];
+          const toValue = afterNode.custom?.[name];
+          if (fromValue !== toValue) result.changed.push({ uuid, field: `custom.${name}`, from: fromValue, to: toValue });
+        }
+      }
+    }
+    return result;
+  }
+
+  /** FNV-1a over the serialized tree, as 8 hex digits plus the length. */
+  function hash(tree?: Node): string {
+    const json = JSON.stringify(tree ?? snapshot().tree);
+    let h = 0x811c9dc5;
+    for (let i = 0; i < json.length; i++) {
+      h ^= json.charCodeAt(i);
+      h = Math.imul(h, 0x01000193);
+    }
+    return (h >>> 0).toString(16).padStart(8, '0') + ':' + json.length;
+  }
+
+  return { apply, snapshot, fuzzyFind, diff, hash };
+}
@@ -3,16 +3,18 @@
  *
  * Cypress Chai assertion methods for 3D scene testing via react-three-dom.
  * Provides 27+ `r3f*` assertion methods covering object metadata (existence,
- * visibility, position, rotation, scale, type, geometry, material, hierarchy),
+ * visibility, position, rotation, scale, type, geometry, material, hierarchy,
+ * geometry versions and morph influences),
  * inspection data (frustum, bounds, color, opacity, transparency, vertices,
- * triangles, userData, textures), scene-level counts, camera state, and
- * batch assertions (allExist, allVisible, noneExist).
+ * triangles, userData, textures), scene-level counts and render budgets,
+ * animation state, camera state, and batch assertions (allExist, allVisible,
+ * noneExist).
  *
  * Call {@link registerAssertions} from your Cypress support file to install.
  */
 
 /// <reference types="cypress" />
-import type { R3FDOM, ObjectMetadata, ObjectInspection, SnapshotNode } from './types';
+import type { R3FDOM, ObjectMetadata, ObjectInspection, InstanceMetadata, SnapshotNode, SceneStats, SceneBudget } from './types';
 import { _getActiveCanvasId } from './commands';
 
 // ---------------------------------------------------------------------------
@@ -35,7 +37,7 @@ function getR3FFromWindow(): R3FDOM {
 }
 
 function resolveObject(api: R3FDOM, idOrUuid: string): ObjectMetadata | null {
-  return api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? null;
+  return api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? api.getByPath(idOrUuid) ?? null;
 }
 
 function requireObject(api: R3FDOM, idOrUuid: string, matcherName: string): ObjectMetadata {
@@ -64,6 +66,72 @@ function requireInspection(api: R3FDOM, idOrUuid: string, matcherName: string):
   return insp;
 }
 
+function requireInstance(api: R3FDOM, id: string, matcherName: string): InstanceMetadata {
+  const inst = api.getInstance(id);
+  if (!inst) {
+    throw new Error(`[${matcherName}] instance "${id}" not found (expected "mesh#index" or a userData.instanceTestIds entry)`);
+  }
+  return inst;
+}
+
+/** Empty string when influences match, otherwise a description of the first mismatch. */
+function compareInfluences(meta: ObjectMetadata, expected: number[] | Record<string, number>, tolerance: number): string {
+  const actual = meta.morphTargetInfluences;
+  if (!actual) return 'but it has no morph targets';
+  if (Array.isArray(expected)) {
+    if (expected.length !== actual.length) return `but it has ${actual.length} morph targets`;
+    for (let i = 0; i < expected.length; i++) {
+      if (Math.abs(actual[i] - expected[i]) > tolerance) return `but [${i}] is ${actual[i]}`;
+    }
+    return '';
+  }
+  const names = meta.morphTargetNames ?? [];
+  for (const [name, value] of Object.entries(expected)) {
+    const index = names.indexOf(name);
+    if (index === -1) return `but it has no morph target "${name}"`;
+    if (Math.abs(actual[index] - value) > tolerance) return `but "${name}" is ${actual[index]}`;
+  }
+  return '';
+}
+
+/** Budget violations as "drawCalls 250 > 200" strings (empty when within budget). */
+export function budgetViolations(stats: SceneStats, budget: SceneBudget): string[] {
+  const actual: Record<keyof SceneBudget, number> = {
+    drawCalls: stats.drawCalls,
+    triangles: stats.triangles,
+    programs: stats.programs,
+    materials: stats.materials,
+    geometries: stats.geometries,
+    textures: stats.textures,
+    textureMB: stats.textureBytes / (1024 * 1024),
+  };
+  const violations: string[] = [];
+  for (const key of Object.keys(budget) as (keyof SceneBudget)[]) {
+    const limit = budget[key];
+    if (limit === undefined || !(key in actual)) continue;
+    const value = actual[key];
+    if (value > limit) {
+      violations.push(`${key} ${key === 'textureMB' ? value.toFixed(1) : value} > ${limit}`);
+    }
+  }
+  return violations;
+}
+
+/**
+ * Material color/opacity, read live via inspect() — never from the
+ * amortized Tier 1 fields, so a negated assertion cannot pass on a value
+ * that is a frame stale. For a multi-material mesh this is the first
+ * material (`material[0]`).
+ */
+function requireMaterialAppearance(
+  api: R3FDOM,
+  idOrUuid: string,
+  matcherName: string,
+): { hasMaterial: boolean; color?: string; opacity?: number } {
+  const insp = requireInspection(api, idOrUuid, matcherName);
+  return { hasMaterial: !!insp.material, color: insp.material?.color, opacity: insp.material?.opacity };
+}
+
 function collectTriangles(api: R3FDOM): number {
   const snap = api.snapshot();
   let total = 0;
@@ -90,7 +158,7 @@ export function registerAssertions(): void {
     Assertion.addMethod('r3fExist', function (this: Chai.AssertionStatic, idOrUuid: string) {
       const api = getR3FFromWindow();
       const meta = resolveObject(api, idOrUuid);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta !== null,
         `expected 3D object "${idOrUuid}" to exist in the scene`,
         `expected 3D object "${idOrUuid}" to NOT exist in the scene`,
@@ -101,7 +169,7 @@ export function registerAssertions(): void {
     Assertion.addMethod('r3fVisible', function (this: Chai.AssertionStatic, idOrUuid: string) {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fVisible');
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta.visible,
         `expected "${idOrUuid}" to be visible`,
         `expected "${idOrUuid}" to NOT be visible`,
@@ -109,6 +177,24 @@ export function registerAssertions(): void {
       );
     });
 
+    Assertion.addMethod('r3fEffectivelyVisible', function (
+      this: Chai.AssertionStatic,
+      idOrUuid: string,
+      options?: { frustum?: boolean },
+    ) {
+      const api = getR3FFromWindow();
+      requireObject(api, idOrUuid, 'r3fEffectivelyVisible');
+      const vis = api.getEffectiveVisibility(idOrUuid, { frustum: options?.frustum ?? true });
+      const visible = vis?.visible ?? false;
+      const why = vis?.reason === 'ancestor' ? `ancestor (hidden by ${vis.hiddenBy})` : vis?.reason;
+      this.assert(
+        visible,
+        `expected "${idOrUuid}" to be effectively visible, but it is hidden: ${why}`,
+        `expected "${idOrUuid}" to NOT be effectively visible, but it is rendered`,
+        'visible', vis?.reason ?? 'visible',
+      );
+    });
+
     Assertion.addMethod('r3fPosition', function (
       this: Chai.AssertionStatic, idOrUuid: string,
       expected: [number, number, number], tolerance = 0.01,
@@ -116,7 +202,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fPosition');
       const pass = expected.every((v, i) => Math.abs(meta.position[i] - v) <= tolerance);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" at [${expected}] (±${tolerance}), got [${meta.position}]`,
         `expected "${idOrUuid}" to NOT be at [${expected}] (±${tolerance})`,
@@ -133,7 +219,7 @@ export function registerAssertions(): void {
       const m = insp.worldMatrix;
       const wp: [number, number, number] = [m[12], m[13], m[14]];
       const pass = expected.every((v, i) => Math.abs(wp[i] - v) <= tolerance);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" world position [${expected}] (±${tolerance}), got [${wp.map(v => v.toFixed(4))}]`,
         `expected "${idOrUuid}" to NOT have world position [${expected}] (±${tolerance})`,
@@ -148,7 +234,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fRotation');
       const pass = expected.every((v, i) => Math.abs(meta.rotation[i] - v) <= tolerance);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" rotation [${expected}] (±${tolerance}), got [${meta.rotation}]`,
         `expected "${idOrUuid}" to NOT have rotation [${expected}] (±${tolerance})`,
@@ -163,7 +249,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fScale');
       const pass = expected.every((v, i) => Math.abs(meta.scale[i] - v) <= tolerance);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" scale [${expected}] (±${tolerance}), got [${meta.scale}]`,
         `expected "${idOrUuid}" to NOT have scale [${expected}] (±${tolerance})`,
@@ -176,7 +262,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fType');
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta.type === expectedType,
         `expected "${idOrUuid}" type "${expectedType}", got "${meta.type}"`,
         `expected "${idOrUuid}" to NOT have type "${expectedType}"`,
@@ -189,7 +275,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fName');
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta.name === expectedName,
         `expected "${idOrUuid}" name "${expectedName}", got "${meta.name}"`,
         `expected "${idOrUuid}" to NOT have name "${expectedName}"`,
@@ -202,7 +288,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fGeometryType');
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta.geometryType === expectedGeo,
         `expected "${idOrUuid}" geometry "${expectedGeo}", got "${meta.geometryType ?? 'none'}"`,
         `expected "${idOrUuid}" to NOT have geometry "${expectedGeo}"`,
@@ -215,7 +301,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fMaterialType');
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         meta.materialType === expectedMat,
         `expected "${idOrUuid}" material "${expectedMat}", got "${meta.materialType ?? 'none'}"`,
         `expected "${idOrUuid}" to NOT have material "${expectedMat}"`,
@@ -229,7 +315,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fChildCount');
       const actual = meta.childrenUuids.length;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expectedCount,
         `expected "${idOrUuid}" ${expectedCount} children, got ${actual}`,
         `expected "${idOrUuid}" to NOT have ${expectedCount} children`,
@@ -252,7 +338,7 @@ export function registerAssertions(): void {
         parentMeta.name === expectedParent
       );
       const parentLabel = parentMeta?.testId ?? parentMeta?.name ?? meta.parentUuid;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" parent "${expectedParent}", got "${parentLabel}"`,
         `expected "${idOrUuid}" to NOT have parent "${expectedParent}"`,
@@ -266,7 +352,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fInstanceCount');
       const actual = meta.instanceCount ?? 0;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expectedCount,
         `expected "${idOrUuid}" instance count ${expectedCount}, got ${actual}`,
         `expected "${idOrUuid}" to NOT have instance count ${expectedCount}`,
@@ -274,6 +360,67 @@ export function registerAssertions(): void {
       );
     });
 
+    Assertion.addMethod('r3fInstancePosition', function (
+      this: Chai.AssertionStatic, id: string,
+      expected: [number, number, number], tolerance = 0.01,
+    ) {
+      const api = getR3FFromWindow();
+      const inst = requireInstance(api, id, 'r3fInstancePosition');
+      const pass = expected.every((v, i) => Math.abs(inst.position[i] - v) <= tolerance);
+      this.assert(
+        pass,
+        `expected instance "${id}" at [${expected}] (±${tolerance}), got [${inst.position}]`,
+        `expected instance "${id}" to NOT be at [${expected}] (±${tolerance})`,
+        expected, inst.position,
+      );
+    });
+
+    Assertion.addMethod('r3fInstanceColor', function (
+      this: Chai.AssertionStatic, id: string, expectedColor: string,
+    ) {
+      const api = getR3FFromWindow();
+      const inst = requireInstance(api, id, 'r3fInstanceColor');
+      const norm = expectedColor.startsWith('#') ? expectedColor.toLowerCase() : `#${expectedColor.toLowerCase()}`;
+      const actual = inst.color?.toLowerCase();
+      this.assert(
+        actual === norm,
+        `expected instance "${id}" color ${norm}, got ${actual ?? 'none (no instanceColor buffer)'}`,
+        `expected instance "${id}" to NOT have color ${norm}`,
+        norm, actual,
+      );
+    });
+
+    Assertion.addMethod('r3fGeometryChanged', function (
+      this: Chai.AssertionStatic, idOrUuid: string, sinceVersion: number,
+    ) {
+      const api = getR3FFromWindow();
+      const meta = requireObject(api, idOrUuid, 'r3fGeometryChanged');
+      const actual = meta.geometryVersion;
+      this.assert(
+        actual !== undefined && actual !== sinceVersion,
+        actual === undefined
+          ? `expected "${idOrUuid}" geometry to have changed, but it has no geometry`
+          : `expected "${idOrUuid}" geometry to have changed since version ${sinceVersion}, but it is unchanged`,
+        `expected "${idOrUuid}" geometry to NOT have changed since version ${sinceVersion}, but it is now ${actual}`,
+        `!= ${sinceVersion}`, actual,
+      );
+    });
+
+    Assertion.addMethod('r3fMorphTargetInfluences', function (
+      this: Chai.AssertionStatic, idOrUuid: string,
+      expected: number[] | Record<string, number>, tolerance = 0.01,
+    ) {
+      const api = getR3FFromWindow();
+      const meta = requireObject(api, idOrUuid, 'r3fMorphTargetInfluences');
+      const mismatch = compareInfluences(meta, expected, tolerance);
+      this.assert(
+        mismatch === '',
+        `expected "${idOrUuid}" morph influences ${JSON.stringify(expected)} (±${tolerance}), ${mismatch}; got [${meta.morphTargetInfluences ?? []}]`,
+        `expected "${idOrUuid}" to NOT have morph influences ${JSON.stringify(expected)} (±${tolerance})`,
+        expected, meta.morphTargetInfluences,
+      );
+    });
+
     // ======================= TIER 2 — Inspection ==========================
 
     Assertion.addMethod('r3fInFrustum', function (this: Chai.AssertionStatic, idOrUuid: string) {
@@ -281,7 +428,7 @@ export function registerAssertions(): void {
       const insp = requireInspection(api, idOrUuid, 'r3fInFrustum');
       const fin = (v: number[]) => v.every(Number.isFinite);
       const pass = fin(insp.bounds.min) && fin(insp.bounds.max);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" to be in the camera frustum`,
         `expected "${idOrUuid}" to NOT be in the camera frustum`,
@@ -298,7 +445,7 @@ export function registerAssertions(): void {
       const insp = requireInspection(api, idOrUuid, 'r3fBounds');
       const w = (a: number[], b: number[]) => a.every((v, i) => Math.abs(v - b[i]) <= tolerance);
       const pass = w(insp.bounds.min, expected.min) && w(insp.bounds.max, expected.max);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" bounds min:${JSON.stringify(expected.min)} max:${JSON.stringify(expected.max)} (±${tolerance}), got min:${JSON.stringify(insp.bounds.min)} max:${JSON.stringify(insp.bounds.max)}`,
         `expected "${idOrUuid}" bounds to NOT match`,
@@ -310,10 +457,10 @@ export function registerAssertions(): void {
       this: Chai.AssertionStatic, idOrUuid: string, expectedColor: string,
     ) {
       const api = getR3FFromWindow();
-      const insp = requireInspection(api, idOrUuid, 'r3fColor');
+      const appearance = requireMaterialAppearance(api, idOrUuid, 'r3fColor');
       const norm = expectedColor.startsWith('#') ? expectedColor.toLowerCase() : `#${expectedColor.toLowerCase()}`;
-      const actual = insp.material?.color?.toLowerCase();
-      (this as unknown as Chai.Assertion).assert(
+      const actual = appearance.color?.toLowerCase();
+      this.assert(
         actual === norm,
         `expected "${idOrUuid}" color "${norm}", got "${actual ?? 'no color'}"`,
         `expected "${idOrUuid}" to NOT have color "${norm}"`,
@@ -325,10 +472,10 @@ export function registerAssertions(): void {
       this: Chai.AssertionStatic, idOrUuid: string, expectedOpacity: number, tolerance = 0.01,
     ) {
       const api = getR3FFromWindow();
-      const insp = requireInspection(api, idOrUuid, 'r3fOpacity');
-      const actual = insp.material?.opacity;
+      const appearance = requireMaterialAppearance(api, idOrUuid, 'r3fOpacity');
+      const actual = appearance.hasMaterial ? appearance.opacity : undefined;
       const pass = actual !== undefined && Math.abs(actual - expectedOpacity) <= tolerance;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" opacity ${expectedOpacity} (±${tolerance}), got ${actual ?? 'no material'}`,
         `expected "${idOrUuid}" to NOT have opacity ${expectedOpacity} (±${tolerance})`,
@@ -340,7 +487,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const insp = requireInspection(api, idOrUuid, 'r3fTransparent');
       const pass = insp.material?.transparent === true;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected "${idOrUuid}" transparent=true, got ${insp.material?.transparent ?? 'no material'}`,
         `expected "${idOrUuid}" to NOT be transparent`,
@@ -354,7 +501,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fVertexCount');
       const actual = meta.vertexCount ?? 0;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expectedCount,
         `expected "${idOrUuid}" ${expectedCount} vertices, got ${actual}`,
         `expected "${idOrUuid}" to NOT have ${expectedCount} vertices`,
@@ -368,7 +515,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const meta = requireObject(api, idOrUuid, 'r3fTriangleCount');
       const actual = meta.triangleCount ?? 0;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expectedCount,
         `expected "${idOrUuid}" ${expectedCount} triangles, got ${actual}`,
         `expected "${idOrUuid}" to NOT have ${expectedCount} triangles`,
@@ -383,7 +530,7 @@ export function registerAssertions(): void {
       const insp = requireInspection(api, idOrUuid, 'r3fUserData');
       const hasKey = key in insp.userData;
       if (expectedValue === undefined) {
-        (this as unknown as Chai.Assertion).assert(
+        this.assert(
           hasKey,
           `expected "${idOrUuid}" to have userData key "${key}"`,
           `expected "${idOrUuid}" to NOT have userData key "${key}"`,
@@ -392,7 +539,7 @@ export function registerAssertions(): void {
       } else {
         const actual = insp.userData[key];
         const pass = hasKey && JSON.stringify(actual) === JSON.stringify(expectedValue);
-        (this as unknown as Chai.Assertion).assert(
+        this.assert(
           pass,
           `expected "${idOrUuid}" userData.${key} = ${JSON.stringify(expectedValue)}, got ${JSON.stringify(actual)}`,
           `expected "${idOrUuid}" to NOT have userData.${key} = ${JSON.stringify(expectedValue)}`,
@@ -408,14 +555,14 @@ export function registerAssertions(): void {
       const insp = requireInspection(api, idOrUuid, 'r3fMapTexture');
       const actual = insp.material?.map;
       if (!expectedName) {
-        (this as unknown as Chai.Assertion).assert(
+        this.assert(
           actual !== undefined && actual !== null,
           `expected "${idOrUuid}" to have a map texture`,
           `expected "${idOrUuid}" to NOT have a map texture`,
           'any map', actual,
         );
       } else {
-        (this as unknown as Chai.Assertion).assert(
+        this.assert(
           actual === expectedName,
           `expected "${idOrUuid}" map "${expectedName}", got "${actual ?? 'none'}"`,
           `expected "${idOrUuid}" to NOT have map "${expectedName}"`,
@@ -431,7 +578,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const actual = api.getCount();
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expected,
         `expected scene to have ${expected} objects, got ${actual}`,
         `expected scene to NOT have ${expected} objects`,
@@ -444,7 +591,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const actual = api.getCount();
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual > min,
         `expected scene to have more than ${min} objects, got ${actual}`,
         `expected scene to have at most ${min} objects, but has ${actual}`,
@@ -457,7 +604,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const actual = api.getCountByType(type);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expected,
         `expected ${expected} "${type}" objects, got ${actual}`,
         `expected scene to NOT have ${expected} "${type}" objects`,
@@ -470,7 +617,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const actual = collectTriangles(api);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual === expected,
         `expected ${expected} total triangles, got ${actual}`,
         `expected scene to NOT have ${expected} total triangles`,
@@ -483,7 +630,7 @@ export function registerAssertions(): void {
     ) {
       const api = getR3FFromWindow();
       const actual = collectTriangles(api);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         actual < max,
         `expected fewer than ${max} total triangles, got ${actual}`,
         `expected at least ${max} total triangles, but has ${actual}`,
@@ -491,6 +638,42 @@ export function registerAssertions(): void {
       );
     });
 
+    Assertion.addMethod('r3fWithinBudget', function (
+      this: Chai.AssertionStatic, budget: SceneBudget,
+    ) {
+      const api = getR3FFromWindow();
+      const stats: SceneStats = api.getSceneStats();
+      const violations = budgetViolations(stats, budget);
+      this.assert(
+        violations.length === 0,
+        `expected scene to be within budget ${JSON.stringify(budget)}, but ${violations.join(', ')}`,
+        `expected scene to exceed budget ${JSON.stringify(budget)}, but it is within it`,
+        budget, stats,
+      );
+    });
+
+    // ===================== Animation assertions ============================
+
+    Assertion.addMethod('r3fPlayingAnimation', function (
+      this: Chai.AssertionStatic, clipName: string, root?: string,
+    ) {
+      const api = getR3FFromWindow();
+      const actions = api.getAnimations(root);
+      const clip = actions.find((a) => a.clipName === clipName && a.running)
+        ?? actions.find((a) => a.clipName === clipName);
+      const playing = !!clip?.running;
+      const on = root ? ` on "${root}"` : '';
+      const state = !clip
+        ? 'no such clip on tracked mixers'
+        : clip.finished ? 'finished' : clip.paused ? 'paused' : 'stopped';
+      this.assert(
+        playing,
+        `expected animation "${clipName}"${on} to be playing, but it is ${state}`,
+        `expected animation "${clipName}"${on} to NOT be playing`,
+        clipName, clip?.clipName,
+      );
+    });
+
     // ===================== Camera assertions ===============================
 
     Assertion.addMethod('r3fCameraPosition', function (
@@ -500,7 +683,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const cam = api.getCameraState();
       const pass = expected.every((v, i) => Math.abs(cam.position[i] - v) <= tolerance);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected camera at [${expected}], got [${cam.position}] (tol=${tolerance})`,
         `expected camera NOT at [${expected}]`,
@@ -515,7 +698,7 @@ export function registerAssertions(): void {
       const cam = api.getCameraState();
       const actual = cam.fov;
       const pass = actual !== undefined && Math.abs(actual - expected) <= tolerance;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected camera fov ${expected}, got ${actual ?? 'N/A'} (tol=${tolerance})`,
         `expected camera fov NOT ${expected}`,
@@ -529,7 +712,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const cam = api.getCameraState();
       const pass = Math.abs(cam.near - expected) <= tolerance;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected camera near ${expected}, got ${cam.near} (tol=${tolerance})`,
         `expected camera near NOT ${expected}`,
@@ -543,7 +726,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const cam = api.getCameraState();
       const pass = Math.abs(cam.far - expected) <= tolerance;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected camera far ${expected}, got ${cam.far} (tol=${tolerance})`,
         `expected camera far NOT ${expected}`,
@@ -557,7 +740,7 @@ export function registerAssertions(): void {
       const api = getR3FFromWindow();
       const cam = api.getCameraState();
       const pass = Math.abs(cam.zoom - expected) <= tolerance;
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         pass,
         `expected camera zoom ${expected}, got ${cam.zoom} (tol=${tolerance})`,
         `expected camera zoom NOT ${expected}`,
@@ -575,7 +758,7 @@ export function registerAssertions(): void {
         ? resolvePatternSync(api, idsOrPattern)
         : idsOrPattern;
       const missing = ids.filter((id) => resolveObject(api, id) === null);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         missing.length === 0 && ids.length > 0,
         `expected all objects to exist, missing: [${missing.join(', ')}]`,
         `expected some objects to NOT exist, but all do`,
@@ -594,7 +777,7 @@ export function registerAssertions(): void {
         const m = resolveObject(api, id);
         return !m || !m.visible;
       });
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         hidden.length === 0 && ids.length > 0,
         `expected all objects to be visible, hidden/missing: [${hidden.join(', ')}]`,
         `expected some objects to NOT be visible, but all are`,
@@ -610,7 +793,7 @@ export function registerAssertions(): void {
         ? resolvePatternSync(api, idsOrPattern)
         : idsOrPattern;
       const found = ids.filter((id) => resolveObject(api, id) !== null);
-      (this as unknown as Chai.Assertion).assert(
+      this.assert(
         found.length === 0,
         `expected no objects to exist, but found: [${found.join(', ')}]`,
         `expected some objects to exist, but none do`,
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { decodePartialSnapshot, decodeSnapshot } from './binarySnapshot';
+
+// Encoded by core's encodeSnapshotBase64; core's tests pin the same bytes
+const SCENE_BASE64 =
+  'UjNGUwEAAAAAsIdW/rx4QgMAAAADAAAACgAAAAQAAAByb290BQAAAHNjZW5lBQAAAFNjZW5lAQAAAGEFAAAAY2hhaXIEAAAATWVzaBMAAAB7ImNvbG9yIjoiI2ZmMDAwMCJ9AQAAAGIAAAAAEwAAAHsiY3VzdG9tIjp7ImhwIjozfX3/////AAAAAAEAAAAAAAAAAwAAAAcAAAABAAAABAAAAAgAAAACAAAABQAAAAUAAAD/////BAAAAP//////////BgAAAAkAAAABAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAIA/AAAgQAAAQMAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAAAAAAAAAAAAAAAAAAAAAAAAPwAAAAAAAIA/AACAPwAAgD8=';
+const PARTIAL_BASE64 =
+  'UjNGUwEAAAAAAAAAAADwPwIAAAACAAAAAwAAAAQAAAByb290AQAAAGEFAAAAY2hhaXL/////AAAAAAAAAAABAAAA//////////////////////////8CAAAA//////////8aHAAAAAAAAIA/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+
+// The Cypress decoder is a copy of the Playwright one, run in the browser by
+// cy.r3fSnapshotBinary; these cases guard the copy against drifting.
+describe('Cypress binary snapshot decoder', () => {
+  it('decodes a full snapshot', () => {
+    const snapshot = decodeSnapshot(SCENE_BASE64);
+    expect(snapshot).toMatchObject({ timestamp: 1700000000123, objectCount: 3 });
+    expect(snapshot.tree).toMatchObject({
+      uuid: 'root',
+      name: 'scene',
+      type: 'Scene',
+      children: [{
+        uuid: 'a',
+        testId: 'chair',
+        position: [1, 2.5, -3],
+        color: '#ff0000',
+        children: [{ uuid: 'b', visible: false, rotation: [0, 0.5, 0], custom: { hp: 3 }, children: [] }],
+      }],
+    });
+  });
+
+  it('decodes field-limited snapshots only with decodePartialSnapshot', () => {
+    expect(() => decodeSnapshot(PARTIAL_BASE64)).toThrow('decode it with decodePartialSnapshot');
+    expect(decodePartialSnapshot(PARTIAL_BASE64).tree).toEqual({
+      uuid: 'root',
+      position: [0, 1, 0],
+      children: [{ uuid: 'a', testId: 'chair', visible: false, children: [] }],
+    });
+  });
+
+  it('asks to upgrade the Cypress package for newer formats', () => {
+    const bytes = Uint8Array.from(atob(SCENE_BASE64), (c) => c.charCodeAt(0));
+    new DataView(bytes.buffer).setUint16(4, 99, true);
+    expect(() => decodeSnapshot(bytes)).toThrow('upgrade @react-three-dom/cypress');
+  });
+});
@@ -12,8 +12,16 @@
  */
 
 /// <reference types="cypress" />
-import type { R3FDOM, SnapshotNode, SceneSnapshot, BridgeDiagnostics, ObjectMetadata } from './types';
-import { diffSnapshots } from './diffSnapshots';
+import type { R3FDOM, SnapshotNode, SceneSnapshot, SnapshotOptions, BridgeDiagnostics, ObjectMetadata, SpatialQueryOptions, GestureOptions, KeyPressOptions, LongPressOptions, CaptureDragOptions, DragToOptions, TypeTextOptions } from './types';
+import { diffSnapshots, type DiffSnapshotsOptions } from './diffSnapshots';
+import { decodeSnapshot, decodePartialSnapshot } from './binarySnapshot';
+import {
+  compareStableSceneTrees,
+  formatStableSceneTree,
+  toStableSceneTree,
+  type SceneSnapshotMatchOptions,
+  type StableSceneNode,
+} from './sceneSnapshots';
 import { R3FReporter } from './reporter';
 import { _setReporter, _getReporter } from './reporterState';
 
@@ -43,6 +51,14 @@ function getR3F(win: Cypress.AUTWindow): R3FDOM {
   return api;
 }
 
+/** `<spec dir>/__scene-snapshots__/<spec file>/<name>.json`, relative to the project root */
+function sceneSnapshotPath(specRelative: string, name: string): string {
+  const slash = specRelative.lastIndexOf('/');
+  const dir = slash === -1 ? '' : specRelative.slice(0, slash + 1);
+  const safeName = name.replace(/[^\w.-]+/g, '-');
+  return `${dir}__scene-snapshots__/${specRelative.slice(slash + 1)}/${safeName}.json`;
+}
+
 // ---------------------------------------------------------------------------
 // Auto-wait: poll until bridge is ready + object exists
 // ---------------------------------------------------------------------------
@@ -112,7 +128,7 @@ function autoWaitForObject(
       }
 
       if (api._ready) {
-        const found = (api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid)) !== null;
+        const found = (api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? api.getByPath(idOrUuid) ?? api.getInstance(idOrUuid)) !== null;
         if (found) return api;
       }
 
@@ -279,6 +295,12 @@ export function registerCommands(): void {
     },
   );
 
+  Cypress.Commands.add('r3fDragTo', (sourceId: string, targetId: string, options?: DragToOptions) => {
+    return autoWaitForObject(targetId)
+      .then(() => autoWaitForObject(sourceId))
+      .then((api) => Cypress.Promise.resolve(api.dragTo(sourceId, targetId, options)));
+  });
+
   Cypress.Commands.add(
     'r3fWheel',
     (idOrUuid: string, options?: { deltaY?: number; deltaX?: number }) => {
@@ -288,6 +310,27 @@ export function registerCommands(): void {
     },
   );
 
+  Cypress.Commands.add('r3fLongPress', (idOrUuid: string, options?: LongPressOptions) => {
+    // The hold itself can outlast the default command timeout
+    const timeout = (options?.durationMs ?? 600) + AUTO_WAIT_TIMEOUT;
+    return autoWaitForObject(idOrUuid).then({ timeout }, (api) => {
+      return Cypress.Promise.resolve(api.longPress(idOrUuid, options));
+    });
+  });
+
+  Cypress.Commands.add(
+    'r3fCaptureDrag',
+    (
+      idOrUuid: string,
+      to: { x: number; y: number } | { dx: number; dy: number },
+      options?: CaptureDragOptions,
+    ) => {
+      return autoWaitForObject(idOrUuid).then((api) => {
+        return Cypress.Promise.resolve(api.captureDrag(idOrUuid, to, options));
+      });
+    },
+  );
+
   Cypress.Commands.add('r3fPointerMiss', () => {
     return autoWaitForBridge().then((api) => {
       api.pointerMiss();
@@ -320,6 +363,58 @@ export function registerCommands(): void {
     },
   );
 
+  // ---- Two-finger gestures (auto-wait for target object, else bridge) ----
+
+  const autoWaitForGesture = (options?: GestureOptions) =>
+    options?.target ? autoWaitForObject(options.target) : autoWaitForBridge();
+
+  Cypress.Commands.add('r3fPinch', (scale: number, options?: GestureOptions) => {
+    return autoWaitForGesture(options).then((api) => {
+      return Cypress.Promise.resolve(api.pinch(scale, options));
+    });
+  });
+
+  Cypress.Commands.add('r3fRotateGesture', (degrees: number, options?: GestureOptions) => {
+    return autoWaitForGesture(options).then((api) => {
+      return Cypress.Promise.resolve(api.rotateGesture(degrees, options));
+    });
+  });
+
+  Cypress.Commands.add(
+    'r3fTwoFingerPan',
+    (delta: { dx: number; dy: number }, options?: GestureOptions) => {
+      return autoWaitForGesture(options).then((api) => {
+        return Cypress.Promise.resolve(api.twoFingerPan(delta, options));
+      });
+    },
+  );
+
+  // ---- Keyboard (auto-wait for bridge) ----
+
+  Cypress.Commands.add('r3fPress', (key: string, options?: KeyPressOptions) => {
+    return autoWaitForBridge().then((api) => {
+      return Cypress.Promise.resolve(api.press(key, options));
+    });
+  });
+
+  Cypress.Commands.add('r3fType', (text: string, options?: TypeTextOptions) => {
+    return autoWaitForBridge().then((api) => {
+      return Cypress.Promise.resolve(api.type(text, options));
+    });
+  });
+
+  Cypress.Commands.add('r3fKeyDown', (key: string) => {
+    return autoWaitForBridge().then((api) => {
+      return Cypress.Promise.resolve(api.keyDown(key));
+    });
+  });
+
+  Cypress.Commands.add('r3fKeyUp', (key: string) => {
+    return autoWaitForBridge().then((api) => {
+      return Cypress.Promise.resolve(api.keyUp(key));
+    });
+  });
+
   // ---- Diagnostics ----
 
   Cypress.Commands.add('r3fLogScene', () => {
@@ -348,6 +443,12 @@ export function registerCommands(): void {
     });
   });
 
+  Cypress.Commands.add('r3fGetSceneStats', () => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getSceneStats();
+    });
+  });
+
   Cypress.Commands.add('r3fLogDiagnostics', () => {
     return cy.window({ log: false }).then((win) => {
       const api = getR3F(win);
@@ -366,6 +467,9 @@ export function registerCommands(): void {
         `  Canvas:    ${d.canvasWidth}×${d.canvasHeight}`,
         `  GPU:       ${d.webglRenderer}`,
         `  Dirty:     ${d.dirtyQueueSize} queued updates`,
+        d.userDataIndexes
+          ? `  Indexes:   ${d.userDataIndexes.keys.join(', ') || '(none)'}  ${d.userDataIndexes.hits} hits, ${d.userDataIndexes.misses} misses`
+          : null,
       ].filter(Boolean).join('\n');
 
       Cypress.log({
@@ -384,7 +488,7 @@ export function registerCommands(): void {
   Cypress.Commands.add('r3fGetObject', (idOrUuid: string) => {
     return cy.window({ log: false }).then((win) => {
       const api = getR3F(win);
-      return api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? null;
+      return api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? api.getByPath(idOrUuid) ?? null;
     });
   });
 
@@ -406,6 +510,12 @@ export function registerCommands(): void {
     });
   });
 
+  Cypress.Commands.add('r3fGetPath', (idOrUuid: string) => {
+    return cy.window({ log: false }).then((win) => {
+      return Cypress.Promise.resolve(getR3F(win).getPath(idOrUuid));
+    });
+  });
+
   Cypress.Commands.add('r3fGetChildren', (idOrUuid: string) => {
     return cy.window({ log: false }).then((win) => {
       return getR3F(win).getChildren(idOrUuid);
@@ -432,8 +542,8 @@ export function registerCommands(): void {
     });
   });
 
-  Cypress.Commands.add('r3fDiffSnapshots', (before: SceneSnapshot, after: SceneSnapshot) => {
-    return cy.wrap(diffSnapshots(before, after), { log: false });
+  Cypress.Commands.add('r3fDiffSnapshots', (before: SceneSnapshot, after: SceneSnapshot, options?: DiffSnapshotsOptions) => {
+    return cy.wrap(diffSnapshots(before, after, options), { log: false });
   });
 
   Cypress.Commands.add('r3fTrackObjectCount', (action: () => Cypress.Chainable<unknown>) => {
@@ -455,9 +565,103 @@ export function registerCommands(): void {
     });
   });
 
-  Cypress.Commands.add('r3fSnapshot', () => {
+  Cypress.Commands.add('r3fSnapshot', (options?: SnapshotOptions) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).snapshot(options);
+    });
+  });
+
+  Cypress.Commands.add('r3fSnapshotAsync', () => {
+    return cy.window({ log: false }).then((win) => {
+      const api = getR3F(win);
+      // Worker-computed when ThreeDom has `worker` enabled
+      return Cypress.Promise.resolve(typeof api.snapshotAsync === 'function' ? api.snapshotAsync() : api.snapshot());
+    });
+  });
+
+  Cypress.Commands.add('r3fSnapshotBinary', (options?: SnapshotOptions) => {
+    return cy.window({ log: false }).then((win) => {
+      const encoded = getR3F(win).snapshotBinary(options);
+      return options?.fields ? decodePartialSnapshot(encoded) : decodeSnapshot(encoded);
+    });
+  });
+
+  Cypress.Commands.add('r3fMatchSceneSnapshot', (name: string, options?: SceneSnapshotMatchOptions) => {
+    const { root, depth, filter, tolerance, ignore, precision } = options ?? {};
+    const timeout = options?.timeout ?? AUTO_WAIT_TIMEOUT;
+    const pollIntervalMs = options?.pollIntervalMs ?? AUTO_WAIT_POLL_MS;
+    const snapshotOptions = root !== undefined || depth !== undefined || filter !== undefined
+      ? { root, depth, filter }
+      : undefined;
+    const compareOptions = { tolerance, ignore, precision };
+    const file = sceneSnapshotPath(Cypress.spec.relative, name);
+    const update = Boolean(Cypress.env('updateSceneSnapshots'));
+
+    // cy.readFile fails on a missing file, so make sure it exists (empty)
+    // first; raw bytes, because .json files are otherwise parsed on read
+    return cy.writeFile(file, '', { flag: 'a+', log: false })
+      .then(() => cy.readFile(file, null, { log: false }))
+      .then((contents: Uint8Array) => {
+        const text = new TextDecoder().decode(contents);
+        const expected: StableSceneNode | null = text.trim()
+          ? toStableSceneTree(JSON.parse(text) as StableSceneNode, compareOptions)
+          : null;
+        const startTime = Date.now();
+
+        function poll(): Cypress.Chainable<null> {
+          return cy.window({ log: false }).then((win): Cypress.Chainable<null> => {
+            const actual = toStableSceneTree(getR3F(win).snapshot(snapshotOptions), compareOptions);
+            if (!expected) {
+              // Like Playwright snapshots: a new golden only passes when updating
+              return cy.writeFile(file, formatStableSceneTree(actual), { log: false }).then(() => {
+                if (!update) {
+                  throw new Error(
+                    `Scene snapshot "${name}" did not exist, writing actual to ${file}. ` +
+                    'Run with --env updateSceneSnapshots=true to accept new snapshots.',
+                  );
+                }
+                Cypress.log({ name: 'r3fMatchSceneSnapshot', message: `"${name}" written to ${file}` });
+                return null;
+              });
+            }
+            const mismatch = compareStableSceneTrees(expected, actual, compareOptions);
+            if (!mismatch) {
+              Cypress.log({ name: 'r3fMatchSceneSnapshot', message: `"${name}" matches` });
+              return cy.wrap(null, { log: false });
+            }
+            if (update) {
+              Cypress.log({ name: 'r3fMatchSceneSnapshot', message: `"${name}" updated in ${file}` });
+              return cy.writeFile(file, formatStableSceneTree(actual), { log: false });
+            }
+            if (Date.now() - startTime > timeout) {
+              throw new Error(
+                `Expected scene to match snapshot "${name}" (${file}), but ${mismatch.count} node(s) differ (waited ${timeout}ms):\n` +
+                `${mismatch.diff}\n\nRun with --env updateSceneSnapshots=true to accept the new scene.`,
+              );
+            }
+            return cy.wait(pollIntervalMs, { log: false }).then(() => poll());
+          });
+        }
+
+        return poll();
+      });
+  });
+
+  Cypress.Commands.add('r3fGetChangesSince', (since: number) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getChangesSince(since);
+    });
+  });
+
+  Cypress.Commands.add('r3fGetJournalSeq', () => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getJournalSeq();
+    });
+  });
+
+  Cypress.Commands.add('r3fGetHistory', (idOrUuid: string) => {
     return cy.window({ log: false }).then((win) => {
-      return getR3F(win).snapshot();
+      return getR3F(win).getHistory(idOrUuid);
     });
   });
 
@@ -481,6 +685,71 @@ export function registerCommands(): void {
     });
   });
 
+  Cypress.Commands.add('r3fGetByField', (name: string, value: string | number | boolean) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getByField(name, value);
+    });
+  });
+
+  Cypress.Commands.add('r3fQuery', (selector: string) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).query(selector);
+    });
+  });
+
+  // ---- Spatial queries ----
+
+  Cypress.Commands.add(
+    'r3fGetInBox',
+    (
+      box: { min: [number, number, number]; max: [number, number, number] },
+      options?: SpatialQueryOptions,
+    ) => {
+      return cy.window({ log: false }).then((win) => {
+        return getR3F(win).getInBox(box, options);
+      });
+    },
+  );
+
+  Cypress.Commands.add(
+    'r3fGetWithinRadius',
+    (center: [number, number, number], radius: number, options?: SpatialQueryOptions) => {
+      return cy.window({ log: false }).then((win) => {
+        return getR3F(win).getWithinRadius(center, radius, options);
+      });
+    },
+  );
+
+  Cypress.Commands.add('r3fGetInFrustum', (cameraIdOrUuid?: string, options?: SpatialQueryOptions) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getInFrustum(cameraIdOrUuid, options);
+    });
+  });
+
+  Cypress.Commands.add('r3fGetEffectiveVisibility', (idOrUuid: string, options?: { frustum?: boolean }) => {
+    return cy.window({ log: false }).then((win) => {
+      return Cypress.Promise.resolve(getR3F(win).getEffectiveVisibility(idOrUuid, options));
+    });
+  });
+
+  Cypress.Commands.add('r3fGetInstances', (idOrUuid: string) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getInstances(idOrUuid);
+    });
+  });
+
+  Cypress.Commands.add('r3fGetInstance', (id: string) => {
+    return cy.window({ log: false }).then((win) => {
+      return Cypress.Promise.resolve(getR3F(win).getInstance(id));
+    });
+  });
+
+  Cypress.Commands.add('r3fGetAnimations', (rootIdOrUuid?: string) => {
+    return cy.window({ log: false }).then((win) => {
+      return getR3F(win).getAnimations(rootIdOrUuid);
+    });
+  });
+
   Cypress.Commands.add('r3fGetCountByType', (type: string) => {
     return cy.window({ log: false }).then((win) => {
       return getR3F(win).getCountByType(type);
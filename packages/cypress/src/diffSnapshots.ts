@@ -2,6 +2,7 @@
 
 import type { SceneSnapshot, SnapshotNode } from './types';
 
+/** Describes a single property change on an object that exists in both snapshots. */
 export interface SceneDiffChange {
   uuid: string;
   field: string;
@@ -9,10 +10,74 @@ export interface SceneDiffChange {
   to: unknown;
 }
 
+/** Describes an object that exists in both snapshots under different parents. */
+export interface SceneDiffReparent {
+  uuid: string;
+  /** Parent uuid in `before` (null for a root) */
+  from: string | null;
+  /** Parent uuid in `after` (null for a root) */
+  to: string | null;
+  node: SnapshotNode;
+}
+
+/** Describes an object that exists in both snapshots under a different name. */
+export interface SceneDiffRename {
+  uuid: string;
+  from: string;
+  to: string;
+  node: SnapshotNode;
+}
+
+/** Describes an object that moved among its siblings under the same parent. */
+export interface SceneDiffReorder {
+  uuid: string;
+  /** Index among the parent's children in `before` */
+  from: number;
+  /** Index among the parent's children in `after` */
+  to: number;
+  node: SnapshotNode;
+}
+
+/** Result of diffing two scene snapshots. */
 export interface SceneDiff {
+  /** Nodes present in `after` but not in `before` (from `after` tree). */
   added: SnapshotNode[];
+  /** Nodes present in `before` but not in `after` (from `before` tree). */
   removed: SnapshotNode[];
+  /** Property changes for nodes that exist in both; each entry is one field that changed. */
   changed: SceneDiffChange[];
+  /** Nodes present in both whose parent changed (from `after` tree). */
+  reparented: SceneDiffReparent[];
+  /** Nodes present in both whose name changed (also listed in `changed`). */
+  renamed: SceneDiffRename[];
+  /**
+   * Nodes that kept their parent but moved among its children. Only the
+   * nodes that moved are listed, not siblings shifted by them.
+   */
+  reordered: SceneDiffReorder[];
+}
+
+/** Options for {@link diffSnapshots} and {@link formatSceneDiff}. */
+export interface DiffSnapshotsOptions {
+  /**
+   * How nodes in `before` and `after` are paired:
+   * - `'uuid'` (default): same uuid; only valid within one page session.
+   * - `'testId'`: same testId, else the same path of names from a paired parent.
+   * - `'path'`: the same path of names (or types, for unnamed nodes).
+   *
+   * With `'testId'` and `'path'`, leftover nodes with the same type, name
+   * and local transform under different parents are then paired as moves
+   * (`reparented`), when the match is unambiguous.
+   */
+  matchBy?: 'uuid' | 'testId' | 'path';
+  /**
+   * Largest numeric difference still treated as equal: one value for every
+   * field, or per field (`custom.<name>` for extractor values) with `'*'`
+   * as the fallback. Default: 0
+   */
+  tolerance?: number | Record<string, number>;
+  /** Fields not to compare, e.g. `['rotation', 'geometryVersion']`. */
+  ignore?: string[];
 }
 
 const FIELDS_TO_COMPARE: (keyof SnapshotNode)[] = [
@@ -23,54 +88,372 @@ const FIELDS_TO_COMPARE: (keyof SnapshotNode)[] = [
   'position',
   'rotation',
   'scale',
+  // Geometry edited in place
+  'geometryVersion',
+  'drawRange',
+  'morphTargetInfluences',
+  // Extended tier (undefined on both sides unless extendedMetadata is enabled)
+  'color',
+  'emissive',
+  'opacity',
+  'transparent',
+  'materialVisible',
+  'map',
+  'intensity',
+  'lightColor',
+  'castShadow',
 ];
 
-function flattenTree(node: SnapshotNode): Map<string, SnapshotNode> {
-  const map = new Map<string, SnapshotNode>();
-  function walk(n: SnapshotNode) {
-    map.set(n.uuid, n);
-    n.children.forEach(walk);
+/** Per-node bookkeeping for one side of the diff. */
+interface Entry {
+  node: SnapshotNode;
+  parent: Entry | null;
+  /** Index among the parent's children */
+  index: number;
+  /** Paired entry on the other side */
+  partner: Entry | null;
+  children: Entry[];
+}
+
+function flattenTree(root: SnapshotNode): Entry[] {
+  const entries: Entry[] = [];
+  function walk(node: SnapshotNode, parent: Entry | null, index: number): Entry {
+    const entry: Entry = { node, parent, index, partner: null, children: [] };
+    entries.push(entry);
+    entry.children = node.children.map((c, i) => walk(c, entry, i));
+    return entry;
   }
-  walk(node);
-  return map;
+  walk(root, null, 0);
+  return entries;
 }
 
-function valueEqual(a: unknown, b: unknown): boolean {
+function toleranceFor(field: string, tolerance: DiffSnapshotsOptions['tolerance']): number {
+  if (typeof tolerance === 'number') return tolerance;
+  return tolerance?.[field] ?? tolerance?.['*'] ?? 0;
+}
+
+function valueEqual(a: unknown, b: unknown, tolerance = 0): boolean {
   if (a === b) return true;
+  if (typeof a === 'number' && typeof b === 'number') return Math.abs(a - b) <= tolerance;
   if (Array.isArray(a) && Array.isArray(b)) {
     if (a.length !== b.length) return false;
-    return a.every((v, i) => valueEqual(v, b[i]));
+    return a.every((v, i) => valueEqual(v, b[i], tolerance));
   }
   return false;
 }
 
-export function diffSnapshots(before: SceneSnapshot, after: SceneSnapshot): SceneDiff {
-  const beforeMap = flattenTree(before.tree);
-  const afterMap = flattenTree(after.tree);
+function pair(b: Entry, a: Entry): void {
+  b.partner = a;
+  a.partner = b;
+}
+
+/** Pair nodes whose key is unique on both sides. */
+function pairByKey(before: Entry[], after: Entry[], key: (node: SnapshotNode) => string | undefined): void {
+  const index = (entries: Entry[]) => {
+    const map = new Map<string, Entry | null>();
+    for (const e of entries) {
+      const k = key(e.node);
+      if (k !== undefined) map.set(k, map.has(k) ? null : e);
+    }
+    return map;
+  };
+  const afterIndex = index(after);
+  for (const [k, b] of index(before)) {
+    const a = afterIndex.get(k);
+    if (b && a) pair(b, a);
+  }
+}
+
+/** Path segment: name (or type when unnamed) */
+function segment(node: SnapshotNode): string {
+  return node.name || node.type;
+}
 
-  const added: SnapshotNode[] = [];
-  const removed: SnapshotNode[] = [];
-  const changed: SceneDiffChange[] = [];
+/** Leftover siblings that look like the same object under a new name. */
+function isLikelyRename(b: SnapshotNode, a: SnapshotNode, tolerance: DiffSnapshotsOptions['tolerance']): boolean {
+  return (
+    b.type === a.type &&
+    b.testId === a.testId &&
+    valueEqual(b.position, a.position, toleranceFor('position', tolerance)) &&
+    valueEqual(b.rotation, a.rotation, toleranceFor('rotation', tolerance)) &&
+    valueEqual(b.scale, a.scale, toleranceFor('scale', tolerance))
+  );
+}
+
+/**
+ * Pair the unpaired children of every paired node, top-down: first by path
+ * segment (duplicates in order), then leftovers that look like renames.
+ * `before` is in pre-order, so parents are paired before their children.
+ */
+function pairByStructure(before: Entry[], after: Entry[], tolerance: DiffSnapshotsOptions['tolerance']): void {
+  if (!before[0].partner && !after[0].partner) pair(before[0], after[0]);
+  for (const b of before) {
+    const a = b.partner;
+    if (!a) continue;
+    const bFree = b.children.filter((c) => !c.partner);
+    const aFree = a.children.filter((c) => !c.partner);
+    const bySegment = new Map<string, Entry[]>();
+    for (const c of aFree) {
+      const list = bySegment.get(segment(c.node));
+      if (list) list.push(c);
+      else bySegment.set(segment(c.node), [c]);
+    }
+    for (const c of bFree) {
+      const match = bySegment.get(segment(c.node))?.shift();
+      if (match) pair(c, match);
+    }
+    for (const c of bFree) {
+      if (c.partner) continue;
+      const match = aFree.find((x) => !x.partner && isLikelyRename(c.node, x.node, tolerance));
+      if (match) pair(c, match);
+    }
+  }
+}
 
-  for (const [, node] of afterMap) {
-    if (!beforeMap.has(node.uuid)) added.push(node);
+/**
+ * Pair leftover nodes that moved to another parent: same type, name and
+ * testId and the same local transform. Only matches unique on both sides
+ * are paired, so identical unnamed siblings stay removed + added.
+ */
+function pairMoved(before: Entry[], after: Entry[], tolerance: DiffSnapshotsOptions['tolerance']): void {
+  const key = (e: Entry) => `${e.node.type}\0${e.node.name}\0${e.node.testId ?? ''}`;
+  const candidates = new Map<string, Entry[]>();
+  for (const a of after) {
+    if (a.partner) continue;
+    const list = candidates.get(key(a));
+    if (list) list.push(a);
+    else candidates.set(key(a), [a]);
   }
-  for (const [, node] of beforeMap) {
-    if (!afterMap.has(node.uuid)) removed.push(node);
+  const leftover = before.filter((b) => !b.partner);
+  for (const b of leftover) {
+    const matches = (candidates.get(key(b)) ?? []).filter((a) => !a.partner && isLikelyRename(b.node, a.node, tolerance));
+    if (matches.length !== 1) continue;
+    const [a] = matches;
+    const rivals = leftover.filter((x) => !x.partner && key(x) === key(b) && isLikelyRename(x.node, a.node, tolerance));
+    if (rivals.length === 1) pair(b, a);
   }
+}
+
+/** Indices (into `seq`) of one longest strictly increasing subsequence. */
+function longestIncreasing(seq: number[]): Set<number> {
+  const tails: number[] = [];
+  const prev = new Array<number>(seq.length).fill(-1);
+  for (let i = 0; i < seq.length; i++) {
+    let lo = 0;
+    let hi = tails.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (seq[tails[mid]] < seq[i]) lo = mid + 1;
+      else hi = mid;
+    }
+    if (lo > 0) prev[i] = tails[lo - 1];
+    tails[lo] = i;
+  }
+  const kept = new Set<number>();
+  for (let i = tails.length ? tails[tails.length - 1] : -1; i !== -1; i = prev[i]) kept.add(i);
+  return kept;
+}
+
+interface PairedDiff {
+  diff: SceneDiff;
+  before: Entry[];
+  after: Entry[];
+}
 
-  for (const [uuid, afterNode] of afterMap) {
-    const beforeNode = beforeMap.get(uuid);
-    if (!beforeNode) continue;
+function computeDiff(before: SceneSnapshot, after: SceneSnapshot, options: DiffSnapshotsOptions): PairedDiff {
+  const { matchBy = 'uuid', tolerance } = options;
+  const ignore = new Set(options.ignore ?? []);
+  const beforeEntries = flattenTree(before.tree);
+  const afterEntries = flattenTree(after.tree);
+
+  if (matchBy === 'uuid') {
+    pairByKey(beforeEntries, afterEntries, (n) => n.uuid);
+  } else {
+    if (matchBy === 'testId') pairByKey(beforeEntries, afterEntries, (n) => n.testId);
+    pairByStructure(beforeEntries, afterEntries, tolerance);
+    // Then nodes moved to another parent, and the subtrees below them
+    pairMoved(beforeEntries, afterEntries, tolerance);
+    pairByStructure(beforeEntries, afterEntries, tolerance);
+  }
+
+  const diff: SceneDiff = { added: [], removed: [], changed: [], reparented: [], renamed: [], reordered: [] };
+  for (const e of afterEntries) {
+    if (!e.partner) diff.added.push(e.node);
+  }
+  for (const e of beforeEntries) {
+    if (!e.partner) diff.removed.push(e.node);
+  }
+
+  for (const a of afterEntries) {
+    const b = a.partner;
+    if (!b) continue;
+    const beforeNode = b.node;
+    const afterNode = a.node;
+    const uuid = afterNode.uuid;
+
+    if ((b.parent ? b.parent.partner : null) !== a.parent) {
+      diff.reparented.push({ uuid, from: b.parent?.node.uuid ?? null, to: a.parent?.node.uuid ?? null, node: afterNode });
+    }
+    if (beforeNode.name !== afterNode.name && !ignore.has('name')) {
+      diff.renamed.push({ uuid, from: beforeNode.name, to: afterNode.name, node: afterNode });
+    }
 
     for (const field of FIELDS_TO_COMPARE) {
+      if (ignore.has(field)) continue;
       const from = (beforeNode as unknown as Record<string, unknown>)[field];
       const to = (afterNode as unknown as Record<string, unknown>)[field];
-      if (!valueEqual(from, to)) {
-        changed.push({ uuid, field, from, to });
+      if (!valueEqual(from, to, toleranceFor(field, tolerance))) {
+        diff.changed.push({ uuid, field, from, to });
       }
     }
+
+    // Extractor fields, reported as `custom.<name>`
+    if ((beforeNode.custom || afterNode.custom) && !ignore.has('custom')) {
+      const names = new Set([...Object.keys(beforeNode.custom ?? {}), ...Object.keys(afterNode.custom ?? {})]);
+      for (const name of names) {
+        const field = `custom.${name}`;
+        if (ignore.has(field)) continue;
+        const from = beforeNode.custom?.[name];
+        const to = afterNode.custom?.[name];
+        if (!valueEqual(from, to, toleranceFor(field, tolerance))) diff.changed.push({ uuid, field, from, to });
+      }
+    }
+
+    // Children that stayed under this parent, in `after` order; those
+    // outside the longest run still in `before` order are the ones that moved
+    const stayed = a.children.filter((c) => c.partner && c.partner.parent === b);
+    const kept = longestIncreasing(stayed.map((c) => c.partner!.index));
+    stayed.forEach((c, i) => {
+      if (!kept.has(i)) {
+        diff.reordered.push({ uuid: c.node.uuid, from: c.partner!.index, to: c.index, node: c.node });
+      }
+    });
   }
 
-  return { added, removed, changed };
+  return { diff, before: beforeEntries, after: afterEntries };
+}
+
+/**
+ * Compare two scene snapshots and return added, removed, reparented,
+ * renamed and reordered nodes, and property changes for nodes that exist
+ * in both.
+ *
+ * - **added**: nodes in `after` with no counterpart in `before`.
+ * - **removed**: nodes in `before` with no counterpart in `after`.
+ * - **reparented**: nodes in both whose parent differs.
+ * - **renamed**: nodes in both whose name differs.
+ * - **reordered**: nodes that moved among the children of the same parent.
+ * - **changed**: for each node in both, lists field-level changes
+ *   (name, type, testId, visible, position, rotation, scale, geometry
+ *   version / draw range / morph influences, extended appearance fields
+ *   such as color, opacity and intensity, and extractor fields as
+ *   `custom.<name>`), numbers compared within `tolerance`.
+ *
+ * Uuids in the result are from `after`, except `removed` nodes and the
+ * `from` parent of a reparent, which are from `before`.
+ *
+ * @example
+ * ```ts
+ * // Across a reload: pair by testId, ignore float noise in transforms
+ * diffSnapshots(before, after, { matchBy: 'testId', tolerance: { position: 1e-3, rotation: 1e-3 } });
+ * ```
+ */
+export function diffSnapshots(before: SceneSnapshot, after: SceneSnapshot, options: DiffSnapshotsOptions = {}): SceneDiff {
+  return computeDiff(before, after, options).diff;
+}
+
+// ---------------------------------------------------------------------------
+// Tree rendering
+// ---------------------------------------------------------------------------
+
+function label(node: SnapshotNode): string {
+  let text = node.type;
+  if (node.name) text += ` "${node.name}"`;
+  if (node.testId) text += ` [testId: ${node.testId}]`;
+  return text;
+}
+
+function printValue(value: unknown): string {
+  if (value === undefined) return '(none)';
+  if (Array.isArray(value)) return `[${value.map(printValue).join(', ')}]`;
+  return JSON.stringify(value);
+}
+
+function countDescendants(node: SnapshotNode): number {
+  let total = 0;
+  for (const child of node.children) total += 1 + countDescendants(child);
+  return total;
+}
+
+function withDescendants(node: SnapshotNode): string {
+  const n = countDescendants(node);
+  return n ? ` (with ${n} descendant${n === 1 ? '' : 's'})` : '';
+}
+
+/**
+ * Render the differences between two snapshots as an indented tree of the
+ * `after` scene that only shows changed branches, for test failure
+ * messages. Markers: `+` added, `-` removed, `~` changed fields (listed
+ * below as before → after), `>` moved to another parent or position.
+ * Returns an empty string when nothing differs.
+ *
+ * @example
+ * ```ts
+ * const text = formatSceneDiff(before, after, { matchBy: 'testId' });
+ * expect(text, text).toBe('');
+ * ```
+ */
+export function formatSceneDiff(before: SceneSnapshot, after: SceneSnapshot, options: DiffSnapshotsOptions = {}): string {
+  const { diff, before: beforeEntries, after: afterEntries } = computeDiff(before, after, options);
+  const changes = new Map<string, SceneDiffChange[]>();
+  for (const c of diff.changed) {
+    const list = changes.get(c.uuid);
+    if (list) list.push(c);
+    else changes.set(c.uuid, [c]);
+  }
+  const reparented = new Map(diff.reparented.map((r) => [r.uuid, r]));
+  const reordered = new Map(diff.reordered.map((r) => [r.uuid, r]));
+
+  // Removed subtrees are shown under the counterpart of their old parent
+  const removedUnder = new Map<Entry, Entry[]>();
+  for (const b of beforeEntries) {
+    if (b.partner || !b.parent?.partner) continue;
+    const list = removedUnder.get(b.parent.partner);
+    if (list) list.push(b);
+    else removedUnder.set(b.parent.partner, [b]);
+  }
+  const beforeLabel = (uuid: string | null) => {
+    const entry = beforeEntries.find((e) => e.node.uuid === uuid);
+    return entry ? label(entry.node) : 'the root';
+  };
+
+  const render = (a: Entry, depth: number): string[] => {
+    const pad = '  '.repeat(depth);
+    const node = a.node;
+    if (!a.partner) return [`+ ${pad}${label(node)}${withDescendants(node)}`];
+
+    const notes: string[] = [];
+    const reparent = reparented.get(node.uuid);
+    if (reparent) notes.push(`moved from ${beforeLabel(reparent.from)}`);
+    const reorder = reordered.get(node.uuid);
+    if (reorder) notes.push(`order ${reorder.from} → ${reorder.to}`);
+    const fieldLines = (changes.get(node.uuid) ?? []).map(
+      (c) => `  ${pad}    ${c.field}: ${printValue(c.from)} → ${printValue(c.to)}`,
+    );
+    const childLines: string[] = [];
+    for (const child of a.children) childLines.push(...render(child, depth + 1));
+    for (const b of removedUnder.get(a) ?? []) {
+      childLines.push(`- ${pad}  ${label(b.node)}${withDescendants(b.node)}`);
+    }
+
+    if (notes.length === 0 && fieldLines.length === 0 && childLines.length === 0) return [];
+    const marker = notes.length > 0 ? '>' : fieldLines.length > 0 ? '~' : ' ';
+    const suffix = notes.length > 0 ? ` (${notes.join(', ')})` : '';
+    return [`${marker} ${pad}${label(node)}${suffix}`, ...fieldLines, ...childLines];
+  };
+
+  const lines = render(afterEntries[0], 0);
+  // A removed or replaced root cannot be shown under a counterpart
+  if (!afterEntries[0].partner) lines.unshift(`- ${label(beforeEntries[0].node)}${withDescendants(beforeEntries[0].node)}`);
+  return lines.join('\n');
 }
@@ -6,8 +6,9 @@
 //   import '@react-three-dom/cypress';
 // ---------------------------------------------------------------------------
 
-import type { ObjectMetadata, ObjectInspection, SceneSnapshot, BridgeDiagnostics, CameraState } from './types';
-import type { SceneDiff } from './diffSnapshots';
+import type { ObjectMetadata, ObjectInspection, SceneSnapshot, PartialSceneSnapshot, SnapshotOptions, BridgeDiagnostics, CameraState, GestureOptions, GestureResult, KeyPressOptions, LongPressOptions, CaptureDragOptions, CaptureDragResult, DragToOptions, DragToResult, TypeTextOptions, SpatialQueryOptions, StoreChangeSet, ObjectHistoryEntry, EffectiveVisibility, InstanceMetadata, AnimationActionState, SceneStats, SceneBudget } from './types';
+import type { DiffSnapshotsOptions, SceneDiff } from './diffSnapshots';
+import type { SceneSnapshotMatchOptions } from './sceneSnapshots';
 
 declare global {
   namespace Cypress {
@@ -38,11 +39,18 @@ declare global {
       r3fGetDiagnostics(): Chainable<BridgeDiagnostics | null>;
       /** Log bridge diagnostics to the Cypress command log and browser console. */
       r3fLogDiagnostics(): Chainable<void>;
+      /** Render-cost stats: draw calls, triangles, programs, materials, geometries, textures. */
+      r3fGetSceneStats(): Chainable<SceneStats>;
+      /**
+       * Sample scene stats every `pollIntervalMs` (default 100) for `duration` ms (default 1000)
+       * and fail on the first sample over budget. Yields the last stats.
+       */
+      r3fStayWithinBudget(budget: SceneBudget, options?: { duration?: number; pollIntervalMs?: number }): Chainable<SceneStats>;
       /** Fuzzy search for objects by partial testId, name, or uuid. */
       r3fFuzzyFind(query: string, limit?: number): Chainable<ObjectMetadata[]>;
 
       // ---- Interactions ----
-      /** Click a 3D object by testId or uuid. Auto-waits for bridge + object. */
+      /** Click a 3D object by testId or uuid (or an InstancedMesh instance, "trees#42"). Auto-waits for bridge + object. */
       r3fClick(idOrUuid: string): Chainable<void>;
       /** Double-click a 3D object by testId or uuid. Auto-waits for bridge + object. */
       r3fDoubleClick(idOrUuid: string): Chainable<void>;
@@ -54,8 +62,24 @@ declare global {
       r3fUnhover(): Chainable<void>;
       /** Drag a 3D object with a world-space delta vector. Auto-waits for bridge + object. */
       r3fDrag(idOrUuid: string, delta: { x: number; y: number; z: number }): Chainable<void>;
+      /**
+       * Drag one 3D object onto another, hovering over the target before the drop.
+       * Yields the source position after the drop. Auto-waits for bridge + both objects.
+       */
+      r3fDragTo(sourceId: string, targetId: string, options?: DragToOptions): Chainable<DragToResult>;
       /** Dispatch a wheel/scroll event on a 3D object. Auto-waits for bridge + object. */
       r3fWheel(idOrUuid: string, options?: { deltaY?: number; deltaX?: number }): Chainable<void>;
+      /** Press and hold a 3D object for `durationMs` (default 600), optionally with jitter moves. Auto-waits for bridge + object. */
+      r3fLongPress(idOrUuid: string, options?: LongPressOptions): Chainable<void>;
+      /**
+       * Drag a 3D object to a canvas-relative point (may be outside the canvas) or by `{ dx, dy }`,
+       * honoring pointer capture. Yields which objects' onPointerMove / onPointerUp ran. Auto-waits for bridge + object.
+       */
+      r3fCaptureDrag(
+        idOrUuid: string,
+        to: { x: number; y: number } | { dx: number; dy: number },
+        options?: CaptureDragOptions,
+      ): Chainable<CaptureDragResult>;
       /** Click empty space to trigger onPointerMissed handlers. Auto-waits for bridge. */
       r3fPointerMiss(): Chainable<void>;
       /** Draw a freeform path on the canvas (for drawing/annotation apps). Auto-waits for bridge. */
@@ -63,6 +87,22 @@ declare global {
         points: Array<{ x: number; y: number; pressure?: number }>,
         options?: { stepDelayMs?: number; pointerType?: 'mouse' | 'pen' | 'touch'; clickAtEnd?: boolean },
       ): Chainable<{ eventCount: number; pointCount: number }>;
+      /** Two-finger pinch (scale > 1 spreads the fingers, < 1 pinches). Auto-waits for target object or bridge. */
+      r3fPinch(scale: number, options?: GestureOptions): Chainable<GestureResult>;
+      /** Two-finger rotation by `degrees` (clockwise on screen). Auto-waits for target object or bridge. */
+      r3fRotateGesture(degrees: number, options?: GestureOptions): Chainable<GestureResult>;
+      /** Two-finger pan by a screen-space delta. Auto-waits for target object or bridge. */
+      r3fTwoFingerPan(delta: { dx: number; dy: number }, options?: GestureOptions): Chainable<GestureResult>;
+
+      // ---- Keyboard ----
+      /** Press a key or combo ("r", "Control+Shift+Z") with the canvas focused. Auto-waits for bridge. */
+      r3fPress(key: string, options?: KeyPressOptions): Chainable<void>;
+      /** Type text one character at a time with the canvas focused. Auto-waits for bridge. */
+      r3fType(text: string, options?: TypeTextOptions): Chainable<void>;
+      /** Hold a key or combo down until r3fKeyUp; held modifiers apply to pointer commands (shift-drag, ctrl-click). */
+      r3fKeyDown(key: string): Chainable<void>;
+      /** Release keys held with r3fKeyDown. */
+      r3fKeyUp(key: string): Chainable<void>;
 
       // ---- Selection ----
       /** Select a 3D object (highlights in scene). Auto-waits for bridge + object. */
@@ -71,7 +111,7 @@ declare global {
       r3fClearSelection(): Chainable<void>;
 
       // ---- Queries ----
-      /** Get object metadata by testId or uuid. */
+      /** Get object metadata by testId, uuid or path id. */
       r3fGetObject(idOrUuid: string): Chainable<ObjectMetadata | null>;
       /** Get object metadata by testId. */
       r3fGetByTestId(testId: string): Chainable<ObjectMetadata | null>;
@@ -79,6 +119,8 @@ declare global {
       r3fGetByName(name: string): Chainable<ObjectMetadata[]>;
       /** Get object metadata by uuid only. */
       r3fGetByUuid(uuid: string): Chainable<ObjectMetadata | null>;
+      /** Deterministic path id (e.g. "Scene/Group[name=F3]/Mesh[2]"), stable across reloads. */
+      r3fGetPath(idOrUuid: string): Chainable<string | null>;
       /** Get direct children of an object by testId or uuid. */
       r3fGetChildren(idOrUuid: string): Chainable<ObjectMetadata[]>;
       /** Get parent of an object by testId or uuid. */
@@ -87,14 +129,52 @@ declare global {
       r3fGetCanvas(): Chainable<JQuery<HTMLCanvasElement>>;
       /** Get world-space position [x, y, z] of an object. */
       r3fGetWorldPosition(idOrUuid: string): Chainable<[number, number, number] | null>;
-      /** Compare two scene snapshots (added, removed, changed). */
-      r3fDiffSnapshots(before: SceneSnapshot, after: SceneSnapshot): Chainable<SceneDiff>;
+      /**
+       * Compare two scene snapshots (added, removed, changed, reparented,
+       * renamed, reordered). Pass `matchBy: 'testId'` across reloads.
+       */
+      r3fDiffSnapshots(before: SceneSnapshot, after: SceneSnapshot, options?: DiffSnapshotsOptions): Chainable<SceneDiff>;
       /** Run an action and return { added, removed } object count change. */
       r3fTrackObjectCount(action: () => Cypress.Chainable<unknown>): Chainable<{ added: number; removed: number }>;
       /** Get heavy inspection data (Tier 2) by testId or uuid. */
       r3fInspect(idOrUuid: string): Chainable<ObjectInspection | null>;
-      /** Take a full scene snapshot. */
-      r3fSnapshot(): Chainable<SceneSnapshot>;
+      /**
+       * Take a scene snapshot; with `options`, of a subtree, keeping only
+       * some node types (or a predicate) and fields. With `fields` the
+       * nodes are partial.
+       */
+      r3fSnapshot(options?: SnapshotOptions & { fields?: undefined }): Chainable<SceneSnapshot>;
+      r3fSnapshot(options?: SnapshotOptions): Chainable<PartialSceneSnapshot>;
+      /** Take a full scene snapshot in the bridge's worker when ThreeDom has `worker` enabled. */
+      r3fSnapshotAsync(): Chainable<SceneSnapshot>;
+      /**
+       * Take a scene snapshot through the compact binary format
+       * (Float32 transforms — compare them with a tolerance).
+       */
+      r3fSnapshotBinary(options?: SnapshotOptions & { fields?: undefined }): Chainable<SceneSnapshot>;
+      r3fSnapshotBinary(options?: SnapshotOptions): Chainable<PartialSceneSnapshot>;
+      /**
+       * Compare the scene graph with a golden file next to the spec
+       * (`__scene-snapshots__/<spec file>/<name>.json`), retrying until it
+       * matches. Numbers match within `tolerance`; `ignore` drops fields.
+       * A missing golden is written and the command fails; with
+       * `--env updateSceneSnapshots=true` missing and mismatching goldens
+       * are written without waiting, and the command passes.
+       * @example cy.r3fMatchSceneSnapshot('room', { root: 'room', ignore: ['rotation'] });
+       */
+      r3fMatchSceneSnapshot(name: string, options?: SceneSnapshotMatchOptions): Chainable<null>;
+      /**
+       * Get store changes (batched per frame) after journal sequence `since`.
+       * Re-snapshot when the result is `truncated`.
+       */
+      r3fGetChangesSince(since: number): Chainable<StoreChangeSet>;
+      /** Latest change journal sequence number. */
+      r3fGetJournalSeq(): Chainable<number>;
+      /**
+       * Timestamped transform / visibility / parent changes of an object,
+       * oldest first. Requires `<ThreeDom history />`.
+       */
+      r3fGetHistory(idOrUuid: string): Chainable<ObjectHistoryEntry[]>;
       /** Get the total number of tracked objects. */
       r3fGetCount(): Chainable<number>;
 
@@ -107,6 +187,43 @@ declare global {
       r3fGetByMaterialType(type: string): Chainable<ObjectMetadata[]>;
       /** Get objects that have a specific userData key (and optionally matching value). */
       r3fGetByUserData(key: string, value?: unknown): Chainable<ObjectMetadata[]>;
+      /** Get objects whose extractor field (from `<ThreeDom extractors />`) equals `value`. */
+      r3fGetByField(name: string, value: string | number | boolean): Chainable<ObjectMetadata[]>;
+      /**
+       * Find objects with a CSS-like selector evaluated against Tier 1 metadata.
+       * @example cy.r3fQuery('Mesh[userData.floor=3] > Group#door-*')
+       */
+      r3fQuery(selector: string): Chainable<ObjectMetadata[]>;
+
+      // ---- Spatial queries ----
+      /**
+       * Objects whose world-space bounds intersect an axis-aligned box
+       * (`{ mode: 'contains' }` to require full containment).
+       * @example cy.r3fGetInBox({ min: [-1, 0, -1], max: [1, 2, 1] })
+       */
+      r3fGetInBox(
+        box: { min: [number, number, number]; max: [number, number, number] },
+        options?: SpatialQueryOptions,
+      ): Chainable<ObjectMetadata[]>;
+      /** Objects whose world-space bounds intersect a sphere of `radius` around `center`. */
+      r3fGetWithinRadius(
+        center: [number, number, number],
+        radius: number,
+        options?: SpatialQueryOptions,
+      ): Chainable<ObjectMetadata[]>;
+      /** Objects intersecting a camera frustum (active camera unless a camera testId/uuid is given). */
+      r3fGetInFrustum(cameraIdOrUuid?: string, options?: SpatialQueryOptions): Chainable<ObjectMetadata[]>;
+      /** Effective visibility with the reason an object is hidden (frustum checked unless `frustum: false`). */
+      r3fGetEffectiveVisibility(
+        idOrUuid: string,
+        options?: { frustum?: boolean },
+      ): Chainable<EffectiveVisibility | null>;
+      /** All instances of an InstancedMesh (position/rotation/scale from the instance matrix, color). */
+      r3fGetInstances(idOrUuid: string): Chainable<InstanceMetadata[]>;
+      /** One instance by "mesh#index" (e.g. "trees#42") or per-instance testId. */
+      r3fGetInstance(id: string): Chainable<InstanceMetadata | null>;
+      /** Action state (clip, time, weight, loop, running / finished) for tracked AnimationMixers. */
+      r3fGetAnimations(rootIdOrUuid?: string): Chainable<AnimationActionState[]>;
       /** Count objects of a given Three.js type. */
       r3fGetCountByType(type: string): Chainable<number>;
       /** Batch lookup: get metadata for multiple objects by testId or uuid. */
@@ -150,6 +267,15 @@ declare global {
         idOrUuid: string,
         options?: { bridgeTimeout?: number; pollIntervalMs?: number; timeout?: number },
       ): Chainable<void>;
+      /**
+       * Wait until an animation clip is "playing", "finished" (default) or "stopped".
+       * Fails if no tracked mixer has an action for the clip.
+       */
+      r3fWaitForAnimation(
+        clipName: string,
+        state?: 'playing' | 'finished' | 'stopped',
+        options?: { root?: string; bridgeTimeout?: number; pollIntervalMs?: number; timeout?: number },
+      ): Chainable<AnimationActionState>;
     }
 
     interface Assertion {
@@ -158,6 +284,8 @@ declare global {
       r3fExist(idOrUuid: string): Assertion;
       /** Assert that a 3D object is visible. */
       r3fVisible(idOrUuid: string): Assertion;
+      /** Assert the object is actually rendered (ancestors, layers, material, opacity, frustum). */
+      r3fEffectivelyVisible(idOrUuid: string, options?: { frustum?: boolean }): Assertion;
       /** Assert object local position within tolerance. */
       r3fPosition(idOrUuid: string, expected: [number, number, number], tolerance?: number): Assertion;
       /** Assert object world position within tolerance. */
@@ -180,6 +308,18 @@ declare global {
       r3fParent(idOrUuid: string, expectedParent: string): Assertion;
       /** Assert InstancedMesh instance count. */
       r3fInstanceCount(idOrUuid: string, expectedCount: number): Assertion;
+      /** Assert an instance's position ("mesh#index" or instance testId), mesh-local space. */
+      r3fInstancePosition(id: string, expected: [number, number, number], tolerance?: number): Assertion;
+      /** Assert an instance's color from the instanceColor buffer. */
+      r3fInstanceColor(id: string, expectedColor: string): Assertion;
+      /** Assert geometry was edited in place since `sinceVersion` (from metadata.geometryVersion). */
+      r3fGeometryChanged(idOrUuid: string, sinceVersion: number): Assertion;
+      /** Assert morph influences: full array, or `{ targetName: value }` by morphTargetDictionary name. */
+      r3fMorphTargetInfluences(
+        idOrUuid: string,
+        expected: number[] | Record<string, number>,
+        tolerance?: number,
+      ): Assertion;
 
       // ---- Tier 2: Inspection-based assertions (heavier) ----
       /** Assert that a 3D object is in the camera frustum. */
@@ -216,6 +356,12 @@ declare global {
       r3fTotalTriangleCount(expected: number): Assertion;
       /** Assert total triangle count is less than a maximum (performance budget). */
       r3fTotalTriangleCountLessThan(max: number): Assertion;
+      /** Assert render cost is within budget (retried by .should()), e.g. `{ drawCalls: 200, textureMB: 64 }`. */
+      r3fWithinBudget(budget: SceneBudget): Assertion;
+
+      // ---- Animation assertions ----
+      /** Assert an AnimationMixer action for the clip is running (optionally on one mixer root). */
+      r3fPlayingAnimation(clipName: string, root?: string): Assertion;
 
       // ---- Camera assertions ----
       /** Assert camera position within tolerance. */
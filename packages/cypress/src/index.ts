@@ -22,11 +22,48 @@ export type {
   ObjectMetadata,
   ObjectInspection,
   SceneSnapshot,
+  PartialSceneSnapshot,
+  PartialSnapshotNode,
+  SnapshotOptions,
   SnapshotNode,
   BridgeDiagnostics,
   CameraState,
+  GestureOptions,
+  GestureResult,
+  LongPressOptions,
+  CaptureDragOptions,
+  CaptureDragResult,
+  HandlerRecipient,
+  DragToOptions,
+  DragToResult,
+  KeyPressOptions,
+  TypeTextOptions,
+  SpatialQueryOptions,
+  EffectiveVisibility,
+  VisibilityReason,
+  InstanceMetadata,
+  AnimationActionState,
+  AnimationLoopMode,
+  SceneStats,
+  RenderInfoSample,
+  SceneBudget,
+  StoreChange,
+  StoreChangeBatch,
+  StoreChangeSet,
+  ObjectHistoryEntry,
+  HistoryChange,
   R3FDOM,
 } from './types';
-export type { SceneDiff, SceneDiffChange } from './diffSnapshots';
-export { diffSnapshots } from './diffSnapshots';
+export type {
+  SceneDiff,
+  SceneDiffChange,
+  SceneDiffReparent,
+  SceneDiffRename,
+  SceneDiffReorder,
+  DiffSnapshotsOptions,
+} from './diffSnapshots';
+export { diffSnapshots, formatSceneDiff } from './diffSnapshots';
+export { decodeSnapshot, decodePartialSnapshot, SNAPSHOT_BINARY_VERSION } from './binarySnapshot';
+export type { SceneSnapshotCompareOptions, SceneSnapshotMatchOptions, SceneSnapshotMismatch, StableSceneNode } from './sceneSnapshots';
+export { toStableSceneTree, formatStableSceneTree, compareStableSceneTrees } from './sceneSnapshots';
 export { R3FReporter, registerR3FTasks } from './reporter';
@@ -236,5 +236,9 @@ export class R3FReporter {
     termLog(`  ${BOLD}Canvas:${RESET}    ${d.canvasWidth}×${d.canvasHeight}`);
     termLog(`  ${BOLD}GPU:${RESET}       ${d.webglRenderer}`);
     termLog(`  ${BOLD}Dirty:${RESET}     ${d.dirtyQueueSize} queued updates`);
+    if (d.userDataIndexes) {
+      const idx = d.userDataIndexes;
+      termLog(`  ${BOLD}Indexes:${RESET}   ${idx.keys.length ? idx.keys.join(', ') : '(none)'}  ${idx.hits} hits, ${idx.misses} misses`);
+    }
   }
 }
@@ -3,8 +3,9 @@
  *
  * Cypress custom commands for waiting on react-three-dom bridge and scene
  * state. Registers `cy.r3fWaitForSceneReady`, `cy.r3fWaitForIdle`,
- * `cy.r3fWaitForObject`, `cy.r3fWaitForNewObject`, and
- * `cy.r3fWaitForObjectRemoved`.
+ * `cy.r3fWaitForObject`, `cy.r3fWaitForNewObject`,
+ * `cy.r3fWaitForObjectRemoved`, `cy.r3fWaitForAnimation` and
+ * `cy.r3fStayWithinBudget`.
  *
  * All waiters fail fast with a rich diagnostic if the bridge reports an
  * `_error` state, preventing silent timeouts.
@@ -13,9 +14,10 @@
  */
 
 /// <reference types="cypress" />
-import type { R3FDOM, ObjectMetadata, SnapshotNode, BridgeDiagnostics } from './types';
+import type { R3FDOM, ObjectMetadata, SnapshotNode, BridgeDiagnostics, AnimationActionState, SceneBudget, SceneStats } from './types';
 import { _getReporter } from './reporterState';
 import { _getActiveCanvasId } from './commands';
+import { budgetViolations } from './assertions';
 
 // ---------------------------------------------------------------------------
 // r3fWaitForSceneReady — wait until the bridge is ready and object count
@@ -272,7 +274,7 @@ export function registerWaiters(): void {
             return cy.wait(pollIntervalMs, { log: false }).then(() => pollForObject());
           }
 
-          const meta = api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid);
+          const meta = api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? api.getByPath(idOrUuid);
           if (meta) {
             reporter?.logObjectFound(idOrUuid, meta.type, meta.name || undefined);
             Cypress.log({
@@ -448,7 +450,7 @@ export function registerWaiters(): void {
             return cy.wait(pollIntervalMs, { log: false }).then(() => pollForRemoved());
           }
 
-          const stillPresent = (api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid)) !== null;
+          const stillPresent = (api.getByTestId(idOrUuid) ?? api.getByUuid(idOrUuid) ?? api.getByPath(idOrUuid)) !== null;
           if (!stillPresent) {
             Cypress.log({
               name: 'r3fWaitForObjectRemoved',
@@ -464,4 +466,134 @@ export function registerWaiters(): void {
       return waitForBridge();
     },
   );
+
+  // -----------------------------------------------------------------------
+  // r3fWaitForAnimation — wait for an AnimationMixer clip to reach a state
+  // ("playing" | "finished" | "stopped")
+  // -----------------------------------------------------------------------
+
+  Cypress.Commands.add(
+    'r3fWaitForAnimation',
+    (
+      clipName: string,
+      state: 'playing' | 'finished' | 'stopped' = 'finished',
+      options: { root?: string; bridgeTimeout?: number; pollIntervalMs?: number; timeout?: number } = {},
+    ) => {
+      const {
+        root,
+        bridgeTimeout = 30_000,
+        pollIntervalMs = 100,
+        timeout = 10_000,
+      } = options;
+
+      const bridgeStart = Date.now();
+
+      function waitForBridge(): Cypress.Chainable<AnimationActionState> {
+        if (Date.now() - bridgeStart > bridgeTimeout) {
+          throw new Error(
+            `r3fWaitForAnimation("${clipName}") timed out after ${bridgeTimeout}ms ` +
+            `waiting for the bridge.`,
+          );
+        }
+
+        return cy.window({ log: false }).then((win) => {
+          const bridgeState = getBridgeState(win);
+          assertBridgeNotErrored(bridgeState);
+
+          if (bridgeState.exists && bridgeState.ready) {
+            return pollForState();
+          }
+
+          return cy.wait(pollIntervalMs, { log: false }).then(() => waitForBridge());
+        });
+      }
+
+      const deadline = Date.now() + timeout;
+      let last: AnimationActionState[] = [];
+
+      function pollForState(): Cypress.Chainable<AnimationActionState> {
+        if (Date.now() > deadline) {
+          const clips = last.map((a) =>
+            `${a.clipName} (${a.running ? 'running' : a.finished ? 'finished' : 'stopped'})`,
+          );
+          const known = last.some((a) => a.clipName === clipName);
+          throw new Error(
+            `r3fWaitForAnimation("${clipName}", "${state}") timed out after ${timeout}ms` +
+            `${root ? ` on "${root}"` : ''}` +
+            `${known ? '' : `: no tracked mixer has an action for "${clipName}"`}. ` +
+            (clips.length > 0 ? `Tracked actions: ${clips.join(', ')}.` : 'No animation mixers are tracked.'),
+          );
+        }
+
+        return cy.window({ log: false }).then((win) => {
+          const api = resolveApiFromWindow(win);
+          if (!api || !api._ready) {
+            return cy.wait(pollIntervalMs, { log: false }).then(() => pollForState());
+          }
+
+          last = api.getAnimations(root);
+          const actions = last.filter((a) => a.clipName === clipName);
+          // 'stopped' needs the clip to have an action, so a misspelled name does not pass
+          const match = state === 'stopped'
+            ? (actions.length > 0 && !actions.some((a) => a.running) ? actions[0] : undefined)
+            : actions.find((a) => (state === 'playing' ? a.running : a.finished));
+          if (match) {
+            Cypress.log({
+              name: 'r3fWaitForAnimation',
+              message: `"${clipName}" ${state}`,
+            });
+            return cy.wrap(match, { log: false });
+          }
+
+          return cy.wait(pollIntervalMs, { log: false }).then(() => pollForState());
+        });
+      }
+
+      return waitForBridge();
+    },
+  );
+
+  // -----------------------------------------------------------------------
+  // r3fStayWithinBudget — sample scene stats for a window and fail on the
+  // first sample over budget
+  // -----------------------------------------------------------------------
+
+  Cypress.Commands.add(
+    'r3fStayWithinBudget',
+    (
+      budget: SceneBudget,
+      options: { duration?: number; pollIntervalMs?: number } = {},
+    ) => {
+      const { duration = 1_000, pollIntervalMs = 100 } = options;
+      const start = Date.now();
+      let samples = 0;
+
+      function sample(): Cypress.Chainable<SceneStats> {
+        return cy.window({ log: false }).then((win) => {
+          const api = resolveApiFromWindow(win);
+          if (!api) throw new Error('r3fStayWithinBudget: bridge not available.');
+          const stats = api.getSceneStats();
+          const violations = budgetViolations(stats, budget);
+          samples++;
+          if (violations.length > 0) {
+            throw new Error(
+              `r3fStayWithinBudget: expected scene to stay within budget ${JSON.stringify(budget)}, ` +
+              `but ${violations.join(', ')} at frame ${stats.frame} (after ${Date.now() - start}ms).`,
+            );
+          }
+          if (Date.now() - start >= duration) {
+            Cypress.log({
+              name: 'r3fStayWithinBudget',
+              message: `${samples} samples within budget over ${Date.now() - start}ms`,
+              consoleProps: () => ({ budget, stats }),
+            });
+            return cy.wrap(stats, { log: false });
+          }
+          return cy.wait(pollIntervalMs, { log: false }).then(() => sample());
+        });
+      }
+
+      return sample();
+    },
+  );
 }
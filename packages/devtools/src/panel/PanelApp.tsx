@@ -7,16 +7,22 @@
  * an "inspect mode" toggle for picking 3D elements on the canvas.
  *
  * Polls the inspected page's `window.__R3F_DOM__` bridge for live scene
- * snapshots and selection state.
+ * state and selection. After one full snapshot the object list is kept up
+ * to date from the store change journal, falling back to re-snapshotting
+ * when the journal is unavailable or truncated.
  */
 
 import { useState, useEffect, useCallback, useMemo } from 'react';
 import {
   checkBridgeReady,
   getSnapshot,
+  getChangesSince,
+  getJournalSeq,
+  applyChanges,
   getSelection,
   select,
   inspect,
+  getHistory,
   setInspectMode,
   getInspectMode,
   flattenSnapshotTree,
@@ -27,6 +33,8 @@ import {
   type ObjectInspection,
   type GeometryInspection,
   type MaterialInspection,
+  type ObjectHistoryEntry,
+  type HistoryChange,
 } from './pageBridge';
 import { DevToolsTree, buildTree } from './DevToolsTree';
 import { panelStyles, COLORS } from './styles';
@@ -115,7 +123,35 @@ function CameraSection({ meta }: { meta: ObjectMetadata }) {
   );
 }
 
-function PropertyDetail({ data }: { data: ObjectInspection | null }) {
+/** Most recent entries shown in the History section. */
+const HISTORY_ROWS = 10;
+
+function fmtHistoryValue(value: HistoryChange['from']): string {
+  if (Array.isArray(value)) return fmtVec(value);
+  return value === null ? '—' : String(value);
+}
+
+function fmtHistoryEntry(entry: ObjectHistoryEntry): string {
+  if (entry.type === 'add') return 'added';
+  if (entry.type === 'remove') return 'removed';
+  return entry.changes
+    .map((c) => `${c.field} ${fmtHistoryValue(c.from)} → ${fmtHistoryValue(c.to)}`)
+    .join(', ');
+}
+
+function HistorySection({ history }: { history: ObjectHistoryEntry[] }) {
+  const recent = history.slice(-HISTORY_ROWS).reverse();
+  return (
+    <>
+      <div style={panelStyles.propSection}>History ({history.length})</div>
+      {recent.map((entry, i) => (
+        <PropRow key={`${entry.frame}-${i}`} label={`Frame ${entry.frame}`} value={fmtHistoryEntry(entry)} />
+      ))}
+    </>
+  );
+}
+
+function PropertyDetail({ data, history }: { data: ObjectInspection | null; history: ObjectHistoryEntry[] }) {
   if (!data) {
     return (
       <div style={panelStyles.propPane}>
@@ -134,6 +170,7 @@ function PropertyDetail({ data }: { data: ObjectInspection | null }) {
       {m.name && <PropRow label="Name" value={m.name} />}
       {m.testId && <PropRow label="testId" value={m.testId} />}
       <PropRow label="UUID" value={m.uuid} />
+      {data.path && <CopyRow label="Path" value={data.path} />}
       <PropRow label="Visible" value={String(m.visible)} />
 
       <div style={panelStyles.propSection}>Transform</div>
@@ -141,6 +178,15 @@ function PropertyDetail({ data }: { data: ObjectInspection | null }) {
       <PropRow label="Rotation" value={fmtVec(m.rotation)} />
       <PropRow label="Scale" value={fmtVec(m.scale)} />
 
+      {m.custom && (
+        <>
+          <div style={panelStyles.propSection}>Custom</div>
+          {Object.entries(m.custom).map(([name, value]) => (
+            <PropRow key={name} label={name} value={String(value)} />
+          ))}
+        </>
+      )}
+
       {m.near != null && <CameraSection meta={m} />}
 
       {data.geometry && <GeometrySection geo={data.geometry} meta={m} />}
@@ -154,6 +200,8 @@ function PropertyDetail({ data }: { data: ObjectInspection | null }) {
           <PropRow label="Max" value={fmtVec(data.bounds.max)} />
         </>
       )}
+
+      {history.length > 0 && <HistorySection history={history} />}
     </div>
   );
 }
@@ -168,6 +216,34 @@ function PropRow({ label, value }: { label: string; value: string }) {
   );
 }
 
+/** Value row that copies its (possibly truncated) value to the clipboard on click. */
+function CopyRow({ label, value }: { label: string; value: string }) {
+  const [copied, setCopied] = useState(false);
+  const handleCopy = useCallback(() => {
+    // navigator.clipboard is unavailable in DevTools panels; use a temporary textarea
+    const el = document.createElement('textarea');
+    el.value = value;
+    document.body.appendChild(el);
+    el.select();
+    document.execCommand('copy');
+    document.body.removeChild(el);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1000);
+  }, [value]);
+  return (
+    <div style={panelStyles.propRow}>
+      <span style={panelStyles.propLabel}>{label}</span>
+      <span
+        style={{ ...panelStyles.propValue, cursor: 'copy' }}
+        title={`${value}\n(click to copy)`}
+        onClick={handleCopy}
+      >
+        {copied ? 'Copied' : value}
+      </span>
+    </div>
+  );
+}
+
 function ColorRow({ label, color }: { label: string; color: string }) {
   return (
     <div style={panelStyles.propRow}>
@@ -211,6 +287,7 @@ export function PanelApp() {
   const [objectList, setObjectList] = useState<ObjectMetadata[]>([]);
   const [selectedUuid, setSelectedUuid] = useState<string | null>(null);
   const [inspection, setInspection] = useState<ObjectInspection | null>(null);
+  const [history, setHistory] = useState<ObjectHistoryEntry[]>([]);
   const [searchQuery, setSearchQuery] = useState('');
   const [detailsOpen, setDetailsOpen] = useState(true);
   const [inspectModeOn, setInspectModeOn] = useState(false);
@@ -236,19 +313,33 @@ export function PanelApp() {
     return () => { cancelled = true; clearInterval(id); };
   }, []);
 
-  // Check bridge and poll snapshot
+  // Check bridge and poll scene state (full snapshot, then journal deltas)
   useEffect(() => {
     let cancelled = false;
+    let seq: number | null = null;
     const tick = async () => {
       const ok = await checkBridgeReady();
       if (cancelled) return;
       setReady(ok);
       if (!ok) {
+        seq = null;
         setObjectList([]);
         return;
       }
+      if (seq !== null) {
+        const changes = await getChangesSince(seq);
+        if (cancelled) return;
+        if (changes && !changes.truncated) {
+          seq = changes.seq;
+          setObjectList((prev) => applyChanges(prev, changes));
+          return;
+        }
+      }
+      // Read the journal head first: changes racing the snapshot are replayed next tick
+      const head = await getJournalSeq();
       const snap = await getSnapshot();
       if (cancelled || !snap) return;
+      seq = head;
       setObjectList(flattenSnapshotTree(snap.tree, null));
     };
     tick();
@@ -291,13 +382,17 @@ export function PanelApp() {
 
   // Inspect selected object (only show result when it matches current selection — avoids stale/wrong details)
   useEffect(() => {
-    if (!ready || !selectedUuid) { setInspection(null); return; }
+    if (!ready || !selectedUuid) { setInspection(null); setHistory([]); return; }
     const currentUuid = selectedUuid;
     setInspection(null); // clear until correct result loads
+    setHistory([]);
     let cancelled = false;
     const load = async () => {
-      const result = await inspect(currentUuid);
-      if (!cancelled && result?.metadata?.uuid === currentUuid) setInspection(result);
+      const [result, entries] = await Promise.all([inspect(currentUuid), getHistory(currentUuid)]);
+      if (!cancelled && result?.metadata?.uuid === currentUuid) {
+        setInspection(result);
+        setHistory(entries);
+      }
     };
     load();
     const id = setInterval(load, 300);
@@ -442,7 +537,7 @@ export function PanelApp() {
                 ✕
               </button>
             </div>
-            <PropertyDetail data={inspection} />
+            <PropertyDetail data={inspection} history={history} />
           </div>
         )}
       </div>
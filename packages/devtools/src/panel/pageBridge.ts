@@ -9,6 +9,8 @@
  * Supports multi-canvas apps via {@link setTargetCanvas}.
  */
 
+import { decodeSnapshot } from './binarySnapshot';
+
 export type SceneSnapshot = {
   timestamp: number;
   objectCount: number;
@@ -53,6 +55,8 @@ export type ObjectMetadata = {
   near?: number;
   far?: number;
   zoom?: number;
+  /** App-defined fields from ThreeDom `extractors` */
+  custom?: Record<string, string | number | boolean>;
 };
 
 export type GeometryInspection = {
@@ -74,6 +78,8 @@ export type MaterialInspection = {
 
 export type ObjectInspection = {
   metadata: ObjectMetadata;
+  /** Deterministic path id (bridges that support it) */
+  path?: string;
   worldMatrix: number[];
   bounds: { min: [number, number, number]; max: [number, number, number] };
   userData: Record<string, unknown>;
@@ -81,6 +87,34 @@ export type ObjectInspection = {
   material?: MaterialInspection;
 };
 
+export type HistoryChange = {
+  field: 'position' | 'rotation' | 'scale' | 'visible' | 'effectiveVisible' | 'parentUuid';
+  from: [number, number, number] | boolean | string | null;
+  to: [number, number, number] | boolean | string | null;
+};
+
+export type ObjectHistoryEntry = {
+  frame: number;
+  timestamp: number;
+  type: 'add' | 'remove' | 'update' | 'reparent';
+  changes: HistoryChange[];
+};
+
+export type StoreChange = {
+  seq: number;
+  type: 'add' | 'remove' | 'update' | 'reparent';
+  uuid: string;
+  metadata: ObjectMetadata;
+  oldParentUuid?: string | null;
+};
+
+export type StoreChangeSet = {
+  since: number;
+  seq: number;
+  truncated: boolean;
+  batches: Array<{ id: number; frame?: number; timestamp: number; changes: StoreChange[] }>;
+};
+
 function evalInPage<T>(expression: string): Promise<T> {
   return new Promise((resolve, reject) => {
     if (typeof chrome === 'undefined' || !chrome.devtools?.inspectedWindow?.eval) {
@@ -132,13 +166,36 @@ export function checkBridgeReady(): Promise<boolean> {
   ).catch(() => false);
 }
 
-/** Get full scene snapshot (tree). */
+/**
+ * Get full scene snapshot (tree). Transferred in the compact binary format
+ * when the bridge supports it, as JSON otherwise.
+ */
 export function getSnapshot(): Promise<SceneSnapshot | null> {
+  return evalInPage<{ binary?: string; json?: string } | null>(
+    `(function(){ var api = ${apiExpr()}; if (!api || !api._ready) return null; return api.snapshotBinary ? { binary: api.snapshotBinary() } : { json: JSON.stringify(api.snapshot()) }; })()`
+  ).then((result) => {
+    if (result?.binary) return decodeSnapshot(result.binary);
+    return result?.json ? JSON.parse(result.json) : null;
+  });
+}
+
+/**
+ * Get store changes after journal sequence `since`.
+ * Resolves null when the bridge predates the change journal.
+ */
+export function getChangesSince(since: number): Promise<StoreChangeSet | null> {
   return evalInPage<string>(
-    `(function(){ var api = ${apiExpr()}; return JSON.stringify(api && api._ready ? api.snapshot() : null); })()`
+    `(function(){ var api = ${apiExpr()}; return JSON.stringify(api && api._ready && api.getChangesSince ? api.getChangesSince(${since}) : null); })()`
   ).then((json) => (json ? JSON.parse(json) : null));
 }
 
+/** Get the latest change journal sequence number (null when unsupported). */
+export function getJournalSeq(): Promise<number | null> {
+  return evalInPage<number | null>(
+    `(function(){ var api = ${apiExpr()}; return api && api._ready && api.getJournalSeq ? api.getJournalSeq() : null; })()`
+  ).catch(() => null);
+}
+
 /** Get selected object uuids. */
 export function getSelection(): Promise<string[]> {
   return evalInPage<string>(
@@ -160,6 +217,16 @@ export function inspect(uuid: string): Promise<ObjectInspection | null> {
   ).then((json) => (json ? JSON.parse(json) : null));
 }
 
+/**
+ * Get an object's recorded change history, oldest first. Empty when the
+ * page's ThreeDom does not have `history` enabled.
+ */
+export function getHistory(uuid: string): Promise<ObjectHistoryEntry[]> {
+  return evalInPage<string>(
+    `(function(){ var api = ${apiExpr()}; return JSON.stringify(api && api.getHistory ? api.getHistory(${JSON.stringify(uuid)}) : []); })()`
+  ).then((json) => (json ? JSON.parse(json) : []));
+}
+
 /** Enable or disable "inspect mode" so the Elements panel picker can select 3D mirror nodes on the canvas. */
 export function setInspectMode(on: boolean): Promise<void> {
   return evalInPage(
@@ -206,3 +273,20 @@ export function flattenSnapshotTree(
   }
   return list;
 }
+
+/**
+ * Apply journaled changes to a flat object list. Adds are appended, updates
+ * and reparents replace in place, removes are dropped. Returns the same array when nothing changed.
+ */
+export function applyChanges(list: ObjectMetadata[], changeSet: StoreChangeSet): ObjectMetadata[] {
+  if (changeSet.batches.length === 0) return list;
+  const byUuid = new Map<string, ObjectMetadata>();
+  for (const m of list) byUuid.set(m.uuid, m);
+  for (const batch of changeSet.batches) {
+    for (const change of batch.changes) {
+      if (change.type === 'remove') byUuid.delete(change.uuid);
+      else byUuid.set(change.uuid, change.metadata);
+    }
+  }
+  return Array.from(byUuid.values());
+}
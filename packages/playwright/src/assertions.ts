@@ -4,12 +4,15 @@
  * Custom Playwright `expect` matchers for 3D scene testing via react-three-dom.
  *
  * Every matcher auto-retries until the assertion passes or the timeout
- * expires, matching Playwright's built-in assertion behaviour.
+ * expires, matching Playwright's built-in assertion behaviour, except
+ * toStayWithinBudget, which samples for a fixed window and fails on the
+ * first sample over budget.
  *
- * **Tier 1 — Metadata:** toExist, toBeVisible, toHavePosition,
+ * **Tier 1 — Metadata:** toExist, toBeVisible, toBeEffectivelyVisible, toHavePosition,
  * toHaveWorldPosition, toHaveRotation, toHaveScale, toHaveType, toHaveName,
  * toHaveGeometryType, toHaveMaterialType, toHaveChildCount, toHaveParent,
- * toHaveInstanceCount
+ * toHaveInstanceCount, toHaveInstancePosition, toHaveInstanceColor,
+ * toHaveGeometryChanged, toHaveMorphTargetInfluences
  *
  * **Tier 2 — Inspection:** toBeInFrustum, toHaveBounds, toHaveColor,
  * toHaveOpacity, toBeTransparent, toHaveVertexCount, toHaveTriangleCount,
@@ -17,20 +20,36 @@
  *
  * **Scene-level:** toHaveObjectCount, toHaveObjectCountGreaterThan,
  * toHaveCountByType, toHaveTotalTriangleCount,
- * toHaveTotalTriangleCountLessThan
+ * toHaveTotalTriangleCountLessThan, toBeWithinBudget, toStayWithinBudget
+ *
+ * **Animation:** toBePlayingAnimation
  *
  * **Camera:** toHaveCameraPosition, toHaveCameraFov, toHaveCameraNear,
  * toHaveCameraFar, toHaveCameraZoom
  *
  * **Batch:** toAllExist, toAllBeVisible, toNoneExist
+ *
+ * **Golden files:** toMatchSceneSnapshot
  */
 
-import { expect as baseExpect } from '@playwright/test';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { basename, dirname, join } from 'node:path';
+import { expect as baseExpect, test } from '@playwright/test';
 import type { Page } from '@playwright/test';
-import type { ObjectMetadata, ObjectInspection } from './types';
+import type { ObjectMetadata, ObjectInspection, EffectiveVisibility, InstanceMetadata, AnimationActionState, SceneStats, SceneBudget, SceneSnapshot, SnapshotOptions } from './types';
+import {
+  compareStableSceneTrees,
+  formatStableSceneTree,
+  toStableSceneTree,
+  type SceneSnapshotCompareOptions,
+  type SceneSnapshotMismatch,
+  type StableSceneNode,
+} from './sceneSnapshots';
 
 const DEFAULT_TIMEOUT = 5_000;
 const DEFAULT_INTERVAL = 100;
+/** Default sampling window of toStayWithinBudget, in ms */
+const DEFAULT_BUDGET_WINDOW = 1_000;
 
 // ---------------------------------------------------------------------------
 // Scene-level helpers
@@ -69,6 +88,36 @@ async function fetchTotalTriangles(page: Page, canvasId?: string): Promise<numbe
   }, canvasId ?? null);
 }
 
+async function fetchSceneStats(page: Page, canvasId?: string): Promise<SceneStats | null> {
+  return page.evaluate((cid) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+    return api ? api.getSceneStats() : null;
+  }, canvasId ?? null);
+}
+
+/** Budget violations as "drawCalls 250 > 200" strings (empty when within budget). */
+function budgetViolations(stats: SceneStats, budget: SceneBudget): string[] {
+  const actual: Record<keyof SceneBudget, number> = {
+    drawCalls: stats.drawCalls,
+    triangles: stats.triangles,
+    programs: stats.programs,
+    materials: stats.materials,
+    geometries: stats.geometries,
+    textures: stats.textures,
+    textureMB: stats.textureBytes / (1024 * 1024),
+  };
+  const violations: string[] = [];
+  for (const key of Object.keys(budget) as (keyof SceneBudget)[]) {
+    const limit = budget[key];
+    if (limit === undefined || !(key in actual)) continue;
+    const value = actual[key];
+    if (value > limit) {
+      violations.push(`${key} ${key === 'textureMB' ? value.toFixed(1) : value} > ${limit}`);
+    }
+  }
+  return violations;
+}
+
 // ---------------------------------------------------------------------------
 // Object-level helpers
 // ---------------------------------------------------------------------------
@@ -77,7 +126,7 @@ async function fetchMeta(page: Page, id: string, canvasId?: string): Promise<Obj
   return page.evaluate(([i, cid]) => {
     const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
     if (!api) return null;
-    return api.getByTestId(i) ?? api.getByUuid(i) ?? null;
+    return api.getByTestId(i) ?? api.getByUuid(i) ?? api.getByPath(i) ?? null;
   }, [id, canvasId ?? null] as const);
 }
 
@@ -89,6 +138,51 @@ async function fetchInsp(page: Page, id: string, canvasId?: string): Promise<Obj
   }, [id, canvasId ?? null] as const);
 }
 
+/**
+ * Material color/opacity, read live via inspect() — never from the
+ * amortized Tier 1 fields, so a negated assertion cannot pass on a value
+ * that is a frame stale. For a multi-material mesh this is the first
+ * material (`material[0]`). Returns null when the object is not found.
+ */
+async function fetchMaterialAppearance(
+  page: Page,
+  id: string,
+  canvasId?: string,
+): Promise<{ hasMaterial: boolean; color?: string; opacity?: number } | null> {
+  const insp = await fetchInsp(page, id, canvasId);
+  if (!insp) return null;
+  return { hasMaterial: !!insp.material, color: insp.material?.color, opacity: insp.material?.opacity };
+}
+
+async function fetchInstance(page: Page, id: string, canvasId?: string): Promise<InstanceMetadata | null> {
+  return page.evaluate(([i, cid]) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+    if (!api) return null;
+    return api.getInstance(i);
+  }, [id, canvasId ?? null] as const);
+}
+
+async function fetchAnimations(page: Page, root?: string, canvasId?: string): Promise<AnimationActionState[]> {
+  return page.evaluate(([r, cid]) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+    if (!api) return [];
+    return api.getAnimations(r ?? undefined);
+  }, [root ?? null, canvasId ?? null] as const);
+}
+
+async function fetchEffectiveVisibility(
+  page: Page,
+  id: string,
+  frustum: boolean,
+  canvasId?: string,
+): Promise<EffectiveVisibility | null> {
+  return page.evaluate(({ i, f, cid }) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+    if (!api) return null;
+    return api.getEffectiveVisibility(i, { frustum: f });
+  }, { i: id, f: frustum, cid: canvasId ?? null });
+}
+
 /** World position from column-major 4x4 matrix (translation at indices 12, 13, 14). */
 async function fetchWorldPosition(page: Page, id: string, canvasId?: string): Promise<[number, number, number] | null> {
   return page.evaluate(([i, cid]) => {
@@ -106,6 +200,7 @@ interface R3FMatcherReceiver {
   canvasId?: string;
   getObject(idOrUuid: string): Promise<ObjectMetadata | null>;
   inspect(idOrUuid: string): Promise<ObjectInspection | null>;
+  snapshot(options?: SnapshotOptions): Promise<SceneSnapshot | null>;
 }
 
 /** Context provided by Playwright when the matcher is invoked via expect().extend() */
@@ -120,6 +215,17 @@ interface MatcherOptions {
 
 type Vec3Opts = MatcherOptions & { tolerance?: number };
 
+interface BudgetWindowOptions {
+  /** How long to keep sampling, in ms. Default: 1000 */
+  duration?: number;
+  /** Interval between samples, in ms. Default: 100 */
+  interval?: number;
+}
+
+type SceneSnapshotMatchOptions = MatcherOptions &
+  SceneSnapshotCompareOptions &
+  Pick<SnapshotOptions, 'root' | 'depth' | 'filter'>;
+
 function parseTol(v: number | Vec3Opts | undefined, def: number) {
   const o = typeof v === 'number' ? { tolerance: v } : (v ?? {});
   return {
@@ -165,6 +271,26 @@ async function fetchDiagnosticHint(page: Page, canvasId?: string): Promise<strin
   }
 }
 
+/** Empty string when influences match, otherwise a description of the first mismatch. */
+function compareInfluences(meta: ObjectMetadata, expected: number[] | Record<string, number>, tolerance: number): string {
+  const actual = meta.morphTargetInfluences;
+  if (!actual) return 'but it has no morph targets';
+  if (Array.isArray(expected)) {
+    if (expected.length !== actual.length) return `but it has ${actual.length} morph targets`;
+    for (let i = 0; i < expected.length; i++) {
+      if (Math.abs(actual[i] - expected[i]) > tolerance) return `but [${i}] is ${actual[i]}`;
+    }
+    return '';
+  }
+  const names = meta.morphTargetNames ?? [];
+  for (const [name, value] of Object.entries(expected)) {
+    const index = names.indexOf(name);
+    if (index === -1) return `but it has no morph target "${name}"`;
+    if (Math.abs(actual[index] - value) > tolerance) return `but "${name}" is ${actual[index]}`;
+  }
+  return '';
+}
+
 async function notFoundAsync(page: Page, name: string, id: string, detail: string, timeout: number, canvasId?: string) {
   const [fuzzy, diag] = await Promise.all([
     fetchFuzzyHints(page, id, canvasId),
@@ -231,6 +357,34 @@ const r3fMatchers = {
     };
   },
 
+  // --- toBeEffectivelyVisible ---
+  async toBeEffectivelyVisible(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string,
+    opts?: MatcherOptions & { frustum?: boolean },
+  ) {
+    const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = opts?.interval ?? DEFAULT_INTERVAL;
+    const frustum = opts?.frustum ?? true;
+    const isNot = this.isNot;
+    let vis: EffectiveVisibility | null = null;
+    try {
+      await baseExpect.poll(async () => {
+        vis = await fetchEffectiveVisibility(r3f.page, id, frustum, r3f.canvasId);
+        return vis?.visible ?? false;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    if (!vis) return notFoundAsync(r3f.page, 'toBeEffectivelyVisible', id, 'to be effectively visible', timeout, r3f.canvasId);
+    const v = vis as EffectiveVisibility;
+    const why = v.reason === 'ancestor' ? `ancestor (hidden by ${v.hiddenBy})` : v.reason;
+    return {
+      pass: v.visible,
+      message: () => v.visible
+        ? `Expected "${id}" to NOT be effectively visible, but it is rendered`
+        : `Expected "${id}" to be effectively visible, but it is hidden: ${why} (waited ${timeout}ms)`,
+      name: 'toBeEffectivelyVisible', expected: true, actual: v.reason ?? 'visible',
+    };
+  },
+
   // --- toHavePosition ---
   async toHavePosition(this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string, expected: [number, number, number], tolOpts?: number | Vec3Opts) {
     const { timeout, interval, tolerance } = parseTol(tolOpts, 0.01);
@@ -526,6 +680,121 @@ const r3fMatchers = {
     };
   },
 
+  // --- toHaveInstancePosition ---
+  async toHaveInstancePosition(this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string, expected: [number, number, number], tolOpts?: number | Vec3Opts) {
+    const { timeout, interval, tolerance } = parseTol(tolOpts, 0.01);
+    const isNot = this.isNot;
+    let inst: InstanceMetadata | null = null;
+    let pass = false;
+    let delta: [number, number, number] = [0, 0, 0];
+    try {
+      await baseExpect.poll(async () => {
+        inst = await fetchInstance(r3f.page, id, r3f.canvasId);
+        if (!inst) return false;
+        delta = [Math.abs(inst.position[0] - expected[0]), Math.abs(inst.position[1] - expected[1]), Math.abs(inst.position[2] - expected[2])];
+        pass = delta.every(d => d <= tolerance);
+        return pass;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    if (!inst) return notFoundAsync(r3f.page, 'toHaveInstancePosition', id, `to have instance position [${expected}]`, timeout, r3f.canvasId);
+    const m = inst as InstanceMetadata;
+    return {
+      pass,
+      message: () => pass
+        ? `Expected instance "${id}" to NOT be at [${expected}] (±${tolerance})`
+        : `Expected instance "${id}" at [${expected}] (±${tolerance}), got [${m.position}] (Δ [${delta.map(d => d.toFixed(4))}]) (waited ${timeout}ms)`,
+      name: 'toHaveInstancePosition', expected, actual: m.position,
+    };
+  },
+
+  // --- toHaveInstanceColor ---
+  async toHaveInstanceColor(this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string, expectedColor: string, opts?: MatcherOptions) {
+    const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = opts?.interval ?? DEFAULT_INTERVAL;
+    const isNot = this.isNot;
+    const norm = expectedColor.startsWith('#') ? expectedColor.toLowerCase() : `#${expectedColor.toLowerCase()}`;
+    let inst: InstanceMetadata | null = null;
+    let actual: string | undefined;
+    let pass = false;
+    try {
+      await baseExpect.poll(async () => {
+        inst = await fetchInstance(r3f.page, id, r3f.canvasId);
+        actual = inst?.color?.toLowerCase();
+        pass = actual === norm;
+        return pass;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    if (!inst) return notFoundAsync(r3f.page, 'toHaveInstanceColor', id, `to have instance color ${norm}`, timeout, r3f.canvasId);
+    return {
+      pass,
+      message: () => pass
+        ? `Expected instance "${id}" to NOT have color ${norm}`
+        : `Expected instance "${id}" color ${norm}, got ${actual ?? 'none (no instanceColor buffer)'} (waited ${timeout}ms)`,
+      name: 'toHaveInstanceColor', expected: norm, actual,
+    };
+  },
+
+  // --- toHaveGeometryChanged ---
+  async toHaveGeometryChanged(this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string, sinceVersion: number, opts?: MatcherOptions) {
+    const timeout = opts?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = opts?.interval ?? DEFAULT_INTERVAL;
+    const isNot = this.isNot;
+    let meta: ObjectMetadata | null = null;
+    let actual: number | undefined;
+    try {
+      await baseExpect.poll(async () => {
+        meta = await fetchMeta(r3f.page, id, r3f.canvasId);
+        actual = meta?.geometryVersion;
+        return actual !== undefined && actual !== sinceVersion;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    if (!meta) return notFoundAsync(r3f.page, 'toHaveGeometryChanged', id, `to have geometry changed since version ${sinceVersion}`, timeout, r3f.canvasId);
+    const pass = actual !== undefined && actual !== sinceVersion;
+    return {
+      pass,
+      message: () => pass
+        ? `Expected "${id}" geometry to NOT have changed since version ${sinceVersion}, but it is now ${actual}`
+        : actual === undefined
+          ? `Expected "${id}" geometry to have changed, but it has no geometry (waited ${timeout}ms)`
+          : `Expected "${id}" geometry to have changed since version ${sinceVersion}, but it is unchanged (waited ${timeout}ms)`,
+      name: 'toHaveGeometryChanged', expected: `!= ${sinceVersion}`, actual,
+    };
+  },
+
+  // --- toHaveMorphTargetInfluences ---
+  /**
+   * `expected` is either the full influence array or a `{ targetName: value }`
+   * record checked against morphTargetDictionary names (others are ignored).
+   */
+  async toHaveMorphTargetInfluences(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string,
+    expected: number[] | Record<string, number>, tolOpts?: number | Vec3Opts,
+  ) {
+    const { timeout, interval, tolerance } = parseTol(tolOpts, 0.01);
+    const isNot = this.isNot;
+    let meta: ObjectMetadata | null = null;
+    let pass = false;
+    let mismatch = '';
+    try {
+      await baseExpect.poll(async () => {
+        meta = await fetchMeta(r3f.page, id, r3f.canvasId);
+        if (!meta) return false;
+        mismatch = compareInfluences(meta, expected, tolerance);
+        pass = mismatch === '';
+        return pass;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    if (!meta) return notFoundAsync(r3f.page, 'toHaveMorphTargetInfluences', id, 'to have morph target influences', timeout, r3f.canvasId);
+    const m = meta as ObjectMetadata;
+    return {
+      pass,
+      message: () => pass
+        ? `Expected "${id}" to NOT have morph influences ${JSON.stringify(expected)} (±${tolerance})`
+        : `Expected "${id}" morph influences ${JSON.stringify(expected)} (±${tolerance}), ${mismatch}; got [${m.morphTargetInfluences ?? []}] (waited ${timeout}ms)`,
+      name: 'toHaveMorphTargetInfluences', expected, actual: m.morphTargetInfluences,
+    };
+  },
+
   // ========================= TIER 2 — Inspection ==========================
 
   // --- toBeInFrustum ---
@@ -591,19 +860,19 @@ const r3fMatchers = {
     const interval = opts?.interval ?? DEFAULT_INTERVAL;
     const isNot = this.isNot;
     const norm = expectedColor.startsWith('#') ? expectedColor.toLowerCase() : `#${expectedColor.toLowerCase()}`;
-    let insp: ObjectInspection | null = null;
+    let appearance: Awaited<ReturnType<typeof fetchMaterialAppearance>> = null;
     let actual: string | undefined;
     let pass = false;
     try {
       await baseExpect.poll(async () => {
-        insp = await fetchInsp(r3f.page, id, r3f.canvasId);
-        if (!insp?.material?.color) return false;
-        actual = insp.material.color.toLowerCase();
+        appearance = await fetchMaterialAppearance(r3f.page, id, r3f.canvasId);
+        if (!appearance?.color) return false;
+        actual = appearance.color.toLowerCase();
         pass = actual === norm;
         return pass;
       }, { timeout, intervals: [interval] }).toBe(!isNot);
     } catch { /* */ }
-    if (!insp) return notFoundAsync(r3f.page, 'toHaveColor', id, `to have color "${norm}"`, timeout, r3f.canvasId);
+    if (!appearance) return notFoundAsync(r3f.page, 'toHaveColor', id, `to have color "${norm}"`, timeout, r3f.canvasId);
     return {
       pass,
       message: () => pass
@@ -617,19 +886,19 @@ const r3fMatchers = {
   async toHaveOpacity(this: ExpectMatcherContext, r3f: R3FMatcherReceiver, id: string, expectedOpacity: number, tolOpts?: number | Vec3Opts) {
     const { timeout, interval, tolerance } = parseTol(tolOpts, 0.01);
     const isNot = this.isNot;
-    let insp: ObjectInspection | null = null;
+    let appearance: Awaited<ReturnType<typeof fetchMaterialAppearance>> = null;
     let actual: number | undefined;
     let pass = false;
     try {
       await baseExpect.poll(async () => {
-        insp = await fetchInsp(r3f.page, id, r3f.canvasId);
-        if (!insp?.material) return false;
-        actual = insp.material.opacity;
+        appearance = await fetchMaterialAppearance(r3f.page, id, r3f.canvasId);
+        if (!appearance?.hasMaterial) return false;
+        actual = appearance.opacity;
         pass = actual !== undefined && Math.abs(actual - expectedOpacity) <= tolerance;
         return pass;
       }, { timeout, intervals: [interval] }).toBe(!isNot);
     } catch { /* */ }
-    if (!insp) return notFoundAsync(r3f.page, 'toHaveOpacity', id, `to have opacity ${expectedOpacity}`, timeout, r3f.canvasId);
+    if (!appearance) return notFoundAsync(r3f.page, 'toHaveOpacity', id, `to have opacity ${expectedOpacity}`, timeout, r3f.canvasId);
     return {
       pass,
       message: () => pass
@@ -958,6 +1227,124 @@ const r3fMatchers = {
       name: 'toHaveTotalTriangleCountLessThan', expected: `< ${max}`, actual,
     };
   },
+
+  /**
+   * Assert render cost is within budget (draw calls, triangles, programs,
+   * materials, geometries, textures, textureMB). Polls until it is, like the
+   * other matchers; omitted keys are not checked. See toStayWithinBudget to
+   * check a window of frames instead.
+   *
+   * @example expect(r3f).toBeWithinBudget({ drawCalls: 200, textureMB: 64 });
+   */
+  async toBeWithinBudget(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver,
+    budget: SceneBudget,
+    options?: MatcherOptions,
+  ) {
+    const isNot = this.isNot;
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = options?.interval ?? DEFAULT_INTERVAL;
+    let stats: SceneStats | null = null;
+    let violations: string[] = [];
+    let pass = false;
+    try {
+      await baseExpect.poll(async () => {
+        stats = await fetchSceneStats(r3f.page, r3f.canvasId);
+        violations = stats ? budgetViolations(stats, budget) : ['bridge not available'];
+        pass = violations.length === 0;
+        return pass;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected scene to exceed budget ${JSON.stringify(budget)}, but it is within it`
+          : `Expected scene to be within budget ${JSON.stringify(budget)}, but ${violations.join(', ')} (waited ${timeout}ms)`,
+      name: 'toBeWithinBudget', expected: budget, actual: stats,
+    };
+  },
+
+  /**
+   * Assert render cost stays within budget: stats are sampled every
+   * `interval` ms for `duration` ms, and the first sample over budget fails
+   * the assertion. Omitted keys are not checked. With `.not`, passes as soon
+   * as a sample is over budget.
+   *
+   * @example expect(r3f).toStayWithinBudget({ drawCalls: 200, textureMB: 64 }, { duration: 2_000 });
+   */
+  async toStayWithinBudget(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver,
+    budget: SceneBudget,
+    options?: BudgetWindowOptions,
+  ) {
+    const duration = options?.duration ?? DEFAULT_BUDGET_WINDOW;
+    const interval = options?.interval ?? DEFAULT_INTERVAL;
+    const start = Date.now();
+    let stats: SceneStats | null = null;
+    let violations: string[] = [];
+    let samples = 0;
+    do {
+      if (samples > 0) await r3f.page.waitForTimeout(interval);
+      stats = await fetchSceneStats(r3f.page, r3f.canvasId);
+      violations = stats ? budgetViolations(stats, budget) : ['bridge not available'];
+      samples++;
+    } while (violations.length === 0 && Date.now() - start < duration);
+    const elapsed = Date.now() - start;
+    const pass = violations.length === 0;
+    const frame = stats ? ` at frame ${stats.frame}` : '';
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected scene to exceed budget ${JSON.stringify(budget)}, but all ${samples} samples over ${elapsed}ms were within it`
+          : `Expected scene to stay within budget ${JSON.stringify(budget)}, but ${violations.join(', ')}${frame} (after ${elapsed}ms)`,
+      name: 'toStayWithinBudget', expected: budget, actual: stats,
+    };
+  },
+
+  // ========================= ANIMATION ====================================
+
+  /**
+   * Assert an AnimationMixer action for `clipName` is running. Pass `root`
+   * to limit to the mixer rooted at that testId or uuid.
+   *
+   * @example expect(r3f).toBePlayingAnimation('Walk');
+   * @example expect(r3f).not.toBePlayingAnimation('Walk', { root: 'robot' });
+   */
+  async toBePlayingAnimation(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver,
+    clipName: string,
+    options?: MatcherOptions & { root?: string },
+  ) {
+    const isNot = this.isNot;
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = options?.interval ?? DEFAULT_INTERVAL;
+    let actions: AnimationActionState[] = [];
+    let pass = false;
+    try {
+      await baseExpect.poll(async () => {
+        actions = await fetchAnimations(r3f.page, options?.root, r3f.canvasId);
+        pass = actions.some((a) => a.clipName === clipName && a.running);
+        return pass;
+      }, { timeout, intervals: [interval] }).toBe(!isNot);
+    } catch { /* */ }
+    const on = options?.root ? ` on "${options.root}"` : '';
+    const clip = actions.find((a) => a.clipName === clipName);
+    const state = !clip
+      ? 'no such clip on tracked mixers'
+      : clip.finished ? 'finished' : clip.paused ? 'paused' : 'stopped';
+    return {
+      pass,
+      message: () =>
+        pass
+          ? `Expected animation "${clipName}"${on} to NOT be playing, but it is`
+          : `Expected animation "${clipName}"${on} to be playing, but it is ${state}` +
+            ` (tracked: ${actions.map((a) => a.clipName).join(', ') || 'none'}) (waited ${timeout}ms)`,
+      name: 'toBePlayingAnimation', expected: clipName, actual: clip ?? null,
+    };
+  },
+
   // ===================== CAMERA STATE ASSERTIONS ===========================
 
   /**
@@ -1244,8 +1631,105 @@ const r3fMatchers = {
       name: 'toNoneExist', expected: idsOrPattern, actual: { found },
     };
   },
+
+  // ========================= GOLDEN FILES =================================
+
+  /**
+   * Compare the scene graph with a golden file next to the spec
+   * (`__scene-snapshots__/<spec file>/<name>.json`), like
+   * `toMatchSnapshot` for screenshots. The file holds a uuid-free,
+   * pretty-printed tree; numbers match within `tolerance` and `ignore`
+   * drops fields. Missing goldens are written on the first run (which
+   * fails, as with Playwright snapshots); `--update-snapshots` rewrites
+   * mismatching ones. Pass `root`, `depth` or `filter` to snapshot part of
+   * the scene.
+   *
+   * @example await expect(r3f).toMatchSceneSnapshot('initial');
+   * @example await expect(r3f).toMatchSceneSnapshot('room', { root: 'room', ignore: ['rotation'], tolerance: 0.01 });
+   */
+  async toMatchSceneSnapshot(
+    this: ExpectMatcherContext, r3f: R3FMatcherReceiver,
+    name: string,
+    options?: SceneSnapshotMatchOptions,
+  ) {
+    if (this.isNot) throw new Error('toMatchSceneSnapshot() does not support .not');
+    const timeout = options?.timeout ?? DEFAULT_TIMEOUT;
+    const interval = options?.interval ?? DEFAULT_INTERVAL;
+    const { root, depth, filter, tolerance, ignore, precision } = options ?? {};
+    const snapshotOptions = root !== undefined || depth !== undefined || filter !== undefined
+      ? { root, depth, filter }
+      : undefined;
+    const compareOptions = { tolerance, ignore, precision };
+
+    const testInfo = test.info();
+    const file = sceneSnapshotPath(testInfo.file, name);
+    const update = testInfo.config.updateSnapshots;
+    const expected: StableSceneNode | null = existsSync(file)
+      ? toStableSceneTree(JSON.parse(readFileSync(file, 'utf8')) as StableSceneNode, compareOptions)
+      : null;
+
+    let actual: StableSceneNode | null = null;
+    let mismatch: SceneSnapshotMismatch | null = null;
+    let pass = false;
+    try {
+      await baseExpect.poll(async () => {
+        const snapshot = await r3f.snapshot(snapshotOptions);
+        actual = snapshot ? toStableSceneTree(snapshot, compareOptions) : null;
+        mismatch = actual && expected ? compareStableSceneTrees(expected, actual, compareOptions) : null;
+        pass = actual !== null && expected !== null && mismatch === null;
+        // Nothing to wait for without a golden file
+        return pass || (actual !== null && expected === null);
+      }, { timeout, intervals: [interval] }).toBe(true);
+    } catch { /* */ }
+
+    const text = actual ? formatStableSceneTree(actual) : null;
+    if (text !== null) {
+      if (expected === null && update !== 'none') {
+        writeSceneSnapshot(file, text);
+        // Like Playwright snapshots: a new golden only passes when updating
+        if (update === 'all' || update === 'changed') pass = true;
+        else {
+          return {
+            pass: false,
+            message: () => `Scene snapshot "${name}" did not exist, writing actual to ${file}`,
+            name: 'toMatchSceneSnapshot',
+          };
+        }
+      } else if (expected !== null && (update === 'all' || (update === 'changed' && !pass))) {
+        if (text !== formatStableSceneTree(expected)) writeSceneSnapshot(file, text);
+        pass = true;
+      }
+    }
+
+    const failure = (): string => {
+      if (!actual) return `Expected scene to match snapshot "${name}", but the bridge is not available (waited ${timeout}ms)`;
+      if (!expected) return `Scene snapshot "${name}" is missing at ${file} (updateSnapshots is "none")`;
+      const m = mismatch as SceneSnapshotMismatch | null;
+      return `Expected scene to match snapshot "${name}" (${file}), but ${m?.count ?? 0} node(s) differ (waited ${timeout}ms):\n${m?.diff ?? ''}\n\nRun with --update-snapshots to accept the new scene.`;
+    };
+    return {
+      pass,
+      message: () => (pass ? `Scene matches snapshot "${name}"` : failure()),
+      name: 'toMatchSceneSnapshot', expected: file, actual: text,
+    };
+  },
 };
 
+// ---------------------------------------------------------------------------
+// Golden-file helpers
+// ---------------------------------------------------------------------------
+
+/** `<spec dir>/__scene-snapshots__/<spec file>/<name>.json` */
+function sceneSnapshotPath(specFile: string, name: string): string {
+  const safeName = name.replace(/[^\w.-]+/g, '-');
+  return join(dirname(specFile), '__scene-snapshots__', basename(specFile), `${safeName}.json`);
+}
+
+function writeSceneSnapshot(file: string, text: string): void {
+  mkdirSync(dirname(file), { recursive: true });
+  writeFileSync(file, text);
+}
+
 // ---------------------------------------------------------------------------
 // Batch helper — resolve glob/wildcard patterns to matching testIds
 // ---------------------------------------------------------------------------
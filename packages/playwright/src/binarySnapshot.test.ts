@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { decodePartialSnapshot, decodeSnapshot } from './binarySnapshot';
+import { node } from './testSnapshots';
+
+// Encoded by core's encodeSnapshotBase64; core's tests pin the same bytes
+const SCENE_BASE64 =
+  'UjNGUwEAAAAAsIdW/rx4QgMAAAADAAAACgAAAAQAAAByb290BQAAAHNjZW5lBQAAAFNjZW5lAQAAAGEFAAAAY2hhaXIEAAAATWVzaBMAAAB7ImNvbG9yIjoiI2ZmMDAwMCJ9AQAAAGIAAAAAEwAAAHsiY3VzdG9tIjp7ImhwIjozfX3/////AAAAAAEAAAAAAAAAAwAAAAcAAAABAAAABAAAAAgAAAACAAAABQAAAAUAAAD/////BAAAAP//////////BgAAAAkAAAABAQAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAIA/AAAgQAAAQMAAAAAAAAAAAAAAAAAAAIA/AACAPwAAgD8AAAAAAAAAAAAAAAAAAAAAAAAAPwAAAAAAAIA/AACAPwAAgD8=';
+const PARTIAL_BASE64 =
+  'UjNGUwEAAAAAAAAAAADwPwIAAAACAAAAAwAAAAQAAAByb290AQAAAGEFAAAAY2hhaXL/////AAAAAAAAAAABAAAA//////////////////////////8CAAAA//////////8aHAAAAAAAAIA/AAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAAA==';
+
+const bytesOf = (base64: string) => Uint8Array.from(atob(base64), (c) => c.charCodeAt(0));
+
+describe('decodeSnapshot', () => {
+  it('decodes a full snapshot', () => {
+    expect(decodeSnapshot(SCENE_BASE64)).toEqual({
+      timestamp: 1700000000123,
+      objectCount: 3,
+      tree: node('root', { name: 'scene', type: 'Scene' }, [
+        node('a', { name: 'chair', testId: 'chair', position: [1, 2.5, -3], color: '#ff0000' }, [
+          node('b', { visible: false, rotation: [0, 0.5, 0], custom: { hp: 3 } }),
+        ]),
+      ]),
+    });
+  });
+
+  it('accepts bytes as well as base64', () => {
+    expect(decodeSnapshot(bytesOf(SCENE_BASE64))).toEqual(decodeSnapshot(SCENE_BASE64));
+  });
+
+  it('rejects field-limited payloads', () => {
+    expect(() => decodeSnapshot(PARTIAL_BASE64)).toThrow('decode it with decodePartialSnapshot');
+  });
+
+  it('rejects foreign data and newer format versions', () => {
+    expect(() => decodeSnapshot(new Uint8Array(40))).toThrow('not a binary scene snapshot');
+    const bytes = bytesOf(SCENE_BASE64);
+    new DataView(bytes.buffer).setUint16(4, 99, true);
+    expect(() => decodeSnapshot(bytes)).toThrow('format version 99 is newer than supported (1); upgrade @react-three-dom/playwright');
+  });
+});
+
+describe('decodePartialSnapshot', () => {
+  it('leaves omitted fields out', () => {
+    expect(decodePartialSnapshot(PARTIAL_BASE64).tree).toEqual({
+      uuid: 'root',
+      position: [0, 1, 0],
+      children: [{ uuid: 'a', testId: 'chair', visible: false, children: [] }],
+    });
+  });
+
+  it('decodes full snapshots too', () => {
+    expect(decodePartialSnapshot(SCENE_BASE64).tree.children[0]).toMatchObject({ name: 'chair', position: [1, 2.5, -3] });
+  });
+});
@@ -0,0 +1,180 @@
+/**
+ * @module binarySnapshot
+ *
+ * Decoder for the compact binary snapshot format produced by the bridge's
+ * `snapshotBinary()` (encoder: core `snapshot/binarySnapshot.ts`, where the
+ * layout is documented). Strings are stored once in a table and transforms
+ * as Float32, so a large scene crosses `page.evaluate` as a fraction of the
+ * JSON size.
+ *
+ * Stateless and side-effect-free — safe to call from any context.
+ */
+
+import type { PartialSceneSnapshot, PartialSnapshotNode, SceneSnapshot, SnapshotNode } from './types';
+
+/** Highest binary snapshot format version this decoder understands. */
+export const SNAPSHOT_BINARY_VERSION = 1;
+
+const MAGIC = 'R3FS';
+const NO_STRING = 0xffffffff;
+const HEADER_BYTES = 28;
+/** Node flag bits 1-4: visible, position, rotation, scale omitted (`fields`) */
+const OMITTED_COLUMNS = 0b11110;
+
+function toBytes(data: string | Uint8Array | ArrayBuffer): Uint8Array {
+  if (typeof data === 'string') {
+    const binary = atob(data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+  }
+  return data instanceof Uint8Array ? data : new Uint8Array(data);
+}
+
+/** Column readers over one encoded snapshot. */
+interface SnapshotColumns {
+  timestamp: number;
+  objectCount: number;
+  nodeCount: number;
+  parent(i: number): number;
+  uuid(i: number): string;
+  name(i: number): string | undefined;
+  type(i: number): string | undefined;
+  testId(i: number): string | undefined;
+  flags(i: number): number;
+  vec(i: number, k: number): [number, number, number];
+  extras(i: number): Record<string, unknown> | undefined;
+}
+
+function readColumns(data: string | Uint8Array | ArrayBuffer, caller: string): SnapshotColumns {
+  const bytes = toBytes(data);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (bytes.byteLength < HEADER_BYTES || String.fromCharCode(...bytes.subarray(0, 4)) !== MAGIC) {
+    throw new Error(`[react-three-dom] ${caller}: not a binary scene snapshot`);
+  }
+  const version = view.getUint16(4, true);
+  if (version > SNAPSHOT_BINARY_VERSION) {
+    throw new Error(
+      `[react-three-dom] ${caller}: format version ${version} is newer than supported (${SNAPSHOT_BINARY_VERSION}); upgrade @react-three-dom/playwright`,
+    );
+  }
+
+  const n = view.getUint32(20, true);
+  const stringCount = view.getUint32(24, true);
+
+  const decoder = new TextDecoder();
+  const strings: string[] = [];
+  let offset = HEADER_BYTES;
+  for (let i = 0; i < stringCount; i++) {
+    const length = view.getUint32(offset, true);
+    strings.push(decoder.decode(bytes.subarray(offset + 4, offset + 4 + length)));
+    offset += 4 + length;
+  }
+
+  const parentsAt = offset;
+  const refsAt = parentsAt + n * 4;
+  const flagsAt = refsAt + n * 5 * 4;
+  const transformsAt = flagsAt + n;
+  const ref = (column: number, i: number) => view.getUint32(refsAt + (column * n + i) * 4, true);
+  const str = (index: number) => (index === NO_STRING ? undefined : strings[index]);
+
+  return {
+    timestamp: view.getFloat64(8, true),
+    objectCount: view.getUint32(16, true),
+    nodeCount: n,
+    parent: (i) => view.getInt32(parentsAt + i * 4, true),
+    uuid: (i) => strings[ref(0, i)],
+    name: (i) => str(ref(1, i)),
+    type: (i) => str(ref(2, i)),
+    testId: (i) => str(ref(3, i)),
+    flags: (i) => view.getUint8(flagsAt + i),
+    vec: (i, k) => {
+      const at = transformsAt + (i * 9 + k * 3) * 4;
+      return [view.getFloat32(at, true), view.getFloat32(at + 4, true), view.getFloat32(at + 8, true)];
+    },
+    extras: (i) => {
+      const extras = str(ref(4, i));
+      return extras ? JSON.parse(extras) : undefined;
+    },
+  };
+}
+
+/** Build the pre-order node columns into a tree; returns the root. */
+function buildTree<N extends { children: N[] }>(columns: SnapshotColumns, toNode: (i: number) => N): N {
+  const nodes: N[] = [];
+  for (let i = 0; i < columns.nodeCount; i++) {
+    const node = toNode(i);
+    nodes.push(node);
+    const parent = columns.parent(i);
+    if (parent >= 0) nodes[parent].children.push(node);
+  }
+  return nodes[0];
+}
+
+/**
+ * Decode a binary snapshot (raw bytes, or base64 as returned through
+ * `page.evaluate`) back into a {@link SceneSnapshot}.
+ *
+ * @throws if the data is not a binary snapshot, its format version is
+ *   newer than {@link SNAPSHOT_BINARY_VERSION}, or it was taken with
+ *   `fields` (use {@link decodePartialSnapshot}).
+ */
+export function decodeSnapshot(data: string | Uint8Array | ArrayBuffer): SceneSnapshot {
+  const columns = readColumns(data, 'decodeSnapshot');
+  const tree = buildTree(columns, (i): SnapshotNode => {
+    const name = columns.name(i);
+    const type = columns.type(i);
+    const flags = columns.flags(i);
+    if (name === undefined || type === undefined || flags & OMITTED_COLUMNS) {
+      throw new Error(
+        '[react-three-dom] decodeSnapshot: snapshot was taken with `fields`; decode it with decodePartialSnapshot',
+      );
+    }
+    const node: SnapshotNode = {
+      uuid: columns.uuid(i),
+      name,
+      type,
+      testId: columns.testId(i),
+      visible: (flags & 1) === 1,
+      position: columns.vec(i, 0),
+      rotation: columns.vec(i, 1),
+      scale: columns.vec(i, 2),
+      children: [],
+    };
+    const extras = columns.extras(i);
+    if (extras) Object.assign(node, extras);
+    return node;
+  });
+  return { timestamp: columns.timestamp, objectCount: columns.objectCount, tree };
+}
+
+/**
+ * Decode a binary snapshot taken with `fields` (or a full one) into a
+ * {@link PartialSceneSnapshot}: each node carries only the fields that
+ * were encoded.
+ *
+ * @throws if the data is not a binary snapshot or its format version is
+ *   newer than {@link SNAPSHOT_BINARY_VERSION}.
+ */
+export function decodePartialSnapshot(data: string | Uint8Array | ArrayBuffer): PartialSceneSnapshot {
+  const columns = readColumns(data, 'decodePartialSnapshot');
+  const tree = buildTree(columns, (i): PartialSnapshotNode => {
+    const node: PartialSnapshotNode = { uuid: columns.uuid(i), children: [] };
+    // Omitted columns: absent strings and flag bits 1-4
+    const name = columns.name(i);
+    const type = columns.type(i);
+    const testId = columns.testId(i);
+    const flags = columns.flags(i);
+    if (name !== undefined) node.name = name;
+    if (type !== undefined) node.type = type;
+    if (testId !== undefined) node.testId = testId;
+    if (!(flags & (1 << 1))) node.visible = (flags & 1) === 1;
+    if (!(flags & (1 << 2))) node.position = columns.vec(i, 0);
+    if (!(flags & (1 << 3))) node.rotation = columns.vec(i, 1);
+    if (!(flags & (1 << 4))) node.scale = columns.vec(i, 2);
+    const extras = columns.extras(i);
+    if (extras) Object.assign(node, extras);
+    return node;
+  });
+  return { timestamp: columns.timestamp, objectCount: columns.objectCount, tree };
+}
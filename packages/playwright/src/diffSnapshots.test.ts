@@ -0,0 +1,147 @@
+import { describe, expect, it } from 'vitest';
+import { diffSnapshots, formatSceneDiff } from './diffSnapshots';
+import { namedNode, node, snap } from './testSnapshots';
+import type { SceneSnapshot, SnapshotNode } from './types';
+
+/** Same tree with every uuid prefixed, as after a page reload. */
+function reloaded(snapshot: SceneSnapshot): SceneSnapshot {
+  const rename = (n: SnapshotNode): SnapshotNode => ({ ...n, uuid: `new-${n.uuid}`, children: n.children.map(rename) });
+  return { ...snapshot, tree: rename(snapshot.tree) };
+}
+
+describe('diffSnapshots', () => {
+  it('reports nothing for identical snapshots', () => {
+    const s = snap(namedNode('a'), namedNode('b', {}, [namedNode('c')]));
+    expect(diffSnapshots(s, s)).toEqual({ added: [], removed: [], changed: [], reparented: [], renamed: [], reordered: [] });
+  });
+
+  it('pairs by uuid and reports added, removed and changed nodes', () => {
+    const before = snap(namedNode('a'), namedNode('b'));
+    const after = snap(namedNode('a', { position: [1, 0, 0], visible: false }), namedNode('c'));
+    const diff = diffSnapshots(before, after);
+    expect(diff.added.map((n) => n.uuid)).toEqual(['c']);
+    expect(diff.removed.map((n) => n.uuid)).toEqual(['b']);
+    expect(diff.changed).toEqual([
+      { uuid: 'a', field: 'visible', from: true, to: false },
+      { uuid: 'a', field: 'position', from: [0, 0, 0], to: [1, 0, 0] },
+    ]);
+  });
+
+  it('treats a reloaded scene as all new when pairing by uuid', () => {
+    const before = snap(namedNode('a', { testId: 'chair' }));
+    const diff = diffSnapshots(before, reloaded(before));
+    expect(diff.added.map((n) => n.uuid)).toEqual(['new-root', 'new-a']);
+    expect(diff.removed).toHaveLength(2);
+  });
+
+  it('applies tolerances and ignored fields', () => {
+    const before = snap(namedNode('a', { position: [0, 0, 0], rotation: [0, 0, 0], custom: { hp: 10 } }));
+    const after = snap(namedNode('a', { position: [0.0005, 0, 0], rotation: [0.5, 0, 0], custom: { hp: 9 } }));
+    expect(diffSnapshots(before, after, { tolerance: 1e-3, ignore: ['rotation', 'custom.hp'] }).changed).toEqual([]);
+    expect(diffSnapshots(before, after, { tolerance: { position: 1e-3, '*': 0 } }).changed.map((c) => c.field))
+      .toEqual(['rotation', 'custom.hp']);
+  });
+
+  it('reports reparented and renamed nodes', () => {
+    const before = snap(namedNode('a', {}, [namedNode('x')]), namedNode('b'));
+    const after = snap(namedNode('a'), namedNode('b', {}, [namedNode('x', { name: 'y' })]));
+    const diff = diffSnapshots(before, after);
+    expect(diff.reparented).toEqual([{ uuid: 'x', from: 'a', to: 'b', node: after.tree.children[1].children[0] }]);
+    expect(diff.renamed).toMatchObject([{ uuid: 'x', from: 'x', to: 'y' }]);
+    expect(diff.changed).toContainEqual({ uuid: 'x', field: 'name', from: 'x', to: 'y' });
+  });
+
+  describe('reordering', () => {
+    const order = (before: string[], after: string[]) =>
+      diffSnapshots(snap(...before.map((id) => namedNode(id))), snap(...after.map((id) => namedNode(id)))).reordered;
+
+    it('lists only the node that moved, not the siblings it shifted', () => {
+      expect(order(['a', 'b', 'c', 'd'], ['b', 'c', 'd', 'a'])).toMatchObject([{ uuid: 'a', from: 0, to: 3 }]);
+      expect(order(['a', 'b', 'c', 'd'], ['d', 'a', 'b', 'c'])).toMatchObject([{ uuid: 'd', from: 3, to: 0 }]);
+    });
+
+    it('keeps the longest run still in order', () => {
+      // Two adjacent swaps: a run of two stays, the other two moved
+      expect(order(['a', 'b', 'c', 'd'], ['b', 'a', 'd', 'c'])).toHaveLength(2);
+      expect(order(['a', 'b', 'c', 'd', 'e'], ['e', 'd', 'c', 'b', 'a'])).toHaveLength(4);
+    });
+
+    it('ignores shifts caused by insertions and removals', () => {
+      expect(order(['a', 'b', 'c'], ['x', 'a', 'c'])).toEqual([]);
+    });
+  });
+
+  describe("matchBy: 'testId'", () => {
+    it('pairs across a reload by testId, then by path under paired parents', () => {
+      const before = snap(namedNode('a', { testId: 'chair' }, [namedNode('leg')]), namedNode('b', { testId: 'table' }));
+      const after = reloaded(snap(namedNode('b', { testId: 'table' }), namedNode('a', { testId: 'chair', position: [1, 0, 0] }, [namedNode('leg')])));
+      const diff = diffSnapshots(before, after, { matchBy: 'testId' });
+      expect(diff.added).toEqual([]);
+      expect(diff.removed).toEqual([]);
+      expect(diff.changed).toEqual([{ uuid: 'new-a', field: 'position', from: [0, 0, 0], to: [1, 0, 0] }]);
+      expect(diff.reordered.map((r) => r.uuid)).toHaveLength(1);
+    });
+  });
+
+  describe("matchBy: 'path'", () => {
+    it('pairs duplicate names in order and unnamed nodes by type', () => {
+      const before = snap(namedNode('p1', { name: 'box' }), namedNode('p2', { name: 'box' }), namedNode('l', { name: '', type: 'PointLight' }));
+      const after = reloaded(snap(
+        namedNode('p1', { name: 'box' }),
+        namedNode('p2', { name: 'box', scale: [2, 2, 2] }),
+        namedNode('l', { name: '', type: 'PointLight' }),
+      ));
+      const diff = diffSnapshots(before, after, { matchBy: 'path' });
+      expect(diff.added).toEqual([]);
+      expect(diff.changed).toEqual([{ uuid: 'new-p2', field: 'scale', from: [1, 1, 1], to: [2, 2, 2] }]);
+    });
+
+    it('pairs a renamed leftover sibling with the same type and transform', () => {
+      const before = snap(namedNode('a', { name: 'door', position: [1, 2, 3] }), namedNode('b', { name: 'wall' }));
+      const after = reloaded(snap(namedNode('a', { name: 'door-open', position: [1, 2, 3] }), namedNode('b', { name: 'wall' })));
+      const diff = diffSnapshots(before, after, { matchBy: 'path' });
+      expect(diff.added).toEqual([]);
+      expect(diff.renamed).toMatchObject([{ uuid: 'new-a', from: 'door', to: 'door-open' }]);
+    });
+
+    it('follows a node moved to another parent, with its children', () => {
+      const before = snap(namedNode('a', {}, [namedNode('x', {}, [namedNode('leaf')])]), namedNode('b'));
+      const after = reloaded(snap(namedNode('a'), namedNode('b', {}, [namedNode('x', {}, [namedNode('leaf', { visible: false })])])));
+      const diff = diffSnapshots(before, after, { matchBy: 'path' });
+      expect(diff.removed).toEqual([]);
+      expect(diff.added).toEqual([]);
+      expect(diff.reparented.map(({ uuid, from, to }) => ({ uuid, from, to }))).toEqual([{ uuid: 'new-x', from: 'a', to: 'new-b' }]);
+      expect(diff.changed).toEqual([{ uuid: 'new-leaf', field: 'visible', from: true, to: false }]);
+    });
+
+    it('leaves ambiguous moves as removed and added', () => {
+      const before = snap(namedNode('a', {}, [node('x'), node('y')]), namedNode('b'));
+      const after = reloaded(snap(namedNode('a'), namedNode('b', {}, [node('x'), node('y')])));
+      const diff = diffSnapshots(before, after, { matchBy: 'path' });
+      expect(diff.removed.map((n) => n.uuid)).toEqual(['x', 'y']);
+      expect(diff.added.map((n) => n.uuid)).toEqual(['new-x', 'new-y']);
+      expect(diff.reparented).toEqual([]);
+    });
+  });
+});
+
+describe('formatSceneDiff', () => {
+  it('returns an empty string when nothing differs', () => {
+    const s = snap(namedNode('a'));
+    expect(formatSceneDiff(s, s)).toBe('');
+  });
+
+  it('shows only the changed branches with markers', () => {
+    const before = snap(namedNode('a', {}, [namedNode('x')]), namedNode('b'), namedNode('gone', {}, [namedNode('child')]));
+    const after = snap(namedNode('a', {}, [namedNode('x', { visible: false })]), namedNode('b', {}, [namedNode('new')]));
+    expect(formatSceneDiff(before, after)).toBe([
+      '  Scene',
+      '    Mesh "a"',
+      '~     Mesh "x"',
+      '          visible: true → false',
+      '    Mesh "b"',
+      '+     Mesh "new"',
+      '-   Mesh "gone" (with 1 descendant)',
+    ].join('\n'));
+  });
+});
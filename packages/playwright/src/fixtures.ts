@@ -11,16 +11,50 @@
 
 import { test as base } from '@playwright/test';
 import type { Locator, Page } from '@playwright/test';
-import type { ObjectMetadata, ObjectInspection, SceneSnapshot, SnapshotNode } from './types';
+import type {
+  ObjectMetadata,
+  ObjectInspection,
+  SceneSnapshot,
+  PartialSceneSnapshot,
+  SnapshotNode,
+  SnapshotOptions,
+  SpatialQueryOptions,
+  StoreChangeSet,
+  ObjectHistoryEntry,
+  EffectiveVisibility,
+  InstanceMetadata,
+  AnimationActionState,
+  SceneStats,
+  GestureOptions,
+  GestureResult,
+  KeyPressOptions,
+  LongPressOptions,
+  CaptureDragOptions,
+  CaptureDragResult,
+  DragToOptions,
+  DragToResult,
+  TypeTextOptions,
+} from './types';
 import { diffSnapshots as diffSnapshotsHelper } from './diffSnapshots';
-import type { SceneDiff } from './diffSnapshots';
-import { waitForSceneReady, waitForIdle, waitForObject, waitForNewObject, waitForObjectRemoved } from './waiters';
+import type { DiffSnapshotsOptions, SceneDiff } from './diffSnapshots';
+import { decodeSnapshot, decodePartialSnapshot } from './binarySnapshot';
+import { snapshotToGlb } from './gltfExport';
+import {
+  waitForSceneReady,
+  waitForIdle,
+  waitForObject,
+  waitForNewObject,
+  waitForObjectRemoved,
+  waitForAnimation,
+} from './waiters';
 import type { WaitForNewObjectOptions, WaitForNewObjectResult } from './waiters';
 import type {
   WaitForSceneReadyOptions,
   WaitForIdleOptions,
   WaitForObjectOptions,
   WaitForObjectRemovedOptions,
+  WaitForAnimationOptions,
+  AnimationWaitState,
 } from './waiters';
 import * as interactions from './interactions';
 import { R3FReporter } from './reporter';
@@ -41,6 +75,23 @@ export interface R3FFixtureOptions {
   report?: boolean;
   /** Target a specific canvas by its canvasId. When omitted, uses the default bridge. */
   canvasId?: string;
+  /**
+   * Attach the scene as `scene-on-failure.glb` to the report when a test
+   * fails. Pass export options to include geometry or limit it to a subtree.
+   */
+  attachSceneOnFailure?: boolean | SceneExportOptions;
+}
+
+/** Options for {@link R3FFixture.exportGlb} and {@link R3FFixture.attachScene}. */
+export interface SceneExportOptions {
+  /** testId, uuid or path id of the subtree to export. Default: the whole scene */
+  root?: string;
+  /**
+   * Include mesh vertex positions, triangle indices and a basic material.
+   * Every mesh's buffers cross `page.evaluate`, so large scenes take a
+   * while. Default: false (hierarchy, transforms and extras only)
+   */
+  geometry?: boolean;
 }
 
 /**
@@ -141,12 +192,12 @@ export class R3FFixture {
   // Queries
   // -----------------------------------------------------------------------
 
-  /** Get object metadata by testId or uuid. Returns null if not found. */
+  /** Get object metadata by testId, uuid or path id. Returns null if not found. */
   async getObject(idOrUuid: string): Promise<ObjectMetadata | null> {
     return this._page.evaluate(([id, cid]) => {
       const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
       if (!api) return null;
-      return api.getByTestId(id) ?? api.getByUuid(id) ?? null;
+      return api.getByTestId(id) ?? api.getByUuid(id) ?? api.getByPath(id) ?? null;
     }, [idOrUuid, this.canvasId ?? null] as const);
   }
 
@@ -166,6 +217,18 @@ export class R3FFixture {
     }, [uuid, this.canvasId ?? null] as const);
   }
 
+  /**
+   * Deterministic path id of an object, e.g. `Scene/Group[name=F3]/Mesh[2]`.
+   * Unlike uuids it survives page reloads, so it can address objects that
+   * have no testId. Accepted anywhere an id is. Returns null if not found.
+   */
+  async getPath(idOrUuid: string): Promise<string | null> {
+    return this._page.evaluate(([id, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getPath(id) : null;
+    }, [idOrUuid, this.canvasId ?? null] as const);
+  }
+
   /** Get all objects with the given name (names are not unique in Three.js). */
   async getByName(name: string): Promise<ObjectMetadata[]> {
     return this._page.evaluate(([n, cid]) => {
@@ -217,8 +280,23 @@ export class R3FFixture {
     }, [idOrUuid, this.canvasId ?? null] as const);
   }
 
-  /** Take a full scene snapshot. */
-  async snapshot(): Promise<SceneSnapshot | null> {
+  /**
+   * Take a scene snapshot, computed synchronously in the page. With
+   * `options`, snapshot a subtree, keep only some node types or fields.
+   *
+   * @example
+   * ```ts
+   * const floor = await r3f.snapshot({ root: 'floor-3', filter: ['Mesh'], fields: ['testId', 'position'] });
+   * ```
+   */
+  snapshot(options?: SnapshotOptions & { fields?: undefined }): Promise<SceneSnapshot | null>;
+  snapshot(options?: SnapshotOptions): Promise<PartialSceneSnapshot | null>;
+  async snapshot(options?: SnapshotOptions): Promise<SceneSnapshot | PartialSceneSnapshot | null> {
+    if (options) {
+      return this._page.evaluate<SceneSnapshot | PartialSceneSnapshot | null>(
+        snapshotCall(this.canvasId, 'snapshot', options),
+      );
+    }
     return this._page.evaluate((cid) => {
       const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
       return api ? api.snapshot() : null;
@@ -226,12 +304,137 @@ export class R3FFixture {
   }
 
   /**
-   * Compare two scene snapshots: returns added nodes, removed nodes, and
-   * property changes (name, type, testId, visible, position, rotation, scale).
+   * Take a full scene snapshot in the bridge's worker when ThreeDom has
+   * `worker` enabled, so large scenes keep rendering. Falls back to the
+   * synchronous snapshot otherwise.
+   */
+  async snapshotAsync(): Promise<SceneSnapshot | null> {
+    return this._page.evaluate((cid) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      if (!api) return null;
+      return typeof api.snapshotAsync === 'function' ? api.snapshotAsync() : api.snapshot();
+    }, this.canvasId ?? null);
+  }
+
+  /**
+   * Take a scene snapshot through the compact binary format. Much smaller
+   * than `snapshot()` over `page.evaluate` for large scenes; transforms are
+   * Float32, so compare them with a tolerance. Accepts the same options.
+   */
+  snapshotBinary(options?: SnapshotOptions & { fields?: undefined }): Promise<SceneSnapshot | null>;
+  snapshotBinary(options?: SnapshotOptions): Promise<PartialSceneSnapshot | null>;
+  async snapshotBinary(options?: SnapshotOptions): Promise<SceneSnapshot | PartialSceneSnapshot | null> {
+    const encoded = options
+      ? await this._page.evaluate<string | null>(snapshotCall(this.canvasId, 'snapshotBinary', options))
+      : await this._page.evaluate((cid) => {
+          const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+          return api && typeof api.snapshotBinary === 'function' ? api.snapshotBinary() : null;
+        }, this.canvasId ?? null);
+    if (!encoded) return null;
+    return options?.fields ? decodePartialSnapshot(encoded) : decodeSnapshot(encoded);
+  }
+
+  /**
+   * Get all store changes (add / remove / update, batched per frame) after
+   * journal sequence `since`. Cheaper than re-snapshotting for incremental
+   * polling; when `truncated` is true the history was evicted and you should
+   * take a fresh snapshot instead.
+   *
+   * @example
+   * ```typescript
+   * const seq = await r3f.getJournalSeq();
+   * await r3f.click('load-model');
+   * const { batches } = await r3f.getChangesSince(seq);
+   * ```
+   */
+  async getChangesSince(since: number): Promise<StoreChangeSet> {
+    return this._page.evaluate(([s, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getChangesSince(s) : { since: s, seq: 0, truncated: false, batches: [] };
+    }, [since, this.canvasId ?? null] as const);
+  }
+
+  /** Latest change journal sequence number. Record it before an action, then call getChangesSince. */
+  async getJournalSeq(): Promise<number> {
+    return this._page.evaluate((cid) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getJournalSeq() : 0;
+    }, this.canvasId ?? null);
+  }
+
+  /**
+   * Timestamped transform / visibility / parent changes of an object,
+   * oldest first. Requires `<ThreeDom history />`; returns [] otherwise.
+   * Removed objects can still be looked up by their last testId or uuid.
+   */
+  async getHistory(idOrUuid: string): Promise<ObjectHistoryEntry[]> {
+    return this._reporter.fetchHistory(idOrUuid);
+  }
+
+  /** Print an object's history timeline to the terminal. */
+  async logHistory(idOrUuid: string, limit?: number): Promise<void> {
+    return this._reporter.logHistory(idOrUuid, limit);
+  }
+
+  /**
+   * Compare two scene snapshots: returns added, removed, reparented,
+   * renamed and reordered nodes, and property changes (name, type, testId,
+   * visible, transform, and extended appearance fields when enabled).
    * Use after taking snapshots before/after an action to assert on scene changes.
+   * Pass `matchBy: 'testId'` to compare snapshots taken across a reload,
+   * and `tolerance` / `ignore` to skip float noise or volatile fields.
    */
-  diffSnapshots(before: SceneSnapshot, after: SceneSnapshot): SceneDiff {
-    return diffSnapshotsHelper(before, after);
+  diffSnapshots(before: SceneSnapshot, after: SceneSnapshot, options?: DiffSnapshotsOptions): SceneDiff {
+    return diffSnapshotsHelper(before, after, options);
+  }
+
+  /**
+   * Export the scene as a GLB (binary glTF) file that opens in any glTF
+   * viewer: node hierarchy, names and local transforms, with testId, uuid,
+   * type, visibility and userData in each node's `extras`. Returns null
+   * when the bridge is not available.
+   *
+   * @example
+   * ```ts
+   * const glb = await r3f.exportGlb({ geometry: true });
+   * fs.writeFileSync('scene.glb', glb!);
+   * ```
+   */
+  async exportGlb(options?: SceneExportOptions): Promise<Uint8Array | null> {
+    const snapshot = await this.snapshot(options?.root !== undefined ? { root: options.root } : undefined);
+    if (!snapshot) return null;
+    const uuids: string[] = [];
+    const collect = (node: SnapshotNode) => {
+      uuids.push(node.uuid);
+      node.children.forEach(collect);
+    };
+    collect(snapshot.tree);
+    const inspections = await this._page.evaluate(({ ids, geometry, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      const result: Record<string, ObjectInspection | null> = {};
+      if (!api) return result;
+      for (const id of ids) result[id] = api.inspect(id, { includeGeometryData: geometry });
+      return result;
+    }, { ids: uuids, geometry: options?.geometry === true, cid: this.canvasId ?? null });
+    return snapshotToGlb(snapshot, { inspections });
+  }
+
+  /**
+   * Export the scene with {@link exportGlb} and attach it to the current
+   * test's report as `<name>.glb`. Does nothing when the bridge is not
+   * available.
+   *
+   * @example
+   * ```ts
+   * test.afterEach(async ({ r3f }, testInfo) => {
+   *   if (testInfo.status !== testInfo.expectedStatus) await r3f.attachScene('failure');
+   * });
+   * ```
+   */
+  async attachScene(name = 'scene', options?: SceneExportOptions): Promise<void> {
+    const glb = await this.exportGlb(options);
+    if (!glb) return;
+    await base.info().attach(`${name}.glb`, { body: Buffer.from(glb), contentType: 'model/gltf-binary' });
   }
 
   /**
@@ -308,6 +511,128 @@ export class R3FFixture {
     }, { k: key, v: value, cid: this.canvasId ?? null });
   }
 
+  /**
+   * Get objects whose extractor field (from `<ThreeDom extractors />`)
+   * equals `value`. Comparison is strict: 101 and "101" differ.
+   */
+  async getByField(name: string, value: string | number | boolean): Promise<ObjectMetadata[]> {
+    return this._page.evaluate(({ n, v, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getByField(n, v) : [];
+    }, { n: name, v: value, cid: this.canvasId ?? null });
+  }
+
+  /**
+   * Find objects with a CSS-like selector evaluated against Tier 1 metadata.
+   * Supports types, `#testId` globs, `[attr op value]` tests (including
+   * `userData.*` and `position.x`), and descendant / `>` child combinators.
+   *
+   * @example
+   * ```typescript
+   * const doors = await r3f.query('Mesh[userData.floor=3] > Group#door-*');
+   * ```
+   */
+  async query(selector: string): Promise<ObjectMetadata[]> {
+    return this._page.evaluate(([sel, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.query(sel) : [];
+    }, [selector, this.canvasId ?? null] as const);
+  }
+
+  /**
+   * Get objects whose world-space bounds intersect an axis-aligned box.
+   * Pass `{ mode: 'contains' }` to require bounds fully inside the box.
+   * Accepts `inspect().bounds` directly.
+   *
+   * @example
+   * ```typescript
+   * const onDesk = await r3f.getInBox({ min: [-1, 0.7, -0.5], max: [1, 2, 0.5] });
+   * ```
+   */
+  async getInBox(
+    box: { min: [number, number, number]; max: [number, number, number] },
+    options?: SpatialQueryOptions,
+  ): Promise<ObjectMetadata[]> {
+    return this._page.evaluate(({ b, o, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getInBox(b, o) : [];
+    }, { b: box, o: options, cid: this.canvasId ?? null });
+  }
+
+  /**
+   * Get objects whose world-space bounds intersect a sphere of `radius`
+   * around `center`. Pass `{ mode: 'contains' }` to require full containment.
+   */
+  async getWithinRadius(
+    center: [number, number, number],
+    radius: number,
+    options?: SpatialQueryOptions,
+  ): Promise<ObjectMetadata[]> {
+    return this._page.evaluate(({ c, r, o, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getWithinRadius(c, r, o) : [];
+    }, { c: center, r: radius, o: options, cid: this.canvasId ?? null });
+  }
+
+  /**
+   * Get objects whose world-space bounds intersect a camera frustum.
+   * Uses the active camera unless a camera testId/uuid is given.
+   */
+  async getInFrustum(cameraIdOrUuid?: string, options?: SpatialQueryOptions): Promise<ObjectMetadata[]> {
+    return this._page.evaluate(({ cam, o, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getInFrustum(cam, o) : [];
+    }, { cam: cameraIdOrUuid, o: options, cid: this.canvasId ?? null });
+  }
+
+  /**
+   * Effective visibility of an object with the reason it is hidden
+   * (self, ancestor, layer, material, opacity or frustum).
+   * Pass `{ frustum: false }` to skip the camera frustum check.
+   */
+  async getEffectiveVisibility(
+    idOrUuid: string,
+    options?: { frustum?: boolean },
+  ): Promise<EffectiveVisibility | null> {
+    return this._page.evaluate(({ id, o, cid }) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getEffectiveVisibility(id, o) : null;
+    }, { id: idOrUuid, o: options, cid: this.canvasId ?? null });
+  }
+
+  /**
+   * All instances of an InstancedMesh as virtual children, with
+   * matrix-derived position/rotation/scale and instance color.
+   */
+  async getInstances(idOrUuid: string): Promise<InstanceMetadata[]> {
+    return this._page.evaluate(([id, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getInstances(id) : [];
+    }, [idOrUuid, this.canvasId ?? null] as const);
+  }
+
+  /**
+   * A single instance by "mesh#index" (e.g. "trees#42") or by a per-instance
+   * testId from `userData.instanceTestIds`.
+   */
+  async getInstance(id: string): Promise<InstanceMetadata | null> {
+    return this._page.evaluate(([i, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getInstance(i) : null;
+    }, [id, this.canvasId ?? null] as const);
+  }
+
+  /**
+   * State of every action on tracked AnimationMixers (clip name, time,
+   * weight, loop mode, running / finished), optionally for one mixer root.
+   */
+  async getAnimations(rootIdOrUuid?: string): Promise<AnimationActionState[]> {
+    return this._page.evaluate(([r, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getAnimations(r ?? undefined) : [];
+    }, [rootIdOrUuid ?? null, this.canvasId ?? null] as const);
+  }
+
   /**
    * Count objects of a given Three.js type.
    */
@@ -363,7 +688,9 @@ export class R3FFixture {
   // -----------------------------------------------------------------------
 
   /**
-   * Click a 3D object by testId or uuid.
+   * Click a 3D object by testId or uuid. InstancedMesh instances can be
+   * targeted as "mesh#index" (e.g. "trees#42") or by per-instance testId;
+   * the click is projected onto that instance and raycast-verified.
    * Auto-waits for the bridge and the object to exist before clicking.
    * @param timeout  Optional auto-wait timeout in ms. Default: 5000
    */
@@ -388,7 +715,7 @@ export class R3FFixture {
   }
 
   /**
-   * Hover over a 3D object by testId or uuid.
+   * Hover over a 3D object by testId or uuid (or an instance id, "trees#42").
    * Auto-waits for the object to exist.
    */
   async hover(idOrUuid: string, timeout?: number): Promise<void> {
@@ -415,6 +742,23 @@ export class R3FFixture {
     return interactions.drag(this._page, idOrUuid, delta, timeout, this.canvasId);
   }
 
+  /**
+   * Drag one 3D object onto another (snap to a socket, drop into a
+   * container): drags from the source's projected point to the target's,
+   * hovers over the target for `hoverSteps` moves, then drops. The drop
+   * point is raycast-verified against the target.
+   * Returns the source position after the drop.
+   * Auto-waits for both objects to exist.
+   */
+  async dragTo(
+    sourceId: string,
+    targetId: string,
+    options?: DragToOptions,
+    timeout?: number,
+  ): Promise<DragToResult> {
+    return interactions.dragTo(this._page, sourceId, targetId, options, timeout, this.canvasId);
+  }
+
   /**
    * Dispatch a wheel/scroll event on a 3D object.
    * Auto-waits for the object to exist.
@@ -427,6 +771,47 @@ export class R3FFixture {
     return interactions.wheel(this._page, idOrUuid, options, timeout, this.canvasId);
   }
 
+  /**
+   * Press and hold a 3D object: pointerdown, wait `durationMs` (default
+   * 600), pointerup, then click for mouse/pen. `jitter` adds small
+   * deterministic pointermoves while holding.
+   * Auto-waits for the object to exist.
+   */
+  async longPress(idOrUuid: string, options?: LongPressOptions, timeout?: number): Promise<void> {
+    return interactions.longPress(this._page, idOrUuid, options, timeout, this.canvasId);
+  }
+
+  /**
+   * Drag a 3D object to a point, honoring pointer capture: once a handler
+   * calls `setPointerCapture`, moves and the pointerup keep reaching it
+   * off the mesh and off the canvas. `to` is a canvas-relative point (may
+   * be outside the canvas), a `{ dx, dy }` delta, or a locator to drop on
+   * (e.g. a trash bin next to the canvas). The result lists which objects'
+   * onPointerMove / onPointerUp ran.
+   * Auto-waits for the object to exist.
+   */
+  async captureDrag(
+    idOrUuid: string,
+    to: { x: number; y: number } | { dx: number; dy: number } | Locator,
+    options?: CaptureDragOptions,
+    timeout?: number,
+  ): Promise<CaptureDragResult> {
+    let point: { x: number; y: number } | { dx: number; dy: number };
+    if ('boundingBox' in to) {
+      const [box, canvasBox] = await Promise.all([
+        to.boundingBox(),
+        this.getCanvasLocator().first().boundingBox(),
+      ]);
+      if (!box || !canvasBox) {
+        throw new Error(`captureDrag("${idOrUuid}"): drop target or canvas is not visible`);
+      }
+      point = { x: box.x + box.width / 2 - canvasBox.x, y: box.y + box.height / 2 - canvasBox.y };
+    } else {
+      point = to;
+    }
+    return interactions.captureDrag(this._page, idOrUuid, point, options, timeout, this.canvasId);
+  }
+
   /**
    * Click empty space to trigger onPointerMissed handlers.
    * Auto-waits for the bridge to be ready.
@@ -453,6 +838,93 @@ export class R3FFixture {
     return interactions.drawPathOnCanvas(this._page, points, options, timeout, this.canvasId);
   }
 
+  /**
+   * Two-finger pinch centered on `options.target` (or the canvas center).
+   * The finger distance goes from `spread` to `spread × scale`: above 1
+   * spreads the fingers (zoom in), below 1 pinches them together.
+   * Auto-waits for the target object, or the bridge when there is none.
+   */
+  async pinch(scale: number, options?: GestureOptions, timeout?: number): Promise<GestureResult> {
+    return interactions.pinch(this._page, scale, options, timeout, this.canvasId);
+  }
+
+  /**
+   * Two-finger rotation by `degrees` (clockwise on screen) around
+   * `options.target` (or the canvas center).
+   * Auto-waits for the target object, or the bridge when there is none.
+   */
+  async rotateGesture(degrees: number, options?: GestureOptions, timeout?: number): Promise<GestureResult> {
+    return interactions.rotateGesture(this._page, degrees, options, timeout, this.canvasId);
+  }
+
+  /**
+   * Two-finger pan: both fingers move by the same screen-space delta.
+   * Auto-waits for the target object, or the bridge when there is none.
+   */
+  async twoFingerPan(
+    delta: { dx: number; dy: number },
+    options?: GestureOptions,
+    timeout?: number,
+  ): Promise<GestureResult> {
+    return interactions.twoFingerPan(this._page, delta, options, timeout, this.canvasId);
+  }
+
+  // -----------------------------------------------------------------------
+  // Keyboard
+  // -----------------------------------------------------------------------
+
+  /**
+   * Press a key or combo ("r", "Enter", "Control+Shift+Z") with the canvas
+   * focused: keydown → keypress → keyup, modifiers pressed around it.
+   * Auto-waits for the bridge to be ready.
+   *
+   * @param key     Key name or `+`-separated combo (Playwright key names)
+   * @param options Auto-repeat count, hold delay, focus
+   */
+  async press(key: string, options?: KeyPressOptions, timeout?: number): Promise<void> {
+    return interactions.pressKey(this._page, key, options, timeout, this.canvasId);
+  }
+
+  /**
+   * Type text one character at a time with the canvas focused.
+   * Auto-waits for the bridge to be ready.
+   */
+  async type(text: string, options?: TypeTextOptions, timeout?: number): Promise<void> {
+    return interactions.typeText(this._page, text, options, timeout, this.canvasId);
+  }
+
+  /**
+   * Hold a key or combo down until `keyUp`. Held modifiers are added to
+   * every pointer interaction in between (shift-drag, ctrl-click).
+   */
+  async keyDown(key: string, timeout?: number): Promise<void> {
+    return interactions.keyDown(this._page, key, timeout, this.canvasId);
+  }
+
+  /** Release keys held with `keyDown`. */
+  async keyUp(key: string, timeout?: number): Promise<void> {
+    return interactions.keyUp(this._page, key, timeout, this.canvasId);
+  }
+
+  /**
+   * Run `action` with keys held down, releasing them afterwards even if it
+   * throws — for pointer chords.
+   *
+   * @example
+   * ```ts
+   * await r3f.withKeys('Shift', () => r3f.drag('box', { x: 1, y: 0, z: 0 }));
+   * await r3f.withKeys('Control', () => r3f.click('item-2'));
+   * ```
+   */
+  async withKeys<T>(keys: string, action: () => Promise<T>): Promise<T> {
+    await this.keyDown(keys);
+    try {
+      return await action();
+    } finally {
+      await this.keyUp(keys);
+    }
+  }
+
   // -----------------------------------------------------------------------
   // Camera
   // -----------------------------------------------------------------------
@@ -544,6 +1016,18 @@ export class R3FFixture {
     return waitForObjectRemoved(this._page, idOrUuid, { ...options, canvasId: this.canvasId });
   }
 
+  /**
+   * Wait until an animation clip reaches a state: "playing", "finished"
+   * (default) or "stopped". Pass `root` to limit to one mixer's root object.
+   */
+  async waitForAnimation(
+    clipName: string,
+    state?: AnimationWaitState,
+    options?: WaitForAnimationOptions,
+  ): Promise<AnimationActionState> {
+    return waitForAnimation(this._page, clipName, state, { ...options, canvasId: this.canvasId });
+  }
+
   // -----------------------------------------------------------------------
   // Selection (for inspector integration)
   // -----------------------------------------------------------------------
@@ -577,6 +1061,19 @@ export class R3FFixture {
     return this._reporter.fetchDiagnostics();
   }
 
+  /**
+   * Render-cost statistics: draw calls, triangles and programs from
+   * renderer.info (with the change since the previous frame), plus unique
+   * materials, geometries and textures with estimated texture bytes.
+   * Returns null if the bridge is not available.
+   */
+  async getSceneStats(): Promise<SceneStats | null> {
+    return this._page.evaluate((cid) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      return api ? api.getSceneStats() : null;
+    }, this.canvasId ?? null);
+  }
+
   /**
    * Print a full diagnostics report to the terminal.
    * Useful at the start of a test suite or when debugging failures.
@@ -586,6 +1083,64 @@ export class R3FFixture {
   }
 }
 
+// ---------------------------------------------------------------------------
+// Snapshot options — functions cannot cross page.evaluate, so a call with
+// a filter predicate is sent as an expression with the predicate's source
+// spliced in. page.evaluate runs strings over the debugger protocol, which
+// the page's CSP does not restrict; `new Function` in the page would need
+// 'unsafe-eval'. Only the source crosses, so a predicate that closes over
+// test variables fails in the page; both failure modes name that rule.
+// ---------------------------------------------------------------------------
+
+const SELF_CONTAINED_RULE =
+  'filter predicates are sent to the page as source, so they must be self-contained ' +
+  '(no variables, imports or helpers from the test file)';
+
+/**
+ * Source of a filter predicate as an expression. Method shorthand
+ * (`{ filter(n) { … } }.filter`) stringifies without `function`, so it is
+ * retried with the keyword. Throws when neither form parses.
+ */
+function predicateSource(method: string, filter: (meta: ObjectMetadata) => boolean): string {
+  const src = filter.toString();
+  for (const candidate of [src, `function ${src}`]) {
+    try {
+      new Function(`return (${candidate});`);
+      return `(${candidate})`;
+    } catch {
+      // Not an expression on its own; try the next form
+    }
+  }
+  throw new Error(`${method}: cannot send the filter predicate to the page (its source does not parse); ${SELF_CONTAINED_RULE}`);
+}
+
+/** Expression calling `method(options)` on the bridge (null when absent). */
+function snapshotCall(
+  canvasId: string | undefined,
+  method: 'snapshot' | 'snapshotBinary',
+  options: SnapshotOptions,
+): string {
+  const { filter, ...rest } = options;
+  const api = canvasId
+    ? `(window.__R3F_DOM_INSTANCES__ || {})[${JSON.stringify(canvasId)}]`
+    : 'window.__R3F_DOM__';
+  // A predicate is wrapped so a ReferenceError from a closure says why
+  const filterSource = typeof filter === 'function'
+    ? `((predicate) => (meta) => {
+      try {
+        return predicate(meta);
+      } catch (err) {
+        throw new Error(${JSON.stringify(`${method}: filter predicate threw in the page: `)} + (err && err.message) + ${JSON.stringify(`; ${SELF_CONTAINED_RULE}`)});
+      }
+    })(${predicateSource(method, filter)})`
+    : JSON.stringify(filter ?? null);
+  return `(() => {
+    const api = ${api};
+    if (!api || typeof api.${method} !== 'function') return null;
+    return api.${method}(Object.assign(${JSON.stringify(rest)}, { filter: ${filterSource} || undefined }));
+  })()`;
+}
+
 // ---------------------------------------------------------------------------
 // Scene tree formatter — used by logScene()
 // ---------------------------------------------------------------------------
@@ -632,9 +1187,16 @@ export const test = base.extend<{ r3f: R3FFixture }>({
  */
 export function createR3FTest(options?: R3FFixtureOptions) {
   return base.extend<{ r3f: R3FFixture }>({
-    r3f: async ({ page }, use) => {
+    r3f: async ({ page }, use, testInfo) => {
       const fixture = new R3FFixture(page, options);
       await use(fixture);
+      const attach = options?.attachSceneOnFailure;
+      if (attach && testInfo.status !== testInfo.expectedStatus) {
+        // The page may already be gone; the original failure matters more
+        await fixture
+          .attachScene('scene-on-failure', attach === true ? undefined : attach)
+          .catch(() => {});
+      }
     },
   });
 }
@@ -2,7 +2,30 @@
 // This mirrors the R3FDOM interface from @react-three-dom/core but avoids
 // a runtime dependency — only used for TypeScript in page.evaluate callbacks.
 
-import type { ObjectMetadata, ObjectInspection, SceneSnapshot } from './types';
+import type {
+  ObjectMetadata,
+  ObjectInspection,
+  SceneSnapshot,
+  PartialSceneSnapshot,
+  SnapshotOptions,
+  SpatialQueryOptions,
+  StoreChangeSet,
+  ObjectHistoryEntry,
+  EffectiveVisibility,
+  InstanceMetadata,
+  AnimationActionState,
+  SceneStats,
+  GestureOptions,
+  GestureResult,
+  LongPressOptions,
+  CaptureDragOptions,
+  CaptureDragResult,
+  DragToOptions,
+  DragToResult,
+  KeyPressOptions,
+  TypeTextOptions,
+} from './types';
+import type { SceneDiff } from './diffSnapshots';
 
 interface BridgeDiagnostics {
   version: string;
@@ -19,6 +42,10 @@ interface BridgeDiagnostics {
   canvasHeight: number;
   webglRenderer: string;
   dirtyQueueSize: number;
+  /** getByUserData secondary index usage (absent on older bridges) */
+  userDataIndexes?: { keys: string[]; entries: number; hits: number; misses: number };
+  /** Where the *Async snapshot APIs run (absent on older bridges) */
+  snapshotWorker?: 'worker' | 'sync';
 }
 
 interface R3FDOM {
@@ -27,6 +54,8 @@ interface R3FDOM {
   canvasId?: string;
   getByTestId(id: string): ObjectMetadata | null;
   getByUuid(uuid: string): ObjectMetadata | null;
+  getByPath(path: string): ObjectMetadata | null;
+  getPath(idOrUuid: string): string | null;
   getByName(name: string): ObjectMetadata[];
   getChildren(idOrUuid: string): ObjectMetadata[];
   getParent(idOrUuid: string): ObjectMetadata | null;
@@ -35,9 +64,36 @@ interface R3FDOM {
   getByGeometryType(type: string): ObjectMetadata[];
   getByMaterialType(type: string): ObjectMetadata[];
   getByUserData(key: string, value?: unknown): ObjectMetadata[];
+  getByField(name: string, value: string | number | boolean): ObjectMetadata[];
+  query(selector: string): ObjectMetadata[];
+  getInBox(
+    box: { min: [number, number, number]; max: [number, number, number] },
+    options?: SpatialQueryOptions,
+  ): ObjectMetadata[];
+  getWithinRadius(
+    center: [number, number, number],
+    radius: number,
+    options?: SpatialQueryOptions,
+  ): ObjectMetadata[];
+  getInFrustum(cameraIdOrUuid?: string, options?: SpatialQueryOptions): ObjectMetadata[];
+  getEffectiveVisibility(idOrUuid: string, options?: { frustum?: boolean }): EffectiveVisibility | null;
+  getInstances(idOrUuid: string): InstanceMetadata[];
+  getInstance(id: string): InstanceMetadata | null;
+  getAnimations(rootIdOrUuid?: string): AnimationActionState[];
   getCountByType(type: string): number;
   getObjects(ids: string[]): Record<string, ObjectMetadata | null>;
-  snapshot(): SceneSnapshot;
+  snapshot(options?: SnapshotOptions & { fields?: undefined }): SceneSnapshot;
+  snapshot(options?: SnapshotOptions): PartialSceneSnapshot;
+  /** Base64 binary snapshot; decode with `decodeSnapshot` (`decodePartialSnapshot` with `fields`) */
+  snapshotBinary(options?: SnapshotOptions): string;
+  /** Off-main-thread variants (ThreeDom `worker`); absent on older bridges */
+  snapshotAsync(): Promise<SceneSnapshot>;
+  fuzzyFindAsync(query: string, limit?: number): Promise<ObjectMetadata[]>;
+  diffAsync(before: SceneSnapshot, after: SceneSnapshot): Promise<SceneDiff>;
+  sceneHashAsync(): Promise<string>;
+  getChangesSince(since: number): StoreChangeSet;
+  getJournalSeq(): number;
+  getHistory(idOrUuid: string): ObjectHistoryEntry[];
   inspect(idOrUuid: string, options?: { includeGeometryData?: boolean }): ObjectInspection | null;
   click(idOrUuid: string): void;
   doubleClick(idOrUuid: string): void;
@@ -46,11 +102,25 @@ interface R3FDOM {
   unhover(): void;
   drag(idOrUuid: string, delta: { x: number; y: number; z: number }): Promise<void>;
   wheel(idOrUuid: string, options?: { deltaY?: number; deltaX?: number }): void;
+  longPress(idOrUuid: string, options?: LongPressOptions): Promise<void>;
+  captureDrag(
+    idOrUuid: string,
+    to: { x: number; y: number } | { dx: number; dy: number },
+    options?: CaptureDragOptions,
+  ): Promise<CaptureDragResult>;
+  dragTo(sourceId: string, targetId: string, options?: DragToOptions): Promise<DragToResult>;
   pointerMiss(): void;
   drawPath(
     points: Array<{ x: number; y: number; pressure?: number }>,
     options?: { stepDelayMs?: number; pointerType?: 'mouse' | 'pen' | 'touch'; clickAtEnd?: boolean },
   ): Promise<{ eventCount: number; pointCount: number }>;
+  pinch(scale: number, options?: GestureOptions): Promise<GestureResult>;
+  rotateGesture(degrees: number, options?: GestureOptions): Promise<GestureResult>;
+  twoFingerPan(delta: { dx: number; dy: number }, options?: GestureOptions): Promise<GestureResult>;
+  press(key: string, options?: KeyPressOptions): Promise<void>;
+  type(text: string, options?: TypeTextOptions): Promise<void>;
+  keyDown(key: string, options?: { focus?: boolean }): void;
+  keyUp(key: string, options?: { focus?: boolean }): void;
   select(idOrUuid: string): void;
   clearSelection(): void;
   getSelection(): string[];
@@ -58,6 +128,7 @@ interface R3FDOM {
   setInspectMode(on: boolean): void;
   sweepOrphans(): number;
   getDiagnostics(): BridgeDiagnostics;
+  getSceneStats(): SceneStats;
   getCameraState(): CameraState;
   fuzzyFind(query: string, limit?: number): ObjectMetadata[];
   version: string;
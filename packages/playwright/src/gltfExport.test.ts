@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { snapshotToGltf } from './gltfExport';
+import { namedNode, snap } from './testSnapshots';
+import type { ObjectInspection } from './types';
+
+/** Inspection carrying `vertices` vertices of geometry data. */
+function withGeometry(vertices: number): ObjectInspection {
+  return {
+    geometry: { type: 'BufferGeometry', attributes: {}, positionData: Array.from({ length: vertices * 3 }, (_, i) => i) },
+  } as ObjectInspection;
+}
+
+describe('snapshotToGltf', () => {
+  it('writes the hierarchy, transforms and extras', () => {
+    const { json, bin } = snapshotToGltf(snap(namedNode('a', { testId: 'chair', position: [1, 2, 3], rotation: [0, Math.PI, 0] })));
+    expect(bin).toBeNull();
+    expect(json.scenes[0].nodes).toEqual([0]);
+    expect(json.nodes[0].children).toEqual([1]);
+    const chair = json.nodes[1];
+    expect(chair).toMatchObject({ name: 'a', translation: [1, 2, 3], extras: { uuid: 'a', testId: 'chair', type: 'Mesh' } });
+    expect(chair.rotation![1]).toBeCloseTo(1, 6);
+    expect(chair).not.toHaveProperty('scale');
+  });
+
+  it('picks the primitive mode from the object type', () => {
+    const types = ['Mesh', 'Points', 'LineSegments', 'LineLoop', 'Line'];
+    const { json } = snapshotToGltf(snap(...types.map((type) => namedNode(type, { type }))), {
+      inspections: Object.fromEntries(types.map((type) => [type, withGeometry(4)])),
+    });
+    expect(json.meshes!.map((m) => m.primitives[0].mode)).toEqual([4, 0, 1, 2, 3]);
+  });
+
+  it('skips geometry with too few vertices for its mode', () => {
+    const { json } = snapshotToGltf(snap(namedNode('tri', { type: 'Mesh' }), namedNode('seg', { type: 'Line' })), {
+      inspections: { tri: withGeometry(2), seg: withGeometry(2) },
+    });
+    expect(json.meshes).toEqual([{ name: 'seg', primitives: [expect.objectContaining({ mode: 3 })] }]);
+  });
+});
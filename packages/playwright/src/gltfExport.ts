@@ -0,0 +1,296 @@
+/**
+ * @module gltfExport
+ *
+ * Converts a {@link SceneSnapshot} into a glTF 2.0 document (or a binary
+ * GLB) so the scene state of a failing test can be attached to the report
+ * and opened in any glTF viewer. Nodes keep the snapshot's hierarchy,
+ * names and local transforms; testId, uuid, type, visibility, userData and
+ * the remaining snapshot fields travel in each node's `extras`.
+ *
+ * Geometry is optional: pass inspections taken with
+ * `inspect(id, { includeGeometryData: true })` and meshes get their vertex
+ * positions, indices and a basic material; Points and Line objects are
+ * written with the matching primitive mode. Without them the file is a node
+ * hierarchy only.
+ *
+ * Snapshots do not record Euler order, so rotations are converted assuming
+ * three.js's default 'XYZ'. Objects rotated in another order export with
+ * the wrong orientation.
+ *
+ * Stateless and side-effect-free — safe to call from any context.
+ */
+
+import type { ObjectInspection, SceneSnapshot, SnapshotNode } from './types';
+
+/** Minimal glTF 2.0 types for the parts this exporter writes. */
+export interface GltfNode {
+  name?: string;
+  children?: number[];
+  translation?: [number, number, number];
+  rotation?: [number, number, number, number];
+  scale?: [number, number, number];
+  mesh?: number;
+  extras?: Record<string, unknown>;
+}
+
+export interface GltfDocument {
+  asset: { version: '2.0'; generator: string };
+  scene: number;
+  scenes: { name?: string; nodes: number[] }[];
+  nodes: GltfNode[];
+  meshes?: { name?: string; primitives: { attributes: Record<string, number>; indices?: number; material?: number; mode: number }[] }[];
+  materials?: {
+    name?: string;
+    pbrMetallicRoughness: { baseColorFactor: [number, number, number, number]; metallicFactor: number; roughnessFactor: number };
+    alphaMode?: 'OPAQUE' | 'BLEND';
+    doubleSided?: boolean;
+  }[];
+  accessors?: {
+    bufferView: number;
+    componentType: number;
+    count: number;
+    type: 'SCALAR' | 'VEC3';
+    min?: number[];
+    max?: number[];
+  }[];
+  bufferViews?: { buffer: number; byteOffset: number; byteLength: number; target?: number }[];
+  buffers?: { byteLength: number; uri?: string }[];
+  extras?: Record<string, unknown>;
+}
+
+/** Options for {@link snapshotToGltf} and {@link snapshotToGlb}. */
+export interface GltfExportOptions {
+  /**
+   * Tier 2 inspections keyed by uuid. Supplies userData for every node and,
+   * when taken with `includeGeometryData: true`, mesh geometry.
+   */
+  inspections?: Record<string, ObjectInspection | null | undefined>;
+}
+
+const GENERATOR = '@react-three-dom/playwright';
+const FLOAT = 5126;
+const UNSIGNED_INT = 5125;
+const ARRAY_BUFFER = 34962;
+const ELEMENT_ARRAY_BUFFER = 34963;
+const TRIANGLES = 4;
+
+/**
+ * glTF primitive mode by three.js object type, with the vertices a
+ * primitive needs. Other types with geometry (Mesh, SkinnedMesh,
+ * InstancedMesh, Sprite, ...) are drawn as triangles.
+ */
+const PRIMITIVE_MODES: Record<string, { mode: number; minVertices: number }> = {
+  Points: { mode: 0, minVertices: 1 },
+  LineSegments: { mode: 1, minVertices: 2 },
+  LineLoop: { mode: 2, minVertices: 2 },
+  Line: { mode: 3, minVertices: 2 },
+};
+/** THREE.DoubleSide */
+const DOUBLE_SIDE = 2;
+
+/** Snapshot fields written as glTF properties rather than extras */
+const NODE_KEYS = new Set(['name', 'position', 'rotation', 'scale', 'children']);
+
+/**
+ * Quaternion [x, y, z, w] for a three.js Euler. Assumes the default 'XYZ'
+ * order; snapshots do not carry `rotation.order`.
+ */
+function quaternionFromEuler([x, y, z]: [number, number, number]): [number, number, number, number] {
+  const c1 = Math.cos(x / 2);
+  const c2 = Math.cos(y / 2);
+  const c3 = Math.cos(z / 2);
+  const s1 = Math.sin(x / 2);
+  const s2 = Math.sin(y / 2);
+  const s3 = Math.sin(z / 2);
+  return [
+    s1 * c2 * c3 + c1 * s2 * s3,
+    c1 * s2 * c3 - s1 * c2 * s3,
+    c1 * c2 * s3 + s1 * s2 * c3,
+    c1 * c2 * c3 - s1 * s2 * s3,
+  ];
+}
+
+/** '#rrggbb' (sRGB) to a linear RGBA base color factor. */
+function baseColorFactor(color: string | undefined, opacity: number | undefined): [number, number, number, number] {
+  const hex = /^#?([0-9a-f]{6})$/i.exec(color ?? '')?.[1];
+  const toLinear = (c: number) => (c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4));
+  const channel = (i: number) => (hex ? toLinear(parseInt(hex.slice(i, i + 2), 16) / 255) : 1);
+  return [channel(0), channel(2), channel(4), opacity ?? 1];
+}
+
+function isIdentity(values: number[], identity: number[]): boolean {
+  return values.every((v, i) => v === identity[i]);
+}
+
+/** Accumulates binary data for accessors, 4-byte aligned. */
+class BinaryBuilder {
+  private _chunks: Uint8Array[] = [];
+  private _length = 0;
+
+  get byteLength(): number {
+    return this._length;
+  }
+
+  add(data: Float32Array | Uint32Array): number {
+    const offset = this._length;
+    this._chunks.push(new Uint8Array(data.buffer, data.byteOffset, data.byteLength));
+    this._length += data.byteLength;
+    return offset;
+  }
+
+  toBytes(): Uint8Array {
+    const bytes = new Uint8Array(this._length);
+    let offset = 0;
+    for (const chunk of this._chunks) {
+      bytes.set(chunk, offset);
+      offset += chunk.byteLength;
+    }
+    return bytes;
+  }
+}
+
+/**
+ * Build a glTF document for a snapshot. Returns the JSON part and the
+ * binary buffer it references (null when there is no geometry). Use
+ * {@link snapshotToGlb} for a single self-contained file.
+ */
+export function snapshotToGltf(
+  snapshot: SceneSnapshot,
+  options: GltfExportOptions = {},
+): { json: GltfDocument; bin: Uint8Array | null } {
+  const inspections = options.inspections ?? {};
+  const doc: GltfDocument = {
+    asset: { version: '2.0', generator: GENERATOR },
+    scene: 0,
+    scenes: [{ name: snapshot.tree.name || 'Scene', nodes: [0] }],
+    nodes: [],
+    extras: { timestamp: snapshot.timestamp, objectCount: snapshot.objectCount },
+  };
+  const bin = new BinaryBuilder();
+
+  const addAccessor = (data: Float32Array | Uint32Array, type: 'SCALAR' | 'VEC3', target: number): number => {
+    const byteOffset = bin.add(data);
+    doc.bufferViews ??= [];
+    doc.accessors ??= [];
+    doc.bufferViews.push({ buffer: 0, byteOffset, byteLength: data.byteLength, target });
+    const accessor: NonNullable<GltfDocument['accessors']>[number] = {
+      bufferView: doc.bufferViews.length - 1,
+      componentType: data instanceof Float32Array ? FLOAT : UNSIGNED_INT,
+      count: type === 'VEC3' ? data.length / 3 : data.length,
+      type,
+    };
+    if (type === 'VEC3') {
+      // POSITION accessors must declare their bounds
+      const min = [Infinity, Infinity, Infinity];
+      const max = [-Infinity, -Infinity, -Infinity];
+      for (let i = 0; i < data.length; i++) {
+        min[i % 3] = Math.min(min[i % 3], data[i]);
+        max[i % 3] = Math.max(max[i % 3], data[i]);
+      }
+      accessor.min = min;
+      accessor.max = max;
+    }
+    doc.accessors.push(accessor);
+    return doc.accessors.length - 1;
+  };
+
+  const addMesh = (node: SnapshotNode, inspection: ObjectInspection): number | undefined => {
+    const { mode, minVertices } = PRIMITIVE_MODES[node.type] ?? { mode: TRIANGLES, minVertices: 3 };
+    const positions = inspection.geometry?.positionData;
+    if (!positions || positions.length < minVertices * 3) return undefined;
+    const primitive: NonNullable<GltfDocument['meshes']>[number]['primitives'][number] = {
+      attributes: { POSITION: addAccessor(new Float32Array(positions), 'VEC3', ARRAY_BUFFER) },
+      mode,
+    };
+    const indices = inspection.geometry?.indexData;
+    if (indices && indices.length > 0) {
+      primitive.indices = addAccessor(new Uint32Array(indices), 'SCALAR', ELEMENT_ARRAY_BUFFER);
+    }
+    const material = inspection.material;
+    if (material) {
+      doc.materials ??= [];
+      doc.materials.push({
+        name: material.type,
+        pbrMetallicRoughness: {
+          baseColorFactor: baseColorFactor(material.color ?? node.color, material.opacity ?? node.opacity),
+          metallicFactor: 0,
+          roughnessFactor: 1,
+        },
+        ...(material.transparent ? { alphaMode: 'BLEND' as const } : {}),
+        ...(material.side === DOUBLE_SIDE ? { doubleSided: true } : {}),
+      });
+      primitive.material = doc.materials.length - 1;
+    }
+    doc.meshes ??= [];
+    doc.meshes.push({ name: node.name || undefined, primitives: [primitive] });
+    return doc.meshes.length - 1;
+  };
+
+  const addNode = (node: SnapshotNode): number => {
+    const index = doc.nodes.length;
+    const gltfNode: GltfNode = {};
+    doc.nodes.push(gltfNode);
+    if (node.name) gltfNode.name = node.name;
+    if (node.position && !isIdentity(node.position, [0, 0, 0])) gltfNode.translation = [...node.position];
+    if (node.rotation && !isIdentity(node.rotation, [0, 0, 0])) gltfNode.rotation = quaternionFromEuler(node.rotation);
+    if (node.scale && !isIdentity(node.scale, [1, 1, 1])) gltfNode.scale = [...node.scale];
+
+    const extras: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(node)) {
+      if (!NODE_KEYS.has(key) && value !== undefined) extras[key] = value;
+    }
+    const inspection = inspections[node.uuid];
+    if (inspection) {
+      if (Object.keys(inspection.userData ?? {}).length > 0) extras.userData = inspection.userData;
+      const mesh = addMesh(node, inspection);
+      if (mesh !== undefined) gltfNode.mesh = mesh;
+    }
+    gltfNode.extras = extras;
+
+    if (node.children.length > 0) gltfNode.children = node.children.map(addNode);
+    return index;
+  };
+  addNode(snapshot.tree);
+
+  if (bin.byteLength === 0) return { json: doc, bin: null };
+  doc.buffers = [{ byteLength: bin.byteLength }];
+  return { json: doc, bin: bin.toBytes() };
+}
+
+/**
+ * Build a self-contained GLB (binary glTF) file for a snapshot.
+ *
+ * @example
+ * ```ts
+ * const glb = snapshotToGlb(await r3f.snapshot());
+ * await test.info().attach('scene.glb', { body: Buffer.from(glb), contentType: 'model/gltf-binary' });
+ * ```
+ */
+export function snapshotToGlb(snapshot: SceneSnapshot, options: GltfExportOptions = {}): Uint8Array {
+  const { json, bin } = snapshotToGltf(snapshot, options);
+  const jsonBytes = new TextEncoder().encode(JSON.stringify(json));
+  const pad = (n: number) => (4 - (n % 4)) % 4;
+  const jsonLength = jsonBytes.byteLength + pad(jsonBytes.byteLength);
+  const binLength = bin ? bin.byteLength + pad(bin.byteLength) : 0;
+  const total = 12 + 8 + jsonLength + (bin ? 8 + binLength : 0);
+
+  const bytes = new Uint8Array(total);
+  const view = new DataView(bytes.buffer);
+  view.setUint32(0, 0x46546c67, true); // "glTF"
+  view.setUint32(4, 2, true);
+  view.setUint32(8, total, true);
+
+  view.setUint32(12, jsonLength, true);
+  view.setUint32(16, 0x4e4f534a, true); // "JSON"
+  bytes.set(jsonBytes, 20);
+  // JSON chunk is padded with spaces, BIN with zeros
+  bytes.fill(0x20, 20 + jsonBytes.byteLength, 20 + jsonLength);
+
+  if (bin) {
+    const at = 20 + jsonLength;
+    view.setUint32(at, binLength, true);
+    view.setUint32(at + 4, 0x004e4942, true); // "BIN\0"
+    bytes.set(bin, at + 8);
+  }
+  return bytes;
+}
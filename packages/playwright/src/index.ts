@@ -3,7 +3,7 @@
 
 // Main entry: import { test, r3fMatchers } from '@react-three-dom/playwright'
 // Import expect from '@playwright/test' and run expect.extend(r3fMatchers) in setup (see README).
-export { test, R3FFixture, createR3FTest, type R3FFixtureOptions } from './fixtures';
+export { test, R3FFixture, createR3FTest, type R3FFixtureOptions, type SceneExportOptions } from './fixtures';
 export { r3fMatchers } from './assertions';
 
 // Individual interaction functions (for advanced usage)
@@ -14,21 +14,56 @@ export {
   hover,
   unhover,
   drag,
+  dragTo,
   wheel,
+  longPress,
+  captureDrag,
   pointerMiss,
   drawPathOnCanvas,
+  pinch,
+  rotateGesture,
+  twoFingerPan,
+  pressKey,
+  typeText,
+  keyDown,
+  keyUp,
   getCameraState,
 } from './interactions';
 
 // Path generators for drawPath
 export { linePath, curvePath, rectPath, circlePath, type DrawPoint } from './pathGenerators';
 
-// Scene diff (pure function; also available as r3f.diffSnapshots(before, after))
-export { diffSnapshots } from './diffSnapshots';
-export type { SceneDiff, SceneDiffChange } from './diffSnapshots';
+// Scene diff (pure functions; diffSnapshots is also available as r3f.diffSnapshots(before, after))
+export { diffSnapshots, formatSceneDiff } from './diffSnapshots';
+export type {
+  SceneDiff,
+  SceneDiffChange,
+  SceneDiffReparent,
+  SceneDiffRename,
+  SceneDiffReorder,
+  DiffSnapshotsOptions,
+} from './diffSnapshots';
+
+// Binary snapshot decoding (also available as r3f.snapshotBinary())
+export { decodeSnapshot, decodePartialSnapshot, SNAPSHOT_BINARY_VERSION } from './binarySnapshot';
+
+// Golden-file scene serialization (used by expect(r3f).toMatchSceneSnapshot)
+export { toStableSceneTree, formatStableSceneTree, compareStableSceneTrees } from './sceneSnapshots';
+export type { SceneSnapshotCompareOptions, SceneSnapshotMismatch, StableSceneNode } from './sceneSnapshots';
+
+// glTF export (also available as r3f.exportGlb() / r3f.attachScene())
+export { snapshotToGltf, snapshotToGlb } from './gltfExport';
+export type { GltfDocument, GltfNode, GltfExportOptions } from './gltfExport';
 
 // Waiter utilities
-export { waitForSceneReady, waitForIdle, waitForObject, waitForNewObject, waitForObjectRemoved } from './waiters';
+export {
+  waitForSceneReady,
+  waitForIdle,
+  waitForObject,
+  waitForNewObject,
+  waitForObjectRemoved,
+  waitForAnimation,
+} from './waiters';
 export type {
   WaitForSceneReadyOptions,
   WaitForIdleOptions,
@@ -36,6 +71,8 @@ export type {
   WaitForNewObjectOptions,
   WaitForNewObjectResult,
   WaitForObjectRemovedOptions,
+  WaitForAnimationOptions,
+  AnimationWaitState,
 } from './waiters';
 
 // Reporter for custom diagnostic logging
@@ -47,7 +84,34 @@ export type {
   ObjectMetadata,
   ObjectInspection,
   InspectOptions,
+  SpatialQueryOptions,
+  EffectiveVisibility,
+  VisibilityReason,
+  InstanceMetadata,
+  AnimationActionState,
+  AnimationLoopMode,
+  SceneStats,
+  RenderInfoSample,
+  SceneBudget,
   SceneSnapshot,
+  PartialSceneSnapshot,
+  PartialSnapshotNode,
+  SnapshotOptions,
   SnapshotNode,
   CameraState,
+  GestureOptions,
+  GestureResult,
+  LongPressOptions,
+  CaptureDragOptions,
+  CaptureDragResult,
+  HandlerRecipient,
+  DragToOptions,
+  DragToResult,
+  KeyPressOptions,
+  TypeTextOptions,
+  StoreChange,
+  StoreChangeBatch,
+  StoreChangeSet,
+  ObjectHistoryEntry,
+  HistoryChange,
 } from './types';
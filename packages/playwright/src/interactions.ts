@@ -15,7 +15,18 @@
  */
 
 import type { Page } from '@playwright/test';
-import type { CameraState } from './types';
+import type {
+  CameraState,
+  CaptureDragOptions,
+  CaptureDragResult,
+  DragToOptions,
+  DragToResult,
+  GestureOptions,
+  GestureResult,
+  KeyPressOptions,
+  LongPressOptions,
+  TypeTextOptions,
+} from './types';
 
 /** Default timeout for auto-waiting (ms). */
 const DEFAULT_AUTO_WAIT_TIMEOUT = 5_000;
@@ -56,7 +67,7 @@ async function autoWaitForObject(
             error: api._error ?? null,
           };
         }
-        const found = (api.getByTestId(id) ?? api.getByUuid(id)) !== null;
+        const found = (api.getByTestId(id) ?? api.getByUuid(id) ?? api.getByPath(id) ?? api.getInstance(id)) !== null;
         return { bridge: 'ready' as const, found };
       },
       [idOrUuid, canvasId ?? null] as const,
@@ -90,7 +101,7 @@ async function autoWaitForObject(
         ready: api._ready,
         count: api.getCount(),
         error: api._error ?? null,
-        found: (api.getByTestId(id) ?? api.getByUuid(id)) !== null,
+        found: (api.getByTestId(id) ?? api.getByUuid(id) ?? api.getByPath(id) ?? api.getInstance(id)) !== null,
         suggestions,
       };
     },
@@ -229,6 +240,30 @@ export async function drag(
   );
 }
 
+/**
+ * Drag one 3D object onto another, hovering over the target before the
+ * drop. Resolves with the source position after the drop. Auto-waits for
+ * both objects.
+ */
+export async function dragTo(
+  page: Page,
+  sourceId: string,
+  targetId: string,
+  options?: DragToOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<DragToResult> {
+  await autoWaitForObject(page, sourceId, timeout, canvasId);
+  await autoWaitForObject(page, targetId, timeout, canvasId);
+  return page.evaluate(
+    ([source, target, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      return api.dragTo(source, target, opts ?? undefined);
+    },
+    [sourceId, targetId, options ?? null, canvasId ?? null] as const,
+  );
+}
+
 /** Dispatch a wheel/scroll event on a 3D object. Auto-waits for the object. */
 export async function wheel(
   page: Page,
@@ -247,6 +282,47 @@ export async function wheel(
   );
 }
 
+/** Press and hold a 3D object for `durationMs`, optionally with jitter moves. Auto-waits for the object. */
+export async function longPress(
+  page: Page,
+  idOrUuid: string,
+  options?: LongPressOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<void> {
+  await autoWaitForObject(page, idOrUuid, timeout, canvasId);
+  await page.evaluate(
+    async ([id, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      await api.longPress(id, opts ?? undefined);
+    },
+    [idOrUuid, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+/**
+ * Drag from a 3D object to a canvas-relative point (may be outside the
+ * canvas) or by `{ dx, dy }`, honoring pointer capture. Resolves with which
+ * objects' onPointerMove / onPointerUp ran. Auto-waits for the object.
+ */
+export async function captureDrag(
+  page: Page,
+  idOrUuid: string,
+  to: { x: number; y: number } | { dx: number; dy: number },
+  options?: CaptureDragOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<CaptureDragResult> {
+  await autoWaitForObject(page, idOrUuid, timeout, canvasId);
+  return page.evaluate(
+    ([id, target, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      return api.captureDrag(id, target, opts ?? undefined);
+    },
+    [idOrUuid, to, options ?? null, canvasId ?? null] as const,
+  );
+}
+
 // ---------------------------------------------------------------------------
 // Non-object interactions (auto-wait for bridge only)
 // ---------------------------------------------------------------------------
@@ -278,6 +354,132 @@ export async function drawPathOnCanvas(
   );
 }
 
+// ---------------------------------------------------------------------------
+// Two-finger touch gestures (auto-wait for the target object, else the bridge)
+// ---------------------------------------------------------------------------
+
+async function autoWaitForGesture(
+  page: Page,
+  options: GestureOptions | undefined,
+  timeout?: number,
+  canvasId?: string,
+): Promise<void> {
+  if (options?.target) await autoWaitForObject(page, options.target, timeout, canvasId);
+  else await autoWaitForBridge(page, timeout, canvasId);
+}
+
+/** Two-finger pinch (scale > 1 spreads the fingers, < 1 pinches them). Auto-waits for target or bridge. */
+export async function pinch(
+  page: Page,
+  scale: number,
+  options?: GestureOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<GestureResult> {
+  await autoWaitForGesture(page, options, timeout, canvasId);
+  return page.evaluate(
+    ([s, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      return api.pinch(s, opts ?? undefined);
+    },
+    [scale, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+/** Two-finger rotation by `degrees` (clockwise on screen). Auto-waits for target or bridge. */
+export async function rotateGesture(
+  page: Page,
+  degrees: number,
+  options?: GestureOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<GestureResult> {
+  await autoWaitForGesture(page, options, timeout, canvasId);
+  return page.evaluate(
+    ([deg, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      return api.rotateGesture(deg, opts ?? undefined);
+    },
+    [degrees, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+/** Two-finger pan by a screen-space delta. Auto-waits for target or bridge. */
+export async function twoFingerPan(
+  page: Page,
+  delta: { dx: number; dy: number },
+  options?: GestureOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<GestureResult> {
+  await autoWaitForGesture(page, options, timeout, canvasId);
+  return page.evaluate(
+    ([d, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      return api.twoFingerPan(d, opts ?? undefined);
+    },
+    [delta, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+// ---------------------------------------------------------------------------
+// Keyboard (auto-wait for bridge)
+// ---------------------------------------------------------------------------
+
+/** Press a key or combo ("r", "Control+Shift+Z") with the canvas focused. Auto-waits for bridge. */
+export async function pressKey(
+  page: Page,
+  key: string,
+  options?: KeyPressOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<void> {
+  await autoWaitForBridge(page, timeout, canvasId);
+  await page.evaluate(
+    async ([k, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      await api.press(k, opts ?? undefined);
+    },
+    [key, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+/** Type text one character at a time with the canvas focused. Auto-waits for bridge. */
+export async function typeText(
+  page: Page,
+  text: string,
+  options?: TypeTextOptions,
+  timeout?: number,
+  canvasId?: string,
+): Promise<void> {
+  await autoWaitForBridge(page, timeout, canvasId);
+  await page.evaluate(
+    async ([t, opts, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+      await api.type(t, opts ?? undefined);
+    },
+    [text, options ?? null, canvasId ?? null] as const,
+  );
+}
+
+/** Hold a key or combo down until keyUp; held modifiers apply to pointer interactions. Auto-waits for bridge. */
+export async function keyDown(page: Page, key: string, timeout?: number, canvasId?: string): Promise<void> {
+  await autoWaitForBridge(page, timeout, canvasId);
+  await page.evaluate(([k, cid]) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+    api.keyDown(k);
+  }, [key, canvasId ?? null] as const);
+}
+
+/** Release keys held with keyDown. Auto-waits for bridge. */
+export async function keyUp(page: Page, key: string, timeout?: number, canvasId?: string): Promise<void> {
+  await autoWaitForBridge(page, timeout, canvasId);
+  await page.evaluate(([k, cid]) => {
+    const api = cid ? window.__R3F_DOM_INSTANCES__![cid] : window.__R3F_DOM__!;
+    api.keyUp(k);
+  }, [key, canvasId ?? null] as const);
+}
+
 // ---------------------------------------------------------------------------
 // Camera state
 // ---------------------------------------------------------------------------
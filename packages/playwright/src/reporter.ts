@@ -4,11 +4,12 @@
  * Rich terminal reporter for Playwright tests. Outputs ANSI-colored status
  * messages for bridge lifecycle events (waiting, connected, error), scene
  * readiness, object lookups (with fuzzy-match suggestions on miss),
- * interaction timings, assertion failures, and full bridge diagnostics.
+ * interaction timings, assertion failures, object history timelines, and
+ * full bridge diagnostics.
  */
 
 import type { Page } from '@playwright/test';
-import type { BridgeDiagnostics } from './types';
+import type { BridgeDiagnostics, HistoryChange, ObjectHistoryEntry } from './types';
 
 export type { BridgeDiagnostics };
 
@@ -33,6 +34,22 @@ function warn(msg: string): string { return `${TAG} ${YELLOW}⚠${RESET} ${msg}`
 function info(msg: string): string { return `${TAG} ${DIM}${msg}${RESET}`; }
 function heading(msg: string): string { return `\n${TAG} ${BOLD}${MAGENTA}${msg}${RESET}`; }
 
+function formatValue(value: HistoryChange['from']): string {
+  if (Array.isArray(value)) return `[${value.map((n) => +n.toFixed(3)).join(', ')}]`;
+  return value === null ? '—' : String(value);
+}
+
+function formatChanges(entry: ObjectHistoryEntry): string {
+  if (entry.type === 'remove') return `${RED}removed${RESET}`;
+  if (entry.type === 'add') {
+    const initial = entry.changes.find((c) => c.field === 'parentUuid');
+    return `${GREEN}added${RESET}${initial?.to ? ` ${DIM}under ${initial.to}${RESET}` : ''}`;
+  }
+  return entry.changes
+    .map((c) => `${c.field} ${formatValue(c.from)} → ${formatValue(c.to)}`)
+    .join(', ');
+}
+
 // ---------------------------------------------------------------------------
 // R3FReporter — formatted terminal output for test lifecycle
 // ---------------------------------------------------------------------------
@@ -132,6 +149,44 @@ export class R3FReporter {
     }
   }
 
+  // -----------------------------------------------------------------------
+  // Object history
+  // -----------------------------------------------------------------------
+
+  /** Print the last `limit` history entries of an object, oldest first. */
+  async logHistory(idOrUuid: string, limit = 20): Promise<void> {
+    if (!this._enabled) return;
+    const entries = await this.fetchHistory(idOrUuid);
+    if (entries.length === 0) {
+      console.log(warn(`No history for "${idOrUuid}" (is <ThreeDom history /> set?)`));
+      return;
+    }
+    console.log(heading(`History: "${idOrUuid}" (${entries.length} entries)`));
+    const shown = entries.slice(-limit);
+    if (shown.length < entries.length) {
+      console.log(info(`  … ${entries.length - shown.length} earlier entries`));
+    }
+    const start = shown[0].timestamp;
+    for (const entry of shown) {
+      const when = `frame ${entry.frame}`.padEnd(12) + `+${entry.timestamp - start}ms`.padEnd(10);
+      console.log(`  ${DIM}${when}${RESET}${formatChanges(entry)}`);
+    }
+  }
+
+  async fetchHistory(idOrUuid: string): Promise<ObjectHistoryEntry[]> {
+    return this._page.evaluate(
+      ({ id, cid }) => {
+        type ApiLike = { getHistory?(id: string): unknown };
+        const api = cid
+          ? (window as unknown as { __R3F_DOM_INSTANCES__?: Record<string, ApiLike> }).__R3F_DOM_INSTANCES__?.[cid]
+          : (window as unknown as { __R3F_DOM__?: ApiLike }).__R3F_DOM__;
+        if (!api || typeof api.getHistory !== 'function') return [];
+        return api.getHistory(id) as ObjectHistoryEntry[];
+      },
+      { id: idOrUuid, cid: this._canvasId ?? null },
+    );
+  }
+
   // -----------------------------------------------------------------------
   // Full diagnostics dump
   // -----------------------------------------------------------------------
@@ -192,5 +247,9 @@ export class R3FReporter {
     console.log(`  ${BOLD}Canvas:${RESET}    ${d.canvasWidth}×${d.canvasHeight}`);
     console.log(`  ${BOLD}GPU:${RESET}       ${d.webglRenderer}`);
     console.log(`  ${BOLD}Dirty:${RESET}     ${d.dirtyQueueSize} queued updates`);
+    if (d.userDataIndexes) {
+      const idx = d.userDataIndexes;
+      console.log(`  ${BOLD}Indexes:${RESET}   ${idx.keys.length ? idx.keys.join(', ') : '(none)'}  ${idx.hits} hits, ${idx.misses} misses`);
+    }
   }
 }
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { compareStableSceneTrees, formatStableSceneTree, toStableSceneTree } from './sceneSnapshots';
+import { node, snap } from './testSnapshots';
+
+/** Golden-file text read back, as the matchers do. */
+function readBack(text: string) {
+  return toStableSceneTree(JSON.parse(text));
+}
+
+describe('toStableSceneTree', () => {
+  it('drops uuids, orders fields and rounds numbers', () => {
+    const tree = toStableSceneTree(snap(node('a', {
+      testId: 'chair',
+      name: 'Chair',
+      position: [1.234567, -0.000001, 2],
+      custom: { z: 1, a: 2 },
+      color: '#ffffff',
+    })));
+    const chair = tree.children[0];
+    expect(chair).not.toHaveProperty('uuid');
+    expect(Object.keys(chair)).toEqual([
+      'type', 'name', 'testId', 'visible', 'position', 'rotation', 'scale', 'color', 'custom', 'children',
+    ]);
+    expect(chair.position).toEqual([1.2346, 0, 2]);
+    expect(Object.keys(chair.custom as object)).toEqual(['a', 'z']);
+  });
+
+  it('removes ignored fields and extractor values', () => {
+    const tree = toStableSceneTree(snap(node('a', { custom: { hp: 3, seed: 42 } })), {
+      ignore: ['rotation', 'custom.seed'],
+    });
+    expect(tree.children[0]).not.toHaveProperty('rotation');
+    expect(tree.children[0].custom).toEqual({ hp: 3 });
+  });
+
+  it('honors precision', () => {
+    expect(toStableSceneTree(snap(node('a', { position: [0.123456, 0, 0] })), { precision: 2 }).children[0].position)
+      .toEqual([0.12, 0, 0]);
+  });
+});
+
+describe('formatStableSceneTree', () => {
+  it('keeps number arrays on one line and ends with a newline', () => {
+    const text = formatStableSceneTree(toStableSceneTree(snap()));
+    expect(text).toBe([
+      '{',
+      '  "type": "Scene",',
+      '  "name": "",',
+      '  "visible": true,',
+      '  "position": [0, 0, 0],',
+      '  "rotation": [0, 0, 0],',
+      '  "scale": [1, 1, 1],',
+      '  "children": []',
+      '}',
+      '',
+    ].join('\n'));
+  });
+
+  it('reads back to an equal tree', () => {
+    const tree = toStableSceneTree(snap(node('a', { testId: 'chair', custom: { hp: 3 } }, [node('b')])));
+    expect(readBack(formatStableSceneTree(tree))).toEqual(tree);
+  });
+});
+
+describe('compareStableSceneTrees', () => {
+  const golden = readBack(formatStableSceneTree(toStableSceneTree(snap(
+    node('a', { testId: 'chair', position: [1, 0, 0] }),
+    node('b', { name: 'lamp', type: 'PointLight' }),
+  ))));
+
+  it('matches the scene it was written from', () => {
+    const actual = toStableSceneTree(snap(
+      node('x', { testId: 'chair', position: [1, 0, 0] }),
+      node('y', { name: 'lamp', type: 'PointLight' }),
+    ));
+    expect(compareStableSceneTrees(golden, actual)).toBeNull();
+  });
+
+  it('pairs children by testId or type and name, not by order', () => {
+    const actual = toStableSceneTree(snap(
+      node('y', { name: 'lamp', type: 'PointLight' }),
+      node('x', { testId: 'chair', position: [1, 0, 0] }),
+    ));
+    expect(compareStableSceneTrees(golden, actual)).toBeNull();
+  });
+
+  it('matches numbers within tolerance', () => {
+    const actual = toStableSceneTree(snap(
+      node('x', { testId: 'chair', position: [1.01, 0, 0] }),
+      node('y', { name: 'lamp', type: 'PointLight' }),
+    ));
+    expect(compareStableSceneTrees(golden, actual)).not.toBeNull();
+    expect(compareStableSceneTrees(golden, actual, { tolerance: 0.05 })).toBeNull();
+  });
+
+  it('shows changed, added and removed branches', () => {
+    const actual = toStableSceneTree(snap(
+      node('x', { testId: 'chair', position: [2, 0, 0] }, [node('c', { name: 'cushion' })]),
+      node('z', { name: 'rug' }),
+    ));
+    expect(compareStableSceneTrees(golden, actual)).toEqual({
+      count: 4,
+      diff: [
+        '  Scene',
+        '~   Mesh [testId: chair]',
+        '        position: [1, 0, 0] → [2, 0, 0]',
+        '+     Mesh "cushion"',
+        '-   PointLight "lamp"',
+        '+   Mesh "rug"',
+      ].join('\n'),
+    });
+  });
+
+  it('compares golden and scene with the same ignored fields', () => {
+    const ignore = ['position'];
+    const actual = toStableSceneTree(snap(
+      node('x', { testId: 'chair', position: [5, 5, 5] }),
+      node('y', { name: 'lamp', type: 'PointLight' }),
+    ), { ignore });
+    expect(compareStableSceneTrees(toStableSceneTree(golden, { ignore }), actual, { ignore })).toBeNull();
+  });
+});
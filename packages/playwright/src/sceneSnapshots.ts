@@ -0,0 +1,281 @@
+/**
+ * @module sceneSnapshots
+ *
+ * Golden-file serialization for `toMatchSceneSnapshot`. A snapshot is
+ * reduced to a stable, uuid-free tree (fixed key order, rounded numbers,
+ * ignored fields removed) and pretty-printed with short number arrays kept
+ * on one line, so golden files review well in a pull request.
+ *
+ * Comparison walks both trees, matching children by testId (or type and
+ * name, in order), and reports differences as an indented tree that only
+ * shows the changed branches.
+ *
+ * Stateless and side-effect-free — safe to call from any context.
+ */
+
+import type { SceneSnapshot, SnapshotNode } from './types';
+
+/** Options shared by golden-file serialization and comparison. */
+export interface SceneSnapshotCompareOptions {
+  /**
+   * Largest absolute difference at which two numbers still match.
+   * Default: 0.0001
+   */
+  tolerance?: number;
+  /**
+   * Node fields to leave out of the golden file and the comparison, e.g.
+   * `['rotation', 'geometryVersion']`. Use `custom.<name>` for one
+   * extractor value.
+   */
+  ignore?: string[];
+  /** Decimal places numbers are rounded to in the golden file. Default: 4 */
+  precision?: number;
+}
+
+/** A uuid-free snapshot node as stored in a golden file. */
+export interface StableSceneNode {
+  [field: string]: unknown;
+  children: StableSceneNode[];
+}
+
+const DEFAULT_TOLERANCE = 0.0001;
+const DEFAULT_PRECISION = 4;
+
+/** Field order in golden files; unknown fields follow, sorted. */
+const FIELD_ORDER = [
+  'type',
+  'name',
+  'testId',
+  'visible',
+  'position',
+  'rotation',
+  'scale',
+  'geometryVersion',
+  'drawRange',
+  'morphTargetInfluences',
+  'color',
+  'emissive',
+  'opacity',
+  'transparent',
+  'materialVisible',
+  'map',
+  'intensity',
+  'lightColor',
+  'castShadow',
+  'custom',
+];
+
+function roundValue(value: unknown, precision: number): unknown {
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) return value;
+    const rounded = Number(value.toFixed(precision));
+    return Object.is(rounded, -0) ? 0 : rounded;
+  }
+  if (Array.isArray(value)) return value.map((v) => roundValue(v, precision));
+  if (value && typeof value === 'object') {
+    const out: Record<string, unknown> = {};
+    for (const key of Object.keys(value).sort()) {
+      out[key] = roundValue((value as Record<string, unknown>)[key], precision);
+    }
+    return out;
+  }
+  return value;
+}
+
+function orderedFields(node: object): string[] {
+  const keys = Object.keys(node).filter((k) => k !== 'uuid' && k !== 'children');
+  const known = FIELD_ORDER.filter((k) => keys.includes(k));
+  const rest = keys.filter((k) => !FIELD_ORDER.includes(k)).sort();
+  return [...known, ...rest];
+}
+
+/** Copy of `node` with ignored fields (and `custom.<name>` entries) removed. */
+function withoutIgnored(node: Record<string, unknown>, ignore: Set<string>): Record<string, unknown> {
+  const out: Record<string, unknown> = {};
+  for (const key of orderedFields(node)) {
+    if (ignore.has(key) || node[key] === undefined) continue;
+    if (key === 'custom' && node.custom && typeof node.custom === 'object') {
+      const custom: Record<string, unknown> = {};
+      for (const [name, value] of Object.entries(node.custom)) {
+        if (!ignore.has(`custom.${name}`)) custom[name] = value;
+      }
+      if (Object.keys(custom).length > 0) out.custom = custom;
+      continue;
+    }
+    out[key] = node[key];
+  }
+  return out;
+}
+
+/**
+ * Reduce a snapshot to the uuid-free tree stored in golden files: fixed key
+ * order, numbers rounded to `precision` decimals, ignored fields removed.
+ * Also accepts a tree read back from a golden file, so `ignore` can be
+ * applied to both sides of a comparison.
+ */
+export function toStableSceneTree(
+  source: SceneSnapshot | SnapshotNode | StableSceneNode,
+  options: SceneSnapshotCompareOptions = {},
+): StableSceneNode {
+  const ignore = new Set(options.ignore ?? []);
+  const precision = options.precision ?? DEFAULT_PRECISION;
+  const convert = (node: Record<string, unknown>): StableSceneNode => {
+    const fields = withoutIgnored(node, ignore);
+    const out = roundValue(fields, precision) as Record<string, unknown>;
+    // roundValue sorts object keys; restore the golden-file field order
+    const ordered: Record<string, unknown> = {};
+    for (const key of orderedFields(fields)) ordered[key] = out[key];
+    const children = (node.children as Record<string, unknown>[] | undefined) ?? [];
+    return { ...ordered, children: children.map(convert) };
+  };
+  const root = 'tree' in source ? source.tree : source;
+  return convert(root as unknown as Record<string, unknown>);
+}
+
+function isInline(value: unknown): boolean {
+  return Array.isArray(value) && value.every((v) => v === null || typeof v !== 'object');
+}
+
+function printValue(value: unknown, indent: string): string {
+  if (isInline(value)) return `[${(value as unknown[]).map((v) => JSON.stringify(v)).join(', ')}]`;
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    const inner = indent + '  ';
+    return `[\n${value.map((v) => inner + printValue(v, inner)).join(',\n')}\n${indent}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value);
+    if (entries.length === 0) return '{}';
+    const inner = indent + '  ';
+    return `{\n${entries.map(([k, v]) => `${inner}${JSON.stringify(k)}: ${printValue(v, inner)}`).join(',\n')}\n${indent}}`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Pretty-print a stable tree as golden-file text (trailing newline included). */
+export function formatStableSceneTree(tree: StableSceneNode): string {
+  return printValue(tree, '') + '\n';
+}
+
+// ---------------------------------------------------------------------------
+// Comparison
+// ---------------------------------------------------------------------------
+
+function valuesMatch(a: unknown, b: unknown, tolerance: number): boolean {
+  if (typeof a === 'number' && typeof b === 'number') {
+    // Slack for the rounding of the two sides landing either side of a step
+    return a === b || Math.abs(a - b) <= tolerance + 1e-9;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => valuesMatch(v, b[i], tolerance));
+  }
+  if (a && b && typeof a === 'object' && typeof b === 'object') {
+    const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+    for (const key of keys) {
+      if (!valuesMatch((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], tolerance)) return false;
+    }
+    return true;
+  }
+  return a === b;
+}
+
+function label(node: StableSceneNode): string {
+  let text = String(node.type ?? 'Object3D');
+  if (node.name) text += ` "${node.name}"`;
+  if (node.testId) text += ` [testId: ${node.testId}]`;
+  return text;
+}
+
+function printInline(value: unknown): string {
+  if (value === undefined) return '(none)';
+  if (Array.isArray(value)) return `[${value.map(printInline).join(', ')}]`;
+  if (value && typeof value === 'object') {
+    return `{ ${Object.entries(value).map(([k, v]) => `${k}: ${printInline(v)}`).join(', ')} }`;
+  }
+  return JSON.stringify(value);
+}
+
+/** Identity used to pair children: testId, else type and name. */
+function childKey(node: StableSceneNode): string {
+  return node.testId ? `#${node.testId}` : `${node.type ?? ''}:${node.name ?? ''}`;
+}
+
+/** Pair children by key; duplicates pair up in order. */
+function pairChildren(expected: StableSceneNode[], actual: StableSceneNode[]) {
+  const pool = new Map<string, StableSceneNode[]>();
+  for (const node of actual) {
+    const key = childKey(node);
+    const list = pool.get(key);
+    if (list) list.push(node);
+    else pool.set(key, [node]);
+  }
+  const pairs: [StableSceneNode | null, StableSceneNode | null][] = [];
+  const paired = new Set<StableSceneNode>();
+  for (const node of expected) {
+    const match = pool.get(childKey(node))?.shift() ?? null;
+    if (match) paired.add(match);
+    pairs.push([node, match]);
+  }
+  for (const node of actual) {
+    if (!paired.has(node)) pairs.push([null, node]);
+  }
+  return pairs;
+}
+
+/** Result of comparing a scene against a golden file. */
+export interface SceneSnapshotMismatch {
+  /** Number of changed, added and removed nodes */
+  count: number;
+  /** Indented tree of the differing branches */
+  diff: string;
+}
+
+/**
+ * Compare a golden tree with the current one. Returns null when they match
+ * within `tolerance`, otherwise the differences as an indented tree:
+ * `-` nodes are only in the golden file, `+` only in the scene, `~` nodes
+ * have changed fields (listed below them as expected → received).
+ */
+export function compareStableSceneTrees(
+  expected: StableSceneNode,
+  actual: StableSceneNode,
+  options: SceneSnapshotCompareOptions = {},
+): SceneSnapshotMismatch | null {
+  const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+  let count = 0;
+
+  const walk = (exp: StableSceneNode, act: StableSceneNode, depth: number): string[] => {
+    const pad = '  '.repeat(depth);
+    const fieldLines: string[] = [];
+    const fields = new Set([...orderedFields(exp), ...orderedFields(act)]);
+    for (const field of fields) {
+      if (!valuesMatch(exp[field], act[field], tolerance)) {
+        fieldLines.push(`  ${pad}    ${field}: ${printInline(exp[field])} → ${printInline(act[field])}`);
+      }
+    }
+    const childLines: string[] = [];
+    for (const [e, a] of pairChildren(exp.children, act.children)) {
+      if (e && a) {
+        childLines.push(...walk(e, a, depth + 1));
+      } else {
+        count++;
+        const node = (e ?? a)!;
+        const descendants = countNodes(node) - 1;
+        const suffix = descendants ? ` (with ${descendants} descendant${descendants === 1 ? '' : 's'})` : '';
+        childLines.push(`${e ? '-' : '+'} ${pad}  ${label(node)}${suffix}`);
+      }
+    }
+    if (fieldLines.length === 0 && childLines.length === 0) return [];
+    if (fieldLines.length > 0) count++;
+    return [`${fieldLines.length > 0 ? '~' : ' '} ${pad}${label(act)}`, ...fieldLines, ...childLines];
+  };
+
+  const lines = walk(expected, actual, 0);
+  return lines.length === 0 ? null : { count, diff: lines.join('\n') };
+}
+
+function countNodes(node: StableSceneNode): number {
+  let total = 1;
+  for (const child of node.children) total += countNodes(child);
+  return total;
+}
@@ -0,0 +1,33 @@
+/**
+ * @module testSnapshots
+ *
+ * Snapshot builders shared by this package's unit tests. Not exported from
+ * the package entry.
+ */
+
+import type { SceneSnapshot, SnapshotNode } from './types';
+
+/** A Mesh node at the origin; `overrides` replace any field. */
+export function node(uuid: string, overrides: Partial<SnapshotNode> = {}, children: SnapshotNode[] = []): SnapshotNode {
+  return {
+    uuid,
+    name: '',
+    type: 'Mesh',
+    visible: true,
+    position: [0, 0, 0],
+    rotation: [0, 0, 0],
+    scale: [1, 1, 1],
+    ...overrides,
+    children,
+  };
+}
+
+/** Like {@link node}, named after its uuid so paths and diff output read naturally. */
+export function namedNode(uuid: string, overrides: Partial<SnapshotNode> = {}, children: SnapshotNode[] = []): SnapshotNode {
+  return node(uuid, { name: uuid, ...overrides }, children);
+}
+
+/** A snapshot whose unnamed Scene root holds `children`. */
+export function snap(...children: SnapshotNode[]): SceneSnapshot {
+  return { timestamp: 0, objectCount: 0, tree: node('root', { type: 'Scene' }, children) };
+}
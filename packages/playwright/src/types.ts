@@ -10,12 +10,23 @@ export interface ObjectMetadata {
   name: string;
   type: string;
   visible: boolean;
+  /** Rendered state: ancestors, layers, material.visible, opacity 0 (no frustum) */
+  effectiveVisible: boolean;
+  visibilityReason?: VisibilityReason;
   testId?: string;
   geometryType?: string;
   materialType?: string;
   vertexCount?: number;
   triangleCount?: number;
+  /** Sum of attribute / index versions; changes when geometry is edited in place */
+  geometryVersion?: number;
+  /** [start, count] — only when the draw range was changed from the default */
+  drawRange?: [number, number];
+  morphTargetInfluences?: number[];
+  /** Morph target names by influence index */
+  morphTargetNames?: string[];
   instanceCount?: number;
+  boneCount?: number;
   fov?: number;
   near?: number;
   far?: number;
@@ -26,6 +37,18 @@ export interface ObjectMetadata {
   parentUuid: string | null;
   childrenUuids: string[];
   boundsDirty: boolean;
+  // Extended tier — present only when <ThreeDom extendedMetadata /> is enabled
+  color?: string;
+  emissive?: string;
+  opacity?: number;
+  transparent?: boolean;
+  materialVisible?: boolean;
+  map?: string;
+  intensity?: number;
+  lightColor?: string;
+  castShadow?: boolean;
+  /** Values from <ThreeDom extractors />, keyed by extractor name */
+  custom?: Record<string, string | number | boolean>;
 }
 
 /** Options for inspect(). Set includeGeometryData: true to get vertex/index buffers (higher cost). */
@@ -33,14 +56,46 @@ export interface InspectOptions {
   includeGeometryData?: boolean;
 }
 
+/** Options for spatial queries. "intersects" (default) or "contains" (bounds fully inside the region). */
+export interface SpatialQueryOptions {
+  mode?: 'intersects' | 'contains';
+}
+
+/** Why an object is not effectively visible. "frustum" only from getEffectiveVisibility. */
+export type VisibilityReason = 'self' | 'ancestor' | 'layer' | 'material' | 'opacity' | 'frustum';
+
+export interface EffectiveVisibility {
+  visible: boolean;
+  reason?: VisibilityReason;
+  /** uuid of the hidden ancestor (reason "ancestor" only) */
+  hiddenBy?: string;
+}
+
+/** One instance of an InstancedMesh, addressable as "mesh#index". */
+export interface InstanceMetadata {
+  /** "<mesh testId or uuid>#<index>" */
+  id: string;
+  index: number;
+  meshUuid: string;
+  /** From mesh.userData.instanceTestIds[index] */
+  testId?: string;
+  /** Decomposed from the instance matrix (mesh-local space) */
+  position: [number, number, number];
+  rotation: [number, number, number];
+  scale: [number, number, number];
+  color?: string;
+}
+
 export interface ObjectInspection {
   metadata: ObjectMetadata;
   worldMatrix: number[];
   bounds: { min: [number, number, number]; max: [number, number, number] };
   geometry?: {
     type: string;
-    attributes: Record<string, { itemSize: number; count: number }>;
-    index?: { count: number };
+    attributes: Record<string, { itemSize: number; count: number; version: number }>;
+    index?: { count: number; version: number };
+    /** count is Infinity when the draw range is unset */
+    drawRange?: { start: number; count: number };
     boundingSphere?: { center: [number, number, number]; radius: number };
     /** Vertex positions (x,y,z per vertex). Only when inspect(..., { includeGeometryData: true }). */
     positionData?: number[];
@@ -56,9 +111,83 @@ export interface ObjectInspection {
     opacity?: number;
     side?: number;
   };
+  skeleton?: {
+    boneCount: number;
+    bones: string[];
+    rootBone?: string;
+    bindMode: string;
+  };
   userData: Record<string, unknown>;
 }
 
+export type AnimationLoopMode = 'once' | 'repeat' | 'pingpong';
+
+/** State of one AnimationAction on a tracked AnimationMixer. */
+export interface AnimationActionState {
+  clipName: string;
+  /** testId (or uuid) of the mixer's root object */
+  root: string;
+  rootUuid: string;
+  time: number;
+  duration: number;
+  weight: number;
+  effectiveWeight: number;
+  timeScale: number;
+  loop: AnimationLoopMode;
+  repetitions: number;
+  running: boolean;
+  paused: boolean;
+  enabled: boolean;
+  /** Reached its end (once / finite repetitions) and not restarted since */
+  finished: boolean;
+}
+
+/** One renderer.info reading, or the change between two frames. */
+export interface RenderInfoSample {
+  frame: number;
+  drawCalls: number;
+  triangles: number;
+  points: number;
+  lines: number;
+  programs: number;
+  /** Geometries / textures uploaded to the GPU (renderer.info.memory) */
+  geometries: number;
+  textures: number;
+}
+
+/** Render-cost statistics from getSceneStats(). */
+export interface SceneStats {
+  frame: number;
+  /** Draw calls in the last rendered frame */
+  drawCalls: number;
+  /** Triangles rendered in the last frame */
+  triangles: number;
+  points: number;
+  lines: number;
+  programs: number;
+  /** Unique materials / geometries / textures on tracked objects */
+  materials: number;
+  geometries: number;
+  textures: number;
+  /** Estimated GPU memory for those textures, in bytes */
+  textureBytes: number;
+  gpuMemory: { geometries: number; textures: number };
+  /** Change in renderer.info counters since the previous frame */
+  delta: RenderInfoSample;
+}
+
+/** Upper limits for the budget matchers and commands. Omitted keys are not checked. */
+export interface SceneBudget {
+  drawCalls?: number;
+  triangles?: number;
+  programs?: number;
+  materials?: number;
+  geometries?: number;
+  textures?: number;
+  /** Estimated texture memory in megabytes (MiB) */
+  textureMB?: number;
+}
+
 export interface SnapshotNode {
   uuid: string;
   name: string;
@@ -68,6 +197,21 @@ export interface SnapshotNode {
   position: [number, number, number];
   rotation: [number, number, number];
   scale: [number, number, number];
+  geometryVersion?: number;
+  drawRange?: [number, number];
+  morphTargetInfluences?: number[];
+  // Extended tier — present only when <ThreeDom extendedMetadata /> is enabled
+  color?: string;
+  emissive?: string;
+  opacity?: number;
+  transparent?: boolean;
+  materialVisible?: boolean;
+  map?: string;
+  intensity?: number;
+  lightColor?: string;
+  castShadow?: boolean;
+  /** Values from <ThreeDom extractors />, keyed by extractor name */
+  custom?: Record<string, string | number | boolean>;
   children: SnapshotNode[];
 }
 
@@ -77,6 +221,89 @@ export interface SceneSnapshot {
   tree: SnapshotNode;
 }
 
+/**
+ * A node of a snapshot taken with `SnapshotOptions.fields`: only `uuid`,
+ * `children` and the listed fields are present.
+ */
+export type PartialSnapshotNode = Partial<Omit<SnapshotNode, 'uuid' | 'children'>> & {
+  uuid: string;
+  children: PartialSnapshotNode[];
+};
+
+/** A snapshot taken with `SnapshotOptions.fields`. */
+export interface PartialSceneSnapshot {
+  timestamp: number;
+  objectCount: number;
+  tree: PartialSnapshotNode;
+}
+
+/**
+ * Options for a partial snapshot. The root is always included; nodes
+ * rejected by `filter` are left out but their kept descendants attach to
+ * the nearest kept ancestor.
+ */
+export interface SnapshotOptions {
+  /** testId, uuid or path id of the subtree root. Default: the scene root */
+  root?: string;
+  /** Scene levels below `root` to visit (0 = root only). Default: unlimited */
+  depth?: number;
+  /**
+   * Three.js types to keep, or a predicate over each node's metadata. The
+   * predicate is sent to the page as source and runs there, so it must be
+   * self-contained: no variables, imports or helpers from the test file.
+   * Arrow functions, function expressions and method shorthand all work;
+   * a predicate that reaches outside itself fails with an error naming
+   * this rule.
+   */
+  filter?: string[] | ((meta: ObjectMetadata) => boolean);
+  /**
+   * Node fields to include; `uuid` and `children` are always present.
+   * The snapshot is then a {@link PartialSceneSnapshot}.
+   */
+  fields?: (keyof SnapshotNode)[];
+}
+
+/** One journaled store change. `metadata` is a copy taken when the change happened. */
+export interface StoreChange {
+  seq: number;
+  type: 'add' | 'remove' | 'update' | 'reparent';
+  uuid: string;
+  metadata: ObjectMetadata;
+  /** Previous parent uuid ('reparent' only; the new one is metadata.parentUuid) */
+  oldParentUuid?: string | null;
+}
+
+/** All store changes committed in one frame. */
+export interface StoreChangeBatch {
+  id: number;
+  frame?: number;
+  timestamp: number;
+  changes: StoreChange[];
+}
+
+/** Result of getChangesSince(). Re-snapshot when `truncated` is true. */
+export interface StoreChangeSet {
+  since: number;
+  seq: number;
+  truncated: boolean;
+  batches: StoreChangeBatch[];
+}
+
+/** One field change in an object's history. Vectors are [x, y, z]. */
+export interface HistoryChange {
+  field: 'position' | 'rotation' | 'scale' | 'visible' | 'effectiveVisible' | 'parentUuid';
+  from: [number, number, number] | boolean | string | null;
+  to: [number, number, number] | boolean | string | null;
+}
+
+/** One entry of getHistory(): what changed on which bridge frame. */
+export interface ObjectHistoryEntry {
+  frame: number;
+  timestamp: number;
+  type: 'add' | 'remove' | 'update' | 'reparent';
+  changes: HistoryChange[];
+}
+
 export interface CameraState {
   type: string;
   position: [number, number, number];
@@ -93,6 +320,130 @@ export interface CameraState {
   bottom?: number;
 }
 
+/** Options shared by the two-finger gestures (pinch, rotateGesture, twoFingerPan). */
+export interface GestureOptions {
+  /** testId or uuid of an object to center the gesture on. Default: the canvas center */
+  target?: string;
+  /** Canvas-relative screen point to center the gesture on. Ignored when `target` is set. */
+  center?: { x: number; y: number };
+  /** Distance between the two fingers at touch-down, in CSS pixels. Default: 100 */
+  spread?: number;
+  /** Number of interleaved pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms. Default: 0 */
+  stepDelayMs?: number;
+}
+
+export interface GestureResult {
+  dispatched: boolean;
+  center: { x: number; y: number };
+  startPoints: [{ x: number; y: number }, { x: number; y: number }];
+  endPoints: [{ x: number; y: number }, { x: number; y: number }];
+  pointerIds: number[];
+}
+
+/** Options for a long press (press-and-hold). */
+export interface LongPressOptions {
+  /** How long the pointer stays down, in ms. Default: 600 */
+  durationMs?: number;
+  /** Radius in CSS pixels of small pointermoves made while holding. Default: 0 (no moves) */
+  jitter?: number;
+  /** Interval between jitter moves in ms. Default: 50 */
+  jitterIntervalMs?: number;
+  /** Pointer type. Default: 'mouse' */
+  pointerType?: 'mouse' | 'pen' | 'touch';
+  /** Dispatch a click after pointerup. Default: true, false for 'touch' */
+  click?: boolean;
+}
+
+/** Options for a drag that honors pointer capture and may leave the canvas. */
+export interface CaptureDragOptions {
+  /** Number of intermediate pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
+  stepDelayMs?: number;
+  /** For an InstancedMesh, start on a single instance (same as "mesh#index"). */
+  instanceId?: number;
+}
+
+/** An object whose R3F handler ran during a capture drag. */
+export interface HandlerRecipient {
+  uuid: string;
+  testId?: string;
+  name: string;
+  /** Number of times the handler ran. */
+  count: number;
+}
+
+/** Result of a capture drag. */
+export interface CaptureDragResult {
+  dispatched: boolean;
+  /** Canvas-relative point the drag started at (the projected object). */
+  startPoint: { x: number; y: number };
+  /** Canvas-relative point the pointer was released at; may lie outside the canvas. */
+  endPoint: { x: number; y: number };
+  /** Whether a handler took pointer capture during the drag. */
+  captured: boolean;
+  /** Whether the pointer was released outside the canvas bounds. */
+  releasedOutside: boolean;
+  /** The element that received pointerup, e.g. "canvas" or "div#trash". */
+  releaseTarget: string;
+  /** Objects whose onPointerMove / onPointerUp ran, in first-call order. */
+  received: {
+    pointerMove: HandlerRecipient[];
+    pointerUp: HandlerRecipient[];
+  };
+}
+
+/** Options for dragging one object onto another. */
+export interface DragToOptions {
+  /** Number of intermediate pointermove steps. Default: 10 */
+  steps?: number;
+  /** Delay between steps in ms (for requestAnimationFrame pacing). Default: 0 */
+  stepDelayMs?: number;
+  /** Pointermoves over the target before the drop, for hover / snap-preview handlers. Default: 3 */
+  hoverSteps?: number;
+  /** Verify via raycast that the drop point hits the target (ignoring the dragged object). Default: true */
+  verify?: boolean;
+  /** Animation frames to wait after the drop before reading the source position. Default: 1 */
+  settleFrames?: number;
+}
+
+/** Result of dragging one object onto another. */
+export interface DragToResult {
+  dispatched: boolean;
+  /** Canvas-relative point the drag started at (the projected source). */
+  startPoint: { x: number; y: number };
+  /** Canvas-relative drop point (the projected target). */
+  dropPoint: { x: number; y: number };
+  /** Drop point raycast (only if verify: true); `occluderLabel` names what was hit instead. */
+  raycast?: { hit: boolean; occluderLabel?: string };
+  /** Whether a handler took pointer capture during the drag. */
+  captured: boolean;
+  /** Source local position after the drop (same space as ObjectMetadata.position). */
+  position: [number, number, number];
+  /** Source world position after the drop. */
+  worldPosition: [number, number, number];
+}
+
+/** Options for pressing a key or key combination. */
+export interface KeyPressOptions {
+  /** Extra auto-repeat keydowns (`event.repeat === true`) of the main key. Default: 0 */
+  repeat?: number;
+  /** Hold time in ms before keyup; with `repeat`, also the delay between repeats. Default: 0 */
+  delayMs?: number;
+  /** Focus the canvas first. When false, events go to the focused element. Default: true */
+  focus?: boolean;
+}
+
+/** Options for typing text. */
+export interface TypeTextOptions {
+  /** Delay between characters in ms. Default: 0 */
+  delayMs?: number;
+  /** Focus the canvas first. Default: true */
+  focus?: boolean;
+}
+
 export interface BridgeDiagnostics {
   version: string;
   ready: boolean;
@@ -108,6 +459,10 @@ export interface BridgeDiagnostics {
   canvasHeight: number;
   webglRenderer: string;
   dirtyQueueSize: number;
+  /** getByUserData secondary index usage (absent on older bridges) */
+  userDataIndexes?: { keys: string[]; entries: number; hits: number; misses: number };
+  /** Where the *Async snapshot APIs run (absent on older bridges) */
+  snapshotWorker?: 'worker' | 'sync';
 }
 
 // ---------------------------------------------------------------------------
@@ -9,13 +9,14 @@
  * - {@link waitForIdle} — no property changes for N consecutive frames
  * - {@link waitForNewObject} — new object(s) appear after a baseline snapshot
  * - {@link waitForObjectRemoved} — object no longer in the scene
+ * - {@link waitForAnimation} — an animation clip is playing / finished / stopped
  *
  * All waiters fail fast with a rich diagnostic if the bridge reports an
  * `_error` state, preventing silent timeouts.
  */
 
 import type { Page } from '@playwright/test';
-import type { ObjectMetadata } from './types';
+import type { ObjectMetadata, AnimationActionState } from './types';
 
 // ---------------------------------------------------------------------------
 // Shared: waitForReadyBridge — wait until __R3F_DOM__._ready === true
@@ -201,7 +202,7 @@ export async function waitForObject(
       ([id, cid]) => {
         const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
         if (!api || !api._ready) return false;
-        return (api.getByTestId(id) ?? api.getByUuid(id)) !== null;
+        return (api.getByTestId(id) ?? api.getByUuid(id) ?? api.getByPath(id)) !== null;
       },
       [idOrUuid, canvasId ?? null] as const,
     );
@@ -283,7 +284,7 @@ export async function waitForIdle(
     ([frames, timeoutMs, cid]) => {
       return new Promise<boolean | string>((resolve) => {
         const deadline = Date.now() + timeoutMs;
-        let lastJson = '';
+        let lastState = '';
         let stableCount = 0;
 
         function check() {
@@ -292,9 +293,10 @@ export async function waitForIdle(
             return;
           }
 
+          type Api = { _ready: boolean; _error?: string; snapshot(): { tree: unknown }; sceneHashAsync?(): Promise<string> };
           const api = cid
-            ? (window as unknown as { __R3F_DOM_INSTANCES__?: Record<string, { _ready: boolean; _error?: string; snapshot(): { tree: unknown } }> }).__R3F_DOM_INSTANCES__?.[cid]
-            : (window as unknown as { __R3F_DOM__?: { _ready: boolean; _error?: string; snapshot(): { tree: unknown } } }).__R3F_DOM__;
+            ? (window as unknown as { __R3F_DOM_INSTANCES__?: Record<string, Api> }).__R3F_DOM_INSTANCES__?.[cid]
+            : (window as unknown as { __R3F_DOM__?: Api }).__R3F_DOM__;
           if (!api || !api._ready) {
             if (api && api._error) {
               resolve(`Bridge error: ${api._error}`);
@@ -304,10 +306,17 @@ export async function waitForIdle(
             return;
           }
 
-          const snap = api.snapshot();
-          const json = JSON.stringify(snap.tree);
+          // Hash off the main thread when the bridge supports it
+          const syncJson = () => JSON.stringify(api.snapshot().tree);
+          if (typeof api.sceneHashAsync === 'function') {
+            api.sceneHashAsync().then(compare, () => compare(syncJson()));
+          } else {
+            compare(syncJson());
+          }
+        }
 
-          if (json === lastJson && json !== '') {
+        function compare(state: string) {
+          if (state === lastState && state !== '') {
             stableCount++;
             if (stableCount >= frames) {
               resolve(true);
@@ -317,7 +326,7 @@ export async function waitForIdle(
             stableCount = 0;
           }
 
-          lastJson = json;
+          lastState = state;
           requestAnimationFrame(check);
         }
 
@@ -559,7 +568,7 @@ export async function waitForObjectRemoved(
     const stillPresent = await page.evaluate(([id, cid]) => {
       const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
       if (!api) return true;
-      const meta = api.getByTestId(id) ?? api.getByUuid(id);
+      const meta = api.getByTestId(id) ?? api.getByUuid(id) ?? api.getByPath(id);
       return meta !== null;
     }, [idOrUuid, canvasId ?? null] as const);
 
@@ -572,3 +581,94 @@ export async function waitForObjectRemoved(
     `waitForObjectRemoved timed out after ${timeout}ms. Object "${idOrUuid}" is still in the scene.`,
   );
 }
+
+// ---------------------------------------------------------------------------
+// waitForAnimation — wait for an AnimationMixer clip to reach a state
+// ---------------------------------------------------------------------------
+
+/**
+ * - "playing": an action for the clip is running
+ * - "finished": an action for the clip reached its end (LoopOnce / finite repetitions)
+ * - "stopped": no action for the clip is running
+ */
+export type AnimationWaitState = 'playing' | 'finished' | 'stopped';
+
+export interface WaitForAnimationOptions {
+  /** Only consider the mixer rooted at this testId or uuid. */
+  root?: string;
+  /** Time to wait for the bridge to appear. Default: 30_000 */
+  bridgeTimeout?: number;
+  /** Poll interval in ms. Default: 100 */
+  pollIntervalMs?: number;
+  /** Overall timeout in ms (after bridge is ready). Default: 10_000 */
+  timeout?: number;
+}
+
+/**
+ * Wait until an animation clip on a tracked AnimationMixer reaches the given
+ * state. Mixers are tracked via `useR3FAnimationMixer` / `r3fRegisterMixer`
+ * or `userData.animationMixer`.
+ *
+ * @param page      Playwright Page instance
+ * @param clipName  AnimationClip name
+ * @param state     Target state. Default: "finished"
+ * @param options   Root filter and timing options
+ * @returns         The matching action state
+ * @throws          If the state is not reached before the timeout, or no
+ *                  tracked mixer has an action for `clipName`
+ *
+ * @example
+ * ```ts
+ * await r3f.click('open-door');
+ * await r3f.waitForAnimation('DoorOpen', 'finished');
+ * ```
+ */
+export async function waitForAnimation(
+  page: Page,
+  clipName: string,
+  state: AnimationWaitState = 'finished',
+  options: WaitForAnimationOptions & { canvasId?: string } = {},
+): Promise<AnimationActionState> {
+  const {
+    root,
+    bridgeTimeout = 30_000,
+    pollIntervalMs = 100,
+    timeout = 10_000,
+    canvasId,
+  } = options;
+
+  await waitForReadyBridge(page, bridgeTimeout, canvasId);
+
+  const deadline = Date.now() + timeout;
+  let last: AnimationActionState[] = [];
+
+  while (Date.now() < deadline) {
+    last = await page.evaluate(([r, cid]) => {
+      const api = cid ? window.__R3F_DOM_INSTANCES__?.[cid] : window.__R3F_DOM__;
+      if (!api) return [];
+      return api.getAnimations(r ?? undefined);
+    }, [root ?? null, canvasId ?? null] as const);
+
+    const actions = last.filter((a) => a.clipName === clipName);
+    if (state === 'stopped') {
+      // The clip must have an action, so a misspelled name does not pass
+      if (actions.length > 0 && !actions.some((a) => a.running)) return actions[0];
+    } else {
+      const match = actions.find((a) => (state === 'playing' ? a.running : a.finished));
+      if (match) return match;
+    }
+
+    await page.waitForTimeout(pollIntervalMs);
+  }
+
+  const clips = last.map((a) =>
+    `${a.clipName} (${a.running ? 'running' : a.finished ? 'finished' : 'stopped'}, t=${a.time.toFixed(2)}/${a.duration.toFixed(2)})`,
+  );
+  const known = last.some((a) => a.clipName === clipName);
+  throw new Error(
+    `waitForAnimation timed out after ${timeout}ms. Clip "${clipName}" ` +
+    `${known ? `did not reach "${state}"` : 'has no action on any tracked mixer'}` +
+    `${root ? ` on "${root}"` : ''}. ` +
+    (clips.length > 0 ? `Tracked actions: ${clips.join(', ')}.` : 'No animation mixers are tracked.'),
+  );
+}